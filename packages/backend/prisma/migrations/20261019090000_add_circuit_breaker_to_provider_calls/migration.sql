@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "CircuitState" AS ENUM ('CLOSED', 'OPEN', 'HALF_OPEN');
+
+-- AlterTable
+ALTER TABLE "provider_calls" ADD COLUMN "circuitState" "CircuitState",
+ADD COLUMN "shortCircuited" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,22 @@
+-- AlterEnum
+ALTER TYPE "ProviderType" ADD VALUE 'OPENAI_COMPATIBLE';
+
+-- CreateTable
+CREATE TABLE "provider_configs" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "provider" "ProviderType" NOT NULL,
+    "baseUrl" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "encryptedApiKey" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "provider_configs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "provider_configs_tenantId_provider_key" ON "provider_configs"("tenantId", "provider");
+
+-- AddForeignKey
+ALTER TABLE "provider_configs" ADD CONSTRAINT "provider_configs_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
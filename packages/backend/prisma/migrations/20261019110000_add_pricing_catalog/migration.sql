@@ -0,0 +1,58 @@
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN "pricingPlanId" TEXT,
+ADD COLUMN "pricingMarkupPercent" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "provider_calls" ADD COLUMN "model" TEXT;
+
+-- CreateTable
+CREATE TABLE "pricing_plans" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "markupPercent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "pricing_plans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "pricing_rates" (
+    "id" TEXT NOT NULL,
+    "planId" TEXT,
+    "tenantId" TEXT,
+    "provider" "ProviderType" NOT NULL,
+    "model" TEXT,
+    "inputPricePerKTokens" DOUBLE PRECISION NOT NULL,
+    "outputPricePerKTokens" DOUBLE PRECISION NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "effectiveTo" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "pricing_rates_pkey" PRIMARY KEY ("id"),
+    -- A rate belongs to a plan or is a tenant override, never both
+    CONSTRAINT "pricing_rates_scope_check" CHECK (("planId" IS NULL) <> ("tenantId" IS NULL))
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pricing_plans_name_key" ON "pricing_plans"("name");
+
+-- At most one default plan
+CREATE UNIQUE INDEX "pricing_plans_single_default" ON "pricing_plans"("isDefault") WHERE "isDefault";
+
+-- CreateIndex
+CREATE INDEX "pricing_rates_planId_provider_effectiveFrom_idx" ON "pricing_rates"("planId", "provider", "effectiveFrom");
+
+-- CreateIndex
+CREATE INDEX "pricing_rates_tenantId_provider_effectiveFrom_idx" ON "pricing_rates"("tenantId", "provider", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "tenants" ADD CONSTRAINT "tenants_pricingPlanId_fkey" FOREIGN KEY ("pricingPlanId") REFERENCES "pricing_plans"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pricing_rates" ADD CONSTRAINT "pricing_rates_planId_fkey" FOREIGN KEY ("planId") REFERENCES "pricing_plans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pricing_rates" ADD CONSTRAINT "pricing_rates_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "BudgetPeriod" AS ENUM ('DAILY', 'MONTHLY');
+
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN "dailySoftLimitCents" INTEGER,
+ADD COLUMN "dailyHardLimitCents" INTEGER,
+ADD COLUMN "monthlySoftLimitCents" INTEGER,
+ADD COLUMN "monthlyHardLimitCents" INTEGER;
+
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN "dailySoftLimitCents" INTEGER,
+ADD COLUMN "dailyHardLimitCents" INTEGER,
+ADD COLUMN "monthlySoftLimitCents" INTEGER,
+ADD COLUMN "monthlyHardLimitCents" INTEGER;
+
+-- CreateTable
+CREATE TABLE "budget_alerts" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "agentId" TEXT,
+    "scopeKey" TEXT NOT NULL,
+    "period" "BudgetPeriod" NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "limitCents" INTEGER NOT NULL,
+    "spentCents" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "budget_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "budget_alerts_tenantId_scopeKey_period_periodStart_limitCents_key" ON "budget_alerts"("tenantId", "scopeKey", "period", "periodStart", "limitCents");
+
+-- CreateIndex
+CREATE INDEX "budget_alerts_tenantId_createdAt_idx" ON "budget_alerts"("tenantId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "budget_alerts" ADD CONSTRAINT "budget_alerts_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "tenant_tools" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "parameters" JSONB NOT NULL,
+    "endpointUrl" TEXT NOT NULL,
+    "encryptedSigningSecret" TEXT NOT NULL,
+    "timeoutMs" INTEGER NOT NULL DEFAULT 5000,
+    "maxPayloadBytes" INTEGER NOT NULL DEFAULT 10240,
+    "costCents" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tenant_tools_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tenant_tools_tenantId_name_key" ON "tenant_tools"("tenantId", "name");
+
+-- AddForeignKey
+ALTER TABLE "tenant_tools" ADD CONSTRAINT "tenant_tools_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
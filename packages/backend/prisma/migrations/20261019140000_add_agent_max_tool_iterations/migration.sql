@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN "maxToolIterations" INTEGER NOT NULL DEFAULT 5;
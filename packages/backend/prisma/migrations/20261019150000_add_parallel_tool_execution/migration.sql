@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN "maxParallelTools" INTEGER NOT NULL DEFAULT 4;
+
+-- CreateIndex
+CREATE INDEX "tool_executions_messageId_idx" ON "tool_executions"("messageId");
@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "ProviderCallPurpose" AS ENUM ('CHAT', 'SUMMARY');
+
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN "contextWindowTokens" INTEGER;
+
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN "contextSummary" TEXT,
+ADD COLUMN "contextSummaryThroughSeq" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "contextSummaryUpdatedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "provider_calls" ADD COLUMN "purpose" "ProviderCallPurpose" NOT NULL DEFAULT 'CHAT';
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN "captureProviderBodies" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "providerCaptureRedactions" JSONB NOT NULL DEFAULT '[]',
+ADD COLUMN "providerCaptureMaxBytes" INTEGER NOT NULL DEFAULT 16384;
@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "RoutingPolicyType" AS ENUM ('WEIGHTED', 'LOWEST_LATENCY', 'CHEAPEST', 'FAILOVER');
+
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN "routingPolicy" JSONB;
+
+-- AlterTable
+ALTER TABLE "provider_calls" ADD COLUMN "routingPolicy" "RoutingPolicyType",
+ADD COLUMN "routingReason" TEXT;
@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "ProviderCallStatus" ADD VALUE 'CANCELLED';
+
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN "hedgingEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "hedgeAfterMs" INTEGER;
+
+-- AlterTable
+ALTER TABLE "provider_calls" ADD COLUMN "isHedge" BOOLEAN NOT NULL DEFAULT false;
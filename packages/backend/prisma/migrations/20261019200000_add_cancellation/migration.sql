@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "ToolExecutionStatus" ADD VALUE 'CANCELLED';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN "responseSchema" JSONB;
+
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN "structuredOutput" JSONB;
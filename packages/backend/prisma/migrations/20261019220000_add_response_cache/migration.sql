@@ -0,0 +1,34 @@
+-- AlterEnum
+ALTER TYPE "ProviderCallStatus" ADD VALUE 'CACHE_HIT';
+
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN "responseCacheEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "responseCacheTtlSeconds" INTEGER NOT NULL DEFAULT 3600;
+
+-- AlterTable
+ALTER TABLE "provider_calls" ADD COLUMN "cacheChecked" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "response_cache_entries" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "agentId" TEXT NOT NULL,
+    "cacheKey" TEXT NOT NULL,
+    "provider" "ProviderType" NOT NULL,
+    "response" JSONB NOT NULL,
+    "structuredOutput" JSONB,
+    "hitCount" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "response_cache_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "response_cache_entries_tenantId_agentId_cacheKey_key" ON "response_cache_entries"("tenantId", "agentId", "cacheKey");
+
+-- CreateIndex
+CREATE INDEX "response_cache_entries_agentId_idx" ON "response_cache_entries"("agentId");
+
+-- AddForeignKey
+ALTER TABLE "response_cache_entries" ADD CONSTRAINT "response_cache_entries_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "agents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,66 @@
+-- CreateEnum
+CREATE TYPE "AgentVersionStatus" AS ENUM ('DRAFT', 'PUBLISHED', 'ARCHIVED');
+
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN "publishedVersion" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN "agentVersion" INTEGER;
+
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN "agentVersion" INTEGER;
+
+-- AlterTable
+ALTER TABLE "provider_calls" ADD COLUMN "agentVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "agent_versions" (
+    "id" TEXT NOT NULL,
+    "agentId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "status" "AgentVersionStatus" NOT NULL DEFAULT 'DRAFT',
+    "config" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "publishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "agent_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "agent_versions_agentId_version_key" ON "agent_versions"("agentId", "version");
+
+-- AddForeignKey
+ALTER TABLE "agent_versions" ADD CONSTRAINT "agent_versions_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "agents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing agents: their current configuration becomes version 1, published
+INSERT INTO "agent_versions" ("id", "agentId", "version", "status", "config", "createdAt", "publishedAt")
+SELECT
+    gen_random_uuid()::text,
+    a."id",
+    1,
+    'PUBLISHED',
+    jsonb_build_object(
+        'primaryProvider', a."primaryProvider",
+        'fallbackProvider', a."fallbackProvider",
+        'routingPolicy', a."routingPolicy",
+        'hedgingEnabled', a."hedgingEnabled",
+        'hedgeAfterMs', a."hedgeAfterMs",
+        'responseCacheEnabled', a."responseCacheEnabled",
+        'responseCacheTtlSeconds', a."responseCacheTtlSeconds",
+        'systemPrompt', a."systemPrompt",
+        'temperature', a."temperature",
+        'maxTokens', a."maxTokens",
+        'responseSchema', a."responseSchema",
+        'enabledTools', a."enabledTools",
+        'maxToolIterations', a."maxToolIterations",
+        'maxParallelTools', a."maxParallelTools",
+        'contextWindowTokens', a."contextWindowTokens",
+        'voiceEnabled', a."voiceEnabled",
+        'voiceConfig', a."voiceConfig"
+    ),
+    a."updatedAt",
+    a."updatedAt"
+FROM "agents" a;
+
+-- Existing sessions run on it
+UPDATE "sessions" SET "agentVersion" = 1;
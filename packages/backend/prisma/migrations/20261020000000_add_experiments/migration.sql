@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "ExperimentStatus" AS ENUM ('RUNNING', 'CONCLUDED');
+
+-- CreateEnum
+CREATE TYPE "MessageFeedback" AS ENUM ('POSITIVE', 'NEGATIVE');
+
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN "feedback" "MessageFeedback",
+ADD COLUMN "feedbackComment" TEXT,
+ADD COLUMN "feedbackAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN "experimentId" TEXT,
+ADD COLUMN "experimentVariant" TEXT;
+
+-- CreateTable
+CREATE TABLE "experiments" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "agentId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "status" "ExperimentStatus" NOT NULL DEFAULT 'RUNNING',
+    "variants" JSONB NOT NULL,
+    "winningVariant" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "concludedAt" TIMESTAMP(3),
+
+    CONSTRAINT "experiments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "experiments_tenantId_agentId_idx" ON "experiments"("tenantId", "agentId");
+
+-- One running experiment per agent
+CREATE UNIQUE INDEX "one_running_experiment_per_agent" ON "experiments"("agentId") WHERE "status" = 'RUNNING';
+
+-- CreateIndex
+CREATE INDEX "sessions_experimentId_idx" ON "sessions"("experimentId");
+
+-- AddForeignKey
+ALTER TABLE "experiments" ADD CONSTRAINT "experiments_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "agents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_experimentId_fkey" FOREIGN KEY ("experimentId") REFERENCES "experiments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "EvaluationRunStatus" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED');
+
+-- AlterEnum
+ALTER TYPE "JobType" ADD VALUE 'RUN_EVALUATION';
+
+-- CreateTable
+CREATE TABLE "evaluation_suites" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "agentId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "cases" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "evaluation_suites_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "evaluation_runs" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "agentId" TEXT NOT NULL,
+    "suiteId" TEXT NOT NULL,
+    "agentVersion" INTEGER NOT NULL,
+    "status" "EvaluationRunStatus" NOT NULL DEFAULT 'PENDING',
+    "jobId" TEXT,
+    "score" DOUBLE PRECISION,
+    "passedCases" INTEGER,
+    "totalCases" INTEGER NOT NULL,
+    "report" JSONB,
+    "errorMessage" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "evaluation_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "evaluation_suites_agentId_name_key" ON "evaluation_suites"("agentId", "name");
+
+-- CreateIndex
+CREATE INDEX "evaluation_suites_tenantId_agentId_idx" ON "evaluation_suites"("tenantId", "agentId");
+
+-- CreateIndex
+CREATE INDEX "evaluation_runs_suiteId_createdAt_idx" ON "evaluation_runs"("suiteId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "evaluation_runs_tenantId_agentId_idx" ON "evaluation_runs"("tenantId", "agentId");
+
+-- AddForeignKey
+ALTER TABLE "evaluation_suites" ADD CONSTRAINT "evaluation_suites_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "agents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "evaluation_runs" ADD CONSTRAINT "evaluation_runs_agentId_fkey" FOREIGN KEY ("agentId") REFERENCES "agents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "evaluation_runs" ADD CONSTRAINT "evaluation_runs_suiteId_fkey" FOREIGN KEY ("suiteId") REFERENCES "evaluation_suites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
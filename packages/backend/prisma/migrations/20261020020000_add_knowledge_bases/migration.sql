@@ -0,0 +1,74 @@
+-- CreateEnum
+CREATE TYPE "KnowledgeDocumentFormat" AS ENUM ('TEXT', 'MARKDOWN', 'HTML', 'PDF_TEXT');
+
+-- AlterTable
+ALTER TABLE "agents" ADD COLUMN "knowledgeBaseIds" JSONB NOT NULL DEFAULT '[]';
+
+-- Existing versions had no knowledge bases
+UPDATE "agent_versions" SET "config" = "config" || '{"knowledgeBaseIds": []}'::jsonb;
+
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN "citations" JSONB;
+
+-- CreateTable
+CREATE TABLE "knowledge_bases" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "knowledge_bases_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "knowledge_documents" (
+    "id" TEXT NOT NULL,
+    "knowledgeBaseId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "format" "KnowledgeDocumentFormat" NOT NULL,
+    "content" TEXT NOT NULL,
+    "chunkCount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "knowledge_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "knowledge_chunks" (
+    "id" TEXT NOT NULL,
+    "knowledgeBaseId" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "terms" TEXT[],
+    "termFrequencies" JSONB NOT NULL,
+    "length" INTEGER NOT NULL,
+
+    CONSTRAINT "knowledge_chunks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "knowledge_bases_tenantId_name_key" ON "knowledge_bases"("tenantId", "name");
+
+-- CreateIndex
+CREATE INDEX "knowledge_documents_knowledgeBaseId_idx" ON "knowledge_documents"("knowledgeBaseId");
+
+-- CreateIndex
+CREATE INDEX "knowledge_chunks_knowledgeBaseId_idx" ON "knowledge_chunks"("knowledgeBaseId");
+
+-- CreateIndex
+CREATE INDEX "knowledge_chunks_terms_idx" ON "knowledge_chunks" USING GIN ("terms");
+
+-- AddForeignKey
+ALTER TABLE "knowledge_bases" ADD CONSTRAINT "knowledge_bases_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "knowledge_documents" ADD CONSTRAINT "knowledge_documents_knowledgeBaseId_fkey" FOREIGN KEY ("knowledgeBaseId") REFERENCES "knowledge_bases"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "knowledge_chunks" ADD CONSTRAINT "knowledge_chunks_knowledgeBaseId_fkey" FOREIGN KEY ("knowledgeBaseId") REFERENCES "knowledge_bases"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "knowledge_chunks" ADD CONSTRAINT "knowledge_chunks_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "knowledge_documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -28,12 +28,33 @@ async function main() {
   await prisma.audioArtifact.deleteMany();
   await prisma.session.deleteMany();
   await prisma.job.deleteMany();
+  await prisma.agentVersion.deleteMany();
   await prisma.agent.deleteMany();
   await prisma.apiKey.deleteMany();
   await prisma.tenant.deleteMany();
+  await prisma.pricingRate.deleteMany();
+  await prisma.pricingPlan.deleteMany();
 
   console.log('Cleaned existing data\n');
 
+  // Default pricing plan mirroring the built-in list prices
+  await prisma.pricingPlan.create({
+    data: {
+      name: 'Standard',
+      description: 'Default list prices',
+      isDefault: true,
+      rates: {
+        create: [
+          { provider: 'VENDOR_A', inputPricePerKTokens: 0.002, outputPricePerKTokens: 0.004 },
+          { provider: 'VENDOR_B', inputPricePerKTokens: 0.003, outputPricePerKTokens: 0.006 },
+          { provider: 'OPENAI_COMPATIBLE', inputPricePerKTokens: 0.0025, outputPricePerKTokens: 0.01 },
+        ].map((rate) => ({ ...rate, effectiveFrom: new Date('2026-01-01T00:00:00Z') })),
+      },
+    },
+  });
+
+  console.log('✅ Created default pricing plan: Standard\n');
+
   // Create Tenant 1: Acme Corporation
   const acmeApiKey = generateApiKey();
   const acmeTenant = await prisma.tenant.create({
@@ -186,6 +207,38 @@ Be patient and encouraging. Break down complex topics into simple steps. Use exa
   console.log(`   Tools: InvoiceLookup`);
   console.log(`   Voice: Enabled\n`);
 
+  // Each agent's initial configuration is its published version 1
+  for (const agent of [supportBot, salesBot, onboardingBot]) {
+    await prisma.agentVersion.create({
+      data: {
+        agentId: agent.id,
+        version: 1,
+        status: 'PUBLISHED',
+        config: {
+          primaryProvider: agent.primaryProvider,
+          fallbackProvider: agent.fallbackProvider,
+          routingPolicy: null,
+          hedgingEnabled: agent.hedgingEnabled,
+          hedgeAfterMs: agent.hedgeAfterMs,
+          responseCacheEnabled: agent.responseCacheEnabled,
+          responseCacheTtlSeconds: agent.responseCacheTtlSeconds,
+          systemPrompt: agent.systemPrompt,
+          temperature: agent.temperature,
+          maxTokens: agent.maxTokens,
+          responseSchema: null,
+          enabledTools: agent.enabledTools ?? [],
+          maxToolIterations: agent.maxToolIterations,
+          maxParallelTools: agent.maxParallelTools,
+          contextWindowTokens: agent.contextWindowTokens,
+          voiceEnabled: agent.voiceEnabled,
+          voiceConfig: agent.voiceConfig ?? null,
+        },
+        publishedAt: agent.createdAt,
+      },
+    });
+  }
+  console.log('✅ Published version 1 of each agent\n');
+
   // Create sample sessions and messages for demonstration
   console.log('Creating sample session data...\n');
 
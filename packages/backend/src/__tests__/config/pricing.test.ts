@@ -3,13 +3,21 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { calculateCost, getPricingSnapshot, PRICING } from '../../config/pricing.js';
+import {
+  calculateCost,
+  calculateCostWithRate,
+  findEffectiveRate,
+  getPricingSnapshot,
+  PRICING,
+  type EffectiveRate,
+} from '../../config/pricing.js';
 
 describe('Pricing', () => {
   describe('PRICING constants', () => {
     it('should have pricing for all providers', () => {
       expect(PRICING.VENDOR_A).toBeDefined();
       expect(PRICING.VENDOR_B).toBeDefined();
+      expect(PRICING.OPENAI_COMPATIBLE).toBeDefined();
     });
 
     it('should have input and output prices', () => {
@@ -33,6 +41,12 @@ describe('Pricing', () => {
       expect(cost).toBe(1); // Ceiling of 0.6 is 1 cent
     });
 
+    it('should calculate cost for OPENAI_COMPATIBLE', () => {
+      // 1000 input at $0.0025/1K + 1000 output at $0.01/1K = $0.0125 = 1.25 cents, ceil to 2
+      const cost = calculateCost('OPENAI_COMPATIBLE', 1000, 1000);
+      expect(cost).toBe(2);
+    });
+
     it('should return higher cost for larger token counts', () => {
       const smallCost = calculateCost('VENDOR_A', 100, 100);
       const largeCost = calculateCost('VENDOR_A', 10000, 10000);
@@ -73,4 +87,70 @@ describe('Pricing', () => {
       expect(vendorB.inputPricePerKTokens).toBe(0.003);
     });
   });
+
+  describe('calculateCostWithRate', () => {
+    const rate = { inputPricePerKTokens: 0.01, outputPricePerKTokens: 0.03 };
+
+    it('should match calculateCost for list prices without markup', () => {
+      expect(calculateCostWithRate(PRICING.VENDOR_B, 1234, 5678)).toBe(
+        calculateCost('VENDOR_B', 1234, 5678)
+      );
+    });
+
+    it('should apply the markup percentage', () => {
+      // 1000 in at $0.01 + 1000 out at $0.03 = $0.04 = 4 cents; +10% = 4.4, ceil to 5
+      expect(calculateCostWithRate(rate, 1000, 1000)).toBe(4);
+      expect(calculateCostWithRate(rate, 1000, 1000, 10)).toBe(5);
+    });
+
+    it('should not round up on floating point noise', () => {
+      // $1.00 * 1.1 is 1.1000000000000001 in floating point
+      expect(calculateCostWithRate({ inputPricePerKTokens: 1, outputPricePerKTokens: 0 }, 1000, 0, 10)).toBe(110);
+    });
+  });
+
+  describe('findEffectiveRate', () => {
+    const rate = (
+      id: string,
+      model: string | null,
+      from: string,
+      to: string | null
+    ): EffectiveRate => ({
+      id,
+      model,
+      inputPricePerKTokens: 0.001,
+      outputPricePerKTokens: 0.002,
+      effectiveFrom: new Date(from),
+      effectiveTo: to ? new Date(to) : null,
+    });
+
+    const rates = [
+      rate('old', null, '2026-01-01T00:00:00Z', '2026-06-01T00:00:00Z'),
+      rate('new', null, '2026-06-01T00:00:00Z', null),
+      rate('large', 'vendorb-large', '2026-03-01T00:00:00Z', null),
+    ];
+
+    it('should pick the rate whose window contains the instant', () => {
+      expect(findEffectiveRate(rates, null, new Date('2026-02-01T00:00:00Z'))?.id).toBe('old');
+      expect(findEffectiveRate(rates, null, new Date('2026-07-01T00:00:00Z'))?.id).toBe('new');
+    });
+
+    it('should treat effectiveTo as exclusive', () => {
+      expect(findEffectiveRate(rates, null, new Date('2026-06-01T00:00:00Z'))?.id).toBe('new');
+    });
+
+    it('should prefer a model-specific rate over a provider-wide one', () => {
+      expect(findEffectiveRate(rates, 'vendorb-large', new Date('2026-07-01T00:00:00Z'))?.id).toBe('large');
+    });
+
+    it('should fall back to the provider-wide rate for other models', () => {
+      expect(findEffectiveRate(rates, 'vendorb-small', new Date('2026-07-01T00:00:00Z'))?.id).toBe('new');
+      // Model-specific rate not yet in effect
+      expect(findEffectiveRate(rates, 'vendorb-large', new Date('2026-02-01T00:00:00Z'))?.id).toBe('old');
+    });
+
+    it('should return undefined before any rate took effect', () => {
+      expect(findEffectiveRate(rates, null, new Date('2025-12-31T00:00:00Z'))).toBeUndefined();
+    });
+  });
 });
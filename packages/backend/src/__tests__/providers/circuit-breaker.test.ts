@@ -0,0 +1,153 @@
+/**
+ * Circuit Breaker Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CircuitBreaker } from '../../providers/circuit-breaker.js';
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    child: () => ({
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    }),
+  },
+}));
+
+describe('CircuitBreaker', () => {
+  const options = {
+    failureThreshold: 3,
+    errorRateThreshold: 0.5,
+    minimumRequests: 6,
+    windowSize: 10,
+    openDurationMs: 1000,
+  };
+  const healthy = () => Promise.resolve(true);
+
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    breaker = new CircuitBreaker('VENDOR_A', options);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function tripOpen() {
+    for (let i = 0; i < options.failureThreshold; i++) {
+      breaker.recordFailure();
+    }
+  }
+
+  it('should start closed and allow requests', async () => {
+    expect(breaker.getState()).toBe('CLOSED');
+    expect(await breaker.allowRequest(healthy)).toBe(true);
+  });
+
+  it('should open after consecutive failures', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('CLOSED');
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('OPEN');
+  });
+
+  it('should open when the error rate crosses the threshold', () => {
+    // Alternating outcomes never reach 3 consecutive failures
+    for (let i = 0; i < 3; i++) {
+      breaker.recordSuccess();
+      breaker.recordFailure();
+    }
+
+    expect(breaker.snapshot().errorRate).toBe(0.5);
+    expect(breaker.getState()).toBe('OPEN');
+  });
+
+  it('should not trip on error rate below the minimum request count', () => {
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('CLOSED');
+  });
+
+  it('should short-circuit requests while open without probing', async () => {
+    tripOpen();
+    const healthCheck = vi.fn().mockResolvedValue(true);
+
+    expect(await breaker.allowRequest(healthCheck)).toBe(false);
+    expect(healthCheck).not.toHaveBeenCalled();
+  });
+
+  it('should move to half-open after a healthy probe and close on success', async () => {
+    tripOpen();
+    vi.advanceTimersByTime(options.openDurationMs);
+
+    expect(await breaker.allowRequest(healthy)).toBe(true);
+    expect(breaker.getState()).toBe('HALF_OPEN');
+
+    // Only one trial request at a time
+    expect(await breaker.allowRequest(healthy)).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('CLOSED');
+    expect(breaker.snapshot().consecutiveFailures).toBe(0);
+  });
+
+  it('should let the next request be the trial once a trial is released', async () => {
+    tripOpen();
+    vi.advanceTimersByTime(options.openDurationMs);
+
+    expect(await breaker.allowRequest(healthy)).toBe(true);
+    breaker.releaseTrial();
+
+    expect(breaker.getState()).toBe('HALF_OPEN');
+    expect(await breaker.allowRequest(healthy)).toBe(true);
+    expect(await breaker.allowRequest(healthy)).toBe(false);
+  });
+
+  it('should re-open when the half-open trial fails', async () => {
+    tripOpen();
+    vi.advanceTimersByTime(options.openDurationMs);
+
+    expect(await breaker.allowRequest(healthy)).toBe(true);
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('OPEN');
+    expect(await breaker.allowRequest(healthy)).toBe(false);
+  });
+
+  it('should stay open for another cool-down when the probe fails', async () => {
+    tripOpen();
+    vi.advanceTimersByTime(options.openDurationMs);
+
+    expect(await breaker.allowRequest(() => Promise.resolve(false))).toBe(false);
+    expect(breaker.getState()).toBe('OPEN');
+
+    // Probe throwing counts as unhealthy too
+    vi.advanceTimersByTime(options.openDurationMs);
+    expect(await breaker.allowRequest(() => Promise.reject(new Error('down')))).toBe(false);
+    expect(breaker.getState()).toBe('OPEN');
+  });
+
+  it('should share a single probe between concurrent callers', async () => {
+    tripOpen();
+    vi.advanceTimersByTime(options.openDurationMs);
+    const healthCheck = vi.fn().mockResolvedValue(true);
+
+    const results = await Promise.all([
+      breaker.allowRequest(healthCheck),
+      breaker.allowRequest(healthCheck),
+    ]);
+
+    expect(healthCheck).toHaveBeenCalledTimes(1);
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+});
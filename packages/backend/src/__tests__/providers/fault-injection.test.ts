@@ -0,0 +1,221 @@
+/**
+ * Mock Vendor Fault Injection Tests
+ * Scripted scenarios replayed through the real mock adapters and the orchestrator
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { executeWithResilience } from '../../providers/orchestrator.js';
+import {
+  clearMockVendorScenarios,
+  listMockVendorScenarios,
+  setMockVendorScenario,
+  takeScriptedCall,
+  type MockVendorScenario,
+} from '../../providers/fault-injection.js';
+import type { ProviderRequest } from '../../providers/types.js';
+
+// Mock config
+vi.mock('../../config/index.js', () => ({
+  config: {
+    retry: {
+      maxAttempts: 3,
+      initialDelayMs: 1,
+      maxDelayMs: 5,
+      backoffMultiplier: 2,
+      budgetMs: 10000,
+    },
+    rateLimit: {
+      providers: {
+        VENDOR_A: { requestsPerSecond: 1000, burst: 1000 },
+        VENDOR_B: { requestsPerSecond: 1000, burst: 1000 },
+      },
+      perTenant: { requestsPerSecond: 0, burst: 0 },
+    },
+    providers: {
+      VENDOR_A: { connectTimeoutMs: 50, requestTimeoutMs: 50 },
+      VENDOR_B: { connectTimeoutMs: 50, requestTimeoutMs: 50 },
+    },
+    mockVendors: { randomFaults: false, faultInjectionApi: true },
+    circuitBreaker: {
+      failureThreshold: 100,
+      errorRateThreshold: 1,
+      minimumRequests: 100,
+      windowSize: 100,
+      openDurationMs: 1000,
+    },
+  },
+}));
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    child: () => ({
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    }),
+  },
+}));
+
+const TENANT_ID = 'tenant-1';
+const AGENT_ID = 'agent-1';
+
+const request: ProviderRequest = {
+  systemPrompt: 'You are a helpful assistant.',
+  messages: [{ role: 'user', content: 'Hello' }],
+  temperature: 0.7,
+  maxTokens: 100,
+  scope: { tenantId: TENANT_ID, agentId: AGENT_ID },
+};
+
+function scenario(overrides: Partial<MockVendorScenario>): MockVendorScenario {
+  return { latencyMs: 0, faults: [], repeat: false, retryAfterMs: 1, toolCalls: [], ...overrides };
+}
+
+afterEach(() => {
+  clearMockVendorScenarios();
+});
+
+describe('takeScriptedCall', () => {
+  it('plays the faults in order, then succeeds', () => {
+    setMockVendorScenario('VENDOR_A', TENANT_ID, null, scenario({ faults: ['server_error', 'timeout'] }));
+
+    const faults = [1, 2, 3].map(() => takeScriptedCall('VENDOR_A', request.scope)?.fault);
+
+    expect(faults).toEqual(['server_error', 'timeout', 'ok']);
+    expect(listMockVendorScenarios(TENANT_ID)[0].callCount).toBe(3);
+  });
+
+  it('loops the faults when the scenario repeats', () => {
+    setMockVendorScenario('VENDOR_A', TENANT_ID, null, scenario({ faults: ['rate_limit', 'ok'], repeat: true }));
+
+    const faults = [1, 2, 3].map(() => takeScriptedCall('VENDOR_A', request.scope)?.fault);
+
+    expect(faults).toEqual(['rate_limit', 'ok', 'rate_limit']);
+  });
+
+  it('prefers the agent scenario over the tenant scenario', () => {
+    setMockVendorScenario('VENDOR_A', TENANT_ID, null, scenario({ reply: 'tenant' }));
+    setMockVendorScenario('VENDOR_A', TENANT_ID, AGENT_ID, scenario({ reply: 'agent' }));
+
+    expect(takeScriptedCall('VENDOR_A', request.scope)?.reply).toBe('agent');
+    expect(takeScriptedCall('VENDOR_A', { tenantId: TENANT_ID, agentId: 'other' })?.reply).toBe('tenant');
+  });
+
+  it('does not apply to other tenants, other providers or unscoped requests', () => {
+    setMockVendorScenario('VENDOR_A', TENANT_ID, null, scenario({ reply: 'scripted' }));
+
+    expect(takeScriptedCall('VENDOR_A', { tenantId: 'tenant-2', agentId: AGENT_ID })).toBeUndefined();
+    expect(takeScriptedCall('VENDOR_B', request.scope)).toBeUndefined();
+    expect(takeScriptedCall('VENDOR_A', undefined)).toBeUndefined();
+  });
+});
+
+describe('Scripted scenarios through executeWithResilience', () => {
+  it('returns the canned reply', async () => {
+    setMockVendorScenario('VENDOR_A', TENANT_ID, null, scenario({ reply: 'Scripted answer' }));
+
+    const result = await executeWithResilience(request, { primaryProvider: 'VENDOR_A' });
+
+    expect(result.success).toBe(true);
+    expect(result.response?.content).toBe('Scripted answer');
+  });
+
+  it('retries scripted 500s and succeeds on the next attempt', async () => {
+    setMockVendorScenario(
+      'VENDOR_A',
+      TENANT_ID,
+      null,
+      scenario({ faults: ['server_error', 'server_error'], reply: 'Recovered' })
+    );
+
+    const result = await executeWithResilience(request, { primaryProvider: 'VENDOR_A' });
+
+    expect(result.success).toBe(true);
+    expect(result.attemptNumber).toBe(3);
+    expect(result.response?.content).toBe('Recovered');
+  });
+
+  it('falls back when the primary keeps timing out', async () => {
+    setMockVendorScenario('VENDOR_A', TENANT_ID, null, scenario({ faults: ['timeout'], repeat: true }));
+    setMockVendorScenario('VENDOR_B', TENANT_ID, null, scenario({ reply: 'From fallback' }));
+
+    const result = await executeWithResilience(request, {
+      primaryProvider: 'VENDOR_A',
+      fallbackProvider: 'VENDOR_B',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.provider).toBe('VENDOR_B');
+    expect(result.isFallback).toBe(true);
+    expect(result.response?.content).toBe('From fallback');
+  });
+
+  it('retries scripted rate limits until the attempts run out', async () => {
+    setMockVendorScenario(
+      'VENDOR_B',
+      TENANT_ID,
+      null,
+      scenario({ faults: ['rate_limit'], repeat: true, retryAfterMs: 7 })
+    );
+
+    const result = await executeWithResilience(request, { primaryProvider: 'VENDOR_B' });
+
+    expect(result.success).toBe(false);
+    expect(result.attemptNumber).toBe(3);
+    expect(result.error?.code).toBe('RATE_LIMITED');
+  });
+
+  it('fails without retrying on a schema-invalid payload', async () => {
+    setMockVendorScenario('VENDOR_B', TENANT_ID, null, scenario({ faults: ['invalid_schema'] }));
+
+    const result = await executeWithResilience(request, { primaryProvider: 'VENDOR_B' });
+
+    expect(result.success).toBe(false);
+    expect(result.attemptNumber).toBe(1);
+    expect(result.error?.message).toMatch(/unexpected response format/);
+  });
+
+  it('forces tool calls, then answers the tool results', async () => {
+    setMockVendorScenario(
+      'VENDOR_B',
+      TENANT_ID,
+      null,
+      scenario({ toolCalls: [{ name: 'InvoiceLookup', args: { orderId: '42' } }] })
+    );
+
+    const first = await executeWithResilience(request, { primaryProvider: 'VENDOR_B' });
+    const toolCall = first.response?.toolCalls?.[0];
+
+    expect(toolCall).toMatchObject({ name: 'InvoiceLookup', args: { orderId: '42' } });
+
+    const second = await executeWithResilience(
+      {
+        ...request,
+        messages: [
+          ...request.messages,
+          { role: 'assistant', content: '', toolCalls: [toolCall!] },
+          { role: 'tool', content: '', toolResults: [{ id: toolCall!.id, result: { orderId: '42' } }] },
+        ],
+      },
+      { primaryProvider: 'VENDOR_B' }
+    );
+
+    expect(second.response?.toolCalls).toBeUndefined();
+    expect(second.response?.content).not.toBe('');
+  });
+
+  it('applies scripted faults to streaming calls', async () => {
+    setMockVendorScenario('VENDOR_A', TENANT_ID, null, scenario({ faults: ['invalid_schema'] }));
+
+    const result = await executeWithResilience(request, {
+      primaryProvider: 'VENDOR_A',
+      onDelta: () => {},
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.attemptNumber).toBe(1);
+    expect(result.error?.message).toMatch(/unexpected stream event/);
+  });
+});
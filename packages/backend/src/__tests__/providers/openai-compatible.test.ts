@@ -0,0 +1,267 @@
+/**
+ * OpenAI-compatible adapter tests
+ * Runs against a local stand-in server speaking the chat-completions format
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { OpenAICompatibleAdapter } from '../../providers/openai-compatible.adapter.js';
+import { ProviderError, RateLimitError, TimeoutError } from '../../utils/errors.js';
+import type { ProviderRequest, ProviderStreamChunk } from '../../providers/types.js';
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    child: () => ({
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    }),
+  },
+}));
+
+type Handler = (req: IncomingMessage, body: any, res: ServerResponse) => void;
+
+describe('OpenAICompatibleAdapter', () => {
+  let server: Server;
+  let baseUrl: string;
+  let handler: Handler;
+  let lastRequest: { headers: IncomingMessage['headers']; body: any; url?: string };
+
+  const request: ProviderRequest = {
+    systemPrompt: 'You are a helpful assistant.',
+    messages: [{ role: 'user', content: 'Hello there' }],
+    temperature: 0.5,
+    maxTokens: 100,
+  };
+
+  const createAdapter = (overrides: { apiKey?: string; timeoutMs?: number } = {}) =>
+    new OpenAICompatibleAdapter({
+      baseUrl: `${baseUrl}/`,
+      model: 'test-model',
+      apiKey: 'sk-test',
+      ...overrides,
+    });
+
+  const completion = (message: Record<string, unknown>) => ({
+    id: 'chatcmpl-1',
+    choices: [{ index: 0, message: { role: 'assistant', ...message }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 12, completion_tokens: 7, total_tokens: 19 },
+  });
+
+  const json = (res: ServerResponse, status: number, body: unknown, headers = {}) => {
+    res.writeHead(status, { 'content-type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        const body = raw ? JSON.parse(raw) : undefined;
+        lastRequest = { headers: req.headers, body, url: req.url };
+        handler(req, body, res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    handler = (_req, _body, res) => json(res, 200, completion({ content: 'Hi! How can I help?' }));
+  });
+
+  it('should send a chat-completions request and normalize the response', async () => {
+    const response = await createAdapter().sendMessage(request);
+
+    expect(lastRequest.url).toBe('/v1/chat/completions');
+    expect(lastRequest.headers.authorization).toBe('Bearer sk-test');
+    expect(lastRequest.body).toMatchObject({
+      model: 'test-model',
+      temperature: 0.5,
+      max_tokens: 100,
+      messages: [
+        { role: 'system', content: 'You are a helpful assistant.' },
+        { role: 'user', content: 'Hello there' },
+      ],
+    });
+    expect(lastRequest.body.stream).toBeUndefined();
+
+    expect(response.content).toBe('Hi! How can I help?');
+    expect(response.tokensIn).toBe(12);
+    expect(response.tokensOut).toBe(7);
+    expect(response.toolCalls).toBeUndefined();
+  });
+
+  it('should parse tool calls and send tool results back', async () => {
+    handler = (_req, _body, res) =>
+      json(
+        res,
+        200,
+        completion({
+          content: null,
+          tool_calls: [
+            {
+              id: 'call_1',
+              type: 'function',
+              function: { name: 'InvoiceLookup', arguments: '{"orderId":"12345"}' },
+            },
+          ],
+        })
+      );
+
+    const response = await createAdapter().sendMessage({
+      ...request,
+      messages: [
+        { role: 'user', content: 'Where is order 12345?' },
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [{ id: 'call_0', name: 'InvoiceLookup', args: { orderId: '1' } }],
+        },
+        { role: 'tool', content: '', toolResults: [{ id: 'call_0', result: { status: 'paid' } }] },
+      ],
+      tools: [{ name: 'InvoiceLookup', description: 'Look up', parameters: { type: 'object' } }],
+    });
+
+    expect(response.toolCalls).toEqual([
+      { id: 'call_1', name: 'InvoiceLookup', args: { orderId: '12345' } },
+    ]);
+    expect(lastRequest.body.tools[0]).toEqual({
+      type: 'function',
+      function: { name: 'InvoiceLookup', description: 'Look up', parameters: { type: 'object', properties: {} } },
+    });
+    expect(lastRequest.body.messages.slice(2)).toEqual([
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          {
+            id: 'call_0',
+            type: 'function',
+            function: { name: 'InvoiceLookup', arguments: '{"orderId":"1"}' },
+          },
+        ],
+      },
+      { role: 'tool', content: '{"status":"paid"}', tool_call_id: 'call_0' },
+    ]);
+  });
+
+  it('should map 429 to a RateLimitError with retry-after', async () => {
+    handler = (_req, _body, res) =>
+      json(res, 429, { error: { message: 'slow down' } }, { 'retry-after': '2' });
+
+    const error = await createAdapter().sendMessage(request).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterMs).toBe(2000);
+  });
+
+  it('should map 5xx to a ProviderError with the status code', async () => {
+    handler = (_req, _body, res) => json(res, 503, { error: { message: 'overloaded' } });
+
+    const error = await createAdapter().sendMessage(request).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.statusCode).toBe(503);
+  });
+
+  it('should time out slow endpoints', async () => {
+    handler = (_req, _body, res) => {
+      setTimeout(() => json(res, 200, completion({ content: 'late' })), 200);
+    };
+
+    const error = await createAdapter({ timeoutMs: 50 }).sendMessage(request).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+  });
+
+  it('should stream deltas and tool call fragments', async () => {
+    handler = (_req, _body, res) => {
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      const chunks = [
+        { choices: [{ index: 0, delta: { role: 'assistant', content: 'Let me ' } }] },
+        { choices: [{ index: 0, delta: { content: 'check.' } }] },
+        {
+          choices: [
+            {
+              index: 0,
+              delta: {
+                tool_calls: [
+                  { index: 0, id: 'call_1', function: { name: 'InvoiceLookup', arguments: '{"order' } },
+                ],
+              },
+            },
+          ],
+        },
+        {
+          choices: [
+            { index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: 'Id":"7"}' } }] } },
+          ],
+        },
+        { choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }] },
+        { choices: [], usage: { prompt_tokens: 20, completion_tokens: 9 } },
+      ];
+      for (const chunk of chunks) {
+        res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+      }
+      res.end('data: [DONE]\n\n');
+    };
+
+    const chunks: ProviderStreamChunk[] = [];
+    for await (const chunk of createAdapter().streamMessage(request)) {
+      chunks.push(chunk);
+    }
+
+    expect(lastRequest.body.stream).toBe(true);
+    expect(lastRequest.body.stream_options).toEqual({ include_usage: true });
+
+    const deltas = chunks.flatMap((c) => (c.type === 'delta' ? [c.content] : []));
+    expect(deltas).toEqual(['Let me ', 'check.']);
+
+    const done = chunks[chunks.length - 1];
+    expect(done.type).toBe('done');
+    if (done.type !== 'done') return;
+    expect(done.response.content).toBe('Let me check.');
+    expect(done.response.tokensIn).toBe(20);
+    expect(done.response.toolCalls).toEqual([
+      { id: 'call_1', name: 'InvoiceLookup', args: { orderId: '7' } },
+    ]);
+  });
+
+  it('should report the vendor-format exchange when asked to', async () => {
+    const onExchange = vi.fn();
+
+    await createAdapter().sendMessage({ ...request, onExchange });
+
+    expect(onExchange).toHaveBeenCalledTimes(1);
+    const exchange = onExchange.mock.calls[0][0];
+    expect(exchange.request).toEqual(lastRequest.body);
+    expect(exchange.response).toEqual(completion({ content: 'Hi! How can I help?' }));
+  });
+
+  it('should report the request without a response when the endpoint fails', async () => {
+    handler = (_req, _body, res) => json(res, 503, { error: { message: 'overloaded' } });
+    const onExchange = vi.fn();
+
+    await createAdapter().sendMessage({ ...request, onExchange }).catch(() => undefined);
+
+    expect(onExchange).toHaveBeenCalledWith({ request: lastRequest.body });
+  });
+
+  it('should report health from the models endpoint', async () => {
+    handler = (_req, _body, res) => json(res, 200, { data: [] });
+    expect(await createAdapter().healthCheck()).toBe(true);
+    expect(lastRequest.url).toBe('/v1/models');
+
+    handler = (_req, _body, res) => json(res, 401, { error: 'bad key' });
+    expect(await createAdapter().healthCheck()).toBe(false);
+  });
+});
@@ -2,10 +2,12 @@
  * Provider Orchestrator Tests
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { executeWithResilience } from '../../providers/orchestrator.js';
-import { ProviderError, RateLimitError, TimeoutError } from '../../utils/errors.js';
-import type { ProviderRequest } from '../../providers/types.js';
+import { getCircuitBreaker, type CircuitBreaker } from '../../providers/circuit-breaker.js';
+import { config } from '../../config/index.js';
+import { CancelledError, ProviderError, RateLimitError, TimeoutError } from '../../utils/errors.js';
+import type { ProviderAdapter, ProviderRequest, ProviderResponse } from '../../providers/types.js';
 
 // Mock the adapters
 vi.mock('../../providers/vendor-a.adapter.js', () => ({
@@ -32,10 +34,34 @@ vi.mock('../../config/index.js', () => ({
       initialDelayMs: 10,
       maxDelayMs: 100,
       backoffMultiplier: 2,
+      budgetMs: 10000,
+    },
+    rateLimit: {
+      providers: {
+        VENDOR_A: { requestsPerSecond: 1000, burst: 1000 },
+        VENDOR_B: { requestsPerSecond: 1000, burst: 1000 },
+        OPENAI_COMPATIBLE: { requestsPerSecond: 1000, burst: 1000 },
+      },
+      perTenant: { requestsPerSecond: 0, burst: 0 },
     },
     providers: {
       VENDOR_A: { connectTimeoutMs: 100, requestTimeoutMs: 1000 },
       VENDOR_B: { connectTimeoutMs: 100, requestTimeoutMs: 1000 },
+      OPENAI_COMPATIBLE: { connectTimeoutMs: 100, requestTimeoutMs: 1000 },
+    },
+    hedging: {
+      defaultAfterMs: 2000,
+      minAfterMs: 250,
+    },
+    structuredOutput: {
+      maxRetries: 1,
+    },
+    circuitBreaker: {
+      failureThreshold: 5,
+      errorRateThreshold: 0.5,
+      minimumRequests: 10,
+      windowSize: 20,
+      openDurationMs: 1000,
     },
   },
 }));
@@ -85,6 +111,464 @@ describe('Provider Orchestrator', () => {
   });
 });
 
+describe('Retry timing', () => {
+  const request: ProviderRequest = {
+    systemPrompt: 'You are a helpful assistant.',
+    messages: [{ role: 'user', content: 'Hello' }],
+    temperature: 0.7,
+    maxTokens: 100,
+  };
+  const response = { content: 'Hi', tokensIn: 1, tokensOut: 1, latencyMs: 1 };
+
+  function adapter(instanceKey: string, sendMessage: ProviderAdapter['sendMessage']): ProviderAdapter {
+    return {
+      name: 'VENDOR_A',
+      instanceKey,
+      sendMessage,
+      streamMessage: vi.fn(),
+      healthCheck: vi.fn().mockResolvedValue(true),
+    };
+  }
+
+  it('waits for the retry-after of a rate limited attempt', async () => {
+    const sendMessage = vi
+      .fn()
+      .mockRejectedValueOnce(new RateLimitError('Slow down', 150))
+      .mockResolvedValueOnce(response);
+    const startedAt = Date.now();
+
+    const result = await executeWithResilience(request, {
+      primaryProvider: 'VENDOR_A',
+      adapters: { VENDOR_A: adapter('retry-after', sendMessage) },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.attemptNumber).toBe(2);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(150);
+  });
+
+  it('stops retrying when the wait would pass the deadline', async () => {
+    const sendMessage = vi.fn().mockRejectedValue(new RateLimitError('Slow down', 5000));
+
+    const result = await executeWithResilience(request, {
+      primaryProvider: 'VENDOR_A',
+      adapters: { VENDOR_A: adapter('deadline-retry', sendMessage) },
+      deadline: Date.now() + 1000,
+    });
+
+    expect(result.success).toBe(false);
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(result.error).toMatchObject({ code: 'RATE_LIMITED', retryAfterMs: 5000 });
+  });
+
+  it('fails an attempt that runs past the deadline', async () => {
+    const sendMessage = vi.fn(() => new Promise<never>(() => {}));
+
+    const result = await executeWithResilience(request, {
+      primaryProvider: 'VENDOR_A',
+      adapters: { VENDOR_A: adapter('deadline-attempt', sendMessage) },
+      deadline: Date.now() + 50,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toMatch(/deadline/);
+  });
+});
+
+describe('Routing policies', () => {
+  const request: ProviderRequest = {
+    systemPrompt: 'You are a helpful assistant.',
+    messages: [{ role: 'user', content: 'Hello' }],
+    temperature: 0.7,
+    maxTokens: 100,
+  };
+  const response = { content: 'Hi', tokensIn: 1, tokensOut: 1, latencyMs: 1 };
+
+  function adapter(
+    name: ProviderAdapter['name'],
+    sendMessage: ProviderAdapter['sendMessage']
+  ): ProviderAdapter {
+    return {
+      name,
+      instanceKey: `routing-${name}`,
+      sendMessage,
+      streamMessage: vi.fn(),
+      healthCheck: vi.fn().mockResolvedValue(true),
+    };
+  }
+
+  it('fails over through every provider of the policy and records the decision', async () => {
+    const failing = vi.fn().mockRejectedValue(new ProviderError('Down', 'VENDOR_A'));
+    const succeeding = vi.fn().mockResolvedValue(response);
+
+    const result = await executeWithResilience(request, {
+      primaryProvider: 'VENDOR_A',
+      adapters: {
+        OPENAI_COMPATIBLE: adapter('OPENAI_COMPATIBLE', failing),
+        VENDOR_B: adapter('VENDOR_B', failing),
+        VENDOR_A: adapter('VENDOR_A', succeeding),
+      },
+      routingPolicy: {
+        type: 'FAILOVER',
+        providers: [{ provider: 'OPENAI_COMPATIBLE' }, { provider: 'VENDOR_B' }, { provider: 'VENDOR_A' }],
+      },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.provider).toBe('VENDOR_A');
+    expect(result.isFallback).toBe(true);
+    expect(result.routing).toMatchObject({
+      policy: 'FAILOVER',
+      order: ['OPENAI_COMPATIBLE', 'VENDOR_B', 'VENDOR_A'],
+    });
+  });
+
+  it('routes to the provider with the lowest recent p95 latency', async () => {
+    const slow = vi.fn().mockResolvedValue(response);
+    const fast = vi.fn().mockResolvedValue(response);
+
+    const result = await executeWithResilience(request, {
+      primaryProvider: 'VENDOR_A',
+      adapters: {
+        VENDOR_A: adapter('VENDOR_A', slow),
+        VENDOR_B: adapter('VENDOR_B', fast),
+      },
+      routingPolicy: {
+        type: 'LOWEST_LATENCY',
+        providers: [{ provider: 'VENDOR_A' }, { provider: 'VENDOR_B' }],
+      },
+      getStats: vi.fn().mockResolvedValue({
+        VENDOR_A: { sampleSize: 50, p90LatencyMs: 800, p95LatencyMs: 900 },
+        VENDOR_B: { sampleSize: 50, p90LatencyMs: 250, p95LatencyMs: 300 },
+      }),
+    });
+
+    expect(result.provider).toBe('VENDOR_B');
+    expect(result.isFallback).toBe(false);
+    expect(slow).not.toHaveBeenCalled();
+    expect(result.routing?.reason).toBe('Lowest recent p95: VENDOR_B 300ms (vs VENDOR_A 900ms)');
+  });
+});
+
+describe('Hedged requests', () => {
+  const request: ProviderRequest = {
+    systemPrompt: 'You are a helpful assistant.',
+    messages: [{ role: 'user', content: 'Hello' }],
+    temperature: 0.7,
+    maxTokens: 100,
+  };
+
+  // Answers after latencyMs unless the request is aborted first
+  function delayedAdapter(name: ProviderAdapter['name'], latencyMs: number) {
+    const sendMessage = vi.fn(
+      (req: ProviderRequest) =>
+        new Promise<ProviderResponse>((resolve, reject) => {
+          const timer = setTimeout(
+            () => resolve({ content: name, tokensIn: 1, tokensOut: 1, latencyMs }),
+            latencyMs
+          );
+          req.signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new CancelledError('aborted'));
+          });
+        })
+    );
+    const adapter: ProviderAdapter = {
+      name,
+      instanceKey: `hedging-${name}-${latencyMs}`,
+      sendMessage,
+      streamMessage: vi.fn(),
+      healthCheck: vi.fn().mockResolvedValue(true),
+    };
+    return { adapter, sendMessage };
+  }
+
+  it('sends a hedged request when the first provider is slow and aborts the loser', async () => {
+    const slow = delayedAdapter('VENDOR_A', 1000);
+    const fast = delayedAdapter('VENDOR_B', 10);
+    const startedAt = Date.now();
+
+    const result = await executeWithResilience(request, {
+      primaryProvider: 'VENDOR_A',
+      fallbackProvider: 'VENDOR_B',
+      adapters: { VENDOR_A: slow.adapter, VENDOR_B: fast.adapter },
+      hedging: { afterMs: 50 },
+    });
+
+    expect(Date.now() - startedAt).toBeLessThan(500);
+    expect(result).toMatchObject({ success: true, provider: 'VENDOR_B', isHedge: true });
+    expect(result.hedgedCall).toMatchObject({
+      success: false,
+      provider: 'VENDOR_A',
+      error: { code: 'CANCELLED' },
+    });
+    expect(slow.sendMessage.mock.calls[0][0].signal?.aborted).toBe(true);
+  });
+
+  it('does not hedge when the first provider answers within the threshold', async () => {
+    const primary = delayedAdapter('VENDOR_A', 10);
+    const hedge = delayedAdapter('VENDOR_B', 10);
+
+    const result = await executeWithResilience(request, {
+      primaryProvider: 'VENDOR_A',
+      fallbackProvider: 'VENDOR_B',
+      adapters: { VENDOR_A: primary.adapter, VENDOR_B: hedge.adapter },
+      hedging: { afterMs: 200 },
+    });
+
+    expect(result.provider).toBe('VENDOR_A');
+    expect(result.hedgedCall).toBeUndefined();
+    expect(hedge.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('keeps the first answer when the hedge is slower', async () => {
+    const primary = delayedAdapter('VENDOR_A', 100);
+    const hedge = delayedAdapter('VENDOR_B', 1000);
+
+    const result = await executeWithResilience(request, {
+      primaryProvider: 'VENDOR_A',
+      fallbackProvider: 'VENDOR_B',
+      adapters: { VENDOR_A: primary.adapter, VENDOR_B: hedge.adapter },
+      hedging: { afterMs: null },
+      // A p90 of 30ms is raised to the 250ms floor, so the primary answers first
+      getStats: vi.fn().mockResolvedValue({ VENDOR_A: { sampleSize: 50, p90LatencyMs: 30, p95LatencyMs: 40 } }),
+    });
+
+    expect(result.provider).toBe('VENDOR_A');
+    expect(hedge.sendMessage).not.toHaveBeenCalled();
+  });
+});
+
+describe('Structured output', () => {
+  const schema = {
+    type: 'object',
+    properties: { status: { type: 'string' } },
+    required: ['status'],
+  };
+  const request: ProviderRequest = {
+    systemPrompt: 'You are a helpful assistant.',
+    messages: [{ role: 'user', content: 'Where is my order?' }],
+    temperature: 0.7,
+    maxTokens: 100,
+    responseSchema: schema,
+  };
+
+  function adapter(instanceKey: string, sendMessage: ProviderAdapter['sendMessage']): ProviderAdapter {
+    return {
+      name: 'VENDOR_A',
+      instanceKey,
+      sendMessage,
+      streamMessage: vi.fn(),
+      healthCheck: vi.fn().mockResolvedValue(true),
+    };
+  }
+
+  const answer = (content: string) => ({ content, tokensIn: 1, tokensOut: 1, latencyMs: 1 });
+
+  it('re-asks with the validation errors until the answer matches', async () => {
+    const sendMessage = vi
+      .fn()
+      .mockResolvedValueOnce(answer('It has shipped'))
+      .mockResolvedValueOnce(answer('{"status":"SHIPPED"}'));
+
+    const result = await executeWithResilience(request, {
+      primaryProvider: 'VENDOR_A',
+      adapters: { VENDOR_A: adapter('schema-retry', sendMessage) },
+    });
+
+    expect(result).toMatchObject({ success: true, structuredOutput: { status: 'SHIPPED' } });
+    expect(result.rejectedAnswers).toHaveLength(1);
+    expect(result.rejectedAnswers![0]).toMatchObject({
+      success: false,
+      error: { code: 'PROVIDER_SCHEMA_ERROR' },
+      response: { content: 'It has shipped' },
+    });
+
+    const retryMessages = sendMessage.mock.calls[1][0].messages;
+    expect(retryMessages).toHaveLength(3);
+    expect(retryMessages[1]).toEqual({ role: 'assistant', content: 'It has shipped' });
+    expect(retryMessages[2].content).toContain('must be valid JSON');
+  });
+
+  it('fails with PROVIDER_SCHEMA_ERROR once the retries are used up', async () => {
+    const sendMessage = vi.fn().mockResolvedValue(answer('{"state":"SHIPPED"}'));
+
+    const result = await executeWithResilience(request, {
+      primaryProvider: 'VENDOR_A',
+      adapters: { VENDOR_A: adapter('schema-exhausted', sendMessage) },
+    });
+
+    expect(sendMessage).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({
+      success: false,
+      error: { code: 'PROVIDER_SCHEMA_ERROR', retryable: false },
+    });
+    expect(result.error!.message).toContain('status is required');
+    expect(result.rejectedAnswers).toHaveLength(1);
+  });
+});
+
+describe('Cancellation', () => {
+  const request: ProviderRequest = {
+    systemPrompt: 'You are a helpful assistant.',
+    messages: [{ role: 'user', content: 'Hello' }],
+    temperature: 0.7,
+    maxTokens: 100,
+  };
+
+  it('stops an aborted call without retrying or failing over', async () => {
+    const controller = new AbortController();
+    const sendMessage = vi.fn(
+      (req: ProviderRequest) =>
+        new Promise<ProviderResponse>((_resolve, reject) => {
+          req.signal?.addEventListener('abort', () => reject(new CancelledError('aborted')));
+        })
+    );
+    const fallback = vi.fn();
+    const adapters = {
+      VENDOR_A: {
+        name: 'VENDOR_A',
+        instanceKey: 'cancel-primary',
+        sendMessage,
+        streamMessage: vi.fn(),
+        healthCheck: vi.fn().mockResolvedValue(true),
+      },
+      VENDOR_B: {
+        name: 'VENDOR_B',
+        instanceKey: 'cancel-fallback',
+        sendMessage: fallback,
+        streamMessage: vi.fn(),
+        healthCheck: vi.fn().mockResolvedValue(true),
+      },
+    } satisfies Record<string, ProviderAdapter>;
+
+    setTimeout(() => controller.abort(), 20);
+    const result = await executeWithResilience(
+      { ...request, signal: controller.signal },
+      { primaryProvider: 'VENDOR_A', fallbackProvider: 'VENDOR_B', adapters }
+    );
+
+    expect(result).toMatchObject({
+      success: false,
+      provider: 'VENDOR_A',
+      error: { code: 'CANCELLED', retryable: false },
+    });
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(fallback).not.toHaveBeenCalled();
+  });
+});
+
+describe('Circuit breaker trials', () => {
+  const request: ProviderRequest = {
+    systemPrompt: 'You are a helpful assistant.',
+    messages: [{ role: 'user', content: 'Hello' }],
+    temperature: 0.7,
+    maxTokens: 100,
+  };
+  const breakerConfig = config.circuitBreaker as { openDurationMs: number };
+  const healthy = () => Promise.resolve(true);
+
+  beforeEach(() => {
+    // No cool-down: the next request after tripping probes and becomes the trial
+    breakerConfig.openDurationMs = 0;
+  });
+
+  afterEach(() => {
+    breakerConfig.openDurationMs = 1000;
+  });
+
+  function trippedAdapter(
+    name: ProviderAdapter['name'],
+    instanceKey: string,
+    sendMessage: ProviderAdapter['sendMessage']
+  ): { adapter: ProviderAdapter; breaker: CircuitBreaker } {
+    const adapter: ProviderAdapter = {
+      name,
+      instanceKey,
+      sendMessage,
+      streamMessage: vi.fn(),
+      healthCheck: vi.fn().mockResolvedValue(true),
+    };
+    const breaker = getCircuitBreaker(adapter);
+    for (let i = 0; i < 5; i++) {
+      breaker.recordFailure();
+    }
+    return { adapter, breaker };
+  }
+
+  it('gives back the trial when the attempt is refused before reaching the vendor', async () => {
+    const sendMessage = vi.fn();
+    const { adapter, breaker } = trippedAdapter('VENDOR_A', 'trial-refused', sendMessage);
+
+    const result = await executeWithResilience(request, {
+      primaryProvider: 'VENDOR_A',
+      adapters: { VENDOR_A: adapter },
+      deadline: Date.now() - 1,
+    });
+
+    expect(result.success).toBe(false);
+    expect(sendMessage).not.toHaveBeenCalled();
+    expect(breaker.getState()).toBe('HALF_OPEN');
+    expect(await breaker.allowRequest(healthy)).toBe(true);
+  });
+
+  it('gives back the trial when the trial request is cancelled', async () => {
+    const controller = new AbortController();
+    const sendMessage = vi.fn(
+      (req: ProviderRequest) =>
+        new Promise<ProviderResponse>((_resolve, reject) => {
+          req.signal?.addEventListener('abort', () => reject(new CancelledError('aborted')));
+        })
+    );
+    const { adapter, breaker } = trippedAdapter('VENDOR_A', 'trial-cancelled', sendMessage);
+
+    setTimeout(() => controller.abort(), 20);
+    const result = await executeWithResilience(
+      { ...request, signal: controller.signal },
+      { primaryProvider: 'VENDOR_A', adapters: { VENDOR_A: adapter } }
+    );
+
+    expect(result.error).toMatchObject({ code: 'CANCELLED' });
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(breaker.getState()).toBe('HALF_OPEN');
+    expect(await breaker.allowRequest(healthy)).toBe(true);
+  });
+
+  it('gives back the trial of a half-open hedge provider that loses the race', async () => {
+    const primarySend = vi.fn(async (): Promise<ProviderResponse> => {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      return { content: 'VENDOR_A', tokensIn: 1, tokensOut: 1, latencyMs: 100 };
+    });
+    const primary: ProviderAdapter = {
+      name: 'VENDOR_A',
+      instanceKey: 'trial-hedge-primary',
+      sendMessage: primarySend,
+      streamMessage: vi.fn(),
+      healthCheck: vi.fn().mockResolvedValue(true),
+    };
+    const hedgeSend = vi.fn(
+      (req: ProviderRequest) =>
+        new Promise<ProviderResponse>((_resolve, reject) => {
+          req.signal?.addEventListener('abort', () => reject(new CancelledError('aborted')));
+        })
+    );
+    const { adapter: hedge, breaker } = trippedAdapter('VENDOR_B', 'trial-hedge-loser', hedgeSend);
+
+    const result = await executeWithResilience(request, {
+      primaryProvider: 'VENDOR_A',
+      fallbackProvider: 'VENDOR_B',
+      adapters: { VENDOR_A: primary, VENDOR_B: hedge },
+      hedging: { afterMs: 20 },
+    });
+
+    expect(result).toMatchObject({ success: true, provider: 'VENDOR_A' });
+    expect(result.hedgedCall).toMatchObject({ provider: 'VENDOR_B', error: { code: 'CANCELLED' } });
+    expect(hedgeSend).toHaveBeenCalledTimes(1);
+    expect(breaker.getState()).toBe('HALF_OPEN');
+    expect(await breaker.allowRequest(healthy)).toBe(true);
+  });
+});
+
 describe('Error Classification', () => {
   it('should identify retryable errors', () => {
     const timeoutError = new TimeoutError('Request timed out');
@@ -0,0 +1,86 @@
+/**
+ * Rate Limiter Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RateLimiter } from '../../providers/rate-limiter.js';
+import { RateLimitError } from '../../utils/errors.js';
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    child: () => ({
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    }),
+  },
+}));
+
+describe('RateLimiter', () => {
+  const FAR_DEADLINE = Number.MAX_SAFE_INTEGER;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lets a burst through, then spaces requests at the configured rate', async () => {
+    const limiter = new RateLimiter('VENDOR_A', { requestsPerSecond: 10, burst: 2 });
+    const resolvedAt: number[] = [];
+    const startedAt = Date.now();
+
+    const requests = [1, 2, 3, 4].map(() =>
+      limiter.acquire(undefined, FAR_DEADLINE).then(() => resolvedAt.push(Date.now() - startedAt))
+    );
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all(requests);
+
+    expect(resolvedAt).toEqual([0, 0, 100, 200]);
+    expect(limiter.snapshot()).toMatchObject({ throttledRequests: 2, throttledWaitMs: 300 });
+  });
+
+  it('rejects without reserving when the wait would pass the deadline', async () => {
+    const limiter = new RateLimiter('VENDOR_A', { requestsPerSecond: 1, burst: 1 });
+    await limiter.acquire(undefined, FAR_DEADLINE);
+
+    await expect(limiter.acquire(undefined, Date.now() + 500)).rejects.toBeInstanceOf(RateLimitError);
+
+    // The rejected request didn't push the next one further back
+    const next = limiter.acquire(undefined, FAR_DEADLINE);
+    await vi.advanceTimersByTimeAsync(1000);
+    await next;
+    expect(limiter.snapshot()).toMatchObject({ rejectedRequests: 1, throttledWaitMs: 1000 });
+  });
+
+  it('holds requests until the vendor retry-after has passed', async () => {
+    const limiter = new RateLimiter('VENDOR_B', { requestsPerSecond: 100, burst: 100 });
+    limiter.recordVendorRateLimit(2000);
+
+    let done = false;
+    const request = limiter.acquire(undefined, FAR_DEADLINE).then(() => (done = true));
+
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(done).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await request;
+    expect(done).toBe(true);
+    expect(limiter.snapshot().vendorRateLimits).toBe(1);
+  });
+
+  it('limits each tenant to its own share of the provider', async () => {
+    const limiter = new RateLimiter(
+      'VENDOR_A',
+      { requestsPerSecond: 100, burst: 100 },
+      { requestsPerSecond: 1, burst: 1 }
+    );
+    await limiter.acquire('tenant-1', FAR_DEADLINE);
+
+    await expect(limiter.acquire('tenant-1', Date.now() + 500)).rejects.toBeInstanceOf(RateLimitError);
+    await expect(limiter.acquire('tenant-2', Date.now() + 500)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Routing Policy Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolveRoutingPolicy, type RoutingPolicy } from '../../providers/routing.js';
+
+describe('resolveRoutingPolicy', () => {
+  it('draws the first provider by weight and fails over to the rest', () => {
+    const policy: RoutingPolicy = {
+      type: 'WEIGHTED',
+      providers: [
+        { provider: 'VENDOR_A', weight: 80 },
+        { provider: 'VENDOR_B', weight: 20 },
+      ],
+    };
+
+    expect(resolveRoutingPolicy(policy, {}, () => 0.5).order).toEqual(['VENDOR_A', 'VENDOR_B']);
+
+    const canary = resolveRoutingPolicy(policy, {}, () => 0.9);
+    expect(canary.order).toEqual(['VENDOR_B', 'VENDOR_A']);
+    expect(canary.reason).toBe('Weighted split drew VENDOR_B (weight 20 of 100)');
+  });
+
+  it('never draws a provider with weight 0', () => {
+    const policy: RoutingPolicy = {
+      type: 'WEIGHTED',
+      providers: [
+        { provider: 'VENDOR_A', weight: 100 },
+        { provider: 'VENDOR_B', weight: 0 },
+      ],
+    };
+
+    expect(resolveRoutingPolicy(policy, {}, () => 0.999).order[0]).toBe('VENDOR_A');
+  });
+
+  it('orders by recent p95 latency, ignoring providers with too few samples', () => {
+    const policy: RoutingPolicy = {
+      type: 'LOWEST_LATENCY',
+      providers: [{ provider: 'VENDOR_A' }, { provider: 'VENDOR_B' }, { provider: 'OPENAI_COMPATIBLE' }],
+    };
+
+    const decision = resolveRoutingPolicy(policy, {
+      VENDOR_A: { sampleSize: 40, p90LatencyMs: 1000, p95LatencyMs: 1200 },
+      VENDOR_B: { sampleSize: 40, p90LatencyMs: 400, p95LatencyMs: 450 },
+      OPENAI_COMPATIBLE: { sampleSize: 2, p90LatencyMs: 90, p95LatencyMs: 100 },
+    });
+
+    expect(decision.order).toEqual(['VENDOR_B', 'VENDOR_A', 'OPENAI_COMPATIBLE']);
+    expect(decision.reason).toBe('Lowest recent p95: VENDOR_B 450ms (vs VENDOR_A 1200ms)');
+  });
+
+  it('keeps the listed order without recent latency data', () => {
+    const decision = resolveRoutingPolicy({
+      type: 'LOWEST_LATENCY',
+      providers: [{ provider: 'VENDOR_B' }, { provider: 'VENDOR_A' }],
+    });
+
+    expect(decision.order).toEqual(['VENDOR_B', 'VENDOR_A']);
+    expect(decision.reason).toBe('No recent latency data, using listed order');
+  });
+
+  it('orders by list price', () => {
+    const decision = resolveRoutingPolicy({
+      type: 'CHEAPEST',
+      providers: [{ provider: 'OPENAI_COMPATIBLE' }, { provider: 'VENDOR_B' }, { provider: 'VENDOR_A' }],
+    });
+
+    expect(decision.order).toEqual(['VENDOR_A', 'VENDOR_B', 'OPENAI_COMPATIBLE']);
+    expect(decision.reason).toMatch(/^Cheapest list price: VENDOR_A/);
+  });
+
+  it('keeps the listed order for failover', () => {
+    const decision = resolveRoutingPolicy({
+      type: 'FAILOVER',
+      providers: [{ provider: 'VENDOR_B' }, { provider: 'OPENAI_COMPATIBLE' }, { provider: 'VENDOR_A' }],
+    });
+
+    expect(decision.order).toEqual(['VENDOR_B', 'OPENAI_COMPATIBLE', 'VENDOR_A']);
+    expect(decision.reason).toBe('Failover order VENDOR_B → OPENAI_COMPATIBLE → VENDOR_A');
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Provider streaming tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { chunkText } from '../../providers/stream-utils.js';
+import { VendorAAdapter } from '../../providers/vendor-a.adapter.js';
+import { VendorBAdapter } from '../../providers/vendor-b.adapter.js';
+import type {
+  ProviderAdapter,
+  ProviderRequest,
+  ProviderStreamChunk,
+} from '../../providers/types.js';
+
+// Mock logger
+vi.mock('../../utils/logger.js', () => ({
+  logger: {
+    child: () => ({
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    }),
+  },
+}));
+
+async function collect(adapter: ProviderAdapter, request: ProviderRequest) {
+  const chunks: ProviderStreamChunk[] = [];
+  for await (const chunk of adapter.streamMessage(request)) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe('chunkText', () => {
+  it('should preserve the original text when chunks are joined', () => {
+    const text = 'Hello! I can help you with:\n- Orders\n- Invoices  ';
+    expect(chunkText(text).join('')).toBe(text);
+  });
+
+  it('should split text into multiple chunks', () => {
+    expect(chunkText('one two three four five', 2)).toEqual([
+      'one two ',
+      'three four ',
+      'five',
+    ]);
+  });
+
+  it('should return no chunks for empty text', () => {
+    expect(chunkText('')).toEqual([]);
+  });
+});
+
+describe('Adapter streaming', () => {
+  const greeting: ProviderRequest = {
+    systemPrompt: 'You are a helpful assistant.',
+    messages: [{ role: 'user', content: 'Hello there' }],
+    temperature: 0.7,
+    maxTokens: 100,
+  };
+
+  const orderLookup: ProviderRequest = {
+    ...greeting,
+    messages: [{ role: 'user', content: 'Where is my order #12345?' }],
+    tools: [
+      {
+        name: 'InvoiceLookup',
+        description: 'Look up an order',
+        parameters: { type: 'object', properties: { orderId: { type: 'string' } } },
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    // Deterministic mocks: no latency spikes, no injected failures
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each([
+    ['VendorA', () => new VendorAAdapter()],
+    ['VendorB', () => new VendorBAdapter()],
+  ])('%s deltas should add up to the final content', async (_name, create) => {
+    const adapter = create();
+    const chunks = await collect(adapter, greeting);
+
+    const deltas = chunks.filter((c) => c.type === 'delta');
+    const done = chunks[chunks.length - 1];
+
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(done.type).toBe('done');
+    if (done.type !== 'done') return;
+
+    const streamed = deltas.map((c) => (c.type === 'delta' ? c.content : '')).join('');
+    expect(streamed).toBe(done.response.content);
+
+    // Streaming must produce the same content and usage as a regular call
+    const regular = await adapter.sendMessage(greeting);
+    expect(done.response.content).toBe(regular.content);
+    expect(done.response.tokensIn).toBe(regular.tokensIn);
+    expect(done.response.tokensOut).toBe(regular.tokensOut);
+  });
+
+  it.each([
+    ['VendorA', () => new VendorAAdapter()],
+    ['VendorB', () => new VendorBAdapter()],
+  ])('%s should stream tool calls with parsed arguments', async (_name, create) => {
+    const chunks = await collect(create(), orderLookup);
+
+    const toolCalls = chunks.filter((c) => c.type === 'tool_call');
+    expect(toolCalls).toHaveLength(1);
+
+    const done = chunks[chunks.length - 1];
+    expect(done.type).toBe('done');
+    if (done.type !== 'done') return;
+
+    expect(done.response.toolCalls).toHaveLength(1);
+    expect(done.response.toolCalls?.[0].name).toBe('InvoiceLookup');
+    expect(done.response.toolCalls?.[0].args).toEqual({ orderId: '12345' });
+  });
+
+  it.each([
+    ['VendorA', () => new VendorAAdapter()],
+    ['VendorB', () => new VendorBAdapter()],
+  ])('%s should answer from tool results instead of calling the tool again', async (_name, create) => {
+    const response = await create().sendMessage({
+      ...orderLookup,
+      messages: [
+        ...orderLookup.messages,
+        {
+          role: 'assistant',
+          content: '',
+          toolCalls: [{ id: 'call_1', name: 'InvoiceLookup', args: { orderId: '12345' } }],
+        },
+        {
+          role: 'tool',
+          content: '',
+          toolResults: [{ id: 'call_1', result: { orderId: '12345', status: 'shipped' } }],
+        },
+      ],
+    });
+
+    expect(response.toolCalls).toBeUndefined();
+    expect(response.content).not.toBe('');
+  });
+});
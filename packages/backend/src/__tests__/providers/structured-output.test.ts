@@ -0,0 +1,84 @@
+/**
+ * Structured output tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildSchemaRetryMessages,
+  parseStructuredOutput,
+} from '../../providers/structured-output.js';
+import { mockJsonForSchema } from '../../providers/stream-utils.js';
+
+const schema = {
+  type: 'object',
+  properties: {
+    orderId: { type: 'string', minLength: 5 },
+    status: { type: 'string', enum: ['PENDING', 'SHIPPED'] },
+    total: { type: 'number', minimum: 1 },
+    note: { type: 'string' },
+  },
+  required: ['orderId', 'status', 'total'],
+  additionalProperties: false,
+};
+
+describe('parseStructuredOutput', () => {
+  it('returns the parsed value when the answer matches', () => {
+    const result = parseStructuredOutput(
+      '{"orderId":"12345","status":"SHIPPED","total":42.5}',
+      schema
+    );
+
+    expect(result).toEqual({
+      valid: true,
+      value: { orderId: '12345', status: 'SHIPPED', total: 42.5 },
+    });
+  });
+
+  it('tolerates a Markdown code fence around the JSON', () => {
+    const result = parseStructuredOutput(
+      '```json\n{"orderId":"12345","status":"PENDING","total":1}\n```',
+      schema
+    );
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('reports every schema violation', () => {
+    const result = parseStructuredOutput('{"orderId":"12345","status":"LOST"}', schema);
+
+    expect(result).toEqual({
+      valid: false,
+      issues: [
+        { path: 'total', message: 'is required' },
+        { path: 'status', message: 'must be one of "PENDING", "SHIPPED"' },
+      ],
+    });
+  });
+
+  it('rejects an answer that is not JSON', () => {
+    const result = parseStructuredOutput('Your order has shipped!', schema);
+
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.issues[0].message).toMatch(/^must be valid JSON/);
+  });
+});
+
+describe('buildSchemaRetryMessages', () => {
+  it('sends the rejected answer back with the validation errors', () => {
+    const messages = buildSchemaRetryMessages('{"orderId":"1"}', [
+      { path: 'total', message: 'is required' },
+    ]);
+
+    expect(messages[0]).toEqual({ role: 'assistant', content: '{"orderId":"1"}' });
+    expect(messages[1].role).toBe('user');
+    expect(messages[1].content).toContain('- total is required');
+  });
+});
+
+describe('mockJsonForSchema', () => {
+  it('produces a value the schema accepts', () => {
+    const value = mockJsonForSchema(schema);
+
+    expect(parseStructuredOutput(JSON.stringify(value), schema)).toEqual({ valid: true, value });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Tool schema translation tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  toFunctionParameters,
+  toToolResultPayload,
+  toVendorAParameters,
+} from '../../providers/tool-format.js';
+import { InvoiceLookupTool } from '../../tools/invoice-lookup.js';
+
+describe('toFunctionParameters', () => {
+  it('should drop root combinators but keep properties', () => {
+    const parameters = toFunctionParameters(InvoiceLookupTool.parameters);
+
+    expect(parameters.oneOf).toBeUndefined();
+    expect(parameters.type).toBe('object');
+    expect(parameters.properties).toEqual(InvoiceLookupTool.parameters.properties);
+  });
+
+  it('should not modify the tool schema', () => {
+    toFunctionParameters(InvoiceLookupTool.parameters);
+    expect(InvoiceLookupTool.parameters.oneOf).toBeDefined();
+  });
+
+  it('should default to an empty object schema', () => {
+    expect(toFunctionParameters({})).toEqual({ type: 'object', properties: {} });
+  });
+});
+
+describe('toVendorAParameters', () => {
+  it('should flatten properties into named fields', () => {
+    const parameters = toVendorAParameters({
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Search text' },
+        mode: { type: 'string', enum: ['fast', 'exact'] },
+        filters: { type: 'object', properties: { tag: { type: 'string' } } },
+      },
+      required: ['query'],
+    });
+
+    expect(parameters).toEqual([
+      { name: 'query', type: 'string', description: 'Search text', required: true, enum: undefined, schema: undefined },
+      { name: 'mode', type: 'string', description: undefined, required: false, enum: ['fast', 'exact'], schema: undefined },
+      {
+        name: 'filters',
+        type: 'object',
+        description: undefined,
+        required: false,
+        enum: undefined,
+        schema: { type: 'object', properties: { tag: { type: 'string' } } },
+      },
+    ]);
+  });
+});
+
+describe('toToolResultPayload', () => {
+  it('should pass successful results through', () => {
+    expect(toToolResultPayload({ id: 'call_1', result: { status: 'shipped' } })).toEqual({
+      status: 'shipped',
+    });
+  });
+
+  it('should wrap failures in a structured error', () => {
+    const issues = [{ path: 'orderId', message: 'must be string' }];
+
+    expect(
+      toToolResultPayload({
+        id: 'call_1',
+        result: null,
+        error: "Invalid arguments for tool 'InvoiceLookup'",
+        errorCode: 'INVALID_ARGUMENTS',
+        errorDetails: { issues },
+      })
+    ).toEqual({
+      error: {
+        code: 'INVALID_ARGUMENTS',
+        message: "Invalid arguments for tool 'InvoiceLookup'",
+        details: { issues },
+      },
+    });
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Route registration tests
+ * Each route plugin must be registered by buildApp: an unregistered route answers 404,
+ * a registered one rejects the unauthenticated request first
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { FastifyInstance } from 'fastify';
+import { buildApp } from '../../app.js';
+
+describe('buildApp routes', () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    app = await buildApp();
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it.each([
+    ['GET', '/api/v1/agents', 401],
+    ['GET', '/api/v1/experiments/experiment-1', 401],
+    ['GET', '/api/v1/evaluations/run-1', 401],
+    ['GET', '/api/v1/knowledge-bases', 401],
+    ['GET', '/api/v1/provider-configs', 401],
+    ['GET', '/api/v1/tools/webhooks', 401],
+    // Platform admin routes are forbidden while no PLATFORM_ADMIN_KEY is configured
+    ['GET', '/api/v1/admin/pricing/plans', 403],
+    ['GET', '/api/v1/dev/mock-vendors/scenarios', 401],
+  ] as const)('registers %s %s', async (method, url, status) => {
+    const response = await app.inject({ method, url });
+
+    expect(response.statusCode).toBe(status);
+  });
+});
@@ -9,6 +9,9 @@ import {
   CreateSessionSchema,
   SendMessageSchema,
   UsageQuerySchema,
+  ProviderUsageQuerySchema,
+  CreateExperimentSchema,
+  CreateEvaluationSuiteSchema,
 } from '../../schemas/index.js';
 
 describe('Validation Schemas', () => {
@@ -185,4 +188,96 @@ describe('Validation Schemas', () => {
       expect(result.success).toBe(false);
     });
   });
+
+  describe('ProviderUsageQuerySchema', () => {
+    it('should default to daily buckets', () => {
+      const result = ProviderUsageQuerySchema.safeParse({});
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.bucket).toBe('day');
+      }
+    });
+
+    it('should accept hourly buckets for one agent', () => {
+      const result = ProviderUsageQuerySchema.safeParse({
+        bucket: 'hour',
+        agentId: '123e4567-e89b-12d3-a456-426614174000',
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject invalid bucket', () => {
+      const result = ProviderUsageQuerySchema.safeParse({
+        bucket: 'week',
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('CreateExperimentSchema', () => {
+    const variants = [
+      { name: 'control', version: 1, weight: 50 },
+      { name: 'concise', version: 2, weight: 50 },
+    ];
+
+    it('should accept an experiment with two variants', () => {
+      const result = CreateExperimentSchema.safeParse({ name: 'Shorter prompt', variants });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject a single variant', () => {
+      const result = CreateExperimentSchema.safeParse({
+        name: 'Shorter prompt',
+        variants: variants.slice(0, 1),
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject duplicate variant names', () => {
+      const result = CreateExperimentSchema.safeParse({
+        name: 'Shorter prompt',
+        variants: [variants[0], { ...variants[1], name: 'control' }],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('CreateEvaluationSuiteSchema', () => {
+    const evaluationCase = {
+      name: 'invoice lookup',
+      turns: [
+        {
+          user: 'What is the status of INV-001?',
+          assertions: [
+            { type: 'contains', value: 'paid' },
+            { type: 'tool_called', tool: 'InvoiceLookup', args: { invoiceId: 'INV-001' } },
+          ],
+        },
+      ],
+    };
+
+    it('should accept a suite of scripted cases', () => {
+      const result = CreateEvaluationSuiteSchema.safeParse({
+        name: 'Billing',
+        cases: [evaluationCase],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject unknown assertion types', () => {
+      const result = CreateEvaluationSuiteSchema.safeParse({
+        name: 'Billing',
+        cases: [{ ...evaluationCase, turns: [{ user: 'Hi', assertions: [{ type: 'sentiment' }] }] }],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject an invalid regular expression', () => {
+      const result = CreateEvaluationSuiteSchema.safeParse({
+        name: 'Billing',
+        cases: [{ ...evaluationCase, turns: [{ user: 'Hi', assertions: [{ type: 'regex', pattern: '(' }] }] }],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
 });
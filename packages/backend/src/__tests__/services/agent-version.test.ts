@@ -0,0 +1,152 @@
+/**
+ * Agent Version Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Prisma, type Agent } from '@prisma/client';
+import {
+  createDraftVersion,
+  resolveAgentVersion,
+  toAgentConfig,
+} from '../../services/agent-version.service.js';
+import { ConflictError } from '../../utils/errors.js';
+import { prisma } from '../../utils/db.js';
+
+vi.mock('../../utils/db.js', () => ({
+  prisma: {
+    agent: {
+      findFirst: vi.fn(),
+    },
+    agentVersion: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+    },
+  },
+}));
+
+const agent = {
+  id: 'agent-1',
+  tenantId: 'tenant-1',
+  name: 'Support Bot',
+  primaryProvider: 'VENDOR_A',
+  fallbackProvider: null,
+  routingPolicy: null,
+  hedgingEnabled: false,
+  hedgeAfterMs: null,
+  responseCacheEnabled: false,
+  responseCacheTtlSeconds: 3600,
+  systemPrompt: 'You are a helpful assistant.',
+  temperature: 0.7,
+  maxTokens: 1024,
+  responseSchema: null,
+  enabledTools: ['InvoiceLookup'],
+  maxToolIterations: 5,
+  maxParallelTools: 4,
+  contextWindowTokens: null,
+  voiceEnabled: false,
+  voiceConfig: null,
+  publishedVersion: 2,
+} as unknown as Agent;
+
+describe('toAgentConfig', () => {
+  it('keeps only the versioned settings', () => {
+    const config = toAgentConfig(agent);
+
+    expect(config).toMatchObject({ systemPrompt: agent.systemPrompt, enabledTools: ['InvoiceLookup'] });
+    expect(config).not.toHaveProperty('name');
+    expect(config).not.toHaveProperty('publishedVersion');
+  });
+});
+
+describe('resolveAgentVersion', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('uses the agent itself for the published version', async () => {
+    const resolved = await resolveAgentVersion(agent, 2);
+
+    expect(resolved).toMatchObject({ systemPrompt: agent.systemPrompt, version: 2 });
+    expect(prisma.agentVersion.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('treats unpinned sessions as running on the published version', async () => {
+    const resolved = await resolveAgentVersion(agent, null);
+
+    expect(resolved.version).toBe(2);
+  });
+
+  it('applies the configuration of a pinned earlier version', async () => {
+    vi.mocked(prisma.agentVersion.findUnique).mockResolvedValue({
+      version: 1,
+      config: { ...toAgentConfig(agent), systemPrompt: 'Old prompt', temperature: 0.2 },
+    } as any);
+
+    const resolved = await resolveAgentVersion(agent, 1);
+
+    expect(resolved).toMatchObject({
+      id: 'agent-1',
+      name: 'Support Bot',
+      systemPrompt: 'Old prompt',
+      temperature: 0.2,
+      version: 1,
+    });
+  });
+
+  it('throws for a version that does not exist', async () => {
+    vi.mocked(prisma.agentVersion.findUnique).mockResolvedValue(null);
+
+    await expect(resolveAgentVersion(agent, 7)).rejects.toThrow('Agent version not found');
+  });
+});
+
+describe('createDraftVersion', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.agent.findFirst).mockResolvedValue({ id: 'agent-1' } as any);
+    vi.mocked(prisma.agentVersion.findFirst).mockResolvedValue({
+      version: 3,
+      config: toAgentConfig(agent),
+    } as any);
+    vi.mocked(prisma.agentVersion.create).mockImplementation(
+      (async ({ data }: any) => data) as any
+    );
+  });
+
+  it('creates the next version from the latest one with the changes applied', async () => {
+    await createDraftVersion('tenant-1', 'agent-1', { systemPrompt: 'Be brief.' });
+
+    expect(prisma.agentVersion.create).toHaveBeenCalledWith({
+      data: {
+        agentId: 'agent-1',
+        version: 4,
+        status: 'DRAFT',
+        config: { ...toAgentConfig(agent), systemPrompt: 'Be brief.' },
+      },
+    });
+  });
+
+  it('does not create a version when nothing changes', async () => {
+    const draft = await createDraftVersion('tenant-1', 'agent-1', {
+      systemPrompt: agent.systemPrompt,
+      enabledTools: ['InvoiceLookup'],
+    });
+
+    expect(draft).toBeNull();
+    expect(prisma.agentVersion.create).not.toHaveBeenCalled();
+  });
+
+  it('reports a concurrently created version as a conflict', async () => {
+    vi.mocked(prisma.agentVersion.create).mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: 'test',
+      })
+    );
+
+    await expect(
+      createDraftVersion('tenant-1', 'agent-1', { systemPrompt: 'Be brief.' })
+    ).rejects.toBeInstanceOf(ConflictError);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Agent Service Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { publishVersion, updateAgent } from '../../services/agent.service.js';
+import {
+  createDraftVersion,
+  getAgentVersion,
+  publishAgentVersion,
+} from '../../services/agent-version.service.js';
+import { assertKnowledgeBasesExist } from '../../services/knowledge-base.service.js';
+import { toolRegistry } from '../../tools/registry.js';
+import { ValidationError } from '../../utils/errors.js';
+import { prisma } from '../../utils/db.js';
+
+vi.mock('../../utils/db.js', () => ({
+  prisma: {
+    agent: {
+      findFirst: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../../services/agent-version.service.js', () => ({
+  createDraftVersion: vi.fn(),
+  getAgentVersion: vi.fn(),
+  publishAgentVersion: vi.fn(),
+  toAgentConfig: vi.fn(),
+}));
+
+vi.mock('../../services/knowledge-base.service.js', () => ({
+  assertKnowledgeBasesExist: vi.fn(),
+}));
+
+vi.mock('../../tools/registry.js', () => ({
+  toolRegistry: { validateTools: vi.fn() },
+}));
+
+const agent = { id: 'agent-1', tenantId: 'tenant-1', name: 'Support Bot', maxParallelTools: 4 };
+
+describe('updateAgent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.agent.findFirst).mockResolvedValue(agent as any);
+    vi.mocked(createDraftVersion).mockResolvedValue({ id: 'version-3', version: 3 } as any);
+  });
+
+  it('applies maxParallelTools sent on its own', async () => {
+    const { draft } = await updateAgent('tenant-1', 'agent-1', { maxParallelTools: 2 });
+
+    expect(createDraftVersion).toHaveBeenCalledWith('tenant-1', 'agent-1', { maxParallelTools: 2 });
+    expect(draft).toMatchObject({ version: 3 });
+    expect(prisma.agent.update).not.toHaveBeenCalled();
+  });
+
+  it('creates no draft when only the name changes', async () => {
+    vi.mocked(prisma.agent.update).mockResolvedValue({ ...agent, name: 'Helpdesk' } as any);
+
+    const { agent: updated, draft } = await updateAgent('tenant-1', 'agent-1', { name: 'Helpdesk' });
+
+    expect(updated.name).toBe('Helpdesk');
+    expect(draft).toBeNull();
+    expect(createDraftVersion).not.toHaveBeenCalled();
+  });
+});
+
+describe('publishVersion', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getAgentVersion).mockResolvedValue({
+      id: 'version-1',
+      version: 1,
+      config: { enabledTools: ['StockCheck'], knowledgeBaseIds: ['kb-1'] },
+    } as any);
+    vi.mocked(toolRegistry.validateTools).mockResolvedValue({ valid: true, missing: [] });
+  });
+
+  it('checks the tools and knowledge bases of the version it publishes', async () => {
+    await publishVersion('tenant-1', 'agent-1', 1);
+
+    expect(toolRegistry.validateTools).toHaveBeenCalledWith(['StockCheck'], 'tenant-1');
+    expect(assertKnowledgeBasesExist).toHaveBeenCalledWith('tenant-1', ['kb-1']);
+    expect(publishAgentVersion).toHaveBeenCalledWith('tenant-1', 'agent-1', 1);
+  });
+
+  it('refuses to roll back to a version whose tool was deleted since', async () => {
+    vi.mocked(toolRegistry.validateTools).mockResolvedValue({ valid: false, missing: ['StockCheck'] });
+
+    const publishing = publishVersion('tenant-1', 'agent-1', 1);
+
+    await expect(publishing).rejects.toBeInstanceOf(ValidationError);
+    await expect(publishing).rejects.toMatchObject({
+      statusCode: 400,
+      details: [{ field: 'enabledTools', message: 'Unknown tools: StockCheck' }],
+    });
+    expect(publishAgentVersion).not.toHaveBeenCalled();
+  });
+
+  it('refuses to publish a version whose knowledge base was deleted since', async () => {
+    vi.mocked(assertKnowledgeBasesExist).mockRejectedValue(
+      new ValidationError('Unknown knowledge bases specified')
+    );
+
+    await expect(publishVersion('tenant-1', 'agent-1', 1)).rejects.toBeInstanceOf(ValidationError);
+    expect(publishAgentVersion).not.toHaveBeenCalled();
+  });
+});
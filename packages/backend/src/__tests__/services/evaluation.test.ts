@@ -0,0 +1,147 @@
+/**
+ * Evaluation Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildReport,
+  checkAssertion,
+  compareCases,
+  type CaseReport,
+  type TurnOutcome,
+} from '../../services/evaluation.service.js';
+
+vi.mock('../../utils/db.js', () => ({
+  prisma: {},
+}));
+
+const outcome: TurnOutcome = {
+  answer: 'Invoice INV-001 is PAID. Total: $1,250.00',
+  latencyMs: 800,
+  costCents: 2,
+  toolCalls: [{ name: 'InvoiceLookup', args: { invoiceId: 'INV-001' } }],
+};
+
+describe('checkAssertion', () => {
+  it('matches text case-insensitively unless asked otherwise', () => {
+    expect(checkAssertion({ type: 'contains', value: 'paid' }, outcome).passed).toBe(true);
+    expect(
+      checkAssertion({ type: 'contains', value: 'paid', caseSensitive: true }, outcome)
+    ).toMatchObject({ passed: false, message: 'Answer does not contain "paid"' });
+  });
+
+  it('matches a regular expression', () => {
+    expect(checkAssertion({ type: 'regex', pattern: '\\$[\\d,]+\\.\\d{2}' }, outcome).passed).toBe(true);
+    expect(checkAssertion({ type: 'regex', pattern: '^overdue', flags: 'i' }, outcome).passed).toBe(false);
+  });
+
+  it('checks that a tool was called with at least the given arguments', () => {
+    expect(checkAssertion({ type: 'tool_called', tool: 'InvoiceLookup' }, outcome).passed).toBe(true);
+    expect(
+      checkAssertion(
+        { type: 'tool_called', tool: 'InvoiceLookup', args: { invoiceId: 'INV-001' } },
+        outcome
+      ).passed
+    ).toBe(true);
+    expect(
+      checkAssertion(
+        { type: 'tool_called', tool: 'InvoiceLookup', args: { invoiceId: 'INV-002' } },
+        outcome
+      ).passed
+    ).toBe(false);
+    expect(checkAssertion({ type: 'tool_called', tool: 'StockCheck' }, outcome)).toMatchObject({
+      passed: false,
+      message: 'StockCheck was not called',
+    });
+  });
+
+  it('enforces latency and cost limits', () => {
+    expect(checkAssertion({ type: 'max_latency_ms', value: 1000 }, outcome).passed).toBe(true);
+    expect(checkAssertion({ type: 'max_latency_ms', value: 500 }, outcome).passed).toBe(false);
+    expect(checkAssertion({ type: 'max_cost_cents', value: 1 }, outcome).passed).toBe(false);
+  });
+
+  it('validates the answer against a JSON schema', () => {
+    const schema = {
+      type: 'object',
+      properties: { status: { type: 'string' } },
+      required: ['status'],
+    };
+
+    expect(checkAssertion({ type: 'json_schema', schema }, outcome).passed).toBe(false);
+    expect(
+      checkAssertion({ type: 'json_schema', schema }, { ...outcome, answer: '{"status":"PAID"}' })
+        .passed
+    ).toBe(true);
+  });
+});
+
+describe('buildReport', () => {
+  it('scores the share of assertions passed', () => {
+    const cases: CaseReport[] = [
+      {
+        name: 'lookup',
+        passed: true,
+        turns: [
+          {
+            user: 'Status of INV-001?',
+            ...outcome,
+            assertions: [
+              { type: 'contains', passed: true },
+              { type: 'tool_called', passed: true },
+            ],
+          },
+        ],
+      },
+      {
+        name: 'refund',
+        passed: false,
+        turns: [
+          {
+            user: 'Refund INV-001',
+            error: 'Provider unavailable',
+            assertions: [{ type: 'contains', passed: false, message: 'Turn failed' }],
+          },
+        ],
+      },
+    ];
+
+    const report = buildReport({ id: 'suite-1', name: 'Billing' }, 3, cases);
+
+    expect(report).toMatchObject({
+      agentVersion: 3,
+      passedCases: 1,
+      totalCases: 2,
+      passedAssertions: 2,
+      totalAssertions: 3,
+      costCents: 2,
+      latencyMs: { avg: 800, max: 800 },
+    });
+    expect(report.score).toBeCloseTo(2 / 3);
+  });
+});
+
+describe('compareCases', () => {
+  it('reports fixed, regressed, added and removed cases', () => {
+    const base = [
+      { name: 'a', passed: false, turns: [] },
+      { name: 'b', passed: true, turns: [] },
+      { name: 'c', passed: true, turns: [] },
+      { name: 'd', passed: true, turns: [] },
+    ];
+    const run = [
+      { name: 'a', passed: true, turns: [] },
+      { name: 'b', passed: false, turns: [] },
+      { name: 'c', passed: true, turns: [] },
+      { name: 'e', passed: true, turns: [] },
+    ];
+
+    expect(compareCases(base, run).map((c) => [c.name, c.change])).toEqual([
+      ['a', 'fixed'],
+      ['b', 'regressed'],
+      ['c', 'unchanged'],
+      ['d', 'removed'],
+      ['e', 'added'],
+    ]);
+  });
+});
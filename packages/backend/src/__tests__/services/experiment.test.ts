@@ -0,0 +1,46 @@
+/**
+ * Experiment Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { assignVariant } from '../../services/experiment.service.js';
+
+const experiment = {
+  id: 'experiment-1',
+  variants: [
+    { name: 'control', version: 1, weight: 75 },
+    { name: 'concise', version: 2, weight: 25 },
+  ],
+};
+
+describe('assignVariant', () => {
+  it('assigns a customer the same variant every time', () => {
+    const first = assignVariant(experiment, 'customer-42');
+
+    for (let i = 0; i < 5; i++) {
+      expect(assignVariant(experiment, 'customer-42')).toEqual(first);
+    }
+  });
+
+  it('splits customers according to the weights', () => {
+    let control = 0;
+    for (let i = 0; i < 2000; i++) {
+      if (assignVariant(experiment, `customer-${i}`).name === 'control') {
+        control++;
+      }
+    }
+
+    expect(control / 2000).toBeGreaterThan(0.7);
+    expect(control / 2000).toBeLessThan(0.8);
+  });
+
+  it('reassigns customers independently in a different experiment', () => {
+    const other = { ...experiment, id: 'experiment-2' };
+    const differs = Array.from({ length: 50 }, (_, i) => `customer-${i}`).some(
+      (customerId) =>
+        assignVariant(experiment, customerId).name !== assignVariant(other, customerId).name
+    );
+
+    expect(differs).toBe(true);
+  });
+});
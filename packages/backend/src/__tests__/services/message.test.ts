@@ -0,0 +1,275 @@
+/**
+ * Message Service Tests
+ * sendMessage runs against mocked persistence and a scripted orchestrator
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { sendMessage } from '../../services/message.service.js';
+import { checkSoftLimits } from '../../services/budget.service.js';
+import { getSessionWithAgent } from '../../services/session.service.js';
+import { withSessionLock } from '../../services/session-lock.service.js';
+import { executeWithResilience } from '../../providers/orchestrator.js';
+import { CancelledError, ProviderSchemaError } from '../../utils/errors.js';
+import { config } from '../../config/index.js';
+import { prisma } from '../../utils/db.js';
+import type { ProviderCallResult } from '../../providers/types.js';
+
+vi.mock('../../utils/logger.js', () => {
+  const log = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+  return { logger: { ...log, child: () => log } };
+});
+
+vi.mock('../../utils/db.js', () => ({
+  prisma: {
+    message: { create: vi.fn(), findFirst: vi.fn() },
+    providerCall: { create: vi.fn(), updateMany: vi.fn() },
+    usageEvent: { create: vi.fn() },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/session-lock.service.js', () => ({
+  withSessionLock: vi.fn((_sessionId, fn) => fn(new AbortController().signal)),
+}));
+
+vi.mock('../../services/session.service.js', () => ({
+  getSessionById: vi.fn(),
+  getSessionWithAgent: vi.fn(),
+  getNextSequenceNumber: vi.fn().mockResolvedValue(1),
+}));
+
+vi.mock('../../services/budget.service.js', () => ({
+  assertWithinBudget: vi.fn(),
+  checkSoftLimits: vi.fn(),
+}));
+
+vi.mock('../../services/provider-config.service.js', () => ({
+  getTenantAdapters: vi.fn().mockResolvedValue({}),
+}));
+
+vi.mock('../../services/provider-capture.service.js', () => ({
+  getProviderCaptureSettings: vi.fn().mockResolvedValue({ enabled: false }),
+  toCapturedBodies: vi.fn(),
+}));
+
+vi.mock('../../services/response-cache.service.js', () => ({
+  getCachedResponse: vi.fn(),
+  getResponseCacheKey: vi.fn(),
+  isResponseCacheable: vi.fn().mockReturnValue(false),
+  storeCachedResponse: vi.fn(),
+}));
+
+vi.mock('../../services/context.service.js', () => ({
+  buildConversationContext: vi
+    .fn()
+    .mockResolvedValue({ systemPrompt: 'You are a test assistant.', messages: [] }),
+}));
+
+vi.mock('../../services/provider-stats.service.js', () => ({
+  getRecentProviderStats: vi.fn(),
+}));
+
+vi.mock('../../services/pricing.service.js', () => ({
+  resolvePricing: vi.fn().mockResolvedValue({
+    source: 'DEFAULT',
+    inputPricePerKTokens: 1,
+    outputPricePerKTokens: 2,
+    markupPercent: 0,
+  }),
+}));
+
+vi.mock('../../providers/orchestrator.js', () => ({
+  executeWithResilience: vi.fn(),
+}));
+
+vi.mock('../../tools/registry.js', () => ({
+  toolRegistry: { getDefinitions: vi.fn().mockResolvedValue([]) },
+}));
+
+const session = {
+  id: 'session-1',
+  status: 'ACTIVE',
+  demoMode: false,
+  agent: {
+    id: 'agent-1',
+    name: 'Support Bot',
+    version: 2,
+    primaryProvider: 'VENDOR_A',
+    fallbackProvider: 'VENDOR_B',
+    routingPolicy: null,
+    responseSchema: null,
+    enabledTools: [],
+    temperature: 0.7,
+    maxTokens: 100,
+    maxToolIterations: 3,
+    hedgingEnabled: false,
+  },
+};
+
+const answer = (content: string): ProviderCallResult => ({
+  success: true,
+  provider: 'VENDOR_A',
+  isFallback: false,
+  attemptNumber: 1,
+  latencyMs: 120,
+  response: { content, model: 'vendor-a-model', tokensIn: 10, tokensOut: 5, latencyMs: 120 },
+});
+
+const rejectedAnswer = (content: string, attempts = 1): ProviderCallResult => ({
+  ...answer(content),
+  success: false,
+  error: {
+    code: 'PROVIDER_SCHEMA_ERROR',
+    message: `Answer did not match the response schema after ${attempts} attempts`,
+    retryable: false,
+  },
+});
+
+const warning = {
+  scope: 'TENANT' as const,
+  agentId: null,
+  period: 'DAILY' as const,
+  limitCents: 500,
+  spentCents: 510,
+};
+
+describe('sendMessage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getSessionWithAgent).mockResolvedValue(session as any);
+    vi.mocked(checkSoftLimits).mockResolvedValue([]);
+    vi.mocked(executeWithResilience).mockResolvedValue(answer('Hello!'));
+    vi.mocked(prisma.message.create).mockImplementation(
+      async ({ data }: any) => ({ id: `message-${data.role}`, createdAt: new Date(), ...data }) as any
+    );
+    vi.mocked(prisma.providerCall.create).mockImplementation(
+      async ({ data }: any) =>
+        ({ id: `call-${vi.mocked(prisma.providerCall.create).mock.calls.length}`, createdAt: new Date(), ...data }) as any
+    );
+    vi.mocked(prisma.providerCall.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.$transaction).mockImplementation(async (fn: any) => fn(prisma));
+  });
+
+  describe('budget warnings', () => {
+    it('returns the soft limits the turn crossed', async () => {
+      vi.mocked(checkSoftLimits).mockResolvedValue([warning]);
+
+      const response = await sendMessage('tenant-1', 'session-1', { content: 'Hi' });
+
+      expect(response.content).toBe('Hello!');
+      expect(response.budgetWarnings).toEqual([warning]);
+    });
+
+    it('also streams them as events', async () => {
+      vi.mocked(checkSoftLimits).mockResolvedValue([warning]);
+      const onEvent = vi.fn();
+
+      await sendMessage('tenant-1', 'session-1', { content: 'Hi', onEvent });
+
+      expect(onEvent).toHaveBeenCalledWith({ type: 'budget_warning', ...warning });
+    });
+
+    it('checks no soft limits for demo sessions', async () => {
+      vi.mocked(getSessionWithAgent).mockResolvedValue({ ...session, demoMode: true } as any);
+
+      const response = await sendMessage('tenant-1', 'session-1', { content: 'Hi' });
+
+      expect(response.budgetWarnings).toEqual([]);
+      expect(checkSoftLimits).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('billing', () => {
+    it('bills answers rejected by the response schema along with the final answer', async () => {
+      vi.mocked(executeWithResilience).mockResolvedValue({
+        ...answer('{"status": "PAID"}'),
+        rejectedAnswers: [rejectedAnswer('PAID')],
+      });
+
+      await sendMessage('tenant-1', 'session-1', { content: 'Hi' });
+
+      expect(prisma.usageEvent.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('bills every answer of a turn that ends in PROVIDER_SCHEMA_ERROR', async () => {
+      vi.mocked(executeWithResilience).mockResolvedValue({
+        ...rejectedAnswer('Still not JSON', 2),
+        rejectedAnswers: [rejectedAnswer('PAID')],
+      });
+
+      await expect(sendMessage('tenant-1', 'session-1', { content: 'Hi' })).rejects.toBeInstanceOf(
+        ProviderSchemaError
+      );
+      expect(prisma.providerCall.create).toHaveBeenCalledTimes(2);
+      expect(prisma.usageEvent.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not bill a malformed vendor response, which carries no answer', async () => {
+      const { response: _response, ...malformed } = rejectedAnswer('');
+      vi.mocked(executeWithResilience).mockResolvedValue(malformed);
+
+      await expect(sendMessage('tenant-1', 'session-1', { content: 'Hi' })).rejects.toBeInstanceOf(
+        ProviderSchemaError
+      );
+      expect(prisma.providerCall.create).toHaveBeenCalledTimes(1);
+      expect(prisma.usageEvent.create).not.toHaveBeenCalled();
+    });
+
+    it('does not bill the losing request of a hedged call', async () => {
+      vi.mocked(executeWithResilience).mockResolvedValue({
+        ...answer('Hello!'),
+        hedgedCall: {
+          ...answer('Hello too'),
+          provider: 'VENDOR_B',
+          isHedge: true,
+          success: false,
+          error: { code: 'CANCELLED', message: 'Lost the hedge', retryable: false },
+        },
+      });
+
+      await sendMessage('tenant-1', 'session-1', { content: 'Hi' });
+
+      expect(prisma.providerCall.create).toHaveBeenCalledTimes(2);
+      expect(prisma.usageEvent.create).toHaveBeenCalledTimes(1);
+      expect(prisma.usageEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ provider: 'VENDOR_A' }),
+      });
+    });
+  });
+
+  describe('session lock expiry', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('stores nothing from a turn whose lock was released to the next turn', async () => {
+      vi.useFakeTimers();
+      const actual = await vi.importActual<typeof import('../../services/session-lock.service.js')>(
+        '../../services/session-lock.service.js'
+      );
+      vi.mocked(withSessionLock)
+        .mockImplementationOnce(actual.withSessionLock)
+        .mockImplementationOnce(actual.withSessionLock);
+      // The first turn's provider ignores the abort and only answers long after
+      let answerLate!: (result: ProviderCallResult) => void;
+      vi.mocked(executeWithResilience).mockImplementationOnce(
+        () => new Promise((resolve) => { answerLate = resolve; })
+      );
+      const sessionId = '6a1f8a4e-6a55-4f53-9c0e-0d3b4f7f3b10';
+
+      const first = sendMessage('tenant-1', sessionId, { content: 'First' });
+      const firstOutcome = first.catch((error) => error);
+      await vi.advanceTimersByTimeAsync(
+        config.session.lockTimeoutMs + config.session.lockReleaseGraceMs
+      );
+      const second = await sendMessage('tenant-1', sessionId, { content: 'Second' });
+      const storedMessages = vi.mocked(prisma.message.create).mock.calls.length;
+
+      answerLate(answer('Too late'));
+
+      expect(await firstOutcome).toBeInstanceOf(CancelledError);
+      expect(second.content).toBe('Hello!');
+      expect(prisma.message.create).toHaveBeenCalledTimes(storedMessages);
+    });
+  });
+});
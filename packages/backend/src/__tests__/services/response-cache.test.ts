@@ -0,0 +1,147 @@
+/**
+ * Response Cache Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  getCachedResponse,
+  getResponseCacheKey,
+  isResponseCacheable,
+} from '../../services/response-cache.service.js';
+import { prisma } from '../../utils/db.js';
+import type { ProviderRequest } from '../../providers/types.js';
+import type { AgentAtVersion } from '../../services/agent-version.service.js';
+
+vi.mock('../../config/index.js', () => ({
+  config: {
+    responseCache: {
+      maxTemperature: 0.2,
+      historyMessages: 2,
+    },
+  },
+}));
+
+vi.mock('../../utils/db.js', () => ({
+  prisma: {
+    responseCacheEntry: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+const agent = {
+  id: 'agent-1',
+  temperature: 0,
+  responseCacheEnabled: true,
+  responseCacheTtlSeconds: 3600,
+  version: 1,
+} as AgentAtVersion;
+
+const request: ProviderRequest = {
+  systemPrompt: 'You are a helpful assistant.',
+  messages: [{ role: 'user', content: 'What are your opening hours?' }],
+  temperature: 0,
+  maxTokens: 100,
+};
+
+describe('isResponseCacheable', () => {
+  it('caches only enabled agents at or below the temperature threshold', () => {
+    expect(isResponseCacheable(agent)).toBe(true);
+    expect(isResponseCacheable({ ...agent, temperature: 0.2 })).toBe(true);
+    expect(isResponseCacheable({ ...agent, temperature: 0.7 })).toBe(false);
+    expect(isResponseCacheable({ ...agent, responseCacheEnabled: false })).toBe(false);
+  });
+});
+
+describe('getResponseCacheKey', () => {
+  it('ignores whitespace and case differences in the prompt', () => {
+    const rephrased: ProviderRequest = {
+      ...request,
+      messages: [{ role: 'user', content: '  what are your   opening hours? ' }],
+    };
+
+    expect(getResponseCacheKey(agent, rephrased)).toBe(getResponseCacheKey(agent, request));
+  });
+
+  it('only keys on the most recent history window', () => {
+    const earlier: ProviderRequest = {
+      ...request,
+      messages: [
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Hello!' },
+        ...request.messages,
+      ],
+    };
+    const otherEarlier: ProviderRequest = {
+      ...earlier,
+      messages: [{ role: 'user', content: 'Good morning' }, ...earlier.messages.slice(1)],
+    };
+
+    expect(getResponseCacheKey(agent, otherEarlier)).toBe(getResponseCacheKey(agent, earlier));
+    expect(getResponseCacheKey(agent, earlier)).not.toBe(getResponseCacheKey(agent, request));
+  });
+
+  it('changes with the tools, sampling settings and the agent version', () => {
+    const key = getResponseCacheKey(agent, request);
+
+    expect(
+      getResponseCacheKey(agent, {
+        ...request,
+        tools: [{ name: 'InvoiceLookup', description: 'Look up an invoice', parameters: {} }],
+      })
+    ).not.toBe(key);
+    expect(getResponseCacheKey(agent, { ...request, temperature: 0.1 })).not.toBe(key);
+    expect(getResponseCacheKey({ ...agent, version: 2 }, request)).not.toBe(key);
+  });
+
+  it('ignores tool call ids, which vendors generate per call', () => {
+    const withToolCall = (id: string): ProviderRequest => ({
+      ...request,
+      messages: [
+        ...request.messages,
+        { role: 'assistant', content: '', toolCalls: [{ id, name: 'InvoiceLookup', args: { orderId: '1' } }] },
+        { role: 'tool', content: '', toolResults: [{ id, result: { status: 'SHIPPED' } }] },
+      ],
+    });
+
+    expect(getResponseCacheKey(agent, withToolCall('call_1'))).toBe(
+      getResponseCacheKey(agent, withToolCall('call_2'))
+    );
+  });
+});
+
+describe('getCachedResponse', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns a live entry and counts the hit', async () => {
+    vi.mocked(prisma.responseCacheEntry.findUnique).mockResolvedValue({
+      id: 'entry-1',
+      provider: 'VENDOR_A',
+      response: { content: 'We are open 9-5.', tokensIn: 10, tokensOut: 5, latencyMs: 100 },
+      structuredOutput: null,
+      expiresAt: new Date(Date.now() + 60000),
+    } as any);
+
+    const cached = await getCachedResponse('tenant-1', 'agent-1', 'key');
+
+    expect(cached).toMatchObject({ provider: 'VENDOR_A', response: { content: 'We are open 9-5.' } });
+    expect(prisma.responseCacheEntry.update).toHaveBeenCalledWith({
+      where: { id: 'entry-1' },
+      data: { hitCount: { increment: 1 } },
+    });
+  });
+
+  it('drops an expired entry and misses', async () => {
+    vi.mocked(prisma.responseCacheEntry.findUnique).mockResolvedValue({
+      id: 'entry-1',
+      expiresAt: new Date(Date.now() - 1000),
+    } as any);
+
+    expect(await getCachedResponse('tenant-1', 'agent-1', 'key')).toBeNull();
+    expect(prisma.responseCacheEntry.deleteMany).toHaveBeenCalledWith({ where: { id: 'entry-1' } });
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Session Lock Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type pino from 'pino';
+import { Prisma } from '@prisma/client';
+import { withSessionLock } from '../../services/session-lock.service.js';
+import { LockTimeoutError } from '../../utils/errors.js';
+import { config } from '../../config/index.js';
+import { prisma } from '../../utils/db.js';
+
+vi.mock('../../config/index.js', () => ({
+  config: {
+    session: {
+      lockStrategy: 'memory',
+      lockWaitMs: 50,
+      lockTimeoutMs: 1000,
+      lockReleaseGraceMs: 500,
+    },
+  },
+}));
+
+vi.mock('../../utils/db.js', () => ({
+  prisma: {
+    $transaction: vi.fn(),
+  },
+}));
+
+const log = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+} as unknown as pino.Logger;
+
+const sessionConfig = config.session as { lockStrategy: string; lockTimeoutMs: number };
+const SESSION_ID = '6a1f8a4e-6a55-4f53-9c0e-0d3b4f7f3b10';
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('withSessionLock (memory)', () => {
+  beforeEach(() => {
+    sessionConfig.lockStrategy = 'memory';
+    sessionConfig.lockTimeoutMs = 1000;
+  });
+
+  it('runs holders of the same session one at a time, in arrival order', async () => {
+    const events: string[] = [];
+    const holder = (name: string) => () =>
+      withSessionLock(SESSION_ID, async () => {
+        events.push(`${name}:start`);
+        await delay(10);
+        events.push(`${name}:end`);
+        return name;
+      }, log);
+
+    const results = await Promise.all([holder('a')(), holder('b')(), holder('c')()]);
+
+    expect(results).toEqual(['a', 'b', 'c']);
+    expect(events).toEqual(['a:start', 'a:end', 'b:start', 'b:end', 'c:start', 'c:end']);
+  });
+
+  it('does not serialize different sessions', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const holder = (sessionId: string) =>
+      withSessionLock(sessionId, async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await delay(10);
+        running--;
+      }, log);
+
+    await Promise.all([holder(SESSION_ID), holder('0b0f3f1e-2c55-4e0a-8f55-3f2b1b4c6d7e')]);
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it('fails with LockTimeoutError after waiting lockWaitMs', async () => {
+    const first = withSessionLock(SESSION_ID, () => delay(120), log);
+    const second = withSessionLock(SESSION_ID, async () => 'never', log);
+
+    await expect(second).rejects.toBeInstanceOf(LockTimeoutError);
+    await expect(second).rejects.toMatchObject({ statusCode: 409, code: 'CONFLICT' });
+    await first;
+  });
+
+  it('does not let a later waiter overtake a holder when an earlier waiter gives up', async () => {
+    const events: string[] = [];
+
+    const first = withSessionLock(SESSION_ID, async () => {
+      events.push('first:start');
+      await delay(80);
+      events.push('first:end');
+    }, log);
+    const second = withSessionLock(SESSION_ID, async () => {
+      events.push('second');
+    }, log);
+    await delay(30);
+    const third = withSessionLock(SESSION_ID, async () => {
+      events.push('third');
+    }, log);
+
+    await expect(second).rejects.toBeInstanceOf(LockTimeoutError);
+    await first;
+    await third;
+
+    expect(events).toEqual(['first:start', 'first:end', 'third']);
+  });
+
+  it('releases the lock when the holder throws', async () => {
+    await expect(
+      withSessionLock(SESSION_ID, async () => {
+        throw new Error('boom');
+      }, log)
+    ).rejects.toThrow('boom');
+
+    await expect(withSessionLock(SESSION_ID, async () => 'ok', log)).resolves.toBe('ok');
+  });
+
+  it('aborts a holder that outlives its hold and keeps the lock until it has unwound', async () => {
+    sessionConfig.lockTimeoutMs = 30;
+    const events: string[] = [];
+
+    const first = withSessionLock(SESSION_ID, async (signal) => {
+      await new Promise<void>((resolve) => signal.addEventListener('abort', () => resolve()));
+      events.push('first:aborted');
+      await delay(40);
+      events.push('first:end');
+    }, log);
+    await delay(10);
+    const second = withSessionLock(SESSION_ID, async () => {
+      events.push('second');
+    }, log);
+
+    await expect(second).rejects.toBeInstanceOf(LockTimeoutError);
+    await first;
+    await withSessionLock(SESSION_ID, async () => events.push('third'), log);
+
+    expect(events).toEqual(['first:aborted', 'first:end', 'third']);
+  });
+});
+
+describe('withSessionLock (postgres)', () => {
+  const transaction = vi.mocked(prisma.$transaction) as unknown as ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    sessionConfig.lockStrategy = 'postgres';
+    sessionConfig.lockTimeoutMs = 1000;
+    transaction.mockReset();
+  });
+
+  function mockTransaction(tx: Record<string, unknown>) {
+    transaction.mockImplementation(async (fn: (tx: unknown) => Promise<unknown>) => fn(tx));
+  }
+
+  it('takes a transaction-scoped advisory lock with a bounded wait', async () => {
+    const tx = {
+      $executeRawUnsafe: vi.fn().mockResolvedValue(0),
+      $queryRaw: vi.fn().mockResolvedValue([{}]),
+    };
+    mockTransaction(tx);
+
+    await expect(withSessionLock(SESSION_ID, async () => 'done', log)).resolves.toBe('done');
+
+    expect(tx.$executeRawUnsafe).toHaveBeenCalledWith('SET LOCAL lock_timeout = 50');
+    expect(tx.$queryRaw).toHaveBeenCalledTimes(1);
+    // The transaction outlives the hold by the grace period, so an aborted holder can unwind
+    expect(transaction).toHaveBeenCalledWith(expect.any(Function), { maxWait: 50, timeout: 1500 });
+  });
+
+  it('maps a PostgreSQL lock_timeout to LockTimeoutError', async () => {
+    const lockTimeout = new Prisma.PrismaClientKnownRequestError('canceling statement due to lock timeout', {
+      code: 'P2010',
+      clientVersion: 'test',
+      meta: { code: '55P03' },
+    });
+    mockTransaction({
+      $executeRawUnsafe: vi.fn().mockResolvedValue(0),
+      $queryRaw: vi.fn().mockRejectedValue(lockTimeout),
+    });
+    const fn = vi.fn();
+
+    await expect(withSessionLock(SESSION_ID, fn, log)).rejects.toBeInstanceOf(LockTimeoutError);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('passes errors raised while holding the lock through unchanged', async () => {
+    const poolTimeout = new Prisma.PrismaClientKnownRequestError('Timed out fetching a new connection', {
+      code: 'P2024',
+      clientVersion: 'test',
+    });
+    mockTransaction({
+      $executeRawUnsafe: vi.fn().mockResolvedValue(0),
+      $queryRaw: vi.fn().mockResolvedValue([{}]),
+    });
+
+    await expect(
+      withSessionLock(SESSION_ID, async () => {
+        throw poolTimeout;
+      }, log)
+    ).rejects.toBe(poolTimeout);
+  });
+
+  it('aborts a holder that outlives its hold and still returns its finished work', async () => {
+    sessionConfig.lockTimeoutMs = 30;
+    const expired = new Prisma.PrismaClientKnownRequestError('Transaction already closed', {
+      code: 'P2028',
+      clientVersion: 'test',
+    });
+    // Like Prisma: the callback runs to completion, but the expired transaction rejects
+    transaction.mockImplementation(async (fn: (tx: unknown) => Promise<unknown>) => {
+      await fn({
+        $executeRawUnsafe: vi.fn().mockResolvedValue(0),
+        $queryRaw: vi.fn().mockResolvedValue([{}]),
+      });
+      throw expired;
+    });
+    let aborted = false;
+
+    const result = await withSessionLock(SESSION_ID, async (signal) => {
+      await delay(60);
+      aborted = signal.aborted;
+      return 'stored';
+    }, log);
+
+    expect(aborted).toBe(true);
+    expect(result).toBe('stored');
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tenant Tool Service Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { deleteTenantTool } from '../../services/tenant-tool.service.js';
+import { ConflictError } from '../../utils/errors.js';
+import { prisma } from '../../utils/db.js';
+
+vi.mock('../../utils/db.js', () => ({
+  prisma: {
+    tenantTool: {
+      findFirst: vi.fn(),
+      delete: vi.fn(),
+    },
+    agent: {
+      findMany: vi.fn(),
+    },
+    agentVersion: {
+      findMany: vi.fn(),
+    },
+    session: {
+      findMany: vi.fn(),
+    },
+    experiment: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../../tools/registry.js', () => ({
+  toolRegistry: { isBuiltIn: vi.fn().mockReturnValue(false) },
+}));
+
+const version = (version: number, status: string) => ({
+  agentId: 'agent-1',
+  version,
+  status,
+  agent: { name: 'Support Bot' },
+});
+
+describe('deleteTenantTool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.tenantTool.findFirst).mockResolvedValue({ id: 'tool-1', name: 'StockCheck' } as any);
+    // The published configuration no longer enables the tool
+    vi.mocked(prisma.agent.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.session.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.experiment.findMany).mockResolvedValue([]);
+  });
+
+  it('deletes a tool only archived versions enable', async () => {
+    vi.mocked(prisma.agentVersion.findMany).mockResolvedValue([version(1, 'ARCHIVED')] as any);
+
+    await deleteTenantTool('tenant-1', 'tool-1');
+
+    expect(prisma.tenantTool.delete).toHaveBeenCalledWith({ where: { id: 'tool-1' } });
+  });
+
+  it('refuses while an active session is pinned to a version enabling the tool', async () => {
+    vi.mocked(prisma.agentVersion.findMany).mockResolvedValue([
+      version(1, 'ARCHIVED'),
+      version(2, 'ARCHIVED'),
+    ] as any);
+    vi.mocked(prisma.session.findMany).mockResolvedValue([{ agentId: 'agent-1', agentVersion: 2 }] as any);
+
+    await expect(deleteTenantTool('tenant-1', 'tool-1')).rejects.toThrow(
+      "Tool 'StockCheck' is enabled in agent versions still in use: Support Bot v2"
+    );
+    expect(prisma.tenantTool.delete).not.toHaveBeenCalled();
+  });
+
+  it('refuses while a running experiment serves a version enabling the tool', async () => {
+    vi.mocked(prisma.agentVersion.findMany).mockResolvedValue([version(4, 'DRAFT')] as any);
+    vi.mocked(prisma.experiment.findMany).mockResolvedValue([
+      {
+        agentId: 'agent-1',
+        variants: [
+          { name: 'control', version: 3, weight: 50 },
+          { name: 'candidate', version: 4, weight: 50 },
+        ],
+      },
+    ] as any);
+
+    await expect(deleteTenantTool('tenant-1', 'tool-1')).rejects.toBeInstanceOf(ConflictError);
+    expect(prisma.tenantTool.delete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Tool capability tests
+ * The scoped data accessor runs against an in-memory stand-in for prisma that evaluates
+ * where clauses, so the tests check which rows a tool can actually get back
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createToolCapabilities } from '../../tools/capabilities.js';
+import { toolRegistry } from '../../tools/registry.js';
+import { ToolPermissionError } from '../../utils/errors.js';
+import { prisma } from '../../utils/db.js';
+import type { Tool, ToolContext, ToolPermissions } from '../../tools/types.js';
+
+vi.mock('../../utils/db.js', () => {
+  type Row = Record<string, unknown>;
+
+  // Equality, { in }, AND/OR/NOT and nested relation objects are enough for these tests
+  const matches = (row: Row, where: Row = {}): boolean =>
+    Object.entries(where).every(([key, condition]) => {
+      if (key === 'AND') return ([] as Row[]).concat(condition as Row).every((c) => matches(row, c));
+      if (key === 'OR') return (condition as Row[]).some((c) => matches(row, c));
+      if (key === 'NOT') return !([] as Row[]).concat(condition as Row).some((c) => matches(row, c));
+      const value = row[key];
+      if (condition !== null && typeof condition === 'object' && 'in' in condition) {
+        return (condition.in as unknown[]).includes(value);
+      }
+      if (condition !== null && typeof condition === 'object') {
+        return typeof value === 'object' && value !== null && matches(value as Row, condition as Row);
+      }
+      return value === condition;
+    });
+
+  const table = (rows: Row[]) => ({
+    findMany: vi.fn(async (args: Row = {}) => rows.filter((row) => matches(row, args.where as Row))),
+    findFirst: vi.fn(async (args: Row = {}) => rows.find((row) => matches(row, args.where as Row)) ?? null),
+    findUnique: vi.fn(async (args: Row = {}) => rows.find((row) => matches(row, args.where as Row)) ?? null),
+    count: vi.fn(async (args: Row = {}) => rows.filter((row) => matches(row, args.where as Row)).length),
+    create: vi.fn(async (args: Row) => args.data),
+    updateMany: vi.fn(async () => ({ count: 0 })),
+  });
+
+  const tenantA = { tenantId: 'tenant-a' };
+  const tenantB = { tenantId: 'tenant-b' };
+
+  return {
+    prisma: {
+      agent: table([
+        { id: 'agent-a', ...tenantA },
+        { id: 'agent-b', ...tenantB },
+      ]),
+      agentVersion: table([]),
+      session: table([
+        { id: 'session-a1', ...tenantA },
+        { id: 'session-a2', ...tenantA },
+        { id: 'session-b1', ...tenantB },
+      ]),
+      message: table([
+        { id: 'message-a1', sessionId: 'session-a1', session: tenantA },
+        { id: 'message-a2', sessionId: 'session-a2', session: tenantA },
+        { id: 'message-b1', sessionId: 'session-b1', session: tenantB },
+      ]),
+      knowledgeBase: table([]),
+      knowledgeDocument: table([]),
+      knowledgeChunk: table([
+        { id: 'chunk-a', knowledgeBaseId: 'kb-a', knowledgeBase: tenantA },
+        { id: 'chunk-b', knowledgeBaseId: 'kb-b', knowledgeBase: tenantB },
+      ]),
+      toolExecution: { create: vi.fn() },
+      tenantTool: { findMany: vi.fn().mockResolvedValue([]) },
+    },
+  };
+});
+
+const context: ToolContext = {
+  tenantId: 'tenant-a',
+  sessionId: 'session-a1',
+  correlationId: 'corr-1',
+  messageId: 'message-1',
+};
+
+function toolWith(
+  permissions: Partial<ToolPermissions>,
+  execute: Tool['execute'] = async () => ({ success: true })
+): Tool {
+  return {
+    name: 'Probe',
+    description: 'Test tool',
+    parameters: { type: 'object', properties: {} },
+    permissions: { dataAccess: 'none', networkAccess: false, estimatedCostCents: 0, ...permissions },
+    limits: { timeoutMs: 1000, maxPayloadBytes: 4096 },
+    execute,
+  };
+}
+
+describe('tool data access', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('tenant_readonly', () => {
+    const { data } = createToolCapabilities(toolWith({ dataAccess: 'tenant_readonly' }), context);
+
+    it('only returns rows of the calling tenant', async () => {
+      const chunks = await data.knowledgeChunk.findMany({});
+
+      expect(chunks.map((c) => c.id)).toEqual(['chunk-a']);
+    });
+
+    it('cannot read another tenant by asking for its ids or tenant', async () => {
+      expect(await data.session.findUnique({ where: { id: 'session-b1' } })).toBeNull();
+      expect(await data.agent.findFirst({ where: { tenantId: 'tenant-b' } })).toBeNull();
+      expect(
+        await data.knowledgeChunk.findMany({ where: { knowledgeBaseId: { in: ['kb-a', 'kb-b'] } } })
+      ).toHaveLength(1);
+    });
+
+    it('cannot widen the scope with OR or NOT', async () => {
+      const messages = await data.message.findMany({
+        where: { OR: [{ session: { tenantId: 'tenant-b' } }, { id: 'message-b1' }] },
+      });
+      const sessions = await data.session.count({ where: { NOT: { tenantId: 'tenant-a' } } });
+
+      expect(messages).toEqual([]);
+      expect(sessions).toBe(0);
+    });
+
+    it('ANDs the tenant filter into every query', async () => {
+      await data.agent.findFirst({ where: { id: 'agent-a', AND: { name: 'Support' } } });
+
+      expect(prisma.agent.findFirst).toHaveBeenCalledWith({
+        where: { id: 'agent-a', AND: [{ name: 'Support' }, { tenantId: 'tenant-a' }] },
+      });
+    });
+
+    it('refuses writes', async () => {
+      await expect(
+        data.session.updateMany({ where: {}, data: { status: 'ENDED' } })
+      ).rejects.toThrow(ToolPermissionError);
+      expect(prisma.session.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('refuses relations into models tools cannot reach', async () => {
+      await expect(
+        data.session.findFirst({ include: { tenant: true } })
+      ).rejects.toThrow("relation session.tenant is out of reach");
+      await expect(
+        data.agent.findMany({ where: { tenant: { apiKeys: { some: { keyPrefix: 'sk_' } } } } })
+      ).rejects.toThrow(ToolPermissionError);
+      expect(prisma.session.findFirst).not.toHaveBeenCalled();
+      expect(prisma.agent.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('session_only', () => {
+    const { data } = createToolCapabilities(toolWith({ dataAccess: 'session_only' }), context);
+
+    it('only returns the calling session and its messages', async () => {
+      const messages = await data.message.findMany({});
+      const otherSession = await data.session.findFirst({ where: { id: 'session-a2' } });
+
+      expect(messages.map((m) => m.id)).toEqual(['message-a1']);
+      expect(otherSession).toBeNull();
+    });
+
+    it('refuses other models', async () => {
+      await expect(data.agent.findMany({})).rejects.toThrow(
+        "data access 'session_only' does not cover agent"
+      );
+    });
+  });
+
+  describe('none', () => {
+    it('refuses every model', async () => {
+      const { data, violations } = createToolCapabilities(toolWith({}), context);
+
+      await expect(data.session.findFirst({})).rejects.toThrow(ToolPermissionError);
+      expect(violations).toHaveLength(1);
+      expect(prisma.session.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('tenant_write', () => {
+    const { data } = createToolCapabilities(toolWith({ dataAccess: 'tenant_write' }), context);
+
+    it('creates rows owned by the calling tenant', async () => {
+      await data.knowledgeBase.create({ data: { name: 'FAQ' } as any });
+
+      expect(prisma.knowledgeBase.create).toHaveBeenCalledWith({
+        data: { name: 'FAQ', tenantId: 'tenant-a' },
+      });
+    });
+
+    it('refuses writes that would attach a row elsewhere', async () => {
+      await expect(
+        data.session.updateMany({ where: {}, data: { agentId: 'agent-b' } })
+      ).rejects.toThrow('writes to session.agentId are not permitted');
+      await expect(
+        data.knowledgeBase.create({ data: { name: 'FAQ', tenantId: 'tenant-b' } })
+      ).rejects.toThrow(ToolPermissionError);
+      expect(prisma.knowledgeBase.create).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('tool network access', () => {
+  it('refuses requests without networkAccess', async () => {
+    const { fetch, violations } = createToolCapabilities(toolWith({}), context);
+
+    await expect(fetch('https://example.com')).rejects.toThrow(
+      "Tool 'Probe': network access is not permitted"
+    );
+    expect(violations).toHaveLength(1);
+  });
+});
+
+describe('ToolRegistry permission enforcement', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('records a refused capability as a FAILED execution, even if the tool caught it', async () => {
+    toolRegistry.register(
+      toolWith({}, async (_args, toolContext) => {
+        try {
+          await toolContext.fetch!('https://example.com');
+        } catch {
+          // Swallowed on purpose
+        }
+        return { success: true, data: { ok: true } };
+      })
+    );
+
+    const result = await toolRegistry.execute('Probe', {}, context, ['Probe']);
+
+    expect(result).toEqual({
+      success: false,
+      error: "Tool 'Probe': network access is not permitted",
+      errorCode: 'PERMISSION_DENIED',
+    });
+    expect(prisma.toolExecution.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        toolName: 'Probe',
+        status: 'FAILED',
+        errorMessage: "Tool 'Probe': network access is not permitted",
+      }),
+    });
+  });
+
+  it('hands tools data scoped to the calling tenant', async () => {
+    let sessionIds: string[] = [];
+    toolRegistry.register(
+      toolWith({ dataAccess: 'tenant_readonly' }, async (_args, toolContext) => {
+        const sessions = await toolContext.data!.session.findMany({});
+        sessionIds = sessions.map((s) => s.id);
+        return { success: true };
+      })
+    );
+
+    const result = await toolRegistry.execute('Probe', {}, context, ['Probe']);
+
+    expect(result.success).toBe(true);
+    expect(sessionIds).toEqual(['session-a1', 'session-a2']);
+  });
+});
@@ -11,6 +11,7 @@ describe('InvoiceLookupTool', () => {
     tenantId: 'tenant_123',
     sessionId: 'session_456',
     correlationId: 'corr_789',
+    messageId: 'msg_012',
   };
 
   describe('Tool Definition', () => {
@@ -0,0 +1,113 @@
+/**
+ * KnowledgeBaseSearch tool tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { KnowledgeBaseSearchTool } from '../../tools/knowledge-base-search.js';
+import { searchKnowledgeBases } from '../../services/knowledge-base.service.js';
+import { ToolPermissionError } from '../../utils/errors.js';
+import type { ToolContext } from '../../tools/types.js';
+
+vi.mock('../../services/knowledge-base.service.js', () => ({
+  searchKnowledgeBases: vi.fn(),
+}));
+
+// Stands in for the tenant-scoped accessor the registry grants
+const data = {
+  session: { findFirst: vi.fn() },
+};
+
+const context = {
+  tenantId: 'tenant-1',
+  sessionId: 'session-1',
+  correlationId: 'corr-1',
+  messageId: 'message-1',
+  data,
+} as unknown as ToolContext;
+
+const sessionWithAgent = (knowledgeBaseIds: string[]) => ({
+  id: 'session-1',
+  agentVersion: null,
+  agent: { id: 'agent-1', publishedVersion: 1, knowledgeBaseIds },
+});
+
+describe('KnowledgeBaseSearchTool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('searches the knowledge bases of the session agent and returns cited passages', async () => {
+    data.session.findFirst.mockResolvedValue(sessionWithAgent(['kb-1']));
+    vi.mocked(searchKnowledgeBases).mockResolvedValue([
+      {
+        chunkId: 'chunk-1',
+        ref: 'kb-1a2b3c4d',
+        knowledgeBaseId: 'kb-1',
+        documentId: 'doc-1',
+        documentTitle: 'Refund Policy',
+        position: 0,
+        content: 'Refunds are issued within 30 days.',
+        score: 2.4,
+      },
+    ]);
+
+    const result = await KnowledgeBaseSearchTool.execute({ query: 'refund window' }, context);
+
+    expect(data.session.findFirst).toHaveBeenCalledWith({
+      where: { id: 'session-1' },
+      include: { agent: true },
+    });
+    expect(searchKnowledgeBases).toHaveBeenCalledWith(
+      'tenant-1',
+      ['kb-1'],
+      'refund window',
+      undefined,
+      data
+    );
+    expect(result).toEqual({
+      success: true,
+      data: {
+        query: 'refund window',
+        results: [
+          { ref: 'kb-1a2b3c4d', source: 'Refund Policy', content: 'Refunds are issued within 30 days.' },
+        ],
+      },
+      citations: [
+        {
+          ref: 'kb-1a2b3c4d',
+          chunkId: 'chunk-1',
+          knowledgeBaseId: 'kb-1',
+          documentId: 'doc-1',
+          documentTitle: 'Refund Policy',
+          position: 0,
+          excerpt: 'Refunds are issued within 30 days.',
+        },
+      ],
+    });
+  });
+
+  it('fails when the agent has no knowledge bases', async () => {
+    data.session.findFirst.mockResolvedValue(sessionWithAgent([]));
+
+    const result = await KnowledgeBaseSearchTool.execute({ query: 'refund' }, context);
+
+    expect(result).toEqual({ success: false, error: 'No knowledge bases are enabled for this agent' });
+    expect(searchKnowledgeBases).not.toHaveBeenCalled();
+  });
+
+  it('refuses to run without granted data access', async () => {
+    const { data: _data, ...withoutData } = context;
+
+    await expect(KnowledgeBaseSearchTool.execute({ query: 'refund' }, withoutData)).rejects.toThrow(
+      ToolPermissionError
+    );
+    expect(searchKnowledgeBases).not.toHaveBeenCalled();
+  });
+
+  it('only reads tenant data and never the network', () => {
+    expect(KnowledgeBaseSearchTool.permissions).toMatchObject({
+      dataAccess: 'tenant_readonly',
+      networkAccess: false,
+    });
+  });
+});
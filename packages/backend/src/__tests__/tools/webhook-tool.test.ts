@@ -0,0 +1,183 @@
+/**
+ * Webhook tool tests
+ * Runs against a local stub server standing in for the tenant's endpoint
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { createHmac } from 'crypto';
+import { createWebhookTool, type WebhookToolConfig } from '../../tools/webhook-tool.js';
+import { CancelledError, TimeoutError, ToolPermissionError } from '../../utils/errors.js';
+
+type Handler = (req: IncomingMessage, raw: string, res: ServerResponse) => void;
+
+const SECRET = 'whsec_test_signing_secret';
+
+describe('createWebhookTool', () => {
+  let server: Server;
+  let endpointUrl: string;
+  let handler: Handler;
+  let lastRequest: { headers: IncomingMessage['headers']; raw: string };
+
+  const context = {
+    tenantId: 'tenant-1',
+    sessionId: 'session-1',
+    correlationId: 'corr-1',
+    messageId: 'message-1',
+    // Granted by the registry for tools with network access
+    fetch: globalThis.fetch,
+  };
+
+  const createTool = (overrides: Partial<WebhookToolConfig> = {}) =>
+    createWebhookTool({
+      name: 'StockCheck',
+      description: 'Check stock for a SKU',
+      parameters: { type: 'object', properties: { sku: { type: 'string' } }, required: ['sku'] },
+      endpointUrl,
+      signingSecret: SECRET,
+      timeoutMs: 1000,
+      maxPayloadBytes: 1024,
+      costCents: 2,
+      ...overrides,
+    });
+
+  const json = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        lastRequest = { headers: req.headers, raw };
+        handler(req, raw, res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    endpointUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/tools/stock`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    handler = (_req, _raw, res) => json(res, 200, { sku: 'A-1', inStock: 4 });
+  });
+
+  it('should expose the configured definition, limits and cost', () => {
+    const tool = createTool();
+
+    expect(tool.name).toBe('StockCheck');
+    expect(tool.limits).toEqual({ timeoutMs: 1000, maxPayloadBytes: 1024 });
+    expect(tool.permissions.networkAccess).toBe(true);
+    expect(tool.permissions.estimatedCostCents).toBe(2);
+  });
+
+  it('should POST a signed payload and return the JSON response', async () => {
+    const result = await createTool().execute({ sku: 'A-1' }, context);
+
+    expect(result).toEqual({ success: true, data: { sku: 'A-1', inStock: 4 } });
+
+    const body = JSON.parse(lastRequest.raw);
+    expect(body).toEqual({
+      tool: 'StockCheck',
+      args: { sku: 'A-1' },
+      context: { tenantId: 'tenant-1', sessionId: 'session-1', correlationId: 'corr-1' },
+    });
+
+    const timestamp = lastRequest.headers['x-tool-timestamp'] as string;
+    const expected = createHmac('sha256', SECRET).update(`${timestamp}.${lastRequest.raw}`).digest('hex');
+    expect(lastRequest.headers['x-tool-signature']).toBe(`sha256=${expected}`);
+    expect(lastRequest.headers['x-correlation-id']).toBe('corr-1');
+  });
+
+  it('should return the endpoint error message for non-2xx responses', async () => {
+    handler = (_req, _raw, res) => json(res, 404, { error: 'Unknown SKU' });
+
+    const result = await createTool().execute({ sku: 'nope' }, context);
+
+    expect(result).toEqual({ success: false, error: 'Unknown SKU' });
+  });
+
+  it('should reject requests larger than maxPayloadBytes without calling the endpoint', async () => {
+    let called = false;
+    handler = (_req, _raw, res) => {
+      called = true;
+      json(res, 200, {});
+    };
+
+    const result = await createTool({ maxPayloadBytes: 256 }).execute({ sku: 'x'.repeat(300) }, context);
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe('PAYLOAD_TOO_LARGE');
+    expect(called).toBe(false);
+  });
+
+  it('should reject responses larger than maxPayloadBytes', async () => {
+    handler = (_req, _raw, res) => {
+      // Chunked response without a content-length, so the limit is enforced while reading
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.write('{"data":"');
+      res.write('x'.repeat(2048));
+      res.end('"}');
+    };
+
+    const result = await createTool().execute({ sku: 'A-1' }, context);
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe('PAYLOAD_TOO_LARGE');
+  });
+
+  it('should time out slow endpoints', async () => {
+    handler = (_req, _raw, res) => {
+      setTimeout(() => json(res, 200, { late: true }), 500);
+    };
+
+    await expect(createTool({ timeoutMs: 100 }).execute({ sku: 'A-1' }, context)).rejects.toThrow(
+      TimeoutError
+    );
+  });
+
+  it('should time out endpoints that stall while sending the body', async () => {
+    handler = (_req, _raw, res) => {
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.write('{"partial":');
+      setTimeout(() => res.end('true}'), 500);
+    };
+
+    await expect(createTool({ timeoutMs: 100 }).execute({ sku: 'A-1' }, context)).rejects.toThrow(
+      TimeoutError
+    );
+  });
+
+  it('should abort the request when the caller cancels', async () => {
+    handler = (_req, _raw, res) => {
+      setTimeout(() => json(res, 200, { late: true }), 500);
+    };
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    await expect(
+      createTool().execute({ sku: 'A-1' }, { ...context, signal: controller.signal })
+    ).rejects.toThrow(CancelledError);
+  });
+
+  it('should not reach the endpoint without a granted fetch', async () => {
+    let reached = false;
+    handler = (_req, _raw, res) => {
+      reached = true;
+      json(res, 200, { inStock: true });
+    };
+    const { fetch: _fetch, ...withoutFetch } = context;
+
+    await expect(createTool().execute({ sku: 'A-1' }, withoutFetch)).rejects.toThrow(
+      ToolPermissionError
+    );
+    expect(reached).toBe(false);
+  });
+});
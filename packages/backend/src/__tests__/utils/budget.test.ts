@@ -0,0 +1,92 @@
+/**
+ * Budget calculation tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getPeriodBounds,
+  evaluateBudgetWindow,
+  hasBudgetLimits,
+  type BudgetLimits,
+} from '../../utils/budget.js';
+
+const noLimits: BudgetLimits = {
+  dailySoftLimitCents: null,
+  dailyHardLimitCents: null,
+  monthlySoftLimitCents: null,
+  monthlyHardLimitCents: null,
+};
+
+describe('getPeriodBounds', () => {
+  const now = new Date('2026-02-14T23:30:00Z');
+
+  it('should return the UTC day containing now', () => {
+    const { start, end } = getPeriodBounds('DAILY', now);
+    expect(start.toISOString()).toBe('2026-02-14T00:00:00.000Z');
+    expect(end.toISOString()).toBe('2026-02-15T00:00:00.000Z');
+  });
+
+  it('should return the UTC month containing now', () => {
+    const { start, end } = getPeriodBounds('MONTHLY', now);
+    expect(start.toISOString()).toBe('2026-02-01T00:00:00.000Z');
+    expect(end.toISOString()).toBe('2026-03-01T00:00:00.000Z');
+  });
+
+  it('should roll over into the next year in December', () => {
+    const { end } = getPeriodBounds('MONTHLY', new Date('2026-12-31T12:00:00Z'));
+    expect(end.toISOString()).toBe('2027-01-01T00:00:00.000Z');
+  });
+});
+
+describe('evaluateBudgetWindow', () => {
+  const now = new Date('2026-10-19T10:00:00Z');
+  const limits: BudgetLimits = {
+    ...noLimits,
+    dailySoftLimitCents: 800,
+    dailyHardLimitCents: 1000,
+  };
+
+  it('should report headroom below the soft limit', () => {
+    const status = evaluateBudgetWindow('DAILY', limits, 500, now);
+    expect(status.remainingCents).toBe(500);
+    expect(status.softLimitReached).toBe(false);
+    expect(status.hardLimitReached).toBe(false);
+    expect(status.resetsAt.toISOString()).toBe('2026-10-20T00:00:00.000Z');
+  });
+
+  it('should flag the soft limit before the hard limit', () => {
+    const status = evaluateBudgetWindow('DAILY', limits, 800, now);
+    expect(status.softLimitReached).toBe(true);
+    expect(status.hardLimitReached).toBe(false);
+  });
+
+  it('should flag the hard limit and clamp remaining at zero', () => {
+    const status = evaluateBudgetWindow('DAILY', limits, 1200, now);
+    expect(status.hardLimitReached).toBe(true);
+    expect(status.remainingCents).toBe(0);
+  });
+
+  it('should measure headroom against the soft limit when no hard limit is set', () => {
+    const status = evaluateBudgetWindow(
+      'MONTHLY',
+      { ...noLimits, monthlySoftLimitCents: 5000 },
+      1000,
+      now
+    );
+    expect(status.remainingCents).toBe(4000);
+    expect(status.hardLimitReached).toBe(false);
+  });
+
+  it('should report no headroom figure for an unlimited period', () => {
+    const status = evaluateBudgetWindow('MONTHLY', limits, 1000, now);
+    expect(status.remainingCents).toBeNull();
+    expect(status.softLimitReached).toBe(false);
+  });
+});
+
+describe('hasBudgetLimits', () => {
+  it('should detect when any limit is configured', () => {
+    expect(hasBudgetLimits(noLimits)).toBe(false);
+    expect(hasBudgetLimits({ ...noLimits, monthlyHardLimitCents: 0 })).toBe(true);
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * Canonical JSON tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { canonicalJson } from '../../utils/canonical-json.js';
+
+describe('canonicalJson', () => {
+  it('should ignore object key order', () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, 2], c: 'x' } })).toBe(
+      canonicalJson({ a: { c: 'x', d: [1, 2] }, b: 1 })
+    );
+  });
+
+  it('should keep array order significant', () => {
+    expect(canonicalJson([1, 2])).not.toBe(canonicalJson([2, 1]));
+  });
+
+  it('should drop undefined properties and treat undefined as null', () => {
+    expect(canonicalJson({ a: 1, b: undefined })).toBe('{"a":1}');
+    expect(canonicalJson(undefined)).toBe('null');
+  });
+
+  it('should distinguish values of different types', () => {
+    expect(canonicalJson({ id: '1' })).not.toBe(canonicalJson({ id: 1 }));
+  });
+});
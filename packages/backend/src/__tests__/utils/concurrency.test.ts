@@ -0,0 +1,44 @@
+/**
+ * Concurrency helper tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency } from '../../utils/concurrency.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('mapWithConcurrency', () => {
+  it('should keep input order when later items finish first', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (ms, index) => {
+      await sleep(ms);
+      return `${index}:${ms}`;
+    });
+
+    expect(results).toEqual(['0:30', '1:10', '2:20']);
+  });
+
+  it('should never exceed the concurrency limit', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await sleep(5);
+      inFlight--;
+    });
+
+    expect(peak).toBe(2);
+  });
+
+  it('should run calls concurrently rather than one at a time', async () => {
+    const start = Date.now();
+    await mapWithConcurrency([50, 50, 50], 3, (ms) => sleep(ms));
+
+    expect(Date.now() - start).toBeLessThan(140);
+  });
+
+  it('should handle an empty list', async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
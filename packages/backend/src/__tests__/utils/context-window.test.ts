@@ -0,0 +1,124 @@
+/**
+ * Context Window Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  chunkContextUnits,
+  estimateMessageTokens,
+  groupContextUnits,
+  planContextWindow,
+  type ContextMessage,
+} from '../../utils/context-window.js';
+
+let sequence = 0;
+
+function user(content: string): ContextMessage {
+  return { sequenceNumber: ++sequence, role: 'user', content };
+}
+
+function assistant(content: string): ContextMessage {
+  return { sequenceNumber: ++sequence, role: 'assistant', content };
+}
+
+function toolCall(id: string): ContextMessage {
+  return {
+    sequenceNumber: ++sequence,
+    role: 'assistant',
+    content: '',
+    toolCalls: [{ id, name: 'InvoiceLookup', args: { invoiceId: id } }],
+  };
+}
+
+function toolResult(id: string): ContextMessage {
+  return {
+    sequenceNumber: ++sequence,
+    role: 'tool',
+    content: '',
+    toolResults: [{ id, result: { amount: 100 } }],
+  };
+}
+
+function tokens(messages: ContextMessage[]): number {
+  return messages.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+}
+
+describe('groupContextUnits', () => {
+  it('keeps a tool call together with its results', () => {
+    const messages = [user('hi'), toolCall('a'), toolResult('a'), toolResult('a'), assistant('done')];
+
+    const units = groupContextUnits(messages);
+
+    expect(units.map((u) => u.length)).toEqual([1, 3, 1]);
+  });
+});
+
+describe('planContextWindow', () => {
+  it('keeps everything when the conversation fits', () => {
+    const messages = [user('one'), assistant('two'), user('three')];
+
+    const plan = planContextWindow(messages, 1000);
+
+    expect(plan.kept).toEqual(messages);
+    expect(plan.dropped).toEqual([]);
+  });
+
+  it('keeps the newest messages and drops the oldest', () => {
+    const messages = [user('a'.repeat(400)), assistant('b'.repeat(400)), user('latest')];
+
+    const plan = planContextWindow(messages, tokens(messages.slice(1)));
+
+    expect(plan.kept).toEqual(messages.slice(1));
+    expect(plan.dropped).toEqual(messages.slice(0, 1));
+  });
+
+  it('never splits a tool call from its results', () => {
+    const call = toolCall('a');
+    const result = toolResult('a');
+    const messages = [user('question'), call, result, assistant('answer'), user('latest')];
+    // Room for the result, the answer and the latest message, but not the call as well
+    const budget = tokens([result, messages[3], messages[4]]);
+
+    const plan = planContextWindow(messages, budget);
+
+    expect(plan.kept).toEqual(messages.slice(3));
+    expect(plan.dropped).toEqual(messages.slice(0, 3));
+  });
+
+  it('always keeps the newest unit even when it exceeds the budget', () => {
+    const messages = [user('old'), user('x'.repeat(4000))];
+
+    const plan = planContextWindow(messages, 10);
+
+    expect(plan.kept).toEqual(messages.slice(1));
+    expect(plan.dropped).toEqual(messages.slice(0, 1));
+  });
+
+  it('stops at the first unit that does not fit so the kept messages stay contiguous', () => {
+    const messages = [user('small'), user('y'.repeat(2000)), user('latest')];
+
+    const plan = planContextWindow(messages, tokens([messages[0], messages[2]]));
+
+    expect(plan.kept).toEqual(messages.slice(2));
+    expect(plan.dropped).toEqual(messages.slice(0, 2));
+  });
+});
+
+describe('chunkContextUnits', () => {
+  it('splits messages into chunks within the budget without splitting units', () => {
+    const messages = [user('a'.repeat(40)), toolCall('b'), toolResult('b'), user('c'.repeat(40))];
+    const budget = tokens(messages.slice(0, 3));
+
+    const chunks = chunkContextUnits(messages, budget);
+
+    expect(chunks).toEqual([messages.slice(0, 3), messages.slice(3)]);
+  });
+
+  it('puts a unit larger than the budget in a chunk of its own', () => {
+    const messages = [user('a'), user('b'.repeat(400)), user('c')];
+
+    const chunks = chunkContextUnits(messages, 5);
+
+    expect(chunks).toEqual([[messages[0]], [messages[1]], [messages[2]]]);
+  });
+});
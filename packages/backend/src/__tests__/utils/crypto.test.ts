@@ -2,12 +2,14 @@
  * Crypto utility tests
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import {
   generateApiKey,
   hashApiKey,
   generateCorrelationId,
   uuidToLockKey,
+  encryptSecret,
+  decryptSecret,
 } from '../../utils/crypto.js';
 
 describe('Crypto Utilities', () => {
@@ -81,4 +83,47 @@ describe('Crypto Utilities', () => {
       expect(key1).not.toBe(key2);
     });
   });
+
+  describe('encryptSecret / decryptSecret', () => {
+    it('should round-trip a secret', () => {
+      const encrypted = encryptSecret('sk-test-123');
+      expect(decryptSecret(encrypted)).toBe('sk-test-123');
+    });
+
+    it('should not contain the plaintext', () => {
+      expect(encryptSecret('sk-test-123')).not.toContain('sk-test-123');
+    });
+
+    it('should use a fresh IV for every encryption', () => {
+      expect(encryptSecret('same')).not.toBe(encryptSecret('same'));
+    });
+
+    it('should reject tampered ciphertext', () => {
+      const [iv, tag, ciphertext] = encryptSecret('sk-test-123').split('.');
+      const tampered = Buffer.from(ciphertext, 'base64url');
+      tampered[0] ^= 0xff;
+      expect(() =>
+        decryptSecret([iv, tag, tampered.toString('base64url')].join('.'))
+      ).toThrow();
+    });
+  });
+
+  describe('encryption key', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      vi.resetModules();
+    });
+
+    it('should never fall back to the dev key in production', async () => {
+      vi.stubEnv('NODE_ENV', 'production');
+      vi.stubEnv('CREDENTIALS_ENCRYPTION_KEY', '');
+      vi.resetModules();
+
+      const { config } = await import('../../config/index.js');
+      const crypto = await import('../../utils/crypto.js');
+
+      expect(config.credentials.encryptionKey).toBe('');
+      expect(() => crypto.encryptSecret('sk-test-123')).toThrow('CREDENTIALS_ENCRYPTION_KEY is not set');
+    });
+  });
 });
@@ -0,0 +1,82 @@
+/**
+ * JSON Schema validator tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateJsonSchema } from '../../utils/json-schema.js';
+import { InvoiceLookupTool } from '../../tools/invoice-lookup.js';
+
+describe('validateJsonSchema', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      query: { type: 'string', minLength: 1 },
+      limit: { type: 'integer', minimum: 1, maximum: 50 },
+      tags: { type: 'array', items: { type: 'string', enum: ['a', 'b'] } },
+    },
+    required: ['query'],
+    additionalProperties: false,
+  };
+
+  it('should accept valid input', () => {
+    expect(validateJsonSchema(schema, { query: 'shoes', limit: 5, tags: ['a'] })).toEqual([]);
+  });
+
+  it('should report missing required properties', () => {
+    expect(validateJsonSchema(schema, { limit: 5 })).toEqual([
+      { path: 'query', message: 'is required' },
+    ]);
+  });
+
+  it('should report type mismatches with the property path', () => {
+    expect(validateJsonSchema(schema, { query: 'x', limit: 2.5 })).toEqual([
+      { path: 'limit', message: 'must be integer' },
+    ]);
+  });
+
+  it('should report bounds, enum and array item issues', () => {
+    const issues = validateJsonSchema(schema, { query: '', limit: 100, tags: ['a', 'c'] });
+    expect(issues).toEqual([
+      { path: 'query', message: 'must be at least 1 characters' },
+      { path: 'limit', message: 'must be <= 50' },
+      { path: 'tags[1]', message: 'must be one of "a", "b"' },
+    ]);
+  });
+
+  it('should reject unknown properties when additionalProperties is false', () => {
+    expect(validateJsonSchema(schema, { query: 'x', extra: true })).toEqual([
+      { path: 'extra', message: 'is not an allowed property' },
+    ]);
+  });
+
+  it('should reject a non-object root', () => {
+    expect(validateJsonSchema(schema, 'shoes')).toEqual([
+      { path: '(root)', message: 'must be object' },
+    ]);
+  });
+
+  describe('InvoiceLookup parameters', () => {
+    it('should accept an order ID or an invoice number', () => {
+      expect(validateJsonSchema(InvoiceLookupTool.parameters, { orderId: '12345' })).toEqual([]);
+      expect(
+        validateJsonSchema(InvoiceLookupTool.parameters, { invoiceNumber: 'INV-2024-12345' })
+      ).toEqual([]);
+    });
+
+    it('should require exactly one identifier', () => {
+      expect(validateJsonSchema(InvoiceLookupTool.parameters, {})).toEqual([
+        { path: '(root)', message: 'must match exactly one of: orderId, invoiceNumber' },
+      ]);
+      expect(
+        validateJsonSchema(InvoiceLookupTool.parameters, { orderId: '1', invoiceNumber: 'INV-1' })
+      ).toHaveLength(1);
+    });
+
+    it('should reject a numeric order ID', () => {
+      expect(validateJsonSchema(InvoiceLookupTool.parameters, { orderId: 12345 })).toContainEqual({
+        path: 'orderId',
+        message: 'must be string',
+      });
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Redaction Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { capJsonSize, isValidRedactionRule, redactFields, REDACTED } from '../../utils/redact.js';
+
+describe('redactFields', () => {
+  const body = {
+    system_prompt: 'You are helpful',
+    conversation: [
+      { speaker: 'user', text: 'My email is jane@example.com' },
+      { speaker: 'tool', text: '', tool_responses: [{ id: '1', output: { email: 'a@b.c', amount: 10 } }] },
+    ],
+    settings: { temperature: 0.2 },
+  };
+
+  it('redacts a top-level field', () => {
+    expect(redactFields(body, ['system_prompt'])).toMatchObject({
+      system_prompt: REDACTED,
+      settings: { temperature: 0.2 },
+    });
+  });
+
+  it('matches any array index or key with *', () => {
+    const redacted = redactFields(body, ['conversation.*.text']) as typeof body;
+
+    expect(redacted.conversation.map((m) => m.text)).toEqual([REDACTED, REDACTED]);
+    expect(redacted.conversation[0].speaker).toBe('user');
+  });
+
+  it('matches fields at any depth with **', () => {
+    const redacted = redactFields(body, ['**.email']) as typeof body;
+
+    expect(redacted.conversation[1].tool_responses?.[0].output).toEqual({ email: REDACTED, amount: 10 });
+  });
+
+  it('does not modify the original value', () => {
+    redactFields(body, ['system_prompt']);
+
+    expect(body.system_prompt).toBe('You are helpful');
+  });
+
+  it('returns the value unchanged without rules', () => {
+    expect(redactFields(body, [])).toEqual(body);
+  });
+});
+
+describe('isValidRedactionRule', () => {
+  it('accepts dotted paths with wildcards', () => {
+    expect(isValidRedactionRule('messages.*.content')).toBe(true);
+    expect(isValidRedactionRule('**.api_key')).toBe(true);
+    expect(isValidRedactionRule('messages.0.content')).toBe(true);
+  });
+
+  it('rejects empty segments and other syntax', () => {
+    expect(isValidRedactionRule('')).toBe(false);
+    expect(isValidRedactionRule('messages..content')).toBe(false);
+    expect(isValidRedactionRule('$.messages[0]')).toBe(false);
+  });
+});
+
+describe('capJsonSize', () => {
+  it('keeps values within the limit', () => {
+    expect(capJsonSize({ a: 1 }, 100)).toEqual({ a: 1 });
+  });
+
+  it('replaces larger values with a truncated preview', () => {
+    const value = { text: 'x'.repeat(100) };
+
+    const capped = capJsonSize(value, 20) as { truncated: boolean; originalBytes: number; preview: string };
+
+    expect(capped.truncated).toBe(true);
+    expect(capped.originalBytes).toBe(JSON.stringify(value).length);
+    expect(capped.preview).toBe(JSON.stringify(value).slice(0, 20));
+  });
+});
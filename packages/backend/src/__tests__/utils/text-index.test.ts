@@ -0,0 +1,105 @@
+/**
+ * Text Index Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  chunkText,
+  indexChunk,
+  scoreBm25,
+  tokenize,
+  toPlainText,
+} from '../../utils/text-index.js';
+
+describe('toPlainText', () => {
+  it('strips HTML markup, scripts and entities', () => {
+    const html =
+      '<html><head><title>x</title></head><body><script>track()</script>' +
+      '<h1>Refund&nbsp;Policy</h1><p>Refunds within <b>30 days</b> &amp; no questions.</p></body></html>';
+
+    expect(toPlainText(html, 'HTML')).toBe('Refund Policy\n\nRefunds within 30 days & no questions.');
+  });
+
+  it('keeps numeric entities outside the Unicode range as written', () => {
+    const html = '<p>Codes &#x110000; and &#99999999999; but &#65;</p>';
+
+    expect(toPlainText(html, 'HTML')).toBe('Codes &#x110000; and &#99999999999; but A');
+  });
+
+  it('strips Markdown syntax but keeps link text', () => {
+    const markdown = '# Shipping\n\nWe ship **worldwide**, see [rates](https://example.com/rates).';
+
+    expect(toPlainText(markdown, 'MARKDOWN')).toBe('Shipping\n\nWe ship worldwide, see rates.');
+  });
+
+  it('joins lines and hyphenated words of extracted PDF text', () => {
+    const pdf = 'Warranty covers manu-\nfacturing defects\nfor two years.\n\nPage 2';
+
+    expect(toPlainText(pdf, 'PDF_TEXT')).toBe(
+      'Warranty covers manufacturing defects for two years.\n\nPage 2'
+    );
+  });
+});
+
+describe('chunkText', () => {
+  it('packs short paragraphs into one chunk', () => {
+    expect(chunkText('one two\n\nthree four', 10, 2)).toEqual(['one two\n\nthree four']);
+  });
+
+  it('starts a new chunk when the next paragraph does not fit', () => {
+    expect(chunkText('a b c\n\nd e f', 4, 1)).toEqual(['a b c', 'd e f']);
+  });
+
+  it('splits long paragraphs into overlapping windows', () => {
+    const words = Array.from({ length: 10 }, (_, i) => `w${i}`).join(' ');
+
+    expect(chunkText(words, 4, 1)).toEqual(['w0 w1 w2 w3', 'w3 w4 w5 w6', 'w6 w7 w8 w9']);
+  });
+});
+
+describe('tokenize', () => {
+  it('lowercases, drops stopwords and folds plurals and accents', () => {
+    expect(tokenize('What are the Refund policies for Cafés?')).toEqual([
+      'refund',
+      'policy',
+      'cafe',
+    ]);
+  });
+
+  it('keeps numbers', () => {
+    expect(tokenize('Returns within 30 days')).toEqual(['return', 'within', '30', 'day']);
+  });
+});
+
+describe('scoreBm25', () => {
+  const chunks = [
+    'Refunds are issued within 30 days of purchase.',
+    'Shipping is free on orders over 50 dollars.',
+    'Refunds for shipping costs are not issued.',
+  ].map(indexChunk);
+  const stats = {
+    chunkCount: 10,
+    averageLength: chunks.reduce((sum, c) => sum + c.length, 0) / chunks.length,
+  };
+
+  it('ranks chunks matching more query terms higher', () => {
+    const scores = scoreBm25(tokenize('refund shipping'), chunks, stats);
+
+    expect(scores[2]).toBeGreaterThan(scores[0]);
+    expect(scores[2]).toBeGreaterThan(scores[1]);
+  });
+
+  it('weighs rare terms above common ones', () => {
+    const candidates = [indexChunk('refund'), indexChunk('warranty'), indexChunk('refund')];
+    const [refund, warranty] = scoreBm25(tokenize('refund warranty'), candidates, {
+      chunkCount: 3,
+      averageLength: 1,
+    });
+
+    expect(warranty).toBeGreaterThan(refund);
+  });
+
+  it('scores chunks without any query term zero', () => {
+    expect(scoreBm25(tokenize('warranty'), chunks, stats)).toEqual([0, 0, 0]);
+  });
+});
@@ -18,10 +18,17 @@ import errorHandlerPlugin from './plugins/error-handler.js';
 import healthRoutes from './routes/health.js';
 import tenantRoutes from './routes/tenants.js';
 import agentRoutes from './routes/agents.js';
+import experimentRoutes from './routes/experiments.js';
+import evaluationRoutes from './routes/evaluations.js';
+import knowledgeBaseRoutes from './routes/knowledge-bases.js';
+import providerConfigRoutes from './routes/provider-configs.js';
+import tenantToolRoutes from './routes/tenant-tools.js';
 import sessionRoutes from './routes/sessions.js';
 import jobRoutes from './routes/jobs.js';
 import usageRoutes from './routes/usage.js';
+import pricingRoutes from './routes/pricing.js';
 import voiceRoutes from './routes/voice.js';
+import mockVendorRoutes from './routes/mock-vendors.js';
 
 export async function buildApp(): Promise<FastifyInstance> {
   const app = Fastify({
@@ -81,11 +88,22 @@ export async function buildApp(): Promise<FastifyInstance> {
   await app.register(healthRoutes);
   await app.register(tenantRoutes, { prefix: '/api/v1' });
   await app.register(agentRoutes, { prefix: '/api/v1' });
+  await app.register(experimentRoutes, { prefix: '/api/v1' });
+  await app.register(evaluationRoutes, { prefix: '/api/v1' });
+  await app.register(knowledgeBaseRoutes, { prefix: '/api/v1' });
+  await app.register(providerConfigRoutes, { prefix: '/api/v1' });
+  await app.register(tenantToolRoutes, { prefix: '/api/v1' });
   await app.register(sessionRoutes, { prefix: '/api/v1' });
   await app.register(jobRoutes, { prefix: '/api/v1' });
   await app.register(usageRoutes, { prefix: '/api/v1' });
+  await app.register(pricingRoutes, { prefix: '/api/v1' });
   await app.register(voiceRoutes, { prefix: '/api/v1' });
 
+  // Scripted mock vendor behavior for tests and demos (dev only)
+  if (config.mockVendors.faultInjectionApi) {
+    await app.register(mockVendorRoutes, { prefix: '/api/v1' });
+  }
+
   // Log registered routes in development
   if (config.isDev) {
     app.ready(() => {
@@ -25,36 +25,136 @@ export const config = {
     prefix: process.env.API_KEY_PREFIX || 'vb_live_',
   },
 
-  // Provider timeouts (ms)
+  // Platform administration (pricing catalog); routes are disabled when no key is set
+  platformAdmin: {
+    apiKey: process.env.PLATFORM_ADMIN_KEY || '',
+  },
+
+  // Encryption of stored provider credentials and webhook signing secrets; the dev key
+  // is never used in production, where startup fails without a configured key
+  credentials: {
+    encryptionKey:
+      process.env.CREDENTIALS_ENCRYPTION_KEY ||
+      (process.env.NODE_ENV !== 'production' ? 'dev-only-credentials-key' : ''),
+  },
+
+  // Provider timeouts (ms) and default context windows (tokens; agents may override)
   providers: {
     VENDOR_A: {
       connectTimeoutMs: 3000,
       requestTimeoutMs: 30000,
+      contextWindowTokens: 8192,
     },
     VENDOR_B: {
       connectTimeoutMs: 3000,
       requestTimeoutMs: 15000,
+      contextWindowTokens: 16384,
+    },
+    OPENAI_COMPATIBLE: {
+      connectTimeoutMs: 5000,
+      requestTimeoutMs: 60000,
+      contextWindowTokens: 8192,
     },
   },
 
+  // Mock vendors (VendorA, VendorB)
+  mockVendors: {
+    // Random latency spikes and errors; scripted scenarios replace them either way
+    randomFaults: process.env.MOCK_VENDOR_RANDOM_FAULTS !== 'false',
+    // /dev/mock-vendors routes for scripting scenarios; never enabled in production
+    faultInjectionApi:
+      process.env.NODE_ENV !== 'production' && process.env.MOCK_VENDOR_FAULT_INJECTION !== 'false',
+  },
+
   // Retry configuration
   retry: {
     maxAttempts: 3,
     initialDelayMs: 100,
     maxDelayMs: 5000,
     backoffMultiplier: 2,
+    // Default deadline for a provider call, retries and fallback included
+    budgetMs: parseInt(process.env.PROVIDER_RETRY_BUDGET_MS || '60000', 10),
+  },
+
+  // Client-side rate limits (token buckets); one per provider, per endpoint for
+  // tenant-configured adapters
+  rateLimit: {
+    providers: {
+      VENDOR_A: { requestsPerSecond: 20, burst: 40 },
+      VENDOR_B: { requestsPerSecond: 10, burst: 20 },
+      OPENAI_COMPATIBLE: { requestsPerSecond: 10, burst: 20 },
+    },
+    // Optional share of each provider per tenant; 0 disables
+    perTenant: {
+      requestsPerSecond: parseFloat(process.env.PROVIDER_TENANT_RPS || '0'),
+      burst: parseInt(process.env.PROVIDER_TENANT_BURST || '10', 10),
+    },
+  },
+
+  // Routing policies: rolling provider stats from recent successful calls
+  routing: {
+    statsWindowMs: 15 * 60 * 1000,
+    statsCacheMs: 30000, // stats are reloaded at most this often
+  },
+
+  // Hedged requests (opt-in per agent)
+  hedging: {
+    defaultAfterMs: 2000, // threshold while the first provider has too few recent calls for a p90
+    minAfterMs: 250, // floor for thresholds derived from the p90, so fast providers aren't always hedged
+  },
+
+  // Structured output: answers that don't match the response schema are sent back with
+  // the validation errors this many times before the call fails
+  structuredOutput: {
+    maxRetries: parseInt(process.env.STRUCTURED_OUTPUT_MAX_RETRIES || '2', 10),
+  },
+
+  // Response cache (opt-in per agent)
+  responseCache: {
+    // Agents sampling above this temperature aren't cached: their answers are meant to vary
+    maxTemperature: parseFloat(process.env.RESPONSE_CACHE_MAX_TEMPERATURE || '0'),
+    historyMessages: 4, // most recent messages that are part of the cache key
+  },
+
+  // Knowledge bases (KnowledgeBaseSearch tool)
+  knowledgeBase: {
+    maxDocumentBytes: 1024 * 1024, // extracted text per uploaded document
+    chunkWords: 200, // target passage length
+    chunkOverlapWords: 40, // words repeated between consecutive passages of a long paragraph
+    defaultResults: 4,
+    maxResults: 10,
+  },
+
+  // Circuit breaker (one per provider)
+  circuitBreaker: {
+    failureThreshold: 5, // consecutive failures that open the circuit
+    errorRateThreshold: 0.5, // error rate over the rolling window that opens the circuit
+    minimumRequests: 10, // calls needed in the window before the error rate is considered
+    windowSize: 20, // number of recent calls tracked
+    openDurationMs: 30000, // cool-down before probing with healthCheck()
   },
 
   // Session
   session: {
-    maxHistoryMessages: 50,
-    lockTimeoutMs: 30000,
+    summaryMaxTokens: 512, // output budget for rolling summaries of older turns
+    // Longest a turn may hold its session's lock; the turn is cancelled then, and the lock
+    // is force-released once the grace period has passed as well
+    lockTimeoutMs: parseInt(process.env.SESSION_LOCK_TIMEOUT_MS || '30000', 10),
+    lockReleaseGraceMs: 10000,
+    // 'memory' (single server) or 'postgres' (advisory locks, required with multiple replicas)
+    lockStrategy: (process.env.SESSION_LOCK_STRATEGY === 'postgres' ? 'postgres' : 'memory') as
+      | 'memory'
+      | 'postgres',
+    lockWaitMs: parseInt(process.env.SESSION_LOCK_WAIT_MS || '5000', 10), // wait before 409
   },
 
   // Jobs
   jobs: {
     pollIntervalMs: 1000,
     lockDurationMs: 5 * 60 * 1000, // 5 minutes
+    // Jobs still running after this are aborted, before their lock expires and another
+    // worker can claim them
+    timeoutMs: parseInt(process.env.JOB_TIMEOUT_MS || '240000', 10),
     maxAttempts: 3,
   },
 
@@ -1,6 +1,9 @@
 /**
  * Pricing configuration for AI providers
  * Costs are in dollars per 1K tokens
+ *
+ * PRICING holds the built-in list prices. They apply whenever the pricing catalog
+ * (see pricing.service.ts) has no rate for a provider/model at the time of a call.
  */
 
 import type { ProviderType } from '@prisma/client';
@@ -19,10 +22,39 @@ export const PRICING: Record<ProviderType, ProviderPricing> = {
     inputPricePerKTokens: 0.003,
     outputPricePerKTokens: 0.006,
   },
+  OPENAI_COMPATIBLE: {
+    inputPricePerKTokens: 0.0025,
+    outputPricePerKTokens: 0.01,
+  },
 };
 
 /**
- * Calculate cost in cents for a provider call
+ * Catalog rate with its validity window [effectiveFrom, effectiveTo)
+ */
+export interface EffectiveRate extends ProviderPricing {
+  id: string;
+  model: string | null;
+  effectiveFrom: Date;
+  effectiveTo: Date | null;
+}
+
+/**
+ * Rate and markup applied to a usage event, stored as its pricingSnapshot
+ * so the event keeps the price it was billed at when the catalog changes
+ */
+export interface PricingSnapshot extends ProviderPricing {
+  source: 'TENANT_OVERRIDE' | 'PLAN' | 'DEFAULT';
+  provider: ProviderType;
+  model: string | null;
+  planId: string | null;
+  rateId: string | null;
+  markupPercent: number;
+  effectiveFrom: string | null;
+  pricedAt: string;
+}
+
+/**
+ * Calculate cost in cents for a provider call at list price
  * Returns integer cents to avoid floating point precision issues
  */
 export function calculateCost(
@@ -30,15 +62,47 @@ export function calculateCost(
   tokensIn: number,
   tokensOut: number
 ): number {
-  const pricing = PRICING[provider];
+  return calculateCostWithRate(PRICING[provider], tokensIn, tokensOut);
+}
+
+/**
+ * Calculate cost in cents for explicit rates plus an optional markup percentage
+ */
+export function calculateCostWithRate(
+  pricing: ProviderPricing,
+  tokensIn: number,
+  tokensOut: number,
+  markupPercent = 0
+): number {
   const inputCost = (tokensIn / 1000) * pricing.inputPricePerKTokens;
   const outputCost = (tokensOut / 1000) * pricing.outputPricePerKTokens;
-  // Convert to cents and round up
-  return Math.ceil((inputCost + outputCost) * 100);
+  const total = (inputCost + outputCost) * (1 + markupPercent / 100);
+  // Convert to cents and round up (rounding to 6 places first drops float noise
+  // such as 110.00000000000001 from the markup multiplication)
+  return Math.ceil(Number((total * 100).toFixed(6)));
+}
+
+/**
+ * Pick the rate in effect at a given instant
+ * A model-specific rate wins over a provider-wide one (model = null)
+ */
+export function findEffectiveRate<T extends EffectiveRate>(
+  rates: T[],
+  model: string | null | undefined,
+  at: Date
+): T | undefined {
+  const inEffect = rates.filter(
+    (rate) => rate.effectiveFrom <= at && (!rate.effectiveTo || rate.effectiveTo > at)
+  );
+
+  return (
+    (model ? inEffect.find((rate) => rate.model === model) : undefined) ??
+    inEffect.find((rate) => rate.model === null)
+  );
 }
 
 /**
- * Get current pricing snapshot for audit trail
+ * Get current list pricing for a provider
  */
 export function getPricingSnapshot(provider: ProviderType): ProviderPricing {
   return { ...PRICING[provider] };
@@ -11,6 +11,11 @@ import { startJobWorker, stopJobWorker } from './services/job.service.js';
 async function main(): Promise<void> {
   logger.info({ env: config.env }, 'Starting VocalBridge Ops');
 
+  if (config.isProd && !config.credentials.encryptionKey) {
+    logger.fatal('CREDENTIALS_ENCRYPTION_KEY must be set in production');
+    process.exit(1);
+  }
+
   // Test database connection
   const dbConnected = await testConnection();
   if (!dbConnected) {
@@ -3,11 +3,13 @@
  * Validates API keys and sets tenant context
  */
 
+import { timingSafeEqual } from 'crypto';
 import { FastifyPluginAsync, FastifyRequest, FastifyReply } from 'fastify';
 import fp from 'fastify-plugin';
 import { TenantRole } from '@prisma/client';
 import { prisma } from '../utils/db.js';
 import { hashApiKey } from '../utils/crypto.js';
+import { config } from '../config/index.js';
 import { UnauthorizedError, ForbiddenError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
 
@@ -123,6 +125,36 @@ export function requireRole(...allowedRoles: TenantRole[]) {
   };
 }
 
+/**
+ * Require the platform admin key (X-Admin-Key header)
+ * Guards operator routes that span tenants, such as the pricing catalog
+ */
+export async function requirePlatformAdmin(
+  request: FastifyRequest,
+  _reply: FastifyReply
+): Promise<void> {
+  const expected = config.platformAdmin.apiKey;
+  if (!expected) {
+    throw new ForbiddenError('Platform admin API is disabled');
+  }
+
+  const adminKeyHeader = request.headers['x-admin-key'];
+  if (!adminKeyHeader || typeof adminKeyHeader !== 'string') {
+    throw new UnauthorizedError('Missing admin key');
+  }
+
+  // Compare fixed-length hashes so the check is constant-time
+  const matches = timingSafeEqual(
+    Buffer.from(hashApiKey(adminKeyHeader), 'hex'),
+    Buffer.from(hashApiKey(expected), 'hex')
+  );
+
+  if (!matches) {
+    request.log.warn('Platform admin authentication failed');
+    throw new UnauthorizedError('Invalid admin key');
+  }
+}
+
 export default fp(authPlugin, {
   name: 'auth',
 });
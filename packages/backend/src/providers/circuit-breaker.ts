@@ -0,0 +1,226 @@
+/**
+ * Circuit Breaker
+ * One breaker per provider (per endpoint for tenant-configured adapters),
+ * shared by all requests in this process
+ *
+ * - CLOSED: requests flow normally, outcomes are tracked in a rolling window
+ * - OPEN: requests are short-circuited (the orchestrator goes straight to the fallback)
+ * - HALF_OPEN: after the cool-down a healthCheck() passed; one trial request decides
+ *   whether the circuit closes again or re-opens
+ */
+
+import type { CircuitState, ProviderType } from '@prisma/client';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import type { ProviderAdapter } from './types.js';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  errorRateThreshold: number;
+  minimumRequests: number;
+  windowSize: number;
+  openDurationMs: number;
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  recentRequests: number;
+  errorRate: number;
+  openedAt: string | null;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'CLOSED';
+  private outcomes: boolean[] = []; // rolling window, true = success
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private probe: Promise<boolean> | null = null;
+  private readonly log;
+
+  constructor(
+    readonly provider: ProviderType,
+    private readonly options: CircuitBreakerOptions,
+    readonly key: string = provider
+  ) {
+    this.log = logger.child({ provider, breaker: key, component: 'circuit-breaker' });
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Decide whether a request may be sent to the provider
+   * While open and past the cool-down, probes the provider once with healthCheck()
+   */
+  async allowRequest(healthCheck: () => Promise<boolean>): Promise<boolean> {
+    if (this.state === 'CLOSED') {
+      return true;
+    }
+
+    if (this.state === 'OPEN') {
+      if (Date.now() - this.openedAt < this.options.openDurationMs) {
+        return false;
+      }
+
+      // Concurrent callers share a single probe
+      if (!this.probe) {
+        this.probe = this.runProbe(healthCheck).finally(() => {
+          this.probe = null;
+        });
+      }
+
+      const healthy = await this.probe;
+      if (!healthy) {
+        return false;
+      }
+    }
+
+    // HALF_OPEN: only one trial request at a time
+    if (this.trialInFlight) {
+      return false;
+    }
+    this.trialInFlight = true;
+    return true;
+  }
+
+  /**
+   * Give back the trial slot of a HALF_OPEN trial that ended without a verdict (it was
+   * never sent, or was cancelled); the next request becomes the trial
+   */
+  releaseTrial(): void {
+    if (this.state === 'HALF_OPEN') {
+      this.trialInFlight = false;
+    }
+  }
+
+  recordSuccess(): void {
+    this.pushOutcome(true);
+    this.consecutiveFailures = 0;
+
+    if (this.state === 'HALF_OPEN') {
+      this.transition('CLOSED');
+    }
+  }
+
+  recordFailure(): void {
+    this.pushOutcome(false);
+    this.consecutiveFailures++;
+
+    if (this.state === 'HALF_OPEN') {
+      this.transition('OPEN');
+      return;
+    }
+
+    if (this.state === 'CLOSED' && this.shouldTrip()) {
+      this.transition('OPEN');
+    }
+  }
+
+  snapshot(): CircuitBreakerSnapshot {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      recentRequests: this.outcomes.length,
+      errorRate: this.getErrorRate(),
+      openedAt: this.state === 'CLOSED' ? null : new Date(this.openedAt).toISOString(),
+    };
+  }
+
+  private async runProbe(healthCheck: () => Promise<boolean>): Promise<boolean> {
+    let healthy = false;
+    try {
+      healthy = await healthCheck();
+    } catch {
+      healthy = false;
+    }
+
+    if (healthy) {
+      this.transition('HALF_OPEN');
+    } else {
+      // Stay open for another cool-down period
+      this.openedAt = Date.now();
+      this.log.warn('Circuit probe failed, staying open');
+    }
+
+    return healthy;
+  }
+
+  private shouldTrip(): boolean {
+    if (this.consecutiveFailures >= this.options.failureThreshold) {
+      return true;
+    }
+
+    return (
+      this.outcomes.length >= this.options.minimumRequests &&
+      this.getErrorRate() >= this.options.errorRateThreshold
+    );
+  }
+
+  private getErrorRate(): number {
+    if (this.outcomes.length === 0) {
+      return 0;
+    }
+    const failures = this.outcomes.filter((ok) => !ok).length;
+    return failures / this.outcomes.length;
+  }
+
+  private pushOutcome(success: boolean): void {
+    this.outcomes.push(success);
+    if (this.outcomes.length > this.options.windowSize) {
+      this.outcomes.shift();
+    }
+  }
+
+  private transition(next: CircuitState): void {
+    const previous = this.state;
+    this.state = next;
+    this.trialInFlight = false;
+
+    if (next === 'OPEN') {
+      this.openedAt = Date.now();
+    }
+
+    if (next === 'CLOSED') {
+      // Start with a clean window so old failures don't immediately re-trip
+      this.outcomes = [];
+      this.consecutiveFailures = 0;
+    }
+
+    this.log.warn(
+      {
+        from: previous,
+        to: next,
+        consecutiveFailures: this.consecutiveFailures,
+        errorRate: this.getErrorRate(),
+      },
+      'Circuit breaker state changed'
+    );
+  }
+}
+
+// Singleton breakers, keyed by adapter instance
+const breakers = new Map<string, CircuitBreaker>();
+
+export function getCircuitBreaker(adapter: ProviderAdapter): CircuitBreaker {
+  const key = adapter.instanceKey ?? adapter.name;
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = new CircuitBreaker(adapter.name, config.circuitBreaker, key);
+    breakers.set(key, breaker);
+  }
+  return breaker;
+}
+
+export function listCircuitBreakers(): CircuitBreaker[] {
+  return Array.from(breakers.values());
+}
+
+/**
+ * Drop all breaker state (used by tests)
+ */
+export function resetCircuitBreakers(): void {
+  breakers.clear();
+}
@@ -0,0 +1,192 @@
+/**
+ * Scripted behavior for the mock vendors (VendorA, VendorB)
+ *
+ * A scenario replaces the mocks' random latency and failures for one tenant, or for
+ * one agent of a tenant, so tests and demos can replay exact failure sequences:
+ * each call takes the next fault from the script, and successful calls can return a
+ * canned reply or forced tool calls. Agent scenarios take precedence over tenant ones.
+ *
+ * Scenarios live in process memory and are set through the dev-only
+ * /dev/mock-vendors routes (or directly in tests).
+ */
+
+import { ProviderType } from '@prisma/client';
+import { ProviderError, RateLimitError, TimeoutError } from '../utils/errors.js';
+import type { ProviderRequestScope } from './types.js';
+import { delay } from './stream-utils.js';
+
+export const MOCK_VENDOR_FAULTS = [
+  'ok',
+  'server_error', // HTTP 500, retryable
+  'rate_limit', // HTTP 429 with retryAfterMs
+  'timeout', // waits out the request timeout
+  'invalid_schema', // payload that fails the adapter's response validation
+] as const;
+
+export type MockVendorFault = (typeof MOCK_VENDOR_FAULTS)[number];
+
+export type MockVendorProvider = Extract<ProviderType, 'VENDOR_A' | 'VENDOR_B'>;
+
+export interface MockVendorScenario {
+  // Fixed latency of every call
+  latencyMs: number;
+  // Outcome of each successive call; 'ok' once the list is used up unless it repeats
+  faults: MockVendorFault[];
+  repeat: boolean;
+  retryAfterMs: number;
+  // Returned instead of the mock's own choice on calls that don't answer tool results
+  toolCalls: Array<{ name: string; args: unknown }>;
+  // Content of successful replies
+  reply?: string;
+}
+
+export interface MockVendorScenarioEntry {
+  provider: MockVendorProvider;
+  tenantId: string;
+  agentId: string | null;
+  scenario: MockVendorScenario;
+  callCount: number;
+  updatedAt: Date;
+}
+
+/**
+ * What a scripted call should do, taken from the scenario when the call starts
+ */
+export interface ScriptedCall {
+  fault: MockVendorFault;
+  latencyMs: number;
+  retryAfterMs: number;
+  toolCalls: MockVendorScenario['toolCalls'];
+  reply?: string;
+}
+
+// Body returned for 'invalid_schema'; matches neither vendor's response format
+export const INVALID_VENDOR_PAYLOAD = { unexpected: 'scripted schema-invalid payload' };
+
+const VENDOR_NAMES: Record<MockVendorProvider, string> = {
+  VENDOR_A: 'VendorA',
+  VENDOR_B: 'VendorB',
+};
+
+const scenarios = new Map<string, MockVendorScenarioEntry>();
+
+function scenarioKey(provider: MockVendorProvider, tenantId: string, agentId: string | null): string {
+  return `${provider}:${tenantId}:${agentId ?? '*'}`;
+}
+
+/**
+ * Set (or replace) a scenario; replacing restarts its fault sequence
+ */
+export function setMockVendorScenario(
+  provider: MockVendorProvider,
+  tenantId: string,
+  agentId: string | null,
+  scenario: MockVendorScenario
+): MockVendorScenarioEntry {
+  const entry: MockVendorScenarioEntry = {
+    provider,
+    tenantId,
+    agentId,
+    scenario,
+    callCount: 0,
+    updatedAt: new Date(),
+  };
+  scenarios.set(scenarioKey(provider, tenantId, agentId), entry);
+  return entry;
+}
+
+/**
+ * Remove a scenario; returns false if none was set
+ */
+export function clearMockVendorScenario(
+  provider: MockVendorProvider,
+  tenantId: string,
+  agentId: string | null
+): boolean {
+  return scenarios.delete(scenarioKey(provider, tenantId, agentId));
+}
+
+/**
+ * Remove every scenario of a tenant, or of all tenants when none is given
+ */
+export function clearMockVendorScenarios(tenantId?: string): void {
+  for (const [key, entry] of scenarios) {
+    if (tenantId === undefined || entry.tenantId === tenantId) {
+      scenarios.delete(key);
+    }
+  }
+}
+
+export function listMockVendorScenarios(tenantId: string): MockVendorScenarioEntry[] {
+  return [...scenarios.values()].filter((entry) => entry.tenantId === tenantId);
+}
+
+/**
+ * Take the next scripted call for a request, if a scenario applies to it
+ */
+export function takeScriptedCall(
+  provider: MockVendorProvider,
+  scope: ProviderRequestScope | undefined
+): ScriptedCall | undefined {
+  if (!scope) {
+    return undefined;
+  }
+
+  const entry =
+    scenarios.get(scenarioKey(provider, scope.tenantId, scope.agentId)) ??
+    scenarios.get(scenarioKey(provider, scope.tenantId, null));
+  if (!entry) {
+    return undefined;
+  }
+
+  const { scenario } = entry;
+  const index = entry.callCount++;
+  let fault: MockVendorFault = 'ok';
+  if (index < scenario.faults.length) {
+    fault = scenario.faults[index];
+  } else if (scenario.repeat && scenario.faults.length > 0) {
+    fault = scenario.faults[index % scenario.faults.length];
+  }
+
+  return {
+    fault,
+    latencyMs: scenario.latencyMs,
+    retryAfterMs: scenario.retryAfterMs,
+    toolCalls: scenario.toolCalls,
+    reply: scenario.reply,
+  };
+}
+
+/**
+ * Wait out the scripted latency and throw the scripted error, if any
+ * Returns for 'ok' and 'invalid_schema'; the adapter builds those responses
+ */
+export async function applyScriptedFault(
+  call: ScriptedCall,
+  provider: MockVendorProvider,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<void> {
+  const vendor = VENDOR_NAMES[provider];
+
+  if (call.fault === 'timeout' || call.latencyMs > timeoutMs) {
+    await delay(timeoutMs, signal);
+    throw new TimeoutError(`${vendor} request timed out after ${timeoutMs}ms`);
+  }
+
+  await delay(call.latencyMs, signal);
+
+  if (call.fault === 'server_error') {
+    const error = new ProviderError(`${vendor} internal server error`, provider);
+    (error as any).statusCode = 500;
+    (error as any).retryable = true;
+    throw error;
+  }
+
+  if (call.fault === 'rate_limit') {
+    const error = new RateLimitError(`${vendor} rate limit exceeded`, call.retryAfterMs);
+    (error as any).retryable = true;
+    (error as any).statusCode = 429;
+    throw error;
+  }
+}
@@ -0,0 +1,521 @@
+/**
+ * OpenAI-compatible Provider Adapter
+ * Real HTTP adapter for any endpoint speaking the chat-completions format:
+ * - POST {baseUrl}/chat/completions, Bearer auth
+ * - Response format: { choices[].message, usage.prompt_tokens, usage.completion_tokens }
+ * - Streaming: server-sent events terminated by "data: [DONE]"
+ * - Failure modes: HTTP 429 (Retry-After), 5xx, timeouts
+ *
+ * Configured per tenant (base URL, model, credential) - see provider-config.service.ts
+ */
+
+import { z } from 'zod';
+import { ProviderType } from '@prisma/client';
+import { config } from '../config/index.js';
+import {
+  CancelledError,
+  ProviderError,
+  ProviderSchemaError,
+  RateLimitError,
+  TimeoutError,
+} from '../utils/errors.js';
+import type {
+  ProviderAdapter,
+  ProviderExchange,
+  ProviderRequest,
+  ProviderResponse,
+  ProviderStreamChunk,
+  ToolCall,
+} from './types.js';
+import {
+  toFunctionParameters,
+  toJsonSchemaResponseFormat,
+  toToolResultPayload,
+  type JsonSchemaResponseFormat,
+} from './tool-format.js';
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs?: number;
+}
+
+const UsageSchema = z.object({
+  prompt_tokens: z.number().int().nonnegative(),
+  completion_tokens: z.number().int().nonnegative(),
+});
+
+const ChatCompletionSchema = z.object({
+  model: z.string().optional(),
+  choices: z
+    .array(
+      z.object({
+        message: z.object({
+          content: z.string().nullable().optional(),
+          tool_calls: z
+            .array(
+              z.object({
+                id: z.string(),
+                function: z.object({
+                  name: z.string(),
+                  arguments: z.string(), // JSON string
+                }),
+              })
+            )
+            .optional(),
+        }),
+        finish_reason: z.string().nullable(),
+      })
+    )
+    .min(1),
+  usage: UsageSchema,
+});
+
+type ChatCompletion = z.infer<typeof ChatCompletionSchema>;
+
+const ChatCompletionChunkSchema = z.object({
+  model: z.string().optional(),
+  choices: z.array(
+    z.object({
+      delta: z.object({
+        content: z.string().nullable().optional(),
+        tool_calls: z
+          .array(
+            z.object({
+              index: z.number().int().nonnegative(),
+              id: z.string().optional(),
+              function: z
+                .object({
+                  name: z.string().optional(),
+                  arguments: z.string().optional(),
+                })
+                .optional(),
+            })
+          )
+          .optional(),
+      }),
+      finish_reason: z.string().nullable().optional(),
+    })
+  ),
+  usage: UsageSchema.nullable().optional(),
+});
+
+interface ChatCompletionRequest {
+  model: string;
+  messages: Array<{
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string | null;
+    tool_calls?: Array<{
+      id: string;
+      type: 'function';
+      function: { name: string; arguments: string };
+    }>;
+    tool_call_id?: string;
+  }>;
+  temperature: number;
+  max_tokens: number;
+  tools?: Array<{
+    type: 'function';
+    function: {
+      name: string;
+      description: string;
+      parameters: Record<string, unknown>;
+    };
+  }>;
+  response_format?: JsonSchemaResponseFormat;
+  stream?: boolean;
+  stream_options?: { include_usage: boolean };
+}
+
+export class OpenAICompatibleAdapter implements ProviderAdapter {
+  readonly name: ProviderType = 'OPENAI_COMPATIBLE';
+  readonly instanceKey: string;
+  private readonly baseUrl: string;
+  private readonly model: string;
+  private readonly apiKey?: string;
+  private readonly timeoutMs: number;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+    this.timeoutMs = options.timeoutMs ?? config.providers.OPENAI_COMPATIBLE.requestTimeoutMs;
+    this.instanceKey = `${this.name}:${this.baseUrl}`;
+  }
+
+  async sendMessage(request: ProviderRequest): Promise<ProviderResponse> {
+    const startTime = Date.now();
+    const body = this.transformRequest(request);
+    const exchange: ProviderExchange | undefined = request.onExchange
+      ? { request: body }
+      : undefined;
+
+    try {
+      const rawResponse = await this.postJson(body, request.signal);
+      if (exchange) {
+        exchange.response = rawResponse;
+      }
+
+      const parsed = ChatCompletionSchema.safeParse(rawResponse);
+      if (!parsed.success) {
+        throw new ProviderSchemaError(
+          'OpenAI-compatible endpoint returned unexpected response format',
+          { raw: rawResponse, errors: parsed.error.issues }
+        );
+      }
+
+      return this.transformResponse(parsed.data, Date.now() - startTime);
+    } catch (error) {
+      throw this.normalizeError(error);
+    } finally {
+      if (exchange) {
+        request.onExchange?.(exchange);
+      }
+    }
+  }
+
+  async *streamMessage(request: ProviderRequest): AsyncIterable<ProviderStreamChunk> {
+    const startTime = Date.now();
+    const body: ChatCompletionRequest = {
+      ...this.transformRequest(request),
+      stream: true,
+      stream_options: { include_usage: true },
+    };
+    const rawChunks: unknown[] = [];
+    const exchange: ProviderExchange | undefined = request.onExchange
+      ? { request: body, response: rawChunks }
+      : undefined;
+
+    let content = '';
+    let model = this.model;
+    let usage: z.infer<typeof UsageSchema> | undefined;
+    // Tool call fragments are keyed by index; arguments arrive as partial JSON strings
+    const pendingToolCalls = new Map<number, { id: string; name: string; arguments: string }>();
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    const abortFromCaller = () => controller.abort();
+    request.signal?.addEventListener('abort', abortFromCaller, { once: true });
+
+    try {
+      const response = await this.fetch(body, controller.signal);
+
+      for await (const data of this.readEvents(response)) {
+        if (exchange) {
+          rawChunks.push(data === '[DONE]' ? data : this.safeParseJson(data));
+        }
+        if (data === '[DONE]') {
+          break;
+        }
+
+        const parsed = ChatCompletionChunkSchema.safeParse(this.safeParseJson(data));
+        if (!parsed.success) {
+          throw new ProviderSchemaError(
+            'OpenAI-compatible endpoint returned unexpected stream chunk',
+            { raw: data, errors: parsed.error.issues }
+          );
+        }
+
+        const chunk = parsed.data;
+        const choice = chunk.choices[0];
+        model = chunk.model ?? model;
+
+        if (choice?.delta.content) {
+          content += choice.delta.content;
+          yield { type: 'delta', content: choice.delta.content };
+        }
+
+        for (const fragment of choice?.delta.tool_calls ?? []) {
+          const pending = pendingToolCalls.get(fragment.index) ?? { id: '', name: '', arguments: '' };
+          pending.id = fragment.id ?? pending.id;
+          pending.name = fragment.function?.name ?? pending.name;
+          pending.arguments += fragment.function?.arguments ?? '';
+          pendingToolCalls.set(fragment.index, pending);
+        }
+
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+      }
+
+      if (!usage) {
+        throw new ProviderSchemaError('OpenAI-compatible stream ended without usage information');
+      }
+
+      const toolCalls: ToolCall[] = Array.from(pendingToolCalls.values()).map((tc) => ({
+        id: tc.id,
+        name: tc.name,
+        args: this.safeParseJson(tc.arguments),
+      }));
+
+      for (const toolCall of toolCalls) {
+        yield { type: 'tool_call', toolCall };
+      }
+
+      yield {
+        type: 'done',
+        response: {
+          content,
+          tokensIn: usage.prompt_tokens,
+          tokensOut: usage.completion_tokens,
+          latencyMs: Date.now() - startTime,
+          toolCalls: toolCalls.length ? toolCalls : undefined,
+          model,
+        },
+      };
+    } catch (error) {
+      throw this.normalizeError(controller.signal.aborted ? this.abortError(request.signal) : error);
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', abortFromCaller);
+      if (exchange) {
+        request.onExchange?.(exchange);
+      }
+      // Stop reading if the consumer gave up early
+      controller.abort();
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    const controller = new AbortController();
+    const timer = setTimeout(
+      () => controller.abort(),
+      config.providers.OPENAI_COMPATIBLE.connectTimeoutMs
+    );
+
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        headers: this.headers(),
+        signal: controller.signal,
+      });
+      return response.ok;
+    } catch {
+      return false;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * POST a non-streaming request and read the JSON body within the timeout
+   */
+  private async postJson(body: ChatCompletionRequest, signal?: AbortSignal): Promise<unknown> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    const abortFromCaller = () => controller.abort();
+    signal?.addEventListener('abort', abortFromCaller, { once: true });
+
+    try {
+      const response = await this.fetch(body, controller.signal);
+      return await response.json();
+    } catch (error) {
+      throw controller.signal.aborted ? this.abortError(signal) : error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abortFromCaller);
+    }
+  }
+
+  /**
+   * Send the request and map HTTP error statuses to provider errors
+   */
+  private async fetch(body: ChatCompletionRequest, signal: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: { ...this.headers(), 'content-type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (response.ok) {
+      return response;
+    }
+
+    const detail = await response.text().catch(() => '');
+
+    if (response.status === 429) {
+      const error = new RateLimitError(
+        'OpenAI-compatible endpoint rate limit exceeded',
+        this.parseRetryAfter(response.headers.get('retry-after'))
+      );
+      (error as any).retryable = true;
+      (error as any).statusCode = 429;
+      throw error;
+    }
+
+    const error = new ProviderError(
+      `OpenAI-compatible endpoint returned HTTP ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`,
+      this.name
+    );
+    (error as any).statusCode = response.status;
+    throw error;
+  }
+
+  /**
+   * Yield the data payload of each server-sent event
+   */
+  private async *readEvents(response: Response): AsyncIterable<string> {
+    if (!response.body) {
+      throw new ProviderSchemaError('OpenAI-compatible endpoint returned an empty stream');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line.startsWith('data:')) {
+          yield line.slice(5).trim();
+        }
+      }
+    }
+
+    if (buffer.startsWith('data:')) {
+      yield buffer.slice(5).trim();
+    }
+  }
+
+  private headers(): Record<string, string> {
+    return this.apiKey ? { authorization: `Bearer ${this.apiKey}` } : {};
+  }
+
+  private parseRetryAfter(header: string | null): number | undefined {
+    if (!header) {
+      return undefined;
+    }
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+      return Math.round(seconds * 1000);
+    }
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Why an aborted fetch stopped: the caller's signal, or otherwise the request timeout
+   */
+  private abortError(callerSignal?: AbortSignal): CancelledError | TimeoutError {
+    if (callerSignal?.aborted) {
+      return new CancelledError('OpenAI-compatible request was aborted');
+    }
+    return new TimeoutError(`OpenAI-compatible request timed out after ${this.timeoutMs}ms`);
+  }
+
+  private normalizeError(error: unknown): Error {
+    if (
+      error instanceof ProviderSchemaError ||
+      error instanceof TimeoutError ||
+      error instanceof RateLimitError ||
+      error instanceof ProviderError ||
+      error instanceof CancelledError
+    ) {
+      return error;
+    }
+
+    // Network failures (connection refused, DNS, reset) are worth retrying
+    const providerError = new ProviderError(
+      `OpenAI-compatible request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      this.name,
+      error
+    );
+    (providerError as any).retryable = true;
+    return providerError;
+  }
+
+  private transformRequest(request: ProviderRequest): ChatCompletionRequest {
+    const messages: ChatCompletionRequest['messages'] = [];
+
+    if (request.systemPrompt) {
+      messages.push({ role: 'system', content: request.systemPrompt });
+    }
+
+    for (const msg of request.messages) {
+      if (msg.role === 'tool' && msg.toolResults?.length) {
+        // Tool results become separate messages
+        for (const result of msg.toolResults) {
+          messages.push({
+            role: 'tool',
+            content: JSON.stringify(toToolResultPayload(result)),
+            tool_call_id: result.id,
+          });
+        }
+      } else if (msg.role === 'assistant' && msg.toolCalls?.length) {
+        messages.push({
+          role: 'assistant',
+          content: msg.content || null,
+          tool_calls: msg.toolCalls.map((tc) => ({
+            id: tc.id,
+            type: 'function' as const,
+            function: {
+              name: tc.name,
+              arguments: JSON.stringify(tc.args),
+            },
+          })),
+        });
+      } else {
+        messages.push({
+          role: msg.role as 'user' | 'assistant' | 'system',
+          content: msg.content,
+        });
+      }
+    }
+
+    return {
+      model: this.model,
+      messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      tools: request.tools?.length
+        ? request.tools.map((tool) => ({
+            type: 'function' as const,
+            function: {
+              name: tool.name,
+              description: tool.description,
+              parameters: toFunctionParameters(tool.parameters),
+            },
+          }))
+        : undefined,
+      response_format: request.responseSchema
+        ? toJsonSchemaResponseFormat(request.responseSchema)
+        : undefined,
+    };
+  }
+
+  private transformResponse(response: ChatCompletion, actualLatencyMs: number): ProviderResponse {
+    const message = response.choices[0].message;
+
+    const toolCalls: ToolCall[] | undefined = message.tool_calls?.map((tc) => ({
+      id: tc.id,
+      name: tc.function.name,
+      args: this.safeParseJson(tc.function.arguments),
+    }));
+
+    return {
+      content: message.content || '',
+      tokensIn: response.usage.prompt_tokens,
+      tokensOut: response.usage.completion_tokens,
+      latencyMs: actualLatencyMs,
+      toolCalls: toolCalls?.length ? toolCalls : undefined,
+      model: response.model ?? this.model,
+    };
+  }
+
+  private safeParseJson(str: string): unknown {
+    try {
+      return JSON.parse(str);
+    } catch {
+      return str;
+    }
+  }
+}
@@ -3,10 +3,11 @@
  * Handles retry logic, fallback, and provider call tracking
  */
 
-import { ProviderType } from '@prisma/client';
+import { CircuitState, ProviderType } from '@prisma/client';
 import { config } from '../config/index.js';
 import { generateCorrelationId } from '../utils/crypto.js';
 import {
+  CancelledError,
   ProviderError,
   ProviderSchemaError,
   RateLimitError,
@@ -21,34 +22,139 @@ import type {
 } from './types.js';
 import { VendorAAdapter } from './vendor-a.adapter.js';
 import { VendorBAdapter } from './vendor-b.adapter.js';
+import {
+  getCircuitBreaker,
+  listCircuitBreakers,
+  type CircuitBreakerSnapshot,
+} from './circuit-breaker.js';
+import { getRateLimiter, listRateLimiters, type RateLimiterSnapshot } from './rate-limiter.js';
+import {
+  MIN_LATENCY_SAMPLES,
+  resolveRoutingPolicy,
+  type ProviderStatsMap,
+  type RoutingDecision,
+  type RoutingPolicy,
+} from './routing.js';
+import {
+  buildSchemaRetryMessages,
+  formatSchemaIssues,
+  parseStructuredOutput,
+} from './structured-output.js';
 
 interface OrchestratorConfig {
   primaryProvider: ProviderType;
   fallbackProvider?: ProviderType | null;
   correlationId?: string;
+  // When set, the provider is called in streaming mode and text deltas are forwarded here
+  onDelta?: (content: string) => void;
+  // Tenant-configured adapters (e.g. OPENAI_COMPATIBLE); take precedence over the built-in ones
+  adapters?: Partial<Record<ProviderType, ProviderAdapter>>;
+  // Epoch ms by which the call must finish, retries and fallback included
+  // (defaults to config.retry.budgetMs from now)
+  deadline?: number;
+  // Agent routing policy, resolved per call; replaces primaryProvider/fallbackProvider
+  routingPolicy?: RoutingPolicy;
+  // Send a second request to the next provider when the first hasn't answered within
+  // afterMs (null = the first provider's recent p90 latency); the first answer wins
+  hedging?: { afterMs: number | null };
+  // Rolling stats of recent calls, loaded only by the routing policies and hedging that use them
+  getStats?: () => Promise<ProviderStatsMap>;
 }
 
 interface RetryState {
   attemptNumber: number;
   errors: Array<{ provider: ProviderType; error: Error; attemptNumber: number }>;
+  // Set once any delta reached the caller - partial output can't be retracted, so no more retries
+  streamedOutput: boolean;
+  deadline: number;
 }
 
-// Singleton adapters
-const adapters: Record<ProviderType, ProviderAdapter> = {
+type HedgeBranch = 'primary' | 'hedge';
+
+// Singleton adapters for built-in providers
+// HTTP-backed providers are configured per tenant and passed in via OrchestratorConfig.adapters
+const adapters: Partial<Record<ProviderType, ProviderAdapter>> = {
   VENDOR_A: new VendorAAdapter(),
   VENDOR_B: new VendorBAdapter(),
 };
 
-export function getAdapter(provider: ProviderType): ProviderAdapter {
+export function getAdapter(provider: ProviderType): ProviderAdapter | undefined {
   return adapters[provider];
 }
 
 /**
  * Execute a provider call with retry and fallback logic
+ * Providers are tried in order: the routing policy's order when the agent has one,
+ * otherwise the primary then the fallback. With hedging, the second provider may
+ * be called while the first is still running.
+ *
+ * With request.responseSchema the answer must be JSON matching the schema. An answer
+ * that doesn't is sent back with the validation errors, up to
+ * config.structuredOutput.maxRetries times, before the call fails with
+ * PROVIDER_SCHEMA_ERROR. Nothing is streamed then: a rejected answer can't be retracted.
  */
 export async function executeWithResilience(
   request: ProviderRequest,
   config: OrchestratorConfig
+): Promise<ProviderCallResult> {
+  const schema = request.responseSchema;
+  if (!schema) {
+    return executeAcrossProviders(request, config);
+  }
+
+  const log = logger.child({ correlationId: config.correlationId });
+  const maxRetries = getSchemaMaxRetries();
+  const callConfig: OrchestratorConfig = { ...config, onDelta: undefined };
+  const rejectedAnswers: ProviderCallResult[] = [];
+  let messages = request.messages;
+
+  for (let attempt = 1; ; attempt++) {
+    const result = await executeAcrossProviders({ ...request, messages }, callConfig);
+    const withRejected = rejectedAnswers.length > 0 ? { rejectedAnswers } : {};
+
+    // Tool calls come before the answer; only the answer has to match
+    if (!result.success || !result.response || result.response.toolCalls?.length) {
+      return { ...result, ...withRejected };
+    }
+
+    const parsed = parseStructuredOutput(result.response.content, schema);
+    if (parsed.valid) {
+      return { ...result, structuredOutput: parsed.value, ...withRejected };
+    }
+
+    const issues = formatSchemaIssues(parsed.issues);
+    const isLastAttempt = attempt > maxRetries;
+    log.warn(
+      { provider: result.provider, attempt, issues: parsed.issues, isLastAttempt },
+      'Answer does not match the response schema'
+    );
+
+    const rejected: ProviderCallResult = {
+      ...result,
+      success: false,
+      error: {
+        code: 'PROVIDER_SCHEMA_ERROR',
+        message: isLastAttempt
+          ? `Answer did not match the response schema after ${attempt} attempts: ${issues}`
+          : `Answer does not match the response schema: ${issues}`,
+        retryable: !isLastAttempt,
+      },
+    };
+    if (isLastAttempt) {
+      return { ...rejected, ...withRejected };
+    }
+
+    rejectedAnswers.push(rejected);
+    messages = [...messages, ...buildSchemaRetryMessages(result.response.content, parsed.issues)];
+  }
+}
+
+/**
+ * One provider call: routing, retries, failover and hedging
+ */
+async function executeAcrossProviders(
+  request: ProviderRequest,
+  config: OrchestratorConfig
 ): Promise<ProviderCallResult> {
   const correlationId = config.correlationId || generateCorrelationId();
   const log = logger.child({ correlationId });
@@ -56,53 +162,125 @@ export async function executeWithResilience(
   const retryState: RetryState = {
     attemptNumber: 0,
     errors: [],
+    streamedOutput: false,
+    deadline: config.deadline ?? getDefaultDeadline(),
   };
 
-  // Try primary provider with retries
-  log.info(
-    { provider: config.primaryProvider },
-    'Starting provider call with primary provider'
-  );
+  const loadStats = createStatsLoader(config.getStats, correlationId);
+  const routing =
+    config.routingPolicy && (await resolveRouting(config.routingPolicy, loadStats, correlationId));
+  const providers = routing
+    ? routing.order
+    : [config.primaryProvider, config.fallbackProvider].filter(
+        (p, i, all): p is ProviderType => !!p && all.indexOf(p) === i
+      );
 
-  const primaryResult = await executeWithRetry(
-    request,
-    config.primaryProvider,
-    correlationId,
-    retryState,
-    false
-  );
+  // Circuit state of the first provider when the call started
+  let circuitState: CircuitState | undefined;
+  let shortCircuited = false;
+  // The losing request of a hedged call
+  let hedgedCall: ProviderCallResult | undefined;
+
+  // Adapter for the provider at this position, or null (reason recorded) when it
+  // isn't configured or its circuit is open
+  const checkProvider = async (index: number): Promise<ProviderAdapter | null> => {
+    const provider = providers[index];
+    const adapter = config.adapters?.[provider] ?? adapters[provider];
+    if (!adapter) {
+      log.warn({ provider }, 'Provider not configured');
+      retryState.errors.push({
+        provider,
+        error: new ProviderNotConfiguredError(provider),
+        attemptNumber: retryState.attemptNumber,
+      });
+      return null;
+    }
 
-  if (primaryResult.success) {
-    return primaryResult;
-  }
+    // Check the circuit before spending retries on the provider
+    const breaker = getCircuitBreaker(adapter);
+    const state = breaker.getState();
+    const allowed = await breaker.allowRequest(() => adapter.healthCheck());
+    if (index === 0) {
+      circuitState = state;
+      shortCircuited = !allowed;
+    }
+
+    if (!allowed) {
+      log.warn({ provider, circuitState: state }, 'Provider circuit open, skipping');
+      retryState.errors.push({
+        provider,
+        error: new CircuitOpenError(provider),
+        attemptNumber: retryState.attemptNumber,
+      });
+      return null;
+    }
+
+    return adapter;
+  };
 
-  // If fallback is configured and different from primary, try fallback
-  if (
-    config.fallbackProvider &&
-    config.fallbackProvider !== config.primaryProvider
+  let index = 0;
+  // Partial output can't be retracted, so no failover once the caller has seen some,
+  // nor once the caller has cancelled (the first provider still records the cancellation)
+  while (
+    index < providers.length &&
+    !retryState.streamedOutput &&
+    !(index > 0 && request.signal?.aborted)
   ) {
-    log.info(
-      {
-        primaryProvider: config.primaryProvider,
-        fallbackProvider: config.fallbackProvider,
-        primaryErrors: retryState.errors.length,
-      },
-      'Primary provider exhausted, trying fallback'
-    );
+    const provider = providers[index];
+    const isFallback = index > 0;
+
+    if (isFallback) {
+      log.info(
+        {
+          provider,
+          failedProviders: providers.slice(0, index),
+          errors: retryState.errors.length,
+        },
+        'Previous provider exhausted, trying fallback'
+      );
+    }
 
-    // Reset attempt number for fallback
-    const fallbackAttemptStart = retryState.attemptNumber;
+    const adapter = await checkProvider(index);
+    if (!adapter) {
+      index++;
+      continue;
+    }
 
-    const fallbackResult = await executeWithRetry(
-      request,
-      config.fallbackProvider,
-      correlationId,
-      retryState,
-      true
+    log.info(
+      { provider, isFallback, circuitState: getCircuitBreaker(adapter).getState() },
+      'Starting provider call'
     );
 
-    if (fallbackResult.success) {
-      return fallbackResult;
+    let result: ProviderCallResult;
+    if (config.hedging && index === 0 && providers.length > 1) {
+      const afterMs = await resolveHedgeAfterMs(config.hedging, provider, loadStats);
+      const hedged = await executeHedged(
+        request,
+        adapter,
+        () => checkProvider(1),
+        afterMs,
+        correlationId,
+        retryState,
+        config.onDelta
+      );
+      result = hedged.result;
+      hedgedCall = hedged.hedgedCall && { ...hedged.hedgedCall, routing };
+      // The second provider already had its turn once the hedge was considered
+      index = hedged.hedgeStarted ? 2 : 1;
+    } else {
+      result = await executeWithRetry(
+        request,
+        adapter,
+        correlationId,
+        retryState,
+        isFallback,
+        config.onDelta
+      );
+      index++;
+    }
+
+    if (result.success) {
+      return { ...result, circuitState, shortCircuited, routing, hedgedCall };
     }
   }
 
@@ -123,39 +301,264 @@ export async function executeWithResilience(
   return {
     success: false,
     error: {
-      code: lastError.error instanceof RateLimitError ? 'RATE_LIMITED' : 'PROVIDER_ERROR',
+      code:
+        lastError.error instanceof CircuitOpenError
+          ? 'CIRCUIT_OPEN'
+          : lastError.error instanceof RateLimitError
+            ? 'RATE_LIMITED'
+            : lastError.error instanceof CancelledError
+              ? 'CANCELLED'
+              : 'PROVIDER_ERROR',
       message: lastError.error.message,
       retryable: false,
+      retryAfterMs: getRetryAfterMs(lastError.error),
     },
     provider: lastError.provider,
-    isFallback: config.fallbackProvider ? lastError.provider === config.fallbackProvider : false,
+    isFallback: lastError.provider !== providers[0],
     attemptNumber: retryState.attemptNumber,
     latencyMs: 0,
+    circuitState,
+    shortCircuited,
+    routing,
+    hedgedCall,
+  };
+}
+
+/**
+ * Load rolling provider stats at most once per call
+ * A failed load is logged and treated as no stats, so defaults apply
+ */
+function createStatsLoader(
+  getStats: OrchestratorConfig['getStats'],
+  correlationId: string
+): () => Promise<ProviderStatsMap> {
+  let loaded: Promise<ProviderStatsMap> | undefined;
+
+  return () => {
+    if (!loaded) {
+      loaded = (getStats ? getStats() : Promise.resolve({})).catch((error) => {
+        logger
+          .child({ correlationId })
+          .warn(
+            { error: error instanceof Error ? error.message : error },
+            'Failed to load provider stats'
+          );
+        return {};
+      });
+    }
+    return loaded;
   };
 }
 
+/**
+ * Resolve the routing policy for one call
+ * Stats are only loaded for policies that use them; without stats the listed order applies
+ */
+async function resolveRouting(
+  policy: RoutingPolicy,
+  loadStats: () => Promise<ProviderStatsMap>,
+  correlationId: string
+): Promise<RoutingDecision> {
+  const log = logger.child({ correlationId });
+  const stats = policy.type === 'LOWEST_LATENCY' ? await loadStats() : {};
+
+  const decision = resolveRoutingPolicy(policy, stats);
+  log.info(
+    { policy: decision.policy, order: decision.order, reason: decision.reason },
+    'Routing policy resolved'
+  );
+  return decision;
+}
+
+/**
+ * How long the first provider gets before a hedged request is sent
+ * A fixed threshold, or the provider's recent p90 (floored at config.hedging.minAfterMs)
+ */
+async function resolveHedgeAfterMs(
+  hedging: NonNullable<OrchestratorConfig['hedging']>,
+  provider: ProviderType,
+  loadStats: () => Promise<ProviderStatsMap>
+): Promise<number> {
+  if (hedging.afterMs !== null) {
+    return hedging.afterMs;
+  }
+
+  const stats = (await loadStats())[provider];
+  if (!stats || stats.sampleSize < MIN_LATENCY_SAMPLES || stats.p90LatencyMs === null) {
+    return config.hedging.defaultAfterMs;
+  }
+  return Math.max(stats.p90LatencyMs, config.hedging.minAfterMs);
+}
+
+/**
+ * Call the first provider and, if it hasn't answered within afterMs, the second as well
+ * The first request to succeed - or, when streaming, to send output - wins and the other
+ * is aborted. When the first provider answers (or fails) within afterMs no hedge is sent.
+ */
+async function executeHedged(
+  request: ProviderRequest,
+  primary: ProviderAdapter,
+  startHedge: () => Promise<ProviderAdapter | null>,
+  afterMs: number,
+  correlationId: string,
+  retryState: RetryState,
+  onDelta?: (content: string) => void
+): Promise<{ result: ProviderCallResult; hedgedCall?: ProviderCallResult; hedgeStarted: boolean }> {
+  const log = logger.child({ correlationId });
+  const controllers: Record<HedgeBranch, AbortController> = {
+    primary: new AbortController(),
+    hedge: new AbortController(),
+  };
+  const abortAll = () => {
+    controllers.primary.abort();
+    controllers.hedge.abort();
+  };
+  request.signal?.addEventListener('abort', abortAll, { once: true });
+
+  let winner: HedgeBranch | null = null;
+  const claim = (branch: HedgeBranch): boolean => {
+    if (winner === null) {
+      winner = branch;
+      // The loser ends cancelled, giving back its breaker trial if it was one
+      controllers[branch === 'primary' ? 'hedge' : 'primary'].abort();
+    }
+    return winner === branch;
+  };
+
+  const run = async (branch: HedgeBranch, adapter: ProviderAdapter) => {
+    const result = await executeWithRetry(
+      { ...request, signal: controllers[branch].signal },
+      adapter,
+      correlationId,
+      retryState,
+      branch === 'hedge',
+      // Only the branch that streams first reaches the caller
+      onDelta &&
+        ((content) => {
+          if (claim(branch)) {
+            onDelta(content);
+          }
+        })
+    );
+    return { branch, result: branch === 'hedge' ? { ...result, isHedge: true } : result };
+  };
+
+  try {
+    const primaryRun = run('primary', primary);
+
+    let timer: NodeJS.Timeout | undefined;
+    const early = await Promise.race([
+      primaryRun,
+      new Promise<null>((resolve) => {
+        timer = setTimeout(() => resolve(null), afterMs);
+      }),
+    ]);
+    clearTimeout(timer);
+
+    if (early || winner === 'primary') {
+      return { result: (early ?? (await primaryRun)).result, hedgeStarted: false };
+    }
+
+    const hedge = await startHedge();
+    if (!hedge) {
+      return { result: (await primaryRun).result, hedgeStarted: true };
+    }
+
+    log.info(
+      { provider: primary.name, hedgeProvider: hedge.name, afterMs },
+      'First provider slow, sending hedged request'
+    );
+    const runs = [primaryRun, run('hedge', hedge)];
+
+    const first = await Promise.race(runs);
+    const second = first.branch === 'primary' ? runs[1] : runs[0];
+    if (first.result.success && claim(first.branch)) {
+      log.info({ winner: first.branch, provider: first.result.provider }, 'Hedged call settled');
+      return { result: first.result, hedgedCall: (await second).result, hedgeStarted: true };
+    }
+
+    // The first to finish failed; the other decides the outcome
+    const last = await second;
+    claim(last.branch);
+    log.info(
+      { winner: last.result.success ? last.branch : null, provider: last.result.provider },
+      'Hedged call settled'
+    );
+    return { result: last.result, hedgedCall: first.result, hedgeStarted: true };
+  } finally {
+    request.signal?.removeEventListener('abort', abortAll);
+  }
+}
+
 /**
  * Execute provider call with exponential backoff retry
  */
 async function executeWithRetry(
   request: ProviderRequest,
-  provider: ProviderType,
+  adapter: ProviderAdapter,
   correlationId: string,
   retryState: RetryState,
-  isFallback: boolean
+  isFallback: boolean,
+  onDelta?: (content: string) => void
 ): Promise<ProviderCallResult> {
-  const adapter = adapters[provider];
+  const provider = adapter.name;
+  const breaker = getCircuitBreaker(adapter);
+  const limiter = getRateLimiter(adapter);
   const maxAttempts = config.retry.maxAttempts;
   const log = logger.child({ correlationId, provider });
+  // Only the HALF_OPEN trial gets this far while the circuit is half-open
+  const holdsTrial = breaker.getState() === 'HALF_OPEN';
+
+  // Tag exchanges with the provider; a hedged call has one per provider
+  const attemptRequest: ProviderRequest = request.onExchange
+    ? { ...request, onExchange: (exchange) => request.onExchange!({ ...exchange, provider }) }
+    : request;
 
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    // Queue behind the client-side rate limit; the vendor isn't called, so the breaker isn't told
+    try {
+      if (request.signal?.aborted) {
+        throw new CancelledError('Provider call was aborted');
+      }
+      if (Date.now() >= retryState.deadline) {
+        throw new TimeoutError('Provider call deadline passed before the attempt could start');
+      }
+      await limiter.acquire(request.scope?.tenantId, retryState.deadline);
+    } catch (error) {
+      const errorObj = error as Error;
+      retryState.errors.push({ provider, error: errorObj, attemptNumber: retryState.attemptNumber });
+      log.warn({ attempt, error: errorObj.message }, 'Provider call not attempted');
+      if (holdsTrial) {
+        breaker.releaseTrial();
+      }
+
+      return {
+        success: false,
+        error: {
+          code: getErrorCode(error),
+          message: errorObj.message,
+          retryable: false,
+          retryAfterMs: getRetryAfterMs(error),
+        },
+        provider,
+        isFallback,
+        attemptNumber: retryState.attemptNumber,
+        latencyMs: 0,
+      };
+    }
+
     retryState.attemptNumber++;
     const attemptStartTime = Date.now();
 
-    log.info({ attempt, maxAttempts, isFallback }, 'Provider call attempt');
+    log.info({ attempt, maxAttempts, isFallback, streaming: !!onDelta }, 'Provider call attempt');
 
     try {
-      const response = await adapter.sendMessage(request);
+      const call = onDelta
+        ? consumeStream(adapter, attemptRequest, onDelta, retryState)
+        : adapter.sendMessage(attemptRequest);
+      const response = await withDeadline(call, retryState.deadline, provider, request.signal);
+
+      breaker.recordSuccess();
 
       log.info(
         {
@@ -176,8 +579,13 @@ async function executeWithRetry(
         attemptNumber: retryState.attemptNumber,
         latencyMs: response.latencyMs,
       };
-    } catch (error) {
+    } catch (thrown) {
       const latencyMs = Date.now() - attemptStartTime;
+      // Whatever an aborted request threw, it was cancelled
+      const error =
+        request.signal?.aborted && !(thrown instanceof CancelledError)
+          ? new CancelledError('Provider call was aborted')
+          : thrown;
       const errorObj = error instanceof Error ? error : new Error(String(error));
 
       retryState.errors.push({
@@ -186,8 +594,25 @@ async function executeWithRetry(
         attemptNumber: retryState.attemptNumber,
       });
 
-      const isRetryable = isRetryableError(error);
-      const isLastAttempt = attempt >= maxAttempts;
+      // A cancelled request says nothing about the provider's health; as the trial, it
+      // must still give its slot back
+      if (!(error instanceof CancelledError)) {
+        breaker.recordFailure();
+      } else if (holdsTrial) {
+        breaker.releaseTrial();
+      }
+      if (error instanceof RateLimitError) {
+        limiter.recordVendorRateLimit(error.retryAfterMs);
+      }
+
+      // Wait at least as long as the vendor asked, and never past the deadline
+      const delay = calculateRetryDelay(attempt, error);
+      const exceedsBudget = Date.now() + delay >= retryState.deadline;
+
+      const isRetryable = isRetryableError(error) && !retryState.streamedOutput;
+      // Stop retrying as soon as this failure opened the circuit
+      const isLastAttempt =
+        attempt >= maxAttempts || breaker.getState() === 'OPEN' || exceedsBudget;
 
       log.warn(
         {
@@ -195,6 +620,7 @@ async function executeWithRetry(
           error: errorObj.message,
           isRetryable,
           isLastAttempt,
+          exceedsBudget,
           latencyMs,
         },
         'Provider call failed'
@@ -217,10 +643,8 @@ async function executeWithRetry(
         };
       }
 
-      // Calculate backoff delay
-      const delay = calculateBackoffDelay(attempt);
       log.debug({ delayMs: delay }, 'Waiting before retry');
-      await sleep(delay);
+      await sleep(delay, request.signal);
     }
   }
 
@@ -239,6 +663,52 @@ async function executeWithRetry(
   };
 }
 
+/**
+ * Raised internally when a provider is skipped because its circuit is open
+ */
+class CircuitOpenError extends ProviderError {
+  constructor(provider: ProviderType) {
+    super(`Circuit breaker open for ${provider}`, provider);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Raised internally when an agent references a provider the tenant hasn't configured
+ */
+class ProviderNotConfiguredError extends ProviderError {
+  constructor(provider: ProviderType) {
+    super(`Provider ${provider} is not configured`, provider);
+    this.name = 'ProviderNotConfiguredError';
+  }
+}
+
+/**
+ * Consume a provider stream, forwarding text deltas as they arrive
+ */
+async function consumeStream(
+  adapter: ProviderAdapter,
+  request: ProviderRequest,
+  onDelta: (content: string) => void,
+  retryState: RetryState
+): Promise<ProviderResponse> {
+  for await (const chunk of adapter.streamMessage(request)) {
+    // An attempt abandoned at the deadline must not keep writing to the caller
+    if (Date.now() >= retryState.deadline) {
+      throw new TimeoutError(`${adapter.name} call exceeded the request deadline`);
+    }
+
+    if (chunk.type === 'delta') {
+      retryState.streamedOutput = true;
+      onDelta(chunk.content);
+    } else if (chunk.type === 'done') {
+      return chunk.response;
+    }
+  }
+
+  throw new ProviderSchemaError('Provider stream ended without a final response');
+}
+
 /**
  * Determine if an error is retryable
  */
@@ -287,6 +757,9 @@ function getErrorCode(error: unknown): string {
   if (error instanceof ProviderSchemaError) {
     return 'PROVIDER_SCHEMA_ERROR';
   }
+  if (error instanceof CancelledError) {
+    return 'CANCELLED';
+  }
   return 'PROVIDER_ERROR';
 }
 
@@ -300,6 +773,13 @@ function getRetryAfterMs(error: unknown): number | undefined {
   return undefined;
 }
 
+/**
+ * Delay before the next attempt: backoff, or the vendor's retry-after when longer
+ */
+function calculateRetryDelay(attempt: number, error: unknown): number {
+  return Math.max(calculateBackoffDelay(attempt), getRetryAfterMs(error) ?? 0);
+}
+
 /**
  * Calculate exponential backoff delay with jitter
  */
@@ -318,25 +798,74 @@ function calculateBackoffDelay(attempt: number): number {
   return Math.round(cappedDelay + jitter);
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+/**
+ * Wait between retries; an aborted request stops waiting (the next attempt checks the signal)
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+function getDefaultDeadline(): number {
+  return Date.now() + config.retry.budgetMs;
+}
+
+function getSchemaMaxRetries(): number {
+  return config.structuredOutput.maxRetries;
+}
+
+/**
+ * Fail an attempt with a TimeoutError once the call's deadline passes, or with a
+ * CancelledError once the request is aborted
+ * An abandoned attempt keeps running in the background if its adapter ignores the signal;
+ * its outcome is ignored
+ */
+async function withDeadline<T>(
+  promise: Promise<T>,
+  deadline: number,
+  provider: ProviderType,
+  signal?: AbortSignal
+): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  let onAbort: (() => void) | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new TimeoutError(`${provider} call exceeded the request deadline`)),
+      Math.max(0, deadline - Date.now())
+    );
+    onAbort = () => reject(new CancelledError(`${provider} call was aborted`));
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+  try {
+    return await Promise.race([promise, expired]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort!);
+  }
 }
 
 /**
- * Check health of all providers
+ * Check health of the built-in providers
  */
 export async function checkProvidersHealth(): Promise<
-  Record<ProviderType, boolean>
+  Partial<Record<ProviderType, boolean>>
 > {
-  const results: Record<ProviderType, boolean> = {
-    VENDOR_A: false,
-    VENDOR_B: false,
-  };
+  const results: Partial<Record<ProviderType, boolean>> = {};
 
   await Promise.all(
     Object.entries(adapters).map(async ([provider, adapter]) => {
       try {
-        results[provider as ProviderType] = await adapter.healthCheck();
+        results[provider as ProviderType] = await adapter!.healthCheck();
       } catch {
         results[provider as ProviderType] = false;
       }
@@ -345,3 +874,31 @@ export async function checkProvidersHealth(): Promise<
 
   return results;
 }
+
+/**
+ * Client-side throttling of all providers
+ * Built-in providers are always listed; tenant-configured endpoints once they've been used
+ */
+export function getProviderRateLimiterStates(): Record<string, RateLimiterSnapshot> {
+  for (const adapter of Object.values(adapters)) {
+    getRateLimiter(adapter!);
+  }
+
+  return Object.fromEntries(
+    listRateLimiters().map((limiter) => [limiter.key, limiter.snapshot()])
+  );
+}
+
+/**
+ * Current circuit breaker state of all providers
+ * Built-in providers are always listed; tenant-configured endpoints once they've been used
+ */
+export function getProviderCircuitStates(): Record<string, CircuitBreakerSnapshot> {
+  for (const adapter of Object.values(adapters)) {
+    getCircuitBreaker(adapter!);
+  }
+
+  return Object.fromEntries(
+    listCircuitBreakers().map((breaker) => [breaker.key, breaker.snapshot()])
+  );
+}
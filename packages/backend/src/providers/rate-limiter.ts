@@ -0,0 +1,197 @@
+/**
+ * Client-side rate limiter
+ * One limiter per provider (per endpoint for tenant-configured adapters), shared by all
+ * requests in this process, with an optional bucket per tenant on top
+ *
+ * Token buckets hand out reservations: a request takes a token right away, even if that
+ * leaves the bucket negative, and waits until the token would have been refilled. Requests
+ * therefore queue in arrival order without an explicit queue. When the vendor answers 429,
+ * the limiter pauses for its retry-after so queued requests don't keep hammering it.
+ */
+
+import type { ProviderType } from '@prisma/client';
+import { config } from '../config/index.js';
+import { RateLimitError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import type { ProviderAdapter } from './types.js';
+
+export interface RateLimitOptions {
+  requestsPerSecond: number;
+  burst: number;
+}
+
+export interface RateLimiterSnapshot {
+  requestsPerSecond: number;
+  burst: number;
+  availableTokens: number;
+  pausedUntil: string | null;
+  // Requests that waited for capacity, and the total time they waited
+  throttledRequests: number;
+  throttledWaitMs: number;
+  // Requests turned away because the wait would have passed their deadline
+  rejectedRequests: number;
+  // 429s received from the vendor
+  vendorRateLimits: number;
+}
+
+class TokenBucket {
+  private tokens: number;
+  private refilledAt = Date.now();
+
+  constructor(private readonly options: RateLimitOptions) {
+    this.tokens = options.burst;
+  }
+
+  /**
+   * Milliseconds until the next reservation's token is available
+   */
+  waitMs(now: number): number {
+    this.refill(now);
+    if (this.tokens >= 1) {
+      return 0;
+    }
+    return Math.ceil(((1 - this.tokens) / this.options.requestsPerSecond) * 1000);
+  }
+
+  take(now: number): void {
+    this.refill(now);
+    this.tokens -= 1;
+  }
+
+  available(now: number): number {
+    this.refill(now);
+    return Math.max(0, Math.floor(this.tokens));
+  }
+
+  private refill(now: number): void {
+    const elapsedMs = now - this.refilledAt;
+    this.tokens = Math.min(
+      this.options.burst,
+      this.tokens + (elapsedMs / 1000) * this.options.requestsPerSecond
+    );
+    this.refilledAt = now;
+  }
+}
+
+export class RateLimiter {
+  private readonly bucket: TokenBucket;
+  private readonly tenantBuckets = new Map<string, TokenBucket>();
+  private pausedUntil = 0;
+  private throttledRequests = 0;
+  private throttledWaitMs = 0;
+  private rejectedRequests = 0;
+  private vendorRateLimits = 0;
+  private readonly log;
+
+  constructor(
+    readonly provider: ProviderType,
+    private readonly options: RateLimitOptions,
+    private readonly tenantOptions: RateLimitOptions | null = null,
+    readonly key: string = provider
+  ) {
+    this.bucket = new TokenBucket(options);
+    this.log = logger.child({ provider, limiter: key, component: 'rate-limiter' });
+  }
+
+  /**
+   * Reserve capacity for one request and wait until it is available
+   * Throws RateLimitError, without reserving, when the wait would pass the deadline
+   */
+  async acquire(tenantId: string | undefined, deadline: number): Promise<void> {
+    const now = Date.now();
+    const buckets = [this.bucket];
+    if (this.tenantOptions && tenantId) {
+      buckets.push(this.getTenantBucket(tenantId, this.tenantOptions));
+    }
+
+    const waitMs = Math.max(0, this.pausedUntil - now, ...buckets.map((b) => b.waitMs(now)));
+
+    if (now + waitMs > deadline) {
+      this.rejectedRequests++;
+      this.log.warn({ tenantId, waitMs }, 'Provider throttled past the request deadline');
+      throw new RateLimitError(
+        `Client-side rate limit for ${this.provider} would delay the request past its deadline`,
+        waitMs
+      );
+    }
+
+    for (const bucket of buckets) {
+      bucket.take(now);
+    }
+
+    if (waitMs > 0) {
+      this.throttledRequests++;
+      this.throttledWaitMs += waitMs;
+      this.log.debug({ tenantId, waitMs }, 'Waiting for provider rate limit capacity');
+      await sleep(waitMs);
+    }
+  }
+
+  /**
+   * The vendor answered 429: hold every request until its retry-after has passed
+   */
+  recordVendorRateLimit(retryAfterMs: number | undefined): void {
+    this.vendorRateLimits++;
+    if (retryAfterMs) {
+      this.pausedUntil = Math.max(this.pausedUntil, Date.now() + retryAfterMs);
+    }
+    this.log.warn({ retryAfterMs }, 'Vendor rate limited us, pausing requests');
+  }
+
+  snapshot(): RateLimiterSnapshot {
+    const now = Date.now();
+    return {
+      requestsPerSecond: this.options.requestsPerSecond,
+      burst: this.options.burst,
+      availableTokens: this.bucket.available(now),
+      pausedUntil: this.pausedUntil > now ? new Date(this.pausedUntil).toISOString() : null,
+      throttledRequests: this.throttledRequests,
+      throttledWaitMs: this.throttledWaitMs,
+      rejectedRequests: this.rejectedRequests,
+      vendorRateLimits: this.vendorRateLimits,
+    };
+  }
+
+  private getTenantBucket(tenantId: string, options: RateLimitOptions): TokenBucket {
+    let bucket = this.tenantBuckets.get(tenantId);
+    if (!bucket) {
+      bucket = new TokenBucket(options);
+      this.tenantBuckets.set(tenantId, bucket);
+    }
+    return bucket;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Singleton limiters, keyed by adapter instance
+const limiters = new Map<string, RateLimiter>();
+
+export function getRateLimiter(adapter: ProviderAdapter): RateLimiter {
+  const key = adapter.instanceKey ?? adapter.name;
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    const { perTenant } = config.rateLimit;
+    limiter = new RateLimiter(
+      adapter.name,
+      config.rateLimit.providers[adapter.name],
+      perTenant.requestsPerSecond > 0 ? perTenant : null,
+      key
+    );
+    limiters.set(key, limiter);
+  }
+  return limiter;
+}
+
+export function listRateLimiters(): RateLimiter[] {
+  return Array.from(limiters.values());
+}
+
+/**
+ * Drop all limiter state (used by tests)
+ */
+export function resetRateLimiters(): void {
+  limiters.clear();
+}
@@ -0,0 +1,131 @@
+/**
+ * Provider routing policies
+ * Turn an agent's routing policy into the order providers are tried in for one call
+ *
+ * - WEIGHTED: draw the first provider by weight (e.g. 80/20 canary), the rest by weight
+ * - LOWEST_LATENCY: lowest recent p95 first; providers without enough recent calls go last
+ * - CHEAPEST: lowest list price (PRICING, input + output per 1K tokens) first
+ * - FAILOVER: the listed order
+ *
+ * The providers after the first are the failover order when it fails.
+ */
+
+import type { ProviderType, RoutingPolicyType } from '@prisma/client';
+import { PRICING } from '../config/pricing.js';
+
+export interface RoutingPolicy {
+  type: RoutingPolicyType;
+  providers: Array<{ provider: ProviderType; weight?: number }>;
+}
+
+/**
+ * Rolling stats of a provider's recent successful calls
+ */
+export interface ProviderStats {
+  sampleSize: number;
+  p90LatencyMs: number | null;
+  p95LatencyMs: number | null;
+}
+
+export type ProviderStatsMap = Partial<Record<ProviderType, ProviderStats>>;
+
+export interface RoutingDecision {
+  policy: RoutingPolicyType;
+  reason: string;
+  // Providers in the order they are tried
+  order: ProviderType[];
+}
+
+// Fewer recent calls than this and a provider's latency percentiles aren't trusted
+export const MIN_LATENCY_SAMPLES = 5;
+
+/**
+ * Providers a policy can route to, in listed order
+ */
+export function listPolicyProviders(policy: RoutingPolicy): ProviderType[] {
+  return policy.providers.map((p) => p.provider);
+}
+
+export function resolveRoutingPolicy(
+  policy: RoutingPolicy,
+  stats: ProviderStatsMap = {},
+  random: () => number = Math.random
+): RoutingDecision {
+  switch (policy.type) {
+    case 'WEIGHTED':
+      return resolveWeighted(policy, random);
+    case 'LOWEST_LATENCY':
+      return resolveLowestLatency(policy, stats);
+    case 'CHEAPEST':
+      return resolveCheapest(policy);
+    case 'FAILOVER': {
+      const order = listPolicyProviders(policy);
+      return { policy: policy.type, reason: `Failover order ${order.join(' → ')}`, order };
+    }
+  }
+}
+
+function resolveWeighted(policy: RoutingPolicy, random: () => number): RoutingDecision {
+  const weighted = policy.providers.map((p) => ({ provider: p.provider, weight: p.weight ?? 0 }));
+  const total = weighted.reduce((sum, p) => sum + p.weight, 0);
+
+  let draw = random() * total;
+  const chosen =
+    weighted.find((p) => p.weight > 0 && (draw -= p.weight) < 0) ??
+    weighted.filter((p) => p.weight > 0).pop()!;
+
+  const rest = weighted
+    .filter((p) => p.provider !== chosen.provider)
+    .sort((a, b) => b.weight - a.weight);
+
+  return {
+    policy: policy.type,
+    reason: `Weighted split drew ${chosen.provider} (weight ${chosen.weight} of ${total})`,
+    order: [chosen.provider, ...rest.map((p) => p.provider)],
+  };
+}
+
+function resolveLowestLatency(policy: RoutingPolicy, stats: ProviderStatsMap): RoutingDecision {
+  const providers = listPolicyProviders(policy);
+  const p95 = (provider: ProviderType) => {
+    const s = stats[provider];
+    return s && s.sampleSize >= MIN_LATENCY_SAMPLES ? s.p95LatencyMs : null;
+  };
+
+  const measured = providers
+    .filter((p) => p95(p) !== null)
+    .sort((a, b) => p95(a)! - p95(b)!);
+  const unmeasured = providers.filter((p) => p95(p) === null);
+  const order = [...measured, ...unmeasured];
+
+  if (measured.length === 0) {
+    return {
+      policy: policy.type,
+      reason: 'No recent latency data, using listed order',
+      order,
+    };
+  }
+
+  const others = measured.slice(1).map((p) => `${p} ${p95(p)}ms`);
+  return {
+    policy: policy.type,
+    reason:
+      `Lowest recent p95: ${measured[0]} ${p95(measured[0])}ms` +
+      (others.length > 0 ? ` (vs ${others.join(', ')})` : ''),
+    order,
+  };
+}
+
+function resolveCheapest(policy: RoutingPolicy): RoutingDecision {
+  const price = (provider: ProviderType) =>
+    PRICING[provider].inputPricePerKTokens + PRICING[provider].outputPricePerKTokens;
+
+  // Stable sort keeps the listed order between equally priced providers
+  const order = listPolicyProviders(policy).sort((a, b) => price(a) - price(b));
+
+  return {
+    policy: policy.type,
+    reason: `Cheapest list price: ${order[0]} $${price(order[0])}/1K tokens (input + output)`,
+    order,
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * Streaming, timing and canned-output helpers shared by the mocked vendor adapters
+ */
+
+import { CancelledError } from '../utils/errors.js';
+
+/**
+ * Split text into small word groups to simulate token-by-token streaming
+ * Whitespace is preserved so joining the chunks yields the original text
+ */
+export function chunkText(text: string, wordsPerChunk = 2): string[] {
+  const words = text.split(/(?<=\s)(?=\S)/);
+  const chunks: string[] = [];
+
+  for (let i = 0; i < words.length; i += wordsPerChunk) {
+    const chunk = words.slice(i, i + wordsPerChunk).join('');
+    if (chunk) {
+      chunks.push(chunk);
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Random inter-chunk delay (10-40ms) to mimic network pacing
+ */
+export function streamChunkDelayMs(): number {
+  return 10 + Math.random() * 30;
+}
+
+/**
+ * Wait like a real vendor call would, stopping with a CancelledError once the request is aborted
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError('Provider request was aborted'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError('Provider request was aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Placeholder value shaped like a JSON Schema, used as the mocked structured answer
+ * Fills required properties only; enums, consts and minimums are respected
+ */
+export function mockJsonForSchema(schema: Record<string, unknown>): unknown {
+  if (schema.const !== undefined) {
+    return schema.const;
+  }
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum[0];
+  }
+
+  const variants = (schema.oneOf ?? schema.anyOf) as Array<Record<string, unknown>> | undefined;
+  if (Array.isArray(variants) && variants.length > 0) {
+    return mockJsonForSchema(variants[0]);
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case 'object': {
+      const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+      const required = Array.isArray(schema.required) ? (schema.required as string[]) : [];
+      return Object.fromEntries(
+        required
+          .filter((key) => properties[key])
+          .map((key) => [key, mockJsonForSchema(properties[key])])
+      );
+    }
+    case 'array': {
+      const minItems = typeof schema.minItems === 'number' ? schema.minItems : 0;
+      const items = (schema.items ?? {}) as Record<string, unknown>;
+      return Array.from({ length: minItems }, () => mockJsonForSchema(items));
+    }
+    case 'integer':
+    case 'number':
+      return typeof schema.minimum === 'number' ? schema.minimum : 0;
+    case 'boolean':
+      return false;
+    case 'null':
+      return null;
+    case 'string':
+    default: {
+      const minLength = typeof schema.minLength === 'number' ? schema.minLength : 0;
+      return 'mock'.padEnd(minLength, '-');
+    }
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Structured output
+ * Parse a provider answer as JSON and validate it against the request's response schema;
+ * answers that don't match are sent back to the model with the validation errors
+ */
+
+import { validateJsonSchema, type JsonSchemaIssue } from '../utils/json-schema.js';
+import type { ConversationMessage } from './types.js';
+
+export type StructuredOutputResult =
+  | { valid: true; value: unknown }
+  | { valid: false; issues: JsonSchemaIssue[] };
+
+/**
+ * Parse and validate an answer; a surrounding Markdown code fence is tolerated
+ */
+export function parseStructuredOutput(
+  content: string,
+  schema: Record<string, unknown>
+): StructuredOutputResult {
+  const json = content
+    .trim()
+    .replace(/^```(?:json)?\s*\n?/i, '')
+    .replace(/\n?```$/, '');
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'parse error';
+    return { valid: false, issues: [{ path: '(root)', message: `must be valid JSON (${reason})` }] };
+  }
+
+  const issues = validateJsonSchema(schema, value);
+  return issues.length === 0 ? { valid: true, value } : { valid: false, issues };
+}
+
+export function formatSchemaIssues(issues: JsonSchemaIssue[]): string {
+  return issues.map((i) => `${i.path} ${i.message}`).join('; ');
+}
+
+/**
+ * Messages appended to the conversation to re-ask after a rejected answer
+ */
+export function buildSchemaRetryMessages(
+  content: string,
+  issues: JsonSchemaIssue[]
+): ConversationMessage[] {
+  return [
+    { role: 'assistant', content },
+    {
+      role: 'user',
+      content:
+        'Your answer does not match the required JSON Schema:\n' +
+        issues.map((i) => `- ${i.path} ${i.message}`).join('\n') +
+        '\nReply again with only a JSON document that matches the schema.',
+    },
+  ];
+}
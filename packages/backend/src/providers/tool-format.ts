@@ -0,0 +1,96 @@
+/**
+ * Tool schema, tool result and response schema translation shared by the adapters
+ * Tools and structured output are declared as JSON Schema; each vendor accepts a different shape
+ */
+
+import type { ToolResult } from './types.js';
+
+type Schema = Record<string, unknown>;
+
+// Keywords function-calling APIs reject on the root parameters object.
+// Arguments are still validated against the full schema before a tool runs.
+const UNSUPPORTED_ROOT_KEYWORDS = ['$schema', '$id', 'oneOf', 'anyOf', 'allOf', 'not', 'enum', 'const'];
+
+/**
+ * Function-calling `parameters` object (VendorB and OpenAI-compatible APIs)
+ * The root must be an object schema without combinators
+ */
+export function toFunctionParameters(schema: Schema): Schema {
+  const parameters: Schema = { ...schema };
+  for (const keyword of UNSUPPORTED_ROOT_KEYWORDS) {
+    delete parameters[keyword];
+  }
+
+  parameters.type = 'object';
+  parameters.properties = parameters.properties ?? {};
+
+  return parameters;
+}
+
+/**
+ * Chat-completions `response_format` (VendorB and OpenAI-compatible APIs)
+ * Not strict: strict mode rejects schemas with optional properties, and answers are
+ * validated against the full schema by the orchestrator anyway
+ */
+export interface JsonSchemaResponseFormat {
+  type: 'json_schema';
+  json_schema: { name: string; schema: Schema; strict: boolean };
+}
+
+export function toJsonSchemaResponseFormat(schema: Schema): JsonSchemaResponseFormat {
+  return {
+    type: 'json_schema',
+    json_schema: { name: 'response', schema, strict: false },
+  };
+}
+
+/**
+ * VendorA tool parameter: a flat list of named, typed fields
+ */
+export interface VendorAToolParameter {
+  name: string;
+  type: string;
+  description?: string;
+  required: boolean;
+  enum?: unknown[];
+  // Full JSON Schema for nested object/array fields
+  schema?: Schema;
+}
+
+export function toVendorAParameters(schema: Schema): VendorAToolParameter[] {
+  const properties = (schema.properties ?? {}) as Record<string, Schema>;
+  const required = new Set(Array.isArray(schema.required) ? (schema.required as string[]) : []);
+
+  return Object.entries(properties).map(([name, property]) => {
+    const type = Array.isArray(property.type)
+      ? (property.type as string[]).join('|')
+      : (property.type as string | undefined) ?? 'any';
+
+    return {
+      name,
+      type,
+      description: property.description as string | undefined,
+      required: required.has(name),
+      enum: Array.isArray(property.enum) ? property.enum : undefined,
+      schema: type === 'object' || type === 'array' ? property : undefined,
+    };
+  });
+}
+
+/**
+ * Payload sent back to the model for a tool result
+ * Failures become a structured error object instead of a bare null
+ */
+export function toToolResultPayload(result: ToolResult): unknown {
+  if (result.error === undefined) {
+    return result.result;
+  }
+
+  return {
+    error: {
+      code: result.errorCode ?? 'TOOL_ERROR',
+      message: result.error,
+      ...(result.errorDetails !== undefined && { details: result.errorDetails }),
+    },
+  };
+}
@@ -3,7 +3,8 @@
  * Defines the interface for AI vendor adapters
  */
 
-import { ProviderType } from '@prisma/client';
+import { CircuitState, ProviderType } from '@prisma/client';
+import type { RoutingDecision } from './routing.js';
 
 /**
  * Message in conversation history
@@ -31,6 +32,9 @@ export interface ToolResult {
   id: string;
   result: unknown;
   error?: string;
+  // Machine-readable failure sent back to the model so it can correct the call
+  errorCode?: string;
+  errorDetails?: unknown;
 }
 
 /**
@@ -51,6 +55,31 @@ export interface ProviderRequest {
   temperature: number;
   maxTokens: number;
   tools?: ToolDefinition[];
+  // JSON Schema the answer must match (structured output); sent in each vendor's format
+  responseSchema?: Record<string, unknown>;
+  // Called once per attempt with the vendor-format exchange (set only when bodies are captured)
+  onExchange?: (exchange: ProviderExchange) => void;
+  // Who the request is made for; the mock vendors use it to find scripted scenarios
+  scope?: ProviderRequestScope;
+  // Aborts the vendor call (e.g. the losing request of a hedged call); adapters throw CancelledError
+  signal?: AbortSignal;
+}
+
+export interface ProviderRequestScope {
+  tenantId: string;
+  agentId: string;
+}
+
+/**
+ * What an adapter actually sent to and received from the vendor
+ * Streaming responses are captured as the list of raw events; response is
+ * unset when the vendor never answered (the error is on the call result)
+ */
+export interface ProviderExchange {
+  request: unknown;
+  response?: unknown;
+  // Set by the orchestrator; a hedged call has an exchange per provider
+  provider?: ProviderType;
 }
 
 /**
@@ -62,8 +91,19 @@ export interface ProviderResponse {
   tokensOut: number;
   latencyMs: number;
   toolCalls?: ToolCall[];
+  // Model that served the request, when the vendor reports one (used for per-model pricing)
+  model?: string;
 }
 
+/**
+ * Incremental chunk emitted while a provider streams its response
+ * The stream always ends with a 'done' chunk carrying the full normalized response
+ */
+export type ProviderStreamChunk =
+  | { type: 'delta'; content: string }
+  | { type: 'tool_call'; toolCall: ToolCall }
+  | { type: 'done'; response: ProviderResponse };
+
 /**
  * Provider adapter interface
  * Each vendor implements this interface
@@ -71,11 +111,22 @@ export interface ProviderResponse {
 export interface ProviderAdapter {
   readonly name: ProviderType;
 
+  /**
+   * Identifies this adapter instance when several share a provider type
+   * (e.g. per-tenant endpoints); circuit breakers are tracked per key
+   */
+  readonly instanceKey?: string;
+
   /**
    * Send a message to the provider
    */
   sendMessage(request: ProviderRequest): Promise<ProviderResponse>;
 
+  /**
+   * Send a message and yield the response incrementally
+   */
+  streamMessage(request: ProviderRequest): AsyncIterable<ProviderStreamChunk>;
+
   /**
    * Check if the provider is healthy
    */
@@ -98,4 +149,19 @@ export interface ProviderCallResult {
   isFallback: boolean;
   attemptNumber: number;
   latencyMs: number;
+  // Primary provider's circuit state when the call started
+  circuitState?: CircuitState;
+  // True when the primary was skipped because its circuit was open
+  shortCircuited?: boolean;
+  // Set when the agent's routing policy picked the provider order
+  routing?: RoutingDecision;
+  // True for the second request of a hedged call
+  isHedge?: boolean;
+  // The other request of a hedged call (aborted or failed); recorded but never billed
+  hedgedCall?: ProviderCallResult;
+  // The answer parsed as JSON, once it matched request.responseSchema
+  structuredOutput?: unknown;
+  // Earlier answers that didn't match request.responseSchema (PROVIDER_SCHEMA_ERROR),
+  // each followed by a re-ask; recorded and billed like the final answer
+  rejectedAnswers?: ProviderCallResult[];
 }
@@ -3,19 +3,30 @@
  * Mocked AI vendor with:
  * - Response format: { outputText, tokensIn, tokensOut, latencyMs }
  * - Failure modes: ~10% HTTP 500, random latency spikes
+ *   (replaced by scripted scenarios, see fault-injection.ts)
  */
 
 import { z } from 'zod';
 import { ProviderType } from '@prisma/client';
 import { config } from '../config/index.js';
-import { ProviderError, ProviderSchemaError, TimeoutError } from '../utils/errors.js';
+import { CancelledError, ProviderError, ProviderSchemaError, TimeoutError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
 import type {
   ProviderAdapter,
+  ProviderExchange,
   ProviderRequest,
   ProviderResponse,
+  ProviderStreamChunk,
   ToolCall,
 } from './types.js';
+import { chunkText, delay, mockJsonForSchema, streamChunkDelayMs } from './stream-utils.js';
+import {
+  INVALID_VENDOR_PAYLOAD,
+  applyScriptedFault,
+  takeScriptedCall,
+  type ScriptedCall,
+} from './fault-injection.js';
+import { toToolResultPayload, toVendorAParameters, type VendorAToolParameter } from './tool-format.js';
 
 // VendorA response schema for validation
 const VendorAResponseSchema = z.object({
@@ -36,6 +47,28 @@ const VendorAResponseSchema = z.object({
 
 type VendorAResponse = z.infer<typeof VendorAResponseSchema>;
 
+// VendorA streaming event schema (one event per chunk)
+const VendorAStreamEventSchema = z.discriminatedUnion('event', [
+  z.object({
+    event: z.literal('text'),
+    text: z.string(),
+  }),
+  z.object({
+    event: z.literal('tool_invocation'),
+    id: z.string(),
+    name: z.string(),
+    args: z.unknown(),
+  }),
+  z.object({
+    event: z.literal('end'),
+    tokensIn: z.number().int().nonnegative(),
+    tokensOut: z.number().int().nonnegative(),
+    latencyMs: z.number().int().nonnegative(),
+  }),
+]);
+
+type VendorAStreamEvent = z.infer<typeof VendorAStreamEventSchema>;
+
 // VendorA request format (for documentation/mock purposes)
 interface VendorARequest {
   system_prompt: string;
@@ -52,8 +85,10 @@ interface VendorARequest {
   available_tools?: Array<{
     name: string;
     description: string;
-    input_schema: Record<string, unknown>;
+    parameters: VendorAToolParameter[];
   }>;
+  // Structured output: the answer is a JSON document matching the schema
+  output_format?: { type: 'json'; schema: Record<string, unknown> };
 }
 
 export class VendorAAdapter implements ProviderAdapter {
@@ -69,10 +104,20 @@ export class VendorAAdapter implements ProviderAdapter {
 
     // Transform to VendorA format
     const vendorRequest = this.transformRequest(request);
+    const exchange: ProviderExchange | undefined = request.onExchange
+      ? { request: vendorRequest }
+      : undefined;
 
     try {
       // Call mocked vendor
-      const rawResponse = await this.callVendor(vendorRequest);
+      const rawResponse = await this.callVendor(
+        vendorRequest,
+        takeScriptedCall('VENDOR_A', request.scope),
+        request.signal
+      );
+      if (exchange) {
+        exchange.response = rawResponse;
+      }
 
       // Validate response schema
       const parsed = VendorAResponseSchema.safeParse(rawResponse);
@@ -86,19 +131,74 @@ export class VendorAAdapter implements ProviderAdapter {
       // Normalize to common format
       return this.transformResponse(parsed.data, Date.now() - startTime);
     } catch (error) {
-      if (error instanceof ProviderSchemaError || error instanceof TimeoutError) {
-        throw error;
+      throw this.normalizeError(error);
+    } finally {
+      if (exchange) {
+        request.onExchange?.(exchange);
       }
+    }
+  }
 
-      if (error instanceof ProviderError) {
-        throw error;
+  async *streamMessage(request: ProviderRequest): AsyncIterable<ProviderStreamChunk> {
+    const startTime = Date.now();
+
+    // Transform to VendorA format
+    const vendorRequest = this.transformRequest(request);
+    const rawEvents: unknown[] = [];
+    const exchange: ProviderExchange | undefined = request.onExchange
+      ? { request: vendorRequest, response: rawEvents }
+      : undefined;
+
+    let content = '';
+    const toolCalls: ToolCall[] = [];
+
+    try {
+      const script = takeScriptedCall('VENDOR_A', request.scope);
+      for await (const rawEvent of this.callVendorStream(vendorRequest, script, request.signal)) {
+        if (exchange) {
+          rawEvents.push(rawEvent);
+        }
+
+        // Validate every event - a malformed chunk aborts the stream
+        const parsed = VendorAStreamEventSchema.safeParse(rawEvent);
+        if (!parsed.success) {
+          throw new ProviderSchemaError(
+            'VendorA returned unexpected stream event',
+            { raw: rawEvent, errors: parsed.error.issues }
+          );
+        }
+
+        const event = parsed.data;
+
+        if (event.event === 'text') {
+          content += event.text;
+          yield { type: 'delta', content: event.text };
+        } else if (event.event === 'tool_invocation') {
+          const toolCall: ToolCall = { id: event.id, name: event.name, args: event.args };
+          toolCalls.push(toolCall);
+          yield { type: 'tool_call', toolCall };
+        } else {
+          yield {
+            type: 'done',
+            response: {
+              content,
+              tokensIn: event.tokensIn,
+              tokensOut: event.tokensOut,
+              latencyMs: Date.now() - startTime,
+              toolCalls: toolCalls.length ? toolCalls : undefined,
+            },
+          };
+          return;
+        }
       }
 
-      throw new ProviderError(
-        `VendorA request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'VENDOR_A',
-        error
-      );
+      throw new ProviderSchemaError('VendorA stream ended without an end event');
+    } catch (error) {
+      throw this.normalizeError(error);
+    } finally {
+      if (exchange) {
+        request.onExchange?.(exchange);
+      }
     }
   }
 
@@ -111,6 +211,26 @@ export class VendorAAdapter implements ProviderAdapter {
     }
   }
 
+  private normalizeError(error: unknown): Error {
+    if (
+      error instanceof ProviderSchemaError ||
+      error instanceof TimeoutError ||
+      error instanceof CancelledError
+    ) {
+      return error;
+    }
+
+    if (error instanceof ProviderError) {
+      return error;
+    }
+
+    return new ProviderError(
+      `VendorA request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'VENDOR_A',
+      error
+    );
+  }
+
   private transformRequest(request: ProviderRequest): VendorARequest {
     return {
       system_prompt: request.systemPrompt,
@@ -124,7 +244,7 @@ export class VendorAAdapter implements ProviderAdapter {
         })),
         tool_responses: msg.toolResults?.map((tr) => ({
           id: tr.id,
-          output: tr.result,
+          output: toToolResultPayload(tr),
         })),
       })),
       settings: {
@@ -134,8 +254,11 @@ export class VendorAAdapter implements ProviderAdapter {
       available_tools: request.tools?.map((tool) => ({
         name: tool.name,
         description: tool.description,
-        input_schema: tool.parameters,
+        parameters: toVendorAParameters(tool.parameters),
       })),
+      output_format: request.responseSchema
+        ? { type: 'json', schema: request.responseSchema }
+        : undefined,
     };
   }
 
@@ -162,33 +285,49 @@ export class VendorAAdapter implements ProviderAdapter {
    * Mock vendor call - simulates VendorA behavior
    * In production, this would be an HTTP call
    */
-  private async callVendor(request: VendorARequest): Promise<VendorAResponse> {
-    // Simulate network latency (50-200ms base)
-    const baseLatency = 50 + Math.random() * 150;
+  private async callVendor(
+    request: VendorARequest,
+    script?: ScriptedCall,
+    signal?: AbortSignal
+  ): Promise<VendorAResponse> {
+    let totalLatency: number;
+
+    if (script) {
+      await applyScriptedFault(script, 'VENDOR_A', this.timeoutMs, signal);
+      if (script.fault === 'invalid_schema') {
+        return INVALID_VENDOR_PAYLOAD as unknown as VendorAResponse;
+      }
+      totalLatency = script.latencyMs;
+    } else {
+      const randomFaults = config.mockVendors.randomFaults;
 
-    // ~5% chance of latency spike (1-3 seconds)
-    const hasLatencySpike = Math.random() < 0.05;
-    const latencySpike = hasLatencySpike ? 1000 + Math.random() * 2000 : 0;
+      // Simulate network latency (50-200ms base)
+      const baseLatency = 50 + Math.random() * 150;
 
-    const totalLatency = baseLatency + latencySpike;
+      // ~5% chance of latency spike (1-3 seconds)
+      const hasLatencySpike = randomFaults && Math.random() < 0.05;
+      const latencySpike = hasLatencySpike ? 1000 + Math.random() * 2000 : 0;
 
-    // Check timeout
-    if (totalLatency > this.timeoutMs) {
-      await this.sleep(this.timeoutMs);
-      throw new TimeoutError(`VendorA request timed out after ${this.timeoutMs}ms`);
-    }
+      totalLatency = baseLatency + latencySpike;
+
+      // Check timeout
+      if (totalLatency > this.timeoutMs) {
+        await delay(this.timeoutMs, signal);
+        throw new TimeoutError(`VendorA request timed out after ${this.timeoutMs}ms`);
+      }
 
-    await this.sleep(totalLatency);
+      await delay(totalLatency, signal);
 
-    // ~10% chance of 500 error
-    if (Math.random() < 0.1) {
-      const error = new ProviderError(
-        'VendorA internal server error',
-        'VENDOR_A'
-      );
-      (error as any).statusCode = 500;
-      (error as any).retryable = true;
-      throw error;
+      // ~10% chance of 500 error
+      if (randomFaults && Math.random() < 0.1) {
+        const error = new ProviderError(
+          'VendorA internal server error',
+          'VENDOR_A'
+        );
+        (error as any).statusCode = 500;
+        (error as any).retryable = true;
+        throw error;
+      }
     }
 
     // Generate mock response
@@ -204,13 +343,25 @@ export class VendorAAdapter implements ProviderAdapter {
     let outputText: string;
 
     // Simple detection logic:
-    // 1. If last user message is empty → we're in second call with tool results, use them
-    // 2. If last user message mentions "order" and tools available → trigger tool call
-    // 3. Otherwise → generate mock response
-
-    const isToolResultCall = !lastUserMessage?.text || lastUserMessage.text.trim() === '';
-
-    if (isToolResultCall) {
+    // 1. A scripted scenario's forced tool calls or canned reply take precedence
+    // 2. If the conversation ends with tool results → answer from them
+    // 3. If last user message mentions "order" and tools available → trigger tool call
+    // 4. Otherwise → generate mock response
+
+    const lastSpeaker = request.conversation[request.conversation.length - 1]?.speaker;
+    const isToolResultCall =
+      lastSpeaker === 'tool' || !lastUserMessage?.text || lastUserMessage.text.trim() === '';
+
+    if (script?.toolCalls.length && lastSpeaker !== 'tool') {
+      toolCalls = script.toolCalls.map((tc, i) => ({
+        id: `call_${Date.now()}_${i}`,
+        name: tc.name,
+        args: tc.args,
+      }));
+      outputText = '';
+    } else if (script?.reply !== undefined) {
+      outputText = script.reply;
+    } else if (isToolResultCall) {
       // This is the second provider call with tool results
       // Find the most recent tool response
       const toolResponse = request.conversation
@@ -225,7 +376,7 @@ export class VendorAAdapter implements ProviderAdapter {
         outputText = "I've processed your request. Is there anything else I can help you with?";
       }
     } else if (
-      request.available_tools?.length &&
+      request.available_tools?.some((tool) => tool.name === 'InvoiceLookup') &&
       lastUserMessage.text.toLowerCase().includes('order')
     ) {
       // Trigger tool call for order-related queries
@@ -242,6 +393,11 @@ export class VendorAAdapter implements ProviderAdapter {
       outputText = this.generateMockResponse(lastUserMessage.text);
     }
 
+    // Structured output: answer with a document shaped like the schema
+    if (request.output_format && !toolCalls && script?.reply === undefined) {
+      outputText = JSON.stringify(mockJsonForSchema(request.output_format.schema));
+    }
+
     const outputTokens = this.estimateTokens(outputText) + (toolCalls ? 50 : 0);
 
     return {
@@ -253,6 +409,38 @@ export class VendorAAdapter implements ProviderAdapter {
     };
   }
 
+  /**
+   * Mock streaming vendor call - replays the mocked response as incremental events
+   * Failures happen before the first event, like a real connection error would
+   */
+  private async *callVendorStream(
+    request: VendorARequest,
+    script?: ScriptedCall,
+    signal?: AbortSignal
+  ): AsyncIterable<VendorAStreamEvent> {
+    const response = await this.callVendor(request, script, signal);
+    if (script?.fault === 'invalid_schema') {
+      yield response as unknown as VendorAStreamEvent;
+      return;
+    }
+
+    for (const text of chunkText(response.outputText)) {
+      await delay(streamChunkDelayMs(), signal);
+      yield { event: 'text', text };
+    }
+
+    for (const toolCall of response.toolCalls ?? []) {
+      yield { event: 'tool_invocation', id: toolCall.id, name: toolCall.name, args: toolCall.args };
+    }
+
+    yield {
+      event: 'end',
+      tokensIn: response.tokensIn,
+      tokensOut: response.tokensOut,
+      latencyMs: response.latencyMs,
+    };
+  }
+
   private estimateTokens(text: string): number {
     // Rough estimation: ~4 chars per token
     return Math.ceil(text.length / 4);
@@ -269,7 +457,7 @@ export class VendorAAdapter implements ProviderAdapter {
       const data = toolOutput as any;
 
       // Check if tool returned an error
-      if (data === null) {
+      if (data === null || data?.error) {
         return "I couldn't find that order in our system. Please double-check the order number and try again, or contact support if you need assistance.";
       }
 
@@ -327,8 +515,4 @@ export class VendorAAdapter implements ProviderAdapter {
 
     return `Thank you for your message. I understand you're asking about "${userMessage.substring(0, 50)}${userMessage.length > 50 ? '...' : ''}". Let me help you with that. Is there anything specific you'd like to know?`;
   }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
 }
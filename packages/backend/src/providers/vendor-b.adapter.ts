@@ -3,18 +3,43 @@
  * Mocked AI vendor with:
  * - Response format: { choices[].message.content, usage.input_tokens, usage.output_tokens }
  * - Failure modes: HTTP 429 with retryAfterMs
+ *   (replaced by scripted scenarios, see fault-injection.ts)
  */
 
 import { z } from 'zod';
 import { ProviderType } from '@prisma/client';
 import { config } from '../config/index.js';
-import { ProviderError, ProviderSchemaError, RateLimitError, TimeoutError } from '../utils/errors.js';
+import {
+  CancelledError,
+  ProviderError,
+  ProviderSchemaError,
+  RateLimitError,
+  TimeoutError,
+} from '../utils/errors.js';
 import type {
   ProviderAdapter,
+  ProviderExchange,
   ProviderRequest,
   ProviderResponse,
+  ProviderStreamChunk,
   ToolCall,
 } from './types.js';
+import { chunkText, delay, mockJsonForSchema, streamChunkDelayMs } from './stream-utils.js';
+import {
+  toFunctionParameters,
+  toJsonSchemaResponseFormat,
+  toToolResultPayload,
+  type JsonSchemaResponseFormat,
+} from './tool-format.js';
+import {
+  INVALID_VENDOR_PAYLOAD,
+  applyScriptedFault,
+  takeScriptedCall,
+  type ScriptedCall,
+} from './fault-injection.js';
+
+// VendorB serves a single model
+const VENDOR_B_MODEL = 'vendorb-large';
 
 // VendorB response schema for validation
 const VendorBResponseSchema = z.object({
@@ -47,6 +72,38 @@ const VendorBResponseSchema = z.object({
 
 type VendorBResponse = z.infer<typeof VendorBResponseSchema>;
 
+// VendorB streaming chunk schema (OpenAI-like deltas, usage on the final chunk)
+const VendorBStreamChunkSchema = z.object({
+  choices: z.array(
+    z.object({
+      delta: z.object({
+        content: z.string().nullable().optional(),
+        tool_calls: z
+          .array(
+            z.object({
+              index: z.number().int().nonnegative(),
+              id: z.string().optional(),
+              function: z.object({
+                name: z.string().optional(),
+                arguments: z.string().optional(),
+              }),
+            })
+          )
+          .optional(),
+      }),
+      finish_reason: z.string().nullable(),
+    })
+  ),
+  usage: z
+    .object({
+      input_tokens: z.number().int().nonnegative(),
+      output_tokens: z.number().int().nonnegative(),
+    })
+    .optional(),
+});
+
+type VendorBStreamChunk = z.infer<typeof VendorBStreamChunkSchema>;
+
 // VendorB request format (OpenAI-like)
 interface VendorBRequest {
   model: string;
@@ -70,6 +127,7 @@ interface VendorBRequest {
       parameters: Record<string, unknown>;
     };
   }>;
+  response_format?: JsonSchemaResponseFormat;
 }
 
 export class VendorBAdapter implements ProviderAdapter {
@@ -89,10 +147,20 @@ export class VendorBAdapter implements ProviderAdapter {
 
     // Transform to VendorB format
     const vendorRequest = this.transformRequest(request);
+    const exchange: ProviderExchange | undefined = request.onExchange
+      ? { request: vendorRequest }
+      : undefined;
 
     try {
       // Call mocked vendor
-      const rawResponse = await this.callVendor(vendorRequest);
+      const rawResponse = await this.callVendor(
+        vendorRequest,
+        takeScriptedCall('VENDOR_B', request.scope),
+        request.signal
+      );
+      if (exchange) {
+        exchange.response = rawResponse;
+      }
 
       // Validate response schema
       const parsed = VendorBResponseSchema.safeParse(rawResponse);
@@ -106,23 +174,93 @@ export class VendorBAdapter implements ProviderAdapter {
       // Normalize to common format
       return this.transformResponse(parsed.data, Date.now() - startTime);
     } catch (error) {
-      if (
-        error instanceof ProviderSchemaError ||
-        error instanceof TimeoutError ||
-        error instanceof RateLimitError
-      ) {
-        throw error;
+      throw this.normalizeError(error);
+    } finally {
+      if (exchange) {
+        request.onExchange?.(exchange);
       }
+    }
+  }
 
-      if (error instanceof ProviderError) {
-        throw error;
+  async *streamMessage(request: ProviderRequest): AsyncIterable<ProviderStreamChunk> {
+    const startTime = Date.now();
+
+    // Transform to VendorB format
+    const vendorRequest = this.transformRequest(request);
+    const rawChunks: unknown[] = [];
+    const exchange: ProviderExchange | undefined = request.onExchange
+      ? { request: vendorRequest, response: rawChunks }
+      : undefined;
+
+    let content = '';
+    // Tool call fragments are keyed by index; arguments arrive as partial JSON strings
+    const pendingToolCalls = new Map<number, { id: string; name: string; arguments: string }>();
+
+    try {
+      const script = takeScriptedCall('VENDOR_B', request.scope);
+      for await (const rawChunk of this.callVendorStream(vendorRequest, script, request.signal)) {
+        if (exchange) {
+          rawChunks.push(rawChunk);
+        }
+
+        // Validate every chunk - a malformed chunk aborts the stream
+        const parsed = VendorBStreamChunkSchema.safeParse(rawChunk);
+        if (!parsed.success) {
+          throw new ProviderSchemaError(
+            'VendorB returned unexpected stream chunk',
+            { raw: rawChunk, errors: parsed.error.issues }
+          );
+        }
+
+        const chunk = parsed.data;
+        const choice = chunk.choices[0];
+
+        if (choice?.delta.content) {
+          content += choice.delta.content;
+          yield { type: 'delta', content: choice.delta.content };
+        }
+
+        for (const fragment of choice?.delta.tool_calls ?? []) {
+          const pending = pendingToolCalls.get(fragment.index) ?? { id: '', name: '', arguments: '' };
+          pending.id = fragment.id ?? pending.id;
+          pending.name = fragment.function.name ?? pending.name;
+          pending.arguments += fragment.function.arguments ?? '';
+          pendingToolCalls.set(fragment.index, pending);
+        }
+
+        if (chunk.usage) {
+          const toolCalls: ToolCall[] = Array.from(pendingToolCalls.values()).map((tc) => ({
+            id: tc.id,
+            name: tc.name,
+            args: this.safeParseJson(tc.arguments),
+          }));
+
+          for (const toolCall of toolCalls) {
+            yield { type: 'tool_call', toolCall };
+          }
+
+          yield {
+            type: 'done',
+            response: {
+              content,
+              tokensIn: chunk.usage.input_tokens,
+              tokensOut: chunk.usage.output_tokens,
+              latencyMs: Date.now() - startTime,
+              toolCalls: toolCalls.length ? toolCalls : undefined,
+              model: VENDOR_B_MODEL,
+            },
+          };
+          return;
+        }
       }
 
-      throw new ProviderError(
-        `VendorB request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'VENDOR_B',
-        error
-      );
+      throw new ProviderSchemaError('VendorB stream ended without usage information');
+    } catch (error) {
+      throw this.normalizeError(error);
+    } finally {
+      if (exchange) {
+        request.onExchange?.(exchange);
+      }
     }
   }
 
@@ -134,6 +272,27 @@ export class VendorBAdapter implements ProviderAdapter {
     }
   }
 
+  private normalizeError(error: unknown): Error {
+    if (
+      error instanceof ProviderSchemaError ||
+      error instanceof TimeoutError ||
+      error instanceof RateLimitError ||
+      error instanceof CancelledError
+    ) {
+      return error;
+    }
+
+    if (error instanceof ProviderError) {
+      return error;
+    }
+
+    return new ProviderError(
+      `VendorB request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'VENDOR_B',
+      error
+    );
+  }
+
   private transformRequest(request: ProviderRequest): VendorBRequest {
     const messages: VendorBRequest['messages'] = [];
 
@@ -152,7 +311,7 @@ export class VendorBAdapter implements ProviderAdapter {
         for (const result of msg.toolResults) {
           messages.push({
             role: 'tool',
-            content: JSON.stringify(result.result),
+            content: JSON.stringify(toToolResultPayload(result)),
             tool_call_id: result.id,
           });
         }
@@ -179,7 +338,7 @@ export class VendorBAdapter implements ProviderAdapter {
     }
 
     return {
-      model: 'vendorb-large',
+      model: VENDOR_B_MODEL,
       messages,
       temperature: request.temperature,
       max_tokens: request.maxTokens,
@@ -188,9 +347,12 @@ export class VendorBAdapter implements ProviderAdapter {
         function: {
           name: tool.name,
           description: tool.description,
-          parameters: tool.parameters,
+          parameters: toFunctionParameters(tool.parameters),
         },
       })),
+      response_format: request.responseSchema
+        ? toJsonSchemaResponseFormat(request.responseSchema)
+        : undefined,
     };
   }
 
@@ -216,6 +378,7 @@ export class VendorBAdapter implements ProviderAdapter {
       tokensOut: response.usage.output_tokens,
       latencyMs: actualLatencyMs,
       toolCalls: toolCalls?.length ? toolCalls : undefined,
+      model: VENDOR_B_MODEL,
     };
   }
 
@@ -230,7 +393,11 @@ export class VendorBAdapter implements ProviderAdapter {
   /**
    * Mock vendor call - simulates VendorB behavior
    */
-  private async callVendor(request: VendorBRequest): Promise<VendorBResponse> {
+  private async callVendor(
+    request: VendorBRequest,
+    script?: ScriptedCall,
+    signal?: AbortSignal
+  ): Promise<VendorBResponse> {
     // Track requests for rate limiting simulation
     const now = Date.now();
     if (now - this.lastRequestTime > 60000) {
@@ -239,25 +406,32 @@ export class VendorBAdapter implements ProviderAdapter {
     this.requestCount++;
     this.lastRequestTime = now;
 
-    // Simulate network latency (30-100ms base - VendorB is faster)
-    const baseLatency = 30 + Math.random() * 70;
-    await this.sleep(baseLatency);
+    if (script) {
+      await applyScriptedFault(script, 'VENDOR_B', this.timeoutMs, signal);
+      if (script.fault === 'invalid_schema') {
+        return INVALID_VENDOR_PAYLOAD as unknown as VendorBResponse;
+      }
+    } else {
+      // Simulate network latency (30-100ms base - VendorB is faster)
+      const baseLatency = 30 + Math.random() * 70;
+      await delay(baseLatency, signal);
 
-    // Check timeout
-    if (baseLatency > this.timeoutMs) {
-      throw new TimeoutError(`VendorB request timed out after ${this.timeoutMs}ms`);
-    }
+      // Check timeout
+      if (baseLatency > this.timeoutMs) {
+        throw new TimeoutError(`VendorB request timed out after ${this.timeoutMs}ms`);
+      }
 
-    // ~5% chance of 429 rate limit
-    if (Math.random() < 0.05) {
-      const retryAfterMs = 1000 + Math.random() * 2000;
-      const error = new RateLimitError(
-        'VendorB rate limit exceeded',
-        Math.round(retryAfterMs)
-      );
-      (error as any).retryable = true;
-      (error as any).statusCode = 429;
-      throw error;
+      // ~5% chance of 429 rate limit
+      if (config.mockVendors.randomFaults && Math.random() < 0.05) {
+        const retryAfterMs = 1000 + Math.random() * 2000;
+        const error = new RateLimitError(
+          'VendorB rate limit exceeded',
+          Math.round(retryAfterMs)
+        );
+        (error as any).retryable = true;
+        (error as any).statusCode = 429;
+        throw error;
+      }
     }
 
     // Get last user message
@@ -275,11 +449,24 @@ export class VendorBAdapter implements ProviderAdapter {
     let content: string | null;
     let finishReason: string;
 
-    const hasTools = request.tools?.length;
-    const hasExistingToolResults = request.messages.some((m) => m.role === 'tool');
+    const hasTools = request.tools?.some((tool) => tool.function.name === 'InvoiceLookup');
+    // A conversation ending in tool results is a continuation: answer instead of calling again
+    const isToolResultCall = request.messages[request.messages.length - 1]?.role === 'tool';
     const mentionsOrder = lastUserMessage?.content?.toLowerCase().includes('order');
 
-    if (hasTools && mentionsOrder && !hasExistingToolResults) {
+    if (script?.toolCalls.length && !isToolResultCall) {
+      // Scripted scenario: forced tool calls
+      toolCalls = script.toolCalls.map((tc, i) => ({
+        id: `call_${Date.now()}_${i}`,
+        function: { name: tc.name, arguments: JSON.stringify(tc.args ?? {}) },
+      }));
+      content = null;
+      finishReason = 'tool_calls';
+    } else if (script?.reply !== undefined) {
+      // Scripted scenario: canned reply
+      content = script.reply;
+      finishReason = 'stop';
+    } else if (hasTools && mentionsOrder && !isToolResultCall) {
       // Trigger tool call
       toolCalls = [
         {
@@ -299,6 +486,11 @@ export class VendorBAdapter implements ProviderAdapter {
       finishReason = 'stop';
     }
 
+    // Structured output: answer with a document shaped like the schema
+    if (request.response_format && !toolCalls && script?.reply === undefined) {
+      content = JSON.stringify(mockJsonForSchema(request.response_format.json_schema.schema));
+    }
+
     const outputTokens = this.estimateTokens(content || '') + (toolCalls ? 50 : 0);
 
     return {
@@ -318,6 +510,64 @@ export class VendorBAdapter implements ProviderAdapter {
     };
   }
 
+  /**
+   * Mock streaming vendor call - replays the mocked response as OpenAI-style deltas
+   * Failures happen before the first chunk, like a real connection error would
+   */
+  private async *callVendorStream(
+    request: VendorBRequest,
+    script?: ScriptedCall,
+    signal?: AbortSignal
+  ): AsyncIterable<VendorBStreamChunk> {
+    const response = await this.callVendor(request, script, signal);
+    if (script?.fault === 'invalid_schema') {
+      yield response as unknown as VendorBStreamChunk;
+      return;
+    }
+    const { message, finish_reason } = response.choices[0];
+
+    for (const text of chunkText(message.content ?? '')) {
+      await delay(streamChunkDelayMs(), signal);
+      yield { choices: [{ delta: { content: text }, finish_reason: null }] };
+    }
+
+    for (const [index, toolCall] of (message.tool_calls ?? []).entries()) {
+      // Split arguments in two fragments, as real vendors stream partial JSON
+      const args = toolCall.function.arguments;
+      const splitAt = Math.floor(args.length / 2);
+
+      yield {
+        choices: [
+          {
+            delta: {
+              tool_calls: [
+                {
+                  index,
+                  id: toolCall.id,
+                  function: { name: toolCall.function.name, arguments: args.slice(0, splitAt) },
+                },
+              ],
+            },
+            finish_reason: null,
+          },
+        ],
+      };
+      yield {
+        choices: [
+          {
+            delta: { tool_calls: [{ index, function: { arguments: args.slice(splitAt) } }] },
+            finish_reason: null,
+          },
+        ],
+      };
+    }
+
+    yield {
+      choices: [{ delta: {}, finish_reason }],
+      usage: response.usage,
+    };
+  }
+
   private estimateTokens(text: string): number {
     return Math.ceil(text.length / 4);
   }
@@ -348,8 +598,4 @@ export class VendorBAdapter implements ProviderAdapter {
 
     return `I understand you're asking about: "${userMessage.substring(0, 50)}${userMessage.length > 50 ? '...' : ''}". I'd be happy to help you with this. Could you provide more details?`;
   }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
 }
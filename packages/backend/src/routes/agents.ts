@@ -3,9 +3,18 @@
  */
 
 import { FastifyPluginAsync } from 'fastify';
-import { CreateAgentSchema, UpdateAgentSchema } from '../schemas/index.js';
+import {
+  CreateAgentSchema,
+  UpdateAgentSchema,
+  CreateDemoSessionSchema,
+  type RoutingPolicyInput,
+} from '../schemas/index.js';
+import type { AgentVersion } from '@prisma/client';
 import * as agentService from '../services/agent.service.js';
+import * as agentVersionService from '../services/agent-version.service.js';
 import * as sessionService from '../services/session.service.js';
+import * as providerConfigService from '../services/provider-config.service.js';
+import * as tenantToolService from '../services/tenant-tool.service.js';
 import { authenticate, requireRole } from '../plugins/auth.js';
 import { ValidationError } from '../utils/errors.js';
 import { toolRegistry } from '../tools/index.js';
@@ -24,13 +33,15 @@ const agentRoutes: FastifyPluginAsync = async (fastify) => {
       );
     }
 
-    // Validate tools exist
-    const toolValidation = toolRegistry.validateTools(parseResult.data.enabledTools);
-    if (!toolValidation.valid) {
-      throw new ValidationError('Unknown tools specified', [
-        { field: 'enabledTools', message: `Unknown tools: ${toolValidation.missing.join(', ')}` }
-      ]);
-    }
+    // Validate tools and knowledge bases exist
+    await agentService.assertAgentReferencesExist(request.tenant!.id, parseResult.data);
+
+    // Tenant-configured providers need their endpoint set up first
+    await providerConfigService.assertProvidersConfigured(request.tenant!.id, {
+      primaryProvider: parseResult.data.primaryProvider,
+      fallbackProvider: parseResult.data.fallbackProvider,
+      ...routingPolicyProviders(parseResult.data.routingPolicy),
+    });
 
     const agent = await agentService.createAgent(
       request.tenant!.id,
@@ -74,6 +85,8 @@ const agentRoutes: FastifyPluginAsync = async (fastify) => {
 
   /**
    * Update agent
+   * Configuration changes are saved as a draft version (draftVersion in the response)
+   * and take effect once published
    */
   fastify.put('/agents/:agentId', {
     preHandler: [authenticate, requireRole('ADMIN')],
@@ -87,22 +100,74 @@ const agentRoutes: FastifyPluginAsync = async (fastify) => {
       );
     }
 
-    // Validate tools if provided
-    if (parseResult.data.enabledTools) {
-      const toolValidation = toolRegistry.validateTools(parseResult.data.enabledTools);
-      if (!toolValidation.valid) {
-        throw new ValidationError('Unknown tools specified', [
-          { field: 'enabledTools', message: `Unknown tools: ${toolValidation.missing.join(', ')}` }
-        ]);
-      }
-    }
+    // Validate tools and knowledge bases if provided
+    await agentService.assertAgentReferencesExist(request.tenant!.id, parseResult.data);
 
-    const agent = await agentService.updateAgent(
+    await providerConfigService.assertProvidersConfigured(request.tenant!.id, {
+      primaryProvider: parseResult.data.primaryProvider,
+      fallbackProvider: parseResult.data.fallbackProvider,
+      ...routingPolicyProviders(parseResult.data.routingPolicy),
+    });
+
+    const { agent, draft } = await agentService.updateAgent(
       request.tenant!.id,
       agentId,
       parseResult.data
     );
 
+    return {
+      ...formatAgentResponse(agent),
+      draftVersion: draft?.version ?? null,
+    };
+  });
+
+  /**
+   * List agent versions, newest first
+   */
+  fastify.get('/agents/:agentId/versions', {
+    preHandler: [authenticate],
+  }, async (request) => {
+    const { agentId } = request.params as { agentId: string };
+
+    const versions = await agentVersionService.listAgentVersions(request.tenant!.id, agentId);
+
+    return {
+      versions: versions.map(formatVersionResponse),
+    };
+  });
+
+  /**
+   * Get one agent version
+   */
+  fastify.get('/agents/:agentId/versions/:version', {
+    preHandler: [authenticate],
+  }, async (request) => {
+    const { agentId, version } = request.params as { agentId: string; version: string };
+
+    const agentVersion = await agentVersionService.getAgentVersion(
+      request.tenant!.id,
+      agentId,
+      parseVersion(version)
+    );
+
+    return formatVersionResponse(agentVersion);
+  });
+
+  /**
+   * Publish an agent version (publishing an earlier version rolls back to it)
+   * New sessions start on it; sessions in progress stay on their version
+   */
+  fastify.post('/agents/:agentId/versions/:version/publish', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request) => {
+    const { agentId, version } = request.params as { agentId: string; version: string };
+
+    const { agent } = await agentService.publishVersion(
+      request.tenant!.id,
+      agentId,
+      parseVersion(version)
+    );
+
     return formatAgentResponse(agent);
   });
 
@@ -121,12 +186,20 @@ const agentRoutes: FastifyPluginAsync = async (fastify) => {
 
   /**
    * Create a demo session for trying out an agent (no billing)
+   * Runs on the published version unless another one (e.g. a draft) is given
    */
   fastify.post('/agents/:agentId/demo', {
     preHandler: [authenticate],
   }, async (request, reply) => {
     const { agentId } = request.params as { agentId: string };
 
+    const parseResult = CreateDemoSessionSchema.safeParse(request.body ?? {});
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid request body',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+
     // Verify agent exists
     await agentService.getAgentById(request.tenant!.id, agentId);
 
@@ -140,6 +213,7 @@ const agentRoutes: FastifyPluginAsync = async (fastify) => {
         channel: 'CHAT',
         demoMode: true,
         metadata: { demo: true },
+        agentVersion: parseResult.data.agentVersion,
       },
       request.correlationId
     );
@@ -147,6 +221,7 @@ const agentRoutes: FastifyPluginAsync = async (fastify) => {
     return reply.status(201).send({
       id: demoSession.id,
       agentId: demoSession.agentId,
+      agentVersion: demoSession.agentVersion,
       customerId: demoSession.customerId,
       channel: demoSession.channel,
       status: demoSession.status,
@@ -156,24 +231,45 @@ const agentRoutes: FastifyPluginAsync = async (fastify) => {
   });
 
   /**
-   * Get available tools
+   * Get available tools (built-in and the tenant's webhook tools)
    */
   fastify.get('/tools', {
     preHandler: [authenticate],
-  }, async () => {
-    const toolNames = toolRegistry.getNames();
-    const definitions = toolRegistry.getDefinitions(toolNames);
+  }, async (request) => {
+    const tenantTools = await tenantToolService.listTenantTools(request.tenant!.id);
+    const toolNames = [...toolRegistry.getNames(), ...tenantTools.map(t => t.name)];
+    const definitions = await toolRegistry.getDefinitions(toolNames, request.tenant!.id);
 
     return {
       tools: definitions.map(t => ({
         name: t.name,
         description: t.description,
         parameters: t.parameters,
+        source: toolRegistry.isBuiltIn(t.name) ? 'builtin' : 'webhook',
       })),
     };
   });
 };
 
+function parseVersion(version: string): number {
+  const parsed = Number(version);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new ValidationError('Invalid agent version', [
+      { field: 'version', message: 'Version must be a positive integer' },
+    ]);
+  }
+  return parsed;
+}
+
+/**
+ * Providers named by a routing policy, keyed by their field in the request body
+ */
+function routingPolicyProviders(policy: RoutingPolicyInput | null | undefined) {
+  return Object.fromEntries(
+    (policy?.providers ?? []).map((p, i) => [`routingPolicy.providers.${i}.provider`, p.provider])
+  );
+}
+
 function formatAgentResponse(agent: Awaited<ReturnType<typeof agentService.getAgentById>>) {
   return {
     id: agent.id,
@@ -182,16 +278,37 @@ function formatAgentResponse(agent: Awaited<ReturnType<typeof agentService.getAg
     description: agent.description,
     primaryProvider: agent.primaryProvider,
     fallbackProvider: agent.fallbackProvider,
+    routingPolicy: agent.routingPolicy,
+    hedgingEnabled: agent.hedgingEnabled,
+    hedgeAfterMs: agent.hedgeAfterMs,
+    responseCacheEnabled: agent.responseCacheEnabled,
+    responseCacheTtlSeconds: agent.responseCacheTtlSeconds,
     systemPrompt: agent.systemPrompt,
     temperature: agent.temperature,
     maxTokens: agent.maxTokens,
+    responseSchema: agent.responseSchema,
     enabledTools: agent.enabledTools,
+    knowledgeBaseIds: agent.knowledgeBaseIds,
+    maxToolIterations: agent.maxToolIterations,
+    maxParallelTools: agent.maxParallelTools,
+    contextWindowTokens: agent.contextWindowTokens,
     voiceEnabled: agent.voiceEnabled,
     voiceConfig: agent.voiceConfig,
+    publishedVersion: agent.publishedVersion,
     isActive: agent.isActive,
     createdAt: agent.createdAt,
     updatedAt: agent.updatedAt,
   };
 }
 
+function formatVersionResponse(version: AgentVersion) {
+  return {
+    version: version.version,
+    status: version.status,
+    config: version.config,
+    createdAt: version.createdAt,
+    publishedAt: version.publishedAt,
+  };
+}
+
 export default agentRoutes;
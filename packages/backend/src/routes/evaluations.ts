@@ -0,0 +1,225 @@
+/**
+ * Evaluation routes
+ * Test suites per agent and their runs against agent versions
+ */
+
+import { FastifyPluginAsync } from 'fastify';
+import { EvaluationRun, EvaluationSuite } from '@prisma/client';
+import {
+  CreateEvaluationSuiteSchema,
+  UpdateEvaluationSuiteSchema,
+  RunEvaluationSchema,
+  CompareEvaluationsQuerySchema,
+} from '../schemas/index.js';
+import * as evaluationService from '../services/evaluation.service.js';
+import { authenticate, requireRole } from '../plugins/auth.js';
+import { ValidationError } from '../utils/errors.js';
+
+const evaluationRoutes: FastifyPluginAsync = async (fastify) => {
+  /**
+   * Create a test suite for an agent
+   */
+  fastify.post('/agents/:agentId/evaluation-suites', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request, reply) => {
+    const { agentId } = request.params as { agentId: string };
+
+    const parseResult = CreateEvaluationSuiteSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid request body',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+
+    const suite = await evaluationService.createEvaluationSuite(
+      request.tenant!.id,
+      agentId,
+      parseResult.data
+    );
+
+    return reply.status(201).send(formatSuiteResponse(suite));
+  });
+
+  /**
+   * List an agent's test suites
+   */
+  fastify.get('/agents/:agentId/evaluation-suites', {
+    preHandler: [authenticate],
+  }, async (request) => {
+    const { agentId } = request.params as { agentId: string };
+
+    const suites = await evaluationService.listEvaluationSuites(request.tenant!.id, agentId);
+
+    return {
+      suites: suites.map(formatSuiteResponse),
+    };
+  });
+
+  /**
+   * Get a test suite
+   */
+  fastify.get('/evaluation-suites/:suiteId', {
+    preHandler: [authenticate],
+  }, async (request) => {
+    const { suiteId } = request.params as { suiteId: string };
+
+    const suite = await evaluationService.getEvaluationSuite(request.tenant!.id, suiteId);
+
+    return formatSuiteResponse(suite);
+  });
+
+  /**
+   * Update a test suite
+   */
+  fastify.put('/evaluation-suites/:suiteId', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request) => {
+    const { suiteId } = request.params as { suiteId: string };
+
+    const parseResult = UpdateEvaluationSuiteSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid request body',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+
+    const suite = await evaluationService.updateEvaluationSuite(
+      request.tenant!.id,
+      suiteId,
+      parseResult.data
+    );
+
+    return formatSuiteResponse(suite);
+  });
+
+  /**
+   * Delete a test suite and its runs
+   */
+  fastify.delete('/evaluation-suites/:suiteId', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request, reply) => {
+    const { suiteId } = request.params as { suiteId: string };
+
+    await evaluationService.deleteEvaluationSuite(request.tenant!.id, suiteId);
+
+    return reply.status(204).send();
+  });
+
+  /**
+   * Run a suite on an agent version in demo mode (unbilled)
+   * Waits for the report, or with async: true queues a job and returns right away
+   */
+  fastify.post('/agents/:agentId/evaluations', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request, reply) => {
+    const { agentId } = request.params as { agentId: string };
+
+    const parseResult = RunEvaluationSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid request body',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+
+    const run = await evaluationService.startEvaluationRun(
+      request.tenant!.id,
+      agentId,
+      parseResult.data
+    );
+
+    if (run.jobId) {
+      return reply.status(202).send({
+        ...formatRunResponse(run),
+        pollUrl: `/api/v1/jobs/${run.jobId}`,
+      });
+    }
+
+    return reply.status(201).send(formatRunResponse(run, true));
+  });
+
+  /**
+   * List an agent's evaluation runs (optionally of one suite), without reports
+   */
+  fastify.get('/agents/:agentId/evaluations', {
+    preHandler: [authenticate],
+  }, async (request) => {
+    const { agentId } = request.params as { agentId: string };
+    const query = request.query as { suiteId?: string };
+
+    const runs = await evaluationService.listEvaluationRuns(
+      request.tenant!.id,
+      agentId,
+      query.suiteId
+    );
+
+    return {
+      runs: runs.map((run) => formatRunResponse(run)),
+    };
+  });
+
+  /**
+   * Compare two runs of a suite: score change and which cases were fixed or regressed
+   */
+  fastify.get('/evaluations/compare', {
+    preHandler: [authenticate],
+  }, async (request) => {
+    const parseResult = CompareEvaluationsQuerySchema.safeParse(request.query);
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid query parameters',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+
+    return evaluationService.compareEvaluationRuns(
+      request.tenant!.id,
+      parseResult.data.baseRunId,
+      parseResult.data.runId
+    );
+  });
+
+  /**
+   * Get an evaluation run with its report
+   */
+  fastify.get('/evaluations/:runId', {
+    preHandler: [authenticate],
+  }, async (request) => {
+    const { runId } = request.params as { runId: string };
+
+    const run = await evaluationService.getEvaluationRun(request.tenant!.id, runId);
+
+    return formatRunResponse(run, true);
+  });
+};
+
+function formatSuiteResponse(suite: EvaluationSuite) {
+  return {
+    id: suite.id,
+    agentId: suite.agentId,
+    name: suite.name,
+    description: suite.description,
+    cases: suite.cases,
+    createdAt: suite.createdAt,
+    updatedAt: suite.updatedAt,
+  };
+}
+
+function formatRunResponse(run: EvaluationRun, includeReport = false) {
+  return {
+    id: run.id,
+    agentId: run.agentId,
+    suiteId: run.suiteId,
+    agentVersion: run.agentVersion,
+    status: run.status,
+    jobId: run.jobId,
+    score: run.score,
+    passedCases: run.passedCases,
+    totalCases: run.totalCases,
+    errorMessage: run.errorMessage,
+    createdAt: run.createdAt,
+    startedAt: run.startedAt,
+    completedAt: run.completedAt,
+    ...(includeReport && { report: run.report }),
+  };
+}
+
+export default evaluationRoutes;
@@ -0,0 +1,105 @@
+/**
+ * Experiment routes
+ * A/B tests of agent versions; per-variant metrics are under /usage/experiments
+ */
+
+import { FastifyPluginAsync } from 'fastify';
+import { Experiment } from '@prisma/client';
+import { CreateExperimentSchema, ConcludeExperimentSchema } from '../schemas/index.js';
+import * as experimentService from '../services/experiment.service.js';
+import { authenticate, requireRole } from '../plugins/auth.js';
+import { ValidationError } from '../utils/errors.js';
+
+const experimentRoutes: FastifyPluginAsync = async (fastify) => {
+  /**
+   * Start an experiment: new sessions are split across the variants' agent versions
+   */
+  fastify.post('/agents/:agentId/experiments', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request, reply) => {
+    const { agentId } = request.params as { agentId: string };
+
+    const parseResult = CreateExperimentSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid request body',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+
+    const experiment = await experimentService.createExperiment(
+      request.tenant!.id,
+      agentId,
+      parseResult.data
+    );
+
+    return reply.status(201).send(formatExperimentResponse(experiment));
+  });
+
+  /**
+   * List an agent's experiments
+   */
+  fastify.get('/agents/:agentId/experiments', {
+    preHandler: [authenticate],
+  }, async (request) => {
+    const { agentId } = request.params as { agentId: string };
+
+    const experiments = await experimentService.listExperiments(request.tenant!.id, agentId);
+
+    return {
+      experiments: experiments.map(formatExperimentResponse),
+    };
+  });
+
+  /**
+   * Get an experiment
+   */
+  fastify.get('/experiments/:experimentId', {
+    preHandler: [authenticate],
+  }, async (request) => {
+    const { experimentId } = request.params as { experimentId: string };
+
+    const experiment = await experimentService.getExperiment(request.tenant!.id, experimentId);
+
+    return formatExperimentResponse(experiment);
+  });
+
+  /**
+   * Conclude an experiment by publishing the winning variant's agent version
+   */
+  fastify.post('/experiments/:experimentId/conclude', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request) => {
+    const { experimentId } = request.params as { experimentId: string };
+
+    const parseResult = ConcludeExperimentSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid request body',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+
+    const experiment = await experimentService.concludeExperiment(
+      request.tenant!.id,
+      experimentId,
+      parseResult.data.winningVariant
+    );
+
+    return formatExperimentResponse(experiment);
+  });
+};
+
+function formatExperimentResponse(experiment: Experiment) {
+  return {
+    id: experiment.id,
+    agentId: experiment.agentId,
+    name: experiment.name,
+    description: experiment.description,
+    status: experiment.status,
+    variants: experimentService.getVariants(experiment),
+    winningVariant: experiment.winningVariant,
+    startedAt: experiment.startedAt,
+    concludedAt: experiment.concludedAt,
+  };
+}
+
+export default experimentRoutes;
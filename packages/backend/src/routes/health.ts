@@ -4,6 +4,7 @@
 
 import { FastifyPluginAsync } from 'fastify';
 import { testConnection } from '../utils/db.js';
+import { getProviderCircuitStates, getProviderRateLimiterStates } from '../providers/orchestrator.js';
 
 const healthRoutes: FastifyPluginAsync = async (fastify) => {
   /**
@@ -18,10 +19,13 @@ const healthRoutes: FastifyPluginAsync = async (fastify) => {
   });
 
   /**
-   * Readiness check (includes DB connection)
+   * Readiness check (includes DB connection, provider circuit states and throttling counters)
+   * Open circuits are reported but don't fail readiness: fallback may still serve
    */
   fastify.get('/ready', async (request, reply) => {
     const dbConnected = await testConnection();
+    const providers = getProviderCircuitStates();
+    const rateLimits = getProviderRateLimiterStates();
 
     if (!dbConnected) {
       return reply.status(503).send({
@@ -29,6 +33,8 @@ const healthRoutes: FastifyPluginAsync = async (fastify) => {
         timestamp: new Date().toISOString(),
         checks: {
           database: 'disconnected',
+          providers,
+          rateLimits,
         },
       });
     }
@@ -38,6 +44,8 @@ const healthRoutes: FastifyPluginAsync = async (fastify) => {
       timestamp: new Date().toISOString(),
       checks: {
         database: 'connected',
+        providers,
+        rateLimits,
       },
     };
   });
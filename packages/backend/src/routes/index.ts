@@ -6,10 +6,18 @@ import { FastifyPluginAsync } from 'fastify';
 import healthRoutes from './health.js';
 import tenantRoutes from './tenants.js';
 import agentRoutes from './agents.js';
+import experimentRoutes from './experiments.js';
+import evaluationRoutes from './evaluations.js';
+import knowledgeBaseRoutes from './knowledge-bases.js';
+import providerConfigRoutes from './provider-configs.js';
+import tenantToolRoutes from './tenant-tools.js';
 import sessionRoutes from './sessions.js';
 import jobRoutes from './jobs.js';
 import usageRoutes from './usage.js';
+import pricingRoutes from './pricing.js';
 import voiceRoutes from './voice.js';
+import mockVendorRoutes from './mock-vendors.js';
+import { config } from '../config/index.js';
 
 const routes: FastifyPluginAsync = async (fastify) => {
   // Health routes (no /api/v1 prefix)
@@ -19,12 +27,23 @@ const routes: FastifyPluginAsync = async (fastify) => {
   await fastify.register(async (api) => {
     await api.register(tenantRoutes);
     await api.register(agentRoutes);
+    await api.register(experimentRoutes);
+    await api.register(evaluationRoutes);
+    await api.register(knowledgeBaseRoutes);
+    await api.register(providerConfigRoutes);
+    await api.register(tenantToolRoutes);
     await api.register(sessionRoutes);
     await api.register(jobRoutes);
     await api.register(usageRoutes);
+    await api.register(pricingRoutes);
 
     // Voice routes (paths already include /sessions/:sessionId)
     await api.register(voiceRoutes);
+
+    // Scripted mock vendor behavior for tests and demos (dev only)
+    if (config.mockVendors.faultInjectionApi) {
+      await api.register(mockVendorRoutes);
+    }
   }, { prefix: '/api/v1' });
 };
 
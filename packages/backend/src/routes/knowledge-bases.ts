@@ -0,0 +1,175 @@
+/**
+ * Knowledge base routes
+ * Agents search a knowledge base once it's in their knowledgeBaseIds and the
+ * KnowledgeBaseSearch tool is enabled
+ */
+
+import { FastifyPluginAsync } from 'fastify';
+import { KnowledgeBase } from '@prisma/client';
+import {
+  CreateKnowledgeBaseSchema,
+  AddKnowledgeDocumentSchema,
+  SearchKnowledgeBaseQuerySchema,
+} from '../schemas/index.js';
+import * as knowledgeBaseService from '../services/knowledge-base.service.js';
+import { authenticate, requireRole } from '../plugins/auth.js';
+import { ValidationError } from '../utils/errors.js';
+
+const knowledgeBaseRoutes: FastifyPluginAsync = async (fastify) => {
+  /**
+   * Create a knowledge base
+   */
+  fastify.post('/knowledge-bases', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request, reply) => {
+    const parseResult = CreateKnowledgeBaseSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid request body',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+
+    const knowledgeBase = await knowledgeBaseService.createKnowledgeBase(
+      request.tenant!.id,
+      parseResult.data
+    );
+
+    return reply.status(201).send(formatKnowledgeBaseResponse(knowledgeBase));
+  });
+
+  /**
+   * List the tenant's knowledge bases
+   */
+  fastify.get('/knowledge-bases', {
+    preHandler: [authenticate],
+  }, async (request) => {
+    const knowledgeBases = await knowledgeBaseService.listKnowledgeBases(request.tenant!.id);
+
+    return {
+      knowledgeBases: knowledgeBases.map(kb => ({
+        ...formatKnowledgeBaseResponse(kb),
+        documentCount: kb._count.documents,
+      })),
+    };
+  });
+
+  /**
+   * Get a knowledge base with its documents
+   */
+  fastify.get('/knowledge-bases/:knowledgeBaseId', {
+    preHandler: [authenticate],
+  }, async (request) => {
+    const { knowledgeBaseId } = request.params as { knowledgeBaseId: string };
+
+    const knowledgeBase = await knowledgeBaseService.getKnowledgeBase(
+      request.tenant!.id,
+      knowledgeBaseId
+    );
+    const documents = await knowledgeBaseService.listDocuments(request.tenant!.id, knowledgeBaseId);
+
+    return {
+      ...formatKnowledgeBaseResponse(knowledgeBase),
+      documents,
+    };
+  });
+
+  /**
+   * Delete a knowledge base and its documents
+   */
+  fastify.delete('/knowledge-bases/:knowledgeBaseId', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request, reply) => {
+    const { knowledgeBaseId } = request.params as { knowledgeBaseId: string };
+
+    await knowledgeBaseService.deleteKnowledgeBase(request.tenant!.id, knowledgeBaseId);
+
+    return reply.status(204).send();
+  });
+
+  /**
+   * Upload a document (text, Markdown, HTML or text extracted from a PDF); it's chunked
+   * and indexed right away
+   */
+  fastify.post('/knowledge-bases/:knowledgeBaseId/documents', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+    bodyLimit: 4 * 1024 * 1024,
+  }, async (request, reply) => {
+    const { knowledgeBaseId } = request.params as { knowledgeBaseId: string };
+
+    const parseResult = AddKnowledgeDocumentSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid request body',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+
+    const document = await knowledgeBaseService.addDocument(
+      request.tenant!.id,
+      knowledgeBaseId,
+      parseResult.data
+    );
+
+    return reply.status(201).send({
+      id: document.id,
+      knowledgeBaseId: document.knowledgeBaseId,
+      title: document.title,
+      format: document.format,
+      chunkCount: document.chunkCount,
+      createdAt: document.createdAt,
+    });
+  });
+
+  /**
+   * Delete a document
+   */
+  fastify.delete('/knowledge-bases/:knowledgeBaseId/documents/:documentId', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request, reply) => {
+    const { knowledgeBaseId, documentId } = request.params as {
+      knowledgeBaseId: string;
+      documentId: string;
+    };
+
+    await knowledgeBaseService.deleteDocument(request.tenant!.id, knowledgeBaseId, documentId);
+
+    return reply.status(204).send();
+  });
+
+  /**
+   * Search a knowledge base as the KnowledgeBaseSearch tool would
+   */
+  fastify.get('/knowledge-bases/:knowledgeBaseId/search', {
+    preHandler: [authenticate],
+  }, async (request) => {
+    const { knowledgeBaseId } = request.params as { knowledgeBaseId: string };
+
+    const parseResult = SearchKnowledgeBaseQuerySchema.safeParse(request.query);
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid query parameters',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+
+    await knowledgeBaseService.getKnowledgeBase(request.tenant!.id, knowledgeBaseId);
+    const results = await knowledgeBaseService.searchKnowledgeBases(
+      request.tenant!.id,
+      [knowledgeBaseId],
+      parseResult.data.q,
+      parseResult.data.limit
+    );
+
+    return { results };
+  });
+};
+
+function formatKnowledgeBaseResponse(knowledgeBase: KnowledgeBase) {
+  return {
+    id: knowledgeBase.id,
+    name: knowledgeBase.name,
+    description: knowledgeBase.description,
+    createdAt: knowledgeBase.createdAt,
+    updatedAt: knowledgeBase.updatedAt,
+  };
+}
+
+export default knowledgeBaseRoutes;
@@ -0,0 +1,113 @@
+/**
+ * Mock vendor scenario routes (dev only)
+ * Script the mock vendors' latency, failures and replies for the tenant or one of its agents
+ * Registered only when config.mockVendors.faultInjectionApi is set
+ */
+
+import { FastifyPluginAsync } from 'fastify';
+import { MockVendorProviderSchema, SetMockVendorScenarioSchema, UUIDSchema } from '../schemas/index.js';
+import * as agentService from '../services/agent.service.js';
+import {
+  clearMockVendorScenario,
+  clearMockVendorScenarios,
+  listMockVendorScenarios,
+  setMockVendorScenario,
+  type MockVendorScenarioEntry,
+} from '../providers/fault-injection.js';
+import { authenticate, requireRole } from '../plugins/auth.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+
+const mockVendorRoutes: FastifyPluginAsync = async (fastify) => {
+  /**
+   * List the tenant's scenarios with how many calls each has served
+   */
+  fastify.get('/dev/mock-vendors/scenarios', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request) => {
+    return {
+      scenarios: listMockVendorScenarios(request.tenant!.id).map(formatScenarioResponse),
+    };
+  });
+
+  /**
+   * Set or replace a provider's scenario; replacing restarts its fault sequence
+   */
+  fastify.put('/dev/mock-vendors/:provider/scenario', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request) => {
+    const provider = parseProvider(request.params);
+
+    const parseResult = SetMockVendorScenarioSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid request body',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+    const { agentId, ...scenario } = parseResult.data;
+
+    if (agentId) {
+      // Only the tenant's own agents can be scripted
+      await agentService.getAgentById(request.tenant!.id, agentId);
+    }
+
+    const entry = setMockVendorScenario(provider, request.tenant!.id, agentId, scenario);
+
+    return formatScenarioResponse(entry);
+  });
+
+  /**
+   * Remove a provider's scenario (pass ?agentId= for an agent's scenario)
+   */
+  fastify.delete('/dev/mock-vendors/:provider/scenario', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request, reply) => {
+    const provider = parseProvider(request.params);
+    const { agentId } = request.query as { agentId?: string };
+
+    if (agentId !== undefined && !UUIDSchema.safeParse(agentId).success) {
+      throw new ValidationError('Invalid query parameters', [
+        { field: 'agentId', message: 'Invalid uuid' },
+      ]);
+    }
+
+    if (!clearMockVendorScenario(provider, request.tenant!.id, agentId ?? null)) {
+      throw new NotFoundError('Mock vendor scenario');
+    }
+
+    return reply.status(204).send();
+  });
+
+  /**
+   * Remove all of the tenant's scenarios
+   */
+  fastify.delete('/dev/mock-vendors/scenarios', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request, reply) => {
+    clearMockVendorScenarios(request.tenant!.id);
+
+    return reply.status(204).send();
+  });
+};
+
+function parseProvider(params: unknown) {
+  const { provider } = params as { provider: string };
+  const parseResult = MockVendorProviderSchema.safeParse(provider);
+  if (!parseResult.success) {
+    throw new ValidationError('Invalid provider', [
+      { field: 'provider', message: `Not a mock vendor: ${provider}` },
+    ]);
+  }
+  return parseResult.data;
+}
+
+function formatScenarioResponse(entry: MockVendorScenarioEntry) {
+  return {
+    provider: entry.provider,
+    agentId: entry.agentId,
+    ...entry.scenario,
+    callCount: entry.callCount,
+    updatedAt: entry.updatedAt,
+  };
+}
+
+export default mockVendorRoutes;
@@ -0,0 +1,222 @@
+/**
+ * Pricing catalog routes (platform admin)
+ * Plans, effective-dated rates and per-tenant pricing
+ */
+
+import { FastifyPluginAsync } from 'fastify';
+import { PricingPlan, PricingRate } from '@prisma/client';
+import {
+  CreatePricingPlanSchema,
+  UpdatePricingPlanSchema,
+  CreatePricingRateSchema,
+  UpdateTenantPricingSchema,
+} from '../schemas/index.js';
+import * as pricingService from '../services/pricing.service.js';
+import { requirePlatformAdmin } from '../plugins/auth.js';
+import { ValidationError } from '../utils/errors.js';
+
+const pricingRoutes: FastifyPluginAsync = async (fastify) => {
+  /**
+   * List plans with their rate history
+   */
+  fastify.get('/admin/pricing/plans', {
+    preHandler: [requirePlatformAdmin],
+  }, async () => {
+    const plans = await pricingService.listPlans();
+
+    return {
+      plans: plans.map((plan) => ({
+        ...formatPlanResponse(plan),
+        rates: plan.rates.map(formatRateResponse),
+      })),
+    };
+  });
+
+  /**
+   * Create a plan
+   */
+  fastify.post('/admin/pricing/plans', {
+    preHandler: [requirePlatformAdmin],
+  }, async (request, reply) => {
+    const parseResult = CreatePricingPlanSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid request body',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+    const input = parseResult.data;
+    const plan = await pricingService.createPlan(input);
+
+    return reply.status(201).send(formatPlanResponse(plan));
+  });
+
+  /**
+   * Get a plan with its rate history
+   */
+  fastify.get('/admin/pricing/plans/:planId', {
+    preHandler: [requirePlatformAdmin],
+  }, async (request) => {
+    const { planId } = request.params as { planId: string };
+    const plan = await pricingService.getPlan(planId);
+
+    return {
+      ...formatPlanResponse(plan),
+      rates: plan.rates.map(formatRateResponse),
+    };
+  });
+
+  /**
+   * Update a plan (name, description, markup, default flag)
+   */
+  fastify.patch('/admin/pricing/plans/:planId', {
+    preHandler: [requirePlatformAdmin],
+  }, async (request) => {
+    const { planId } = request.params as { planId: string };
+    const parseResult = UpdatePricingPlanSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid request body',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+    const input = parseResult.data;
+    const plan = await pricingService.updatePlan(planId, input);
+
+    return formatPlanResponse(plan);
+  });
+
+  /**
+   * Add a rate to a plan (closes the rate it replaces)
+   */
+  fastify.post('/admin/pricing/plans/:planId/rates', {
+    preHandler: [requirePlatformAdmin],
+  }, async (request, reply) => {
+    const { planId } = request.params as { planId: string };
+    const parseResult = CreatePricingRateSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid request body',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+    const input = parseResult.data;
+
+    await pricingService.getPlan(planId);
+    const rate = await pricingService.addRate({ planId }, input);
+
+    return reply.status(201).send(formatRateResponse(rate));
+  });
+
+  /**
+   * Delete a plan rate that hasn't taken effect yet
+   */
+  fastify.delete('/admin/pricing/plans/:planId/rates/:rateId', {
+    preHandler: [requirePlatformAdmin],
+  }, async (request, reply) => {
+    const { planId, rateId } = request.params as { planId: string; rateId: string };
+
+    await pricingService.deleteScheduledRate({ planId }, rateId);
+
+    return reply.status(204).send();
+  });
+
+  /**
+   * Get a tenant's effective plan, markup and overrides
+   */
+  fastify.get('/admin/pricing/tenants/:tenantId', {
+    preHandler: [requirePlatformAdmin],
+  }, async (request) => {
+    const { tenantId } = request.params as { tenantId: string };
+    const pricing = await pricingService.getTenantPricing(tenantId);
+
+    return formatTenantPricingResponse(pricing);
+  });
+
+  /**
+   * Assign a plan and/or markup override to a tenant
+   */
+  fastify.put('/admin/pricing/tenants/:tenantId', {
+    preHandler: [requirePlatformAdmin],
+  }, async (request) => {
+    const { tenantId } = request.params as { tenantId: string };
+    const parseResult = UpdateTenantPricingSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid request body',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+    const input = parseResult.data;
+    const pricing = await pricingService.updateTenantPricing(tenantId, input);
+
+    return formatTenantPricingResponse(pricing);
+  });
+
+  /**
+   * Add a tenant-specific rate override
+   */
+  fastify.post('/admin/pricing/tenants/:tenantId/rates', {
+    preHandler: [requirePlatformAdmin],
+  }, async (request, reply) => {
+    const { tenantId } = request.params as { tenantId: string };
+    const parseResult = CreatePricingRateSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid request body',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+    const input = parseResult.data;
+
+    await pricingService.assertTenantExists(tenantId);
+    const rate = await pricingService.addRate({ tenantId }, input);
+
+    return reply.status(201).send(formatRateResponse(rate));
+  });
+
+  /**
+   * Delete a tenant override that hasn't taken effect yet
+   */
+  fastify.delete('/admin/pricing/tenants/:tenantId/rates/:rateId', {
+    preHandler: [requirePlatformAdmin],
+  }, async (request, reply) => {
+    const { tenantId, rateId } = request.params as { tenantId: string; rateId: string };
+
+    await pricingService.deleteScheduledRate({ tenantId }, rateId);
+
+    return reply.status(204).send();
+  });
+};
+
+function formatPlanResponse(plan: PricingPlan) {
+  return {
+    id: plan.id,
+    name: plan.name,
+    description: plan.description,
+    markupPercent: plan.markupPercent,
+    isDefault: plan.isDefault,
+    createdAt: plan.createdAt,
+    updatedAt: plan.updatedAt,
+  };
+}
+
+function formatRateResponse(rate: PricingRate) {
+  return {
+    id: rate.id,
+    provider: rate.provider,
+    model: rate.model,
+    inputPricePerKTokens: rate.inputPricePerKTokens,
+    outputPricePerKTokens: rate.outputPricePerKTokens,
+    effectiveFrom: rate.effectiveFrom,
+    effectiveTo: rate.effectiveTo,
+  };
+}
+
+function formatTenantPricingResponse(pricing: pricingService.TenantPricing) {
+  return {
+    tenantId: pricing.tenantId,
+    plan: pricing.plan ? formatPlanResponse(pricing.plan) : null,
+    planIsDefault: pricing.planIsDefault,
+    markupPercent: pricing.markupPercent,
+    markupOverridden: pricing.markupOverridden,
+    overrides: pricing.overrides.map(formatRateResponse),
+  };
+}
+
+export default pricingRoutes;
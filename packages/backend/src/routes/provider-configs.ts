@@ -0,0 +1,88 @@
+/**
+ * Provider config routes
+ * Per-tenant endpoint settings for HTTP-backed providers
+ */
+
+import { FastifyPluginAsync } from 'fastify';
+import { ProviderConfig } from '@prisma/client';
+import { ProviderTypeSchema, UpsertProviderConfigSchema } from '../schemas/index.js';
+import * as providerConfigService from '../services/provider-config.service.js';
+import { authenticate, requireRole } from '../plugins/auth.js';
+import { ValidationError } from '../utils/errors.js';
+
+const providerConfigRoutes: FastifyPluginAsync = async (fastify) => {
+  /**
+   * List provider configs (credentials are never returned)
+   */
+  fastify.get('/provider-configs', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request) => {
+    const configs = await providerConfigService.listProviderConfigs(request.tenant!.id);
+
+    return {
+      providerConfigs: configs.map(formatProviderConfigResponse),
+    };
+  });
+
+  /**
+   * Create or replace the config for a provider
+   */
+  fastify.put('/provider-configs/:provider', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request) => {
+    const provider = parseProvider(request.params);
+
+    const parseResult = UpsertProviderConfigSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid request body',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+
+    const providerConfig = await providerConfigService.upsertProviderConfig(
+      request.tenant!.id,
+      provider,
+      parseResult.data
+    );
+
+    return formatProviderConfigResponse(providerConfig);
+  });
+
+  /**
+   * Delete the config for a provider
+   */
+  fastify.delete('/provider-configs/:provider', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request, reply) => {
+    const provider = parseProvider(request.params);
+
+    await providerConfigService.deleteProviderConfig(request.tenant!.id, provider);
+
+    return reply.status(204).send();
+  });
+};
+
+function parseProvider(params: unknown) {
+  const { provider } = params as { provider: string };
+  const parseResult = ProviderTypeSchema.safeParse(provider);
+  if (!parseResult.success) {
+    throw new ValidationError('Invalid provider', [
+      { field: 'provider', message: `Unknown provider: ${provider}` },
+    ]);
+  }
+  return parseResult.data;
+}
+
+function formatProviderConfigResponse(providerConfig: ProviderConfig) {
+  return {
+    id: providerConfig.id,
+    provider: providerConfig.provider,
+    baseUrl: providerConfig.baseUrl,
+    model: providerConfig.model,
+    hasApiKey: !!providerConfig.encryptedApiKey,
+    createdAt: providerConfig.createdAt,
+    updatedAt: providerConfig.updatedAt,
+  };
+}
+
+export default providerConfigRoutes;
@@ -2,12 +2,19 @@
  * Session routes
  */
 
-import { FastifyPluginAsync } from 'fastify';
-import { CreateSessionSchema, SendMessageSchema, SendAsyncMessageSchema } from '../schemas/index.js';
+import { FastifyPluginAsync, FastifyReply, FastifyRequest } from 'fastify';
+import { Prisma } from '@prisma/client';
+import {
+  CreateSessionSchema,
+  SendMessageSchema,
+  SendAsyncMessageSchema,
+  MessageFeedbackSchema,
+} from '../schemas/index.js';
 import * as sessionService from '../services/session.service.js';
 import * as messageService from '../services/message.service.js';
+import * as budgetService from '../services/budget.service.js';
 import { authenticate, requireRole } from '../plugins/auth.js';
-import { ValidationError } from '../utils/errors.js';
+import { InternalError, ValidationError, isAppError } from '../utils/errors.js';
 import { prisma } from '../utils/db.js';
 
 const sessionRoutes: FastifyPluginAsync = async (fastify) => {
@@ -34,6 +41,9 @@ const sessionRoutes: FastifyPluginAsync = async (fastify) => {
       id: session.id,
       tenantId: session.tenantId,
       agentId: session.agentId,
+      agentVersion: session.agentVersion,
+      experimentId: session.experimentId,
+      experimentVariant: session.experimentVariant,
       customerId: session.customerId,
       channel: session.channel,
       status: session.status,
@@ -70,6 +80,7 @@ const sessionRoutes: FastifyPluginAsync = async (fastify) => {
         id: s.id,
         agentId: s.agentId,
         agentName: (s as any).agent?.name,
+        agentVersion: s.agentVersion,
         customerId: s.customerId,
         channel: s.channel,
         status: s.status,
@@ -97,6 +108,9 @@ const sessionRoutes: FastifyPluginAsync = async (fastify) => {
       id: session.id,
       agentId: session.agentId,
       agentName: session.agent.name,
+      agentVersion: session.agentVersion,
+      experimentId: session.experimentId,
+      experimentVariant: session.experimentVariant,
       customerId: session.customerId,
       channel: session.channel,
       status: session.status,
@@ -106,15 +120,63 @@ const sessionRoutes: FastifyPluginAsync = async (fastify) => {
       endedAt: session.endedAt,
       messages: session.messages.map(m => ({
         id: m.id,
+        sequenceNumber: m.sequenceNumber,
         role: m.role,
         content: m.content,
         toolCalls: m.toolCalls ? JSON.parse(m.toolCalls as string) : null,
+        structuredOutput: m.structuredOutput,
+        citations: m.citations,
+        agentVersion: m.agentVersion,
+        feedback: m.feedback,
+        providerCallId: m.providerCallId,
         createdAt: m.createdAt,
       })),
+      // Rolling summary sent in place of the messages up to throughSequenceNumber
+      contextSummary: session.contextSummary
+        ? {
+            content: session.contextSummary,
+            throughSequenceNumber: session.contextSummaryThroughSeq,
+            updatedAt: session.contextSummaryUpdatedAt,
+          }
+        : null,
       summary: session.summary,
     };
   });
 
+  /**
+   * Get a provider call with its captured request/response bodies
+   * Bodies are only present when the tenant has provider capture enabled
+   */
+  fastify.get('/sessions/:sessionId/provider-calls/:callId', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request) => {
+    const { sessionId, callId } = request.params as { sessionId: string; callId: string };
+
+    const call = await sessionService.getProviderCall(request.tenant!.id, sessionId, callId);
+
+    return {
+      id: call.id,
+      sessionId: call.sessionId,
+      correlationId: call.correlationId,
+      provider: call.provider,
+      model: call.model,
+      purpose: call.purpose,
+      isFallback: call.isFallback,
+      status: call.status,
+      errorCode: call.errorCode,
+      errorMessage: call.errorMessage,
+      latencyMs: call.latencyMs,
+      attemptNumber: call.attemptNumber,
+      tokensIn: call.tokensIn,
+      tokensOut: call.tokensOut,
+      circuitState: call.circuitState,
+      shortCircuited: call.shortCircuited,
+      createdAt: call.createdAt,
+      requestBody: call.requestBody,
+      responseBody: call.responseBody,
+    };
+  });
+
   /**
    * End a session
    */
@@ -134,10 +196,11 @@ const sessionRoutes: FastifyPluginAsync = async (fastify) => {
 
   /**
    * Send a message (synchronous)
+   * Clients sending `Accept: text/event-stream` receive the turn as Server-Sent Events
    */
   fastify.post('/sessions/:sessionId/messages', {
     preHandler: [authenticate, requireRole('ADMIN')],
-  }, async (request) => {
+  }, async (request, reply) => {
     const { sessionId } = request.params as { sessionId: string };
     const idempotencyKey = request.headers['x-idempotency-key'] as string | undefined;
 
@@ -148,19 +211,71 @@ const sessionRoutes: FastifyPluginAsync = async (fastify) => {
       );
     }
 
+    const input: messageService.SendMessageInput = {
+      content: parseResult.data.content,
+      responseSchema: parseResult.data.responseSchema,
+      idempotencyKey,
+      correlationId: request.correlationId,
+      signal: abortOnDisconnect(reply),
+    };
+
+    if (acceptsEventStream(request)) {
+      return streamMessageResponse(request, reply, sessionId, input);
+    }
+
     const response = await messageService.sendMessage(
       request.tenant!.id,
       sessionId,
-      {
-        content: parseResult.data.content,
-        idempotencyKey,
-        correlationId: request.correlationId,
-      }
+      input
     );
 
     return response;
   });
 
+  /**
+   * Cancel the message being processed on a session
+   * Responds once the turn has stopped and the session lock is released
+   */
+  fastify.post('/sessions/:sessionId/messages/cancel', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request) => {
+    const { sessionId } = request.params as { sessionId: string };
+
+    const cancelled = await messageService.cancelMessage(request.tenant!.id, sessionId);
+
+    return { sessionId, cancelled };
+  });
+
+  /**
+   * Record feedback on an assistant message (e.g. thumbs up/down from the customer)
+   */
+  fastify.post('/sessions/:sessionId/messages/:messageId/feedback', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request) => {
+    const { sessionId, messageId } = request.params as { sessionId: string; messageId: string };
+
+    const parseResult = MessageFeedbackSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid request body',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+
+    const message = await messageService.recordMessageFeedback(
+      request.tenant!.id,
+      sessionId,
+      messageId,
+      parseResult.data
+    );
+
+    return {
+      messageId: message.id,
+      feedback: message.feedback,
+      comment: message.feedbackComment,
+      createdAt: message.feedbackAt,
+    };
+  });
+
   /**
    * Send a message (asynchronous - returns job ID)
    */
@@ -178,7 +293,12 @@ const sessionRoutes: FastifyPluginAsync = async (fastify) => {
     }
 
     // Verify session exists
-    await sessionService.getSessionById(request.tenant!.id, sessionId);
+    const session = await sessionService.getSessionById(request.tenant!.id, sessionId);
+
+    // Reject up front rather than queue a job that can't run (the job re-checks when it runs)
+    if (!session.demoMode) {
+      await budgetService.assertWithinBudget(request.tenant!.id, session.agentId);
+    }
 
     // Check for existing job with same idempotency key
     if (idempotencyKey) {
@@ -209,6 +329,7 @@ const sessionRoutes: FastifyPluginAsync = async (fastify) => {
         input: {
           sessionId,
           content: parseResult.data.content,
+          responseSchema: parseResult.data.responseSchema as Prisma.InputJsonValue | undefined,
         },
         callbackUrl: parseResult.data.callbackUrl,
       },
@@ -237,13 +358,94 @@ const sessionRoutes: FastifyPluginAsync = async (fastify) => {
     return {
       messages: messages.map(m => ({
         id: m.id,
+        sequenceNumber: m.sequenceNumber,
         role: m.role,
         content: m.content,
         toolCalls: m.toolCalls ? JSON.parse(m.toolCalls as string) : null,
+        structuredOutput: m.structuredOutput,
+        citations: m.citations,
+        agentVersion: m.agentVersion,
+        feedback: m.feedback,
+        providerCallId: m.providerCallId,
         createdAt: m.createdAt,
       })),
     };
   });
 };
 
+/**
+ * Whether the client asked for a Server-Sent Events response
+ */
+function acceptsEventStream(request: FastifyRequest): boolean {
+  return (request.headers.accept ?? '').includes('text/event-stream');
+}
+
+/**
+ * Signal that aborts when the client disconnects before the response has been sent
+ */
+function abortOnDisconnect(reply: FastifyReply): AbortSignal {
+  const controller = new AbortController();
+  reply.raw.on('close', () => {
+    if (!reply.raw.writableFinished) {
+      controller.abort();
+    }
+  });
+  return controller.signal;
+}
+
+/**
+ * Process a message and stream the turn as Server-Sent Events
+ * Events: delta, tool_call, tool_result, done (final message with usage metadata), error
+ */
+async function streamMessageResponse(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  sessionId: string,
+  input: messageService.SendMessageInput
+): Promise<void> {
+  // Budget rejections must still be a real 402, so check before the stream starts
+  const session = await sessionService.getSessionById(request.tenant!.id, sessionId);
+  if (!session.demoMode) {
+    await budgetService.assertWithinBudget(request.tenant!.id, session.agentId);
+  }
+
+  // Take over the raw response - headers set by hooks (CORS) are copied over manually
+  reply.hijack();
+  reply.raw.writeHead(200, {
+    ...(reply.getHeaders() as Record<string, string>),
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'x-correlation-id': request.correlationId,
+  });
+
+  const writeEvent = (event: string, data: unknown) => {
+    if (!reply.raw.writableEnded) {
+      reply.raw.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  try {
+    const response = await messageService.sendMessage(request.tenant!.id, sessionId, {
+      ...input,
+      onEvent: ({ type, ...data }) => writeEvent(type, data),
+    });
+
+    writeEvent('done', response);
+  } catch (error) {
+    // Headers are already sent, so errors travel as an SSE event instead of a status code
+    const appError = isAppError(error) ? error : new InternalError();
+    request.log.error(
+      {
+        errorCode: appError.code,
+        errorMessage: error instanceof Error ? error.message : String(error),
+      },
+      'Streaming message failed'
+    );
+    writeEvent('error', appError.toResponse(request.correlationId));
+  } finally {
+    reply.raw.end();
+  }
+}
+
 export default sessionRoutes;
@@ -0,0 +1,111 @@
+/**
+ * Tenant tool routes
+ * Tenant-defined webhook tools that agents can enable by name
+ */
+
+import { FastifyPluginAsync } from 'fastify';
+import { TenantTool } from '@prisma/client';
+import { CreateTenantToolSchema, UpdateTenantToolSchema } from '../schemas/index.js';
+import * as tenantToolService from '../services/tenant-tool.service.js';
+import { authenticate, requireRole } from '../plugins/auth.js';
+import { ValidationError } from '../utils/errors.js';
+
+const tenantToolRoutes: FastifyPluginAsync = async (fastify) => {
+  /**
+   * List webhook tools (signing secrets are never returned)
+   */
+  fastify.get('/tools/webhooks', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request) => {
+    const tools = await tenantToolService.listTenantTools(request.tenant!.id);
+
+    return {
+      tools: tools.map(formatTenantToolResponse),
+    };
+  });
+
+  /**
+   * Register a webhook tool
+   */
+  fastify.post('/tools/webhooks', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request, reply) => {
+    const parseResult = CreateTenantToolSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid request body',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+
+    const tool = await tenantToolService.createTenantTool(request.tenant!.id, parseResult.data);
+
+    return reply.status(201).send(formatTenantToolResponse(tool));
+  });
+
+  /**
+   * Get a webhook tool
+   */
+  fastify.get('/tools/webhooks/:toolId', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request) => {
+    const { toolId } = request.params as { toolId: string };
+
+    const tool = await tenantToolService.getTenantTool(request.tenant!.id, toolId);
+
+    return formatTenantToolResponse(tool);
+  });
+
+  /**
+   * Update a webhook tool
+   */
+  fastify.patch('/tools/webhooks/:toolId', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request) => {
+    const { toolId } = request.params as { toolId: string };
+
+    const parseResult = UpdateTenantToolSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid request body',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+
+    const tool = await tenantToolService.updateTenantTool(
+      request.tenant!.id,
+      toolId,
+      parseResult.data
+    );
+
+    return formatTenantToolResponse(tool);
+  });
+
+  /**
+   * Delete a webhook tool
+   */
+  fastify.delete('/tools/webhooks/:toolId', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request, reply) => {
+    const { toolId } = request.params as { toolId: string };
+
+    await tenantToolService.deleteTenantTool(request.tenant!.id, toolId);
+
+    return reply.status(204).send();
+  });
+};
+
+function formatTenantToolResponse(tool: TenantTool) {
+  return {
+    id: tool.id,
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters,
+    endpointUrl: tool.endpointUrl,
+    timeoutMs: tool.timeoutMs,
+    maxPayloadBytes: tool.maxPayloadBytes,
+    costCents: tool.costCents,
+    createdAt: tool.createdAt,
+    updatedAt: tool.updatedAt,
+  };
+}
+
+export default tenantToolRoutes;
@@ -3,8 +3,13 @@
  */
 
 import { FastifyPluginAsync } from 'fastify';
-import { CreateTenantSchema, CreateApiKeySchema } from '../schemas/index.js';
+import {
+  CreateTenantSchema,
+  CreateApiKeySchema,
+  UpdateProviderCaptureSchema,
+} from '../schemas/index.js';
 import * as tenantService from '../services/tenant.service.js';
+import * as providerCaptureService from '../services/provider-capture.service.js';
 import { authenticate, requireRole } from '../plugins/auth.js';
 import { ValidationError } from '../utils/errors.js';
 
@@ -53,6 +58,34 @@ const tenantRoutes: FastifyPluginAsync = async (fastify) => {
     };
   });
 
+  /**
+   * Get provider body capture settings
+   */
+  fastify.get('/tenants/me/provider-capture', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request) => {
+    return providerCaptureService.getProviderCaptureSettings(request.tenant!.id);
+  });
+
+  /**
+   * Update provider body capture settings (opt-in, redaction rules, size cap)
+   */
+  fastify.put('/tenants/me/provider-capture', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request) => {
+    const parseResult = UpdateProviderCaptureSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid request body',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+
+    return providerCaptureService.updateProviderCaptureSettings(
+      request.tenant!.id,
+      parseResult.data
+    );
+  });
+
   /**
    * List API keys for tenant
    */
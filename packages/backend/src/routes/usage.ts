@@ -3,9 +3,15 @@
  */
 
 import { FastifyPluginAsync } from 'fastify';
-import { UsageQuerySchema, TopAgentsQuerySchema } from '../schemas/index.js';
+import {
+  UsageQuerySchema,
+  TopAgentsQuerySchema,
+  ProviderUsageQuerySchema,
+  UpdateBudgetSchema,
+} from '../schemas/index.js';
 import * as billingService from '../services/billing.service.js';
-import { authenticate } from '../plugins/auth.js';
+import * as budgetService from '../services/budget.service.js';
+import { authenticate, requireRole } from '../plugins/auth.js';
 import { ValidationError } from '../utils/errors.js';
 import { ProviderType } from '@prisma/client';
 
@@ -44,6 +50,7 @@ const usageRoutes: FastifyPluginAsync = async (fastify) => {
         costCents: summary.totals.costCents,
         costFormatted: billingService.formatCost(summary.totals.costCents),
       },
+      cache: summary.cache,
     };
   });
 
@@ -130,6 +137,177 @@ const usageRoutes: FastifyPluginAsync = async (fastify) => {
       })),
     };
   });
+
+  /**
+   * Get routing decisions: where provider calls went per routing policy, and why
+   */
+  fastify.get('/usage/routing', {
+    preHandler: [authenticate],
+  }, async (request) => {
+    const query = request.query as {
+      startDate?: string;
+      endDate?: string;
+      agentId?: string;
+    };
+
+    const parseResult = UsageQuerySchema.safeParse(query);
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid query parameters',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+
+    const usage = await billingService.getRoutingUsage(request.tenant!.id, {
+      startDate: query.startDate ? new Date(query.startDate) : undefined,
+      endDate: query.endDate ? new Date(query.endDate) : undefined,
+      agentId: query.agentId,
+    });
+
+    return {
+      period: {
+        start: usage.period.start.toISOString(),
+        end: usage.period.end.toISOString(),
+      },
+      routes: usage.routes,
+      recentDecisions: usage.recentDecisions.map(d => ({
+        ...d,
+        createdAt: d.createdAt.toISOString(),
+      })),
+    };
+  });
+
+  /**
+   * Get provider health and performance: status rates, fallback rate, retries and
+   * latency percentiles per provider, overall and per hourly or daily bucket
+   */
+  fastify.get('/usage/providers', {
+    preHandler: [authenticate],
+  }, async (request) => {
+    const parseResult = ProviderUsageQuerySchema.safeParse(request.query);
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid query parameters',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+
+    const query = parseResult.data;
+    const usage = await billingService.getProviderUsage(request.tenant!.id, {
+      startDate: query.startDate ? new Date(query.startDate) : undefined,
+      endDate: query.endDate ? new Date(query.endDate) : undefined,
+      agentId: query.agentId,
+      bucket: query.bucket,
+    });
+
+    return {
+      period: {
+        start: usage.period.start.toISOString(),
+        end: usage.period.end.toISOString(),
+      },
+      bucket: usage.bucket,
+      providers: usage.providers,
+      buckets: usage.buckets.map(b => ({
+        ...b,
+        start: b.start.toISOString(),
+      })),
+    };
+  });
+
+  /**
+   * Get per-variant metrics of an experiment: cost and tokens per session, latency,
+   * tool success rate, fallback rate and message feedback
+   */
+  fastify.get('/usage/experiments/:experimentId', {
+    preHandler: [authenticate],
+  }, async (request) => {
+    const { experimentId } = request.params as { experimentId: string };
+
+    return billingService.getExperimentUsage(request.tenant!.id, experimentId);
+  });
+
+  /**
+   * Get budget status: spend, limits and remaining headroom per period
+   */
+  fastify.get('/usage/budget', {
+    preHandler: [authenticate],
+  }, async (request) => {
+    const overview = await budgetService.getBudgetOverview(request.tenant!.id);
+
+    return {
+      tenant: formatBudgetScope(overview.tenant),
+      agents: overview.agents.map(formatBudgetScope),
+      alerts: overview.alerts.map(a => ({
+        id: a.id,
+        agentId: a.agentId,
+        period: a.period,
+        periodStart: a.periodStart.toISOString(),
+        limitCents: a.limitCents,
+        spentCents: a.spentCents,
+        createdAt: a.createdAt.toISOString(),
+      })),
+    };
+  });
+
+  /**
+   * Update the tenant-wide budget
+   */
+  fastify.put('/usage/budget', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request) => {
+    const parseResult = UpdateBudgetSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid request body',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+
+    const limits = await budgetService.updateTenantBudget(request.tenant!.id, parseResult.data);
+
+    return { limits };
+  });
+
+  /**
+   * Update an agent's budget
+   */
+  fastify.put('/usage/budget/agents/:agentId', {
+    preHandler: [authenticate, requireRole('ADMIN')],
+  }, async (request) => {
+    const { agentId } = request.params as { agentId: string };
+
+    const parseResult = UpdateBudgetSchema.safeParse(request.body);
+    if (!parseResult.success) {
+      throw new ValidationError('Invalid request body',
+        parseResult.error.issues.map(i => ({ field: i.path.join('.'), message: i.message }))
+      );
+    }
+
+    const limits = await budgetService.updateAgentBudget(
+      request.tenant!.id,
+      agentId,
+      parseResult.data
+    );
+
+    return { agentId, limits };
+  });
 };
 
+function formatBudgetScope(status: budgetService.BudgetScopeStatus) {
+  return {
+    scope: status.scope,
+    agentId: status.agentId,
+    agentName: status.agentName,
+    limits: status.limits,
+    periods: status.windows.map(w => ({
+      period: w.period,
+      periodStart: w.periodStart.toISOString(),
+      resetsAt: w.resetsAt.toISOString(),
+      spentCents: w.spentCents,
+      softLimitCents: w.softLimitCents,
+      hardLimitCents: w.hardLimitCents,
+      remainingCents: w.remainingCents,
+      softLimitReached: w.softLimitReached,
+      hardLimitReached: w.hardLimitReached,
+    })),
+  };
+}
+
 export default usageRoutes;
@@ -3,6 +3,8 @@
  */
 
 import { z } from 'zod';
+import { isValidRedactionRule } from '../utils/redact.js';
+import { MOCK_VENDOR_FAULTS } from '../providers/fault-injection.js';
 
 // ============================================================================
 // Common
@@ -31,6 +33,21 @@ export const CreateTenantSchema = z.object({
 
 export type CreateTenantInput = z.infer<typeof CreateTenantSchema>;
 
+export const UpdateProviderCaptureSchema = z.object({
+  enabled: z.boolean().optional(),
+  redactions: z
+    .array(
+      z.string().refine(isValidRedactionRule, {
+        message: 'Must be a dotted field path; use * for one level and ** for any depth',
+      })
+    )
+    .max(50)
+    .optional(),
+  maxBodyBytes: z.number().int().min(1024).max(262144).optional(),
+});
+
+export type UpdateProviderCaptureInput = z.infer<typeof UpdateProviderCaptureSchema>;
+
 // ============================================================================
 // API Keys
 // ============================================================================
@@ -47,7 +64,35 @@ export type CreateApiKeyInput = z.infer<typeof CreateApiKeySchema>;
 // Agent
 // ============================================================================
 
-export const ProviderTypeSchema = z.enum(['VENDOR_A', 'VENDOR_B']);
+export const ProviderTypeSchema = z.enum(['VENDOR_A', 'VENDOR_B', 'OPENAI_COMPATIBLE']);
+
+export const RoutingPolicySchema = z
+  .object({
+    type: z.enum(['WEIGHTED', 'LOWEST_LATENCY', 'CHEAPEST', 'FAILOVER']),
+    providers: z
+      .array(
+        z.object({
+          provider: ProviderTypeSchema,
+          weight: z.number().int().min(0).max(100).optional(), // WEIGHTED only
+        })
+      )
+      .min(1)
+      .max(3),
+  })
+  .refine(
+    (p) => new Set(p.providers.map((x) => x.provider)).size === p.providers.length,
+    { message: 'Each provider may only be listed once', path: ['providers'] }
+  )
+  .refine(
+    (p) => p.type !== 'WEIGHTED' || p.providers.some((x) => (x.weight ?? 0) > 0),
+    { message: 'Weighted routing needs a provider with a positive weight', path: ['providers'] }
+  );
+
+// Structured output; providers only accept an object at the root
+export const ResponseSchemaSchema = z.record(z.unknown()).refine(
+  (schema) => schema.type === 'object',
+  { message: 'Response schema must be a JSON Schema with type "object"' }
+);
 
 export const VoiceConfigSchema = z.object({
   sttProvider: z.string().default('mock'),
@@ -60,10 +105,24 @@ export const CreateAgentSchema = z.object({
   description: z.string().max(500).optional(),
   primaryProvider: ProviderTypeSchema,
   fallbackProvider: ProviderTypeSchema.nullable().optional(),
+  // Replaces primary/fallback selection when set
+  routingPolicy: RoutingPolicySchema.nullable().optional(),
+  // Hedge a slow first provider with a request to the next one (null threshold = its recent p90)
+  hedgingEnabled: z.boolean().default(false),
+  hedgeAfterMs: z.number().int().min(50).max(60000).nullable().optional(),
+  // Answer identical requests from the cache (only at temperatures up to the configured maximum)
+  responseCacheEnabled: z.boolean().default(false),
+  responseCacheTtlSeconds: z.number().int().min(10).max(604800).default(3600),
   systemPrompt: z.string().min(1).max(10000),
   temperature: z.number().min(0).max(2).default(0.7),
   maxTokens: z.number().int().min(1).max(4096).default(1024),
+  responseSchema: ResponseSchemaSchema.nullable().optional(),
   enabledTools: z.array(z.string()).default([]),
+  // Searched by the KnowledgeBaseSearch tool, which must be enabled too
+  knowledgeBaseIds: z.array(z.string().uuid()).max(10).default([]),
+  maxToolIterations: z.number().int().min(1).max(20).default(5),
+  maxParallelTools: z.number().int().min(1).max(16).default(4),
+  contextWindowTokens: z.number().int().min(2048).max(1000000).nullable().optional(),
   voiceEnabled: z.boolean().default(false),
   voiceConfig: VoiceConfigSchema.optional(),
 });
@@ -72,6 +131,114 @@ export const UpdateAgentSchema = CreateAgentSchema.partial();
 
 export type CreateAgentInput = z.infer<typeof CreateAgentSchema>;
 export type UpdateAgentInput = z.infer<typeof UpdateAgentSchema>;
+export type RoutingPolicyInput = z.infer<typeof RoutingPolicySchema>;
+
+// ============================================================================
+// Provider Config
+// ============================================================================
+
+export const UpsertProviderConfigSchema = z.object({
+  baseUrl: z.string().url().refine((url) => /^https?:\/\//.test(url), {
+    message: 'Base URL must use http or https',
+  }),
+  model: z.string().min(1).max(200),
+  apiKey: z.string().min(1).max(1000).nullable().optional(),
+});
+
+export type UpsertProviderConfigInput = z.infer<typeof UpsertProviderConfigSchema>;
+
+// ============================================================================
+// Tenant Tools
+// ============================================================================
+
+const ToolParametersSchema = z.record(z.unknown()).refine(
+  (schema) => schema.type === 'object',
+  { message: 'Parameters must be a JSON Schema with type "object"' }
+);
+
+export const CreateTenantToolSchema = z.object({
+  // Vendors only accept function-style names
+  name: z.string().regex(/^[A-Za-z][A-Za-z0-9_-]{0,63}$/, {
+    message: 'Name must start with a letter and contain only letters, digits, _ or -',
+  }),
+  description: z.string().min(1).max(1000),
+  parameters: ToolParametersSchema,
+  endpointUrl: z.string().url(),
+  signingSecret: z.string().min(16).max(256),
+  timeoutMs: z.number().int().min(100).max(30000).default(5000),
+  maxPayloadBytes: z.number().int().min(256).max(1048576).default(10240),
+  costCents: z.number().int().min(0).max(10000).default(0),
+});
+
+export const UpdateTenantToolSchema = CreateTenantToolSchema.omit({ name: true })
+  .extend({
+    timeoutMs: z.number().int().min(100).max(30000),
+    maxPayloadBytes: z.number().int().min(256).max(1048576),
+    costCents: z.number().int().min(0).max(10000),
+  })
+  .partial();
+
+export type CreateTenantToolInput = z.infer<typeof CreateTenantToolSchema>;
+export type UpdateTenantToolInput = z.infer<typeof UpdateTenantToolSchema>;
+
+// ============================================================================
+// Knowledge Bases
+// ============================================================================
+
+export const CreateKnowledgeBaseSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+});
+
+export const AddKnowledgeDocumentSchema = z.object({
+  title: z.string().min(1).max(200),
+  format: z.enum(['TEXT', 'MARKDOWN', 'HTML', 'PDF_TEXT']).default('TEXT'),
+  content: z.string().min(1),
+});
+
+export const SearchKnowledgeBaseQuerySchema = z.object({
+  q: z.string().min(1).max(500),
+  limit: z.coerce.number().int().min(1).max(10).optional(),
+});
+
+export type CreateKnowledgeBaseInput = z.infer<typeof CreateKnowledgeBaseSchema>;
+export type AddKnowledgeDocumentInput = z.infer<typeof AddKnowledgeDocumentSchema>;
+
+// ============================================================================
+// Pricing
+// ============================================================================
+
+export const CreatePricingPlanSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  markupPercent: z.number().min(0).max(1000).default(0),
+  isDefault: z.boolean().default(false),
+});
+
+export const UpdatePricingPlanSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+  markupPercent: z.number().min(0).max(1000).optional(),
+  isDefault: z.boolean().optional(),
+});
+
+export const CreatePricingRateSchema = z.object({
+  provider: ProviderTypeSchema,
+  model: z.string().min(1).max(200).nullable().optional(),
+  inputPricePerKTokens: z.number().nonnegative(),
+  outputPricePerKTokens: z.number().nonnegative(),
+  effectiveFrom: z.string().datetime().optional(),
+});
+
+export const UpdateTenantPricingSchema = z.object({
+  pricingPlanId: UUIDSchema.nullable().optional(),
+  markupPercent: z.number().min(0).max(1000).nullable().optional(),
+});
+
+export type CreatePricingPlanInput = z.infer<typeof CreatePricingPlanSchema>;
+export type UpdatePricingPlanInput = z.infer<typeof UpdatePricingPlanSchema>;
+export type CreatePricingRateInput = z.infer<typeof CreatePricingRateSchema>;
+export type UpdateTenantPricingInput = z.infer<typeof UpdateTenantPricingSchema>;
 
 // ============================================================================
 // Session
@@ -85,8 +252,12 @@ export const CreateSessionSchema = z.object({
   channel: ChannelTypeSchema.default('CHAT'),
   demoMode: z.boolean().optional().default(false),
   metadata: z.record(z.unknown()).optional(),
+  // Agent version to run on (e.g. to try a draft); defaults to the published version
+  agentVersion: z.number().int().min(1).optional(),
 });
 
+export const CreateDemoSessionSchema = CreateSessionSchema.pick({ agentVersion: true });
+
 export type CreateSessionInput = z.infer<typeof CreateSessionSchema>;
 
 // ============================================================================
@@ -95,14 +266,148 @@ export type CreateSessionInput = z.infer<typeof CreateSessionSchema>;
 
 export const SendMessageSchema = z.object({
   content: z.string().min(1).max(10000),
+  // Overrides the agent's response schema for this message
+  responseSchema: ResponseSchemaSchema.optional(),
 });
 
 export const SendAsyncMessageSchema = SendMessageSchema.extend({
   callbackUrl: z.string().url().optional(),
 });
 
+export const MessageFeedbackSchema = z.object({
+  feedback: z.enum(['POSITIVE', 'NEGATIVE']),
+  comment: z.string().max(1000).optional(),
+});
+
 export type SendMessageInput = z.infer<typeof SendMessageSchema>;
 export type SendAsyncMessageInput = z.infer<typeof SendAsyncMessageSchema>;
+export type MessageFeedbackInput = z.infer<typeof MessageFeedbackSchema>;
+
+// ============================================================================
+// Experiments
+// ============================================================================
+
+export const CreateExperimentSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  // Agent versions to compare; new sessions are split by weight
+  variants: z
+    .array(
+      z.object({
+        name: z.string().min(1).max(50),
+        version: z.number().int().min(1),
+        weight: z.number().int().min(1).max(100),
+      })
+    )
+    .min(2)
+    .max(5)
+    .refine(
+      (variants) => new Set(variants.map((v) => v.name)).size === variants.length,
+      { message: 'Variant names must be unique' }
+    ),
+});
+
+export const ConcludeExperimentSchema = z.object({
+  winningVariant: z.string().min(1).max(50),
+});
+
+export type CreateExperimentInput = z.infer<typeof CreateExperimentSchema>;
+export type ExperimentVariant = CreateExperimentInput['variants'][number];
+
+// ============================================================================
+// Evaluations
+// ============================================================================
+
+export const EvaluationAssertionSchema = z.discriminatedUnion('type', [
+  // Answer contains the text (case-insensitive unless caseSensitive)
+  z.object({
+    type: z.literal('contains'),
+    value: z.string().min(1),
+    caseSensitive: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal('regex'),
+    pattern: z.string().min(1).refine(
+      (pattern) => {
+        try {
+          new RegExp(pattern);
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      { message: 'Invalid regular expression' }
+    ),
+    flags: z.string().regex(/^[imsu]*$/).optional(),
+  }),
+  // The turn called the tool, with at least these arguments when given
+  z.object({
+    type: z.literal('tool_called'),
+    tool: z.string().min(1),
+    args: z.record(z.unknown()).optional(),
+  }),
+  z.object({
+    type: z.literal('max_latency_ms'),
+    value: z.number().int().positive(),
+  }),
+  // What the turn would have cost outside demo mode
+  z.object({
+    type: z.literal('max_cost_cents'),
+    value: z.number().min(0),
+  }),
+  // Answer is JSON matching the schema
+  z.object({
+    type: z.literal('json_schema'),
+    schema: z.record(z.unknown()),
+  }),
+]);
+
+export const EvaluationCaseSchema = z.object({
+  name: z.string().min(1).max(100),
+  turns: z
+    .array(
+      z.object({
+        user: z.string().min(1).max(10000),
+        assertions: z.array(EvaluationAssertionSchema).max(20).default([]),
+      })
+    )
+    .min(1)
+    .max(20),
+});
+
+export const CreateEvaluationSuiteSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  cases: z
+    .array(EvaluationCaseSchema)
+    .min(1)
+    .max(100)
+    .refine(
+      (cases) => new Set(cases.map((c) => c.name)).size === cases.length,
+      { message: 'Case names must be unique' }
+    ),
+});
+
+export const UpdateEvaluationSuiteSchema = CreateEvaluationSuiteSchema.partial();
+
+export const RunEvaluationSchema = z.object({
+  suiteId: z.string().uuid(),
+  // Agent version to evaluate; defaults to the published version
+  agentVersion: z.number().int().min(1).optional(),
+  // Queue the run as a job instead of waiting for the report
+  async: z.boolean().optional().default(false),
+});
+
+export const CompareEvaluationsQuerySchema = z.object({
+  baseRunId: z.string().uuid(),
+  runId: z.string().uuid(),
+});
+
+export type EvaluationAssertion = z.infer<typeof EvaluationAssertionSchema>;
+export type EvaluationCase = z.infer<typeof EvaluationCaseSchema>;
+export type CreateEvaluationSuiteInput = z.infer<typeof CreateEvaluationSuiteSchema>;
+export type UpdateEvaluationSuiteInput = z.infer<typeof UpdateEvaluationSuiteSchema>;
+export type RunEvaluationInput = z.infer<typeof RunEvaluationSchema>;
 
 // ============================================================================
 // Usage
@@ -112,12 +417,39 @@ export const UsageQuerySchema = DateRangeSchema.extend({
   groupBy: z.enum(['provider', 'agent', 'day']).optional(),
 });
 
+export const ProviderUsageQuerySchema = DateRangeSchema.extend({
+  agentId: z.string().uuid().optional(),
+  bucket: z.enum(['hour', 'day']).default('day'),
+});
+
 export const TopAgentsQuerySchema = DateRangeSchema.extend({
   limit: z.coerce.number().int().min(1).max(100).default(10),
 });
 
+const BudgetLimitSchema = z.number().int().min(0).nullable().optional();
+
+export const UpdateBudgetSchema = z
+  .object({
+    dailySoftLimitCents: BudgetLimitSchema,
+    dailyHardLimitCents: BudgetLimitSchema,
+    monthlySoftLimitCents: BudgetLimitSchema,
+    monthlyHardLimitCents: BudgetLimitSchema,
+  })
+  .refine(
+    (b) => !(b.dailySoftLimitCents != null && b.dailyHardLimitCents != null) ||
+      b.dailySoftLimitCents <= b.dailyHardLimitCents,
+    { message: 'Soft limit cannot exceed hard limit', path: ['dailySoftLimitCents'] }
+  )
+  .refine(
+    (b) => !(b.monthlySoftLimitCents != null && b.monthlyHardLimitCents != null) ||
+      b.monthlySoftLimitCents <= b.monthlyHardLimitCents,
+    { message: 'Soft limit cannot exceed hard limit', path: ['monthlySoftLimitCents'] }
+  );
+
 export type UsageQueryInput = z.infer<typeof UsageQuerySchema>;
+export type ProviderUsageQueryInput = z.infer<typeof ProviderUsageQuerySchema>;
 export type TopAgentsQueryInput = z.infer<typeof TopAgentsQuerySchema>;
+export type UpdateBudgetInput = z.infer<typeof UpdateBudgetSchema>;
 
 // ============================================================================
 // Voice
@@ -128,3 +460,25 @@ export const VoiceUploadSchema = z.object({
 });
 
 export type VoiceUploadInput = z.infer<typeof VoiceUploadSchema>;
+
+// ============================================================================
+// Mock Vendor Scenarios (dev only)
+// ============================================================================
+
+export const MockVendorProviderSchema = z.enum(['VENDOR_A', 'VENDOR_B']);
+
+export const SetMockVendorScenarioSchema = z.object({
+  // Scope the scenario to one agent; otherwise it applies to every agent of the tenant
+  agentId: z.string().uuid().nullable().default(null),
+  latencyMs: z.number().int().min(0).max(120000).default(0),
+  faults: z.array(z.enum(MOCK_VENDOR_FAULTS)).max(100).default([]),
+  repeat: z.boolean().default(false),
+  retryAfterMs: z.number().int().min(0).max(60000).default(1000),
+  toolCalls: z
+    .array(z.object({ name: z.string().min(1).max(100), args: z.record(z.unknown()).default({}) }))
+    .max(10)
+    .default([]),
+  reply: z.string().max(10000).optional(),
+});
+
+export type SetMockVendorScenarioInput = z.infer<typeof SetMockVendorScenarioSchema>;
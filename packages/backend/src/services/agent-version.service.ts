@@ -0,0 +1,198 @@
+/**
+ * Agent version service
+ * Immutable snapshots of an agent's configuration (providers, prompt, tools, sampling)
+ *
+ * Configuration edits create a DRAFT version; publishing one copies it onto the agent,
+ * where new sessions pick it up. Sessions pin the version they started on, so publishing
+ * (or rolling back by publishing an earlier version) never changes a conversation in
+ * progress. Name, description and budgets aren't versioned.
+ */
+
+import { Agent, AgentVersion, Prisma, PrismaClient } from '@prisma/client';
+import { prisma } from '../utils/db.js';
+import { canonicalJson } from '../utils/canonical-json.js';
+import { ConflictError, NotFoundError } from '../utils/errors.js';
+
+export const AGENT_CONFIG_FIELDS = [
+  'primaryProvider',
+  'fallbackProvider',
+  'routingPolicy',
+  'hedgingEnabled',
+  'hedgeAfterMs',
+  'responseCacheEnabled',
+  'responseCacheTtlSeconds',
+  'systemPrompt',
+  'temperature',
+  'maxTokens',
+  'responseSchema',
+  'enabledTools',
+  'knowledgeBaseIds',
+  'maxToolIterations',
+  'maxParallelTools',
+  'contextWindowTokens',
+  'voiceEnabled',
+  'voiceConfig',
+] as const satisfies ReadonlyArray<keyof Agent>;
+
+export type AgentConfig = Pick<Agent, (typeof AGENT_CONFIG_FIELDS)[number]>;
+
+/**
+ * An agent with the configuration of one of its versions
+ */
+export type AgentAtVersion = Agent & { version: number };
+
+export function toAgentConfig(agent: AgentConfig): AgentConfig {
+  return Object.fromEntries(AGENT_CONFIG_FIELDS.map((field) => [field, agent[field]])) as AgentConfig;
+}
+
+/**
+ * The agent as configured by a version; the agent itself holds the published version
+ * Tools pass their scoped data accessor as db
+ */
+export async function resolveAgentVersion(
+  agent: Agent,
+  version: number | null,
+  db: Pick<PrismaClient, 'agentVersion'> = prisma
+): Promise<AgentAtVersion> {
+  if (version === null || version === agent.publishedVersion) {
+    return { ...agent, version: agent.publishedVersion };
+  }
+
+  const agentVersion = await db.agentVersion.findUnique({
+    where: { agentId_version: { agentId: agent.id, version } },
+  });
+  if (!agentVersion) {
+    throw new NotFoundError('Agent version');
+  }
+
+  return {
+    ...agent,
+    ...(agentVersion.config as unknown as AgentConfig),
+    version: agentVersion.version,
+  };
+}
+
+/**
+ * List an agent's versions, newest first
+ */
+export async function listAgentVersions(
+  tenantId: string,
+  agentId: string
+): Promise<AgentVersion[]> {
+  await assertAgentExists(tenantId, agentId);
+
+  return prisma.agentVersion.findMany({
+    where: { agentId },
+    orderBy: { version: 'desc' },
+  });
+}
+
+/**
+ * Get one version of an agent (tenant-scoped)
+ */
+export async function getAgentVersion(
+  tenantId: string,
+  agentId: string,
+  version: number
+): Promise<AgentVersion> {
+  const agentVersion = await prisma.agentVersion.findFirst({
+    where: { agentId, version, agent: { tenantId } },
+  });
+
+  if (!agentVersion) {
+    throw new NotFoundError('Agent version');
+  }
+
+  return agentVersion;
+}
+
+/**
+ * Create a draft from the latest version with some settings changed
+ * Returns null when nothing actually changes
+ */
+export async function createDraftVersion(
+  tenantId: string,
+  agentId: string,
+  changes: Partial<AgentConfig>
+): Promise<AgentVersion | null> {
+  await assertAgentExists(tenantId, agentId);
+
+  const latest = await prisma.agentVersion.findFirst({
+    where: { agentId },
+    orderBy: { version: 'desc' },
+  });
+  if (!latest) {
+    throw new NotFoundError('Agent version');
+  }
+
+  const base = latest.config as unknown as AgentConfig;
+  const config = toAgentConfig({ ...base, ...changes });
+  if (canonicalJson(config) === canonicalJson(base)) {
+    return null;
+  }
+
+  try {
+    return await prisma.agentVersion.create({
+      data: {
+        agentId,
+        version: latest.version + 1,
+        status: 'DRAFT',
+        config: config as unknown as Prisma.InputJsonValue,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ConflictError('Another version of this agent was just created, please retry');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Publish a version: new sessions start on it, sessions in progress keep theirs
+ * Publishing an earlier version is a rollback
+ */
+export async function publishAgentVersion(
+  tenantId: string,
+  agentId: string,
+  version: number
+): Promise<{ agent: Agent; version: AgentVersion }> {
+  const target = await getAgentVersion(tenantId, agentId, version);
+  const config = target.config as unknown as AgentConfig;
+
+  return prisma.$transaction(async (tx) => {
+    await tx.agentVersion.updateMany({
+      where: { agentId, status: 'PUBLISHED', version: { not: version } },
+      data: { status: 'ARCHIVED' },
+    });
+    const published = await tx.agentVersion.update({
+      where: { id: target.id },
+      data: { status: 'PUBLISHED', publishedAt: new Date() },
+    });
+    const agent = await tx.agent.update({
+      where: { id: agentId },
+      data: {
+        ...config,
+        routingPolicy: config.routingPolicy ?? Prisma.JsonNull,
+        responseSchema: config.responseSchema ?? Prisma.JsonNull,
+        enabledTools: config.enabledTools ?? [],
+        knowledgeBaseIds: config.knowledgeBaseIds ?? [],
+        voiceConfig: config.voiceConfig ?? Prisma.JsonNull,
+        publishedVersion: version,
+      },
+    });
+
+    return { agent, version: published };
+  });
+}
+
+async function assertAgentExists(tenantId: string, agentId: string): Promise<void> {
+  const agent = await prisma.agent.findFirst({
+    where: { id: agentId, tenantId },
+    select: { id: true },
+  });
+
+  if (!agent) {
+    throw new NotFoundError('Agent');
+  }
+}
@@ -3,32 +3,65 @@
  * Handles agent CRUD operations with tenant isolation
  */
 
-import { Agent, ProviderType } from '@prisma/client';
+import { Agent, AgentVersion, Prisma, ProviderType } from '@prisma/client';
 import { prisma } from '../utils/db.js';
-import { NotFoundError } from '../utils/errors.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
 import type { CreateAgentInput, UpdateAgentInput } from '../schemas/index.js';
+import { toolRegistry } from '../tools/registry.js';
+import { assertKnowledgeBasesExist } from './knowledge-base.service.js';
+import {
+  createDraftVersion,
+  getAgentVersion,
+  publishAgentVersion,
+  toAgentConfig,
+  type AgentConfig,
+} from './agent-version.service.js';
 
 /**
- * Create a new agent for a tenant
+ * Create a new agent for a tenant; its initial configuration is published as version 1
  */
 export async function createAgent(
   tenantId: string,
   input: CreateAgentInput
 ): Promise<Agent> {
-  return prisma.agent.create({
-    data: {
-      tenantId,
-      name: input.name,
-      description: input.description,
-      primaryProvider: input.primaryProvider as ProviderType,
-      fallbackProvider: input.fallbackProvider as ProviderType | undefined,
-      systemPrompt: input.systemPrompt,
-      temperature: input.temperature,
-      maxTokens: input.maxTokens,
-      enabledTools: input.enabledTools,
-      voiceEnabled: input.voiceEnabled,
-      voiceConfig: input.voiceConfig,
-    },
+  return prisma.$transaction(async (tx) => {
+    const agent = await tx.agent.create({
+      data: {
+        tenantId,
+        name: input.name,
+        description: input.description,
+        primaryProvider: input.primaryProvider as ProviderType,
+        fallbackProvider: input.fallbackProvider as ProviderType | undefined,
+        routingPolicy: input.routingPolicy ?? undefined,
+        hedgingEnabled: input.hedgingEnabled,
+        hedgeAfterMs: input.hedgeAfterMs,
+        responseCacheEnabled: input.responseCacheEnabled,
+        responseCacheTtlSeconds: input.responseCacheTtlSeconds,
+        systemPrompt: input.systemPrompt,
+        temperature: input.temperature,
+        maxTokens: input.maxTokens,
+        responseSchema: (input.responseSchema ?? undefined) as Prisma.InputJsonValue | undefined,
+        enabledTools: input.enabledTools,
+        knowledgeBaseIds: input.knowledgeBaseIds,
+        maxToolIterations: input.maxToolIterations,
+        maxParallelTools: input.maxParallelTools,
+        contextWindowTokens: input.contextWindowTokens,
+        voiceEnabled: input.voiceEnabled,
+        voiceConfig: input.voiceConfig,
+      },
+    });
+
+    await tx.agentVersion.create({
+      data: {
+        agentId: agent.id,
+        version: 1,
+        status: 'PUBLISHED',
+        config: toAgentConfig(agent) as unknown as Prisma.InputJsonValue,
+        publishedAt: agent.createdAt,
+      },
+    });
+
+    return agent;
   });
 }
 
@@ -74,34 +107,112 @@ export async function getAgentById(tenantId: string, agentId: string): Promise<A
 
 /**
  * Update an agent
+ * Name and description change in place; configuration changes create a draft version,
+ * which takes effect once published (see agent-version.service)
  */
 export async function updateAgent(
   tenantId: string,
   agentId: string,
   input: UpdateAgentInput
-): Promise<Agent> {
+): Promise<{ agent: Agent; draft: AgentVersion | null }> {
   // Verify agent exists and belongs to tenant
-  await getAgentById(tenantId, agentId);
+  let agent = await getAgentById(tenantId, agentId);
 
-  return prisma.agent.update({
-    where: { id: agentId },
-    data: {
-      ...(input.name !== undefined && { name: input.name }),
-      ...(input.description !== undefined && { description: input.description }),
-      ...(input.primaryProvider !== undefined && {
-        primaryProvider: input.primaryProvider as ProviderType,
-      }),
-      ...(input.fallbackProvider !== undefined && {
-        fallbackProvider: input.fallbackProvider as ProviderType | undefined,
-      }),
-      ...(input.systemPrompt !== undefined && { systemPrompt: input.systemPrompt }),
-      ...(input.temperature !== undefined && { temperature: input.temperature }),
-      ...(input.maxTokens !== undefined && { maxTokens: input.maxTokens }),
-      ...(input.enabledTools !== undefined && { enabledTools: input.enabledTools }),
-      ...(input.voiceEnabled !== undefined && { voiceEnabled: input.voiceEnabled }),
-      ...(input.voiceConfig !== undefined && { voiceConfig: input.voiceConfig }),
-    },
+  if (input.name !== undefined || input.description !== undefined) {
+    agent = await prisma.agent.update({
+      where: { id: agentId },
+      data: {
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.description !== undefined && { description: input.description }),
+      },
+    });
+  }
+
+  const changes: Partial<AgentConfig> = {
+    ...(input.primaryProvider !== undefined && {
+      primaryProvider: input.primaryProvider as ProviderType,
+    }),
+    ...(input.fallbackProvider !== undefined && {
+      fallbackProvider: (input.fallbackProvider ?? null) as ProviderType | null,
+    }),
+    ...(input.routingPolicy !== undefined && {
+      routingPolicy: input.routingPolicy as Prisma.JsonValue,
+    }),
+    ...(input.hedgingEnabled !== undefined && { hedgingEnabled: input.hedgingEnabled }),
+    ...(input.hedgeAfterMs !== undefined && { hedgeAfterMs: input.hedgeAfterMs }),
+    ...(input.responseCacheEnabled !== undefined && {
+      responseCacheEnabled: input.responseCacheEnabled,
+    }),
+    ...(input.responseCacheTtlSeconds !== undefined && {
+      responseCacheTtlSeconds: input.responseCacheTtlSeconds,
+    }),
+    ...(input.systemPrompt !== undefined && { systemPrompt: input.systemPrompt }),
+    ...(input.temperature !== undefined && { temperature: input.temperature }),
+    ...(input.maxTokens !== undefined && { maxTokens: input.maxTokens }),
+    ...(input.responseSchema !== undefined && {
+      responseSchema: input.responseSchema as Prisma.JsonValue,
+    }),
+    ...(input.enabledTools !== undefined && { enabledTools: input.enabledTools }),
+    ...(input.knowledgeBaseIds !== undefined && { knowledgeBaseIds: input.knowledgeBaseIds }),
+    ...(input.maxToolIterations !== undefined && {
+      maxToolIterations: input.maxToolIterations,
+    }),
+    ...(input.maxParallelTools !== undefined && {
+      maxParallelTools: input.maxParallelTools,
+    }),
+    ...(input.contextWindowTokens !== undefined && {
+      contextWindowTokens: input.contextWindowTokens,
+    }),
+    ...(input.voiceEnabled !== undefined && { voiceEnabled: input.voiceEnabled }),
+    ...(input.voiceConfig !== undefined && { voiceConfig: input.voiceConfig }),
+  };
+
+  const draft =
+    Object.keys(changes).length > 0 ? await createDraftVersion(tenantId, agentId, changes) : null;
+
+  return { agent, draft };
+}
+
+/**
+ * Publish a version of an agent (publishing an earlier version rolls back to it)
+ * Its tools and knowledge bases may have been deleted since it was created, so they are
+ * checked again, as on create and update
+ */
+export async function publishVersion(
+  tenantId: string,
+  agentId: string,
+  version: number
+): Promise<{ agent: Agent; version: AgentVersion }> {
+  const target = await getAgentVersion(tenantId, agentId, version);
+  const config = target.config as unknown as AgentConfig;
+
+  await assertAgentReferencesExist(tenantId, {
+    enabledTools: (config.enabledTools as string[] | null) ?? [],
+    knowledgeBaseIds: (config.knowledgeBaseIds as string[] | null) ?? [],
   });
+
+  return publishAgentVersion(tenantId, agentId, version);
+}
+
+/**
+ * Check that the tools and knowledge bases an agent enables are available to the tenant
+ * Settings left out are not checked
+ */
+export async function assertAgentReferencesExist(
+  tenantId: string,
+  references: { enabledTools?: string[]; knowledgeBaseIds?: string[] }
+): Promise<void> {
+  if (references.enabledTools) {
+    const toolValidation = await toolRegistry.validateTools(references.enabledTools, tenantId);
+    if (!toolValidation.valid) {
+      throw new ValidationError('Unknown tools specified', [
+        { field: 'enabledTools', message: `Unknown tools: ${toolValidation.missing.join(', ')}` },
+      ]);
+    }
+  }
+  if (references.knowledgeBaseIds) {
+    await assertKnowledgeBasesExist(tenantId, references.knowledgeBaseIds);
+  }
 }
 
 /**
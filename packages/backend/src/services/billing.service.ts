@@ -3,8 +3,15 @@
  * Handles usage analytics and billing queries
  */
 
-import { ProviderType, Prisma } from '@prisma/client';
+import {
+  ExperimentStatus,
+  ProviderCallStatus,
+  ProviderType,
+  Prisma,
+  RoutingPolicyType,
+} from '@prisma/client';
 import { prisma } from '../utils/db.js';
+import { getExperiment, getVariants } from './experiment.service.js';
 
 export interface UsageSummary {
   period: {
@@ -19,6 +26,12 @@ export interface UsageSummary {
     totalTokens: number;
     costCents: number;
   };
+  // Answers of agents with the response cache enabled
+  cache: {
+    lookups: number;
+    hits: number;
+    hitRate: number; // 0-1
+  };
 }
 
 export interface UsageBreakdown {
@@ -48,6 +61,97 @@ export interface TopAgentUsage {
   costCents: number;
 }
 
+export interface RoutingUsage {
+  period: {
+    start: Date;
+    end: Date;
+  };
+  // Provider calls per routing policy (null = agents without one) and provider
+  routes: Array<{
+    routingPolicy: RoutingPolicyType | null;
+    provider: ProviderType;
+    calls: number;
+    fallbackCalls: number;
+    failedCalls: number;
+  }>;
+  recentDecisions: Array<{
+    providerCallId: string;
+    agentId: string;
+    agentName: string;
+    routingPolicy: RoutingPolicyType;
+    routingReason: string | null;
+    provider: ProviderType;
+    isFallback: boolean;
+    status: ProviderCallStatus;
+    createdAt: Date;
+  }>;
+}
+
+export interface ProviderStatusRates {
+  success: number;
+  timeout: number;
+  rateLimited: number;
+  failed: number;
+  cancelled: number;
+}
+
+export interface ProviderLatency {
+  p50: number | null;
+  p95: number | null;
+  p99: number | null;
+}
+
+export interface ProviderUsage {
+  period: {
+    start: Date;
+    end: Date;
+  };
+  bucket: 'hour' | 'day';
+  // Vendor requests per provider (cache hits never reach a vendor and aren't counted)
+  providers: Array<{
+    provider: ProviderType;
+    requests: number;
+    rates: ProviderStatusRates; // share of requests, 0-1
+    fallbackRate: number;
+    // Requests per attempt number: 1 is the first try, higher numbers are retries
+    retries: Array<{ attempts: number; requests: number }>;
+    latencyMs: ProviderLatency; // successful requests only
+  }>;
+  buckets: Array<{
+    start: Date;
+    provider: ProviderType;
+    requests: number;
+    rates: ProviderStatusRates;
+    latencyMs: ProviderLatency;
+  }>;
+}
+
+export interface ExperimentVariantUsage {
+  name: string;
+  version: number;
+  weight: number;
+  sessions: number;
+  costCents: number;
+  costPerSessionCents: number;
+  totalTokens: number;
+  tokensPerSession: number;
+  latencyMs: { avg: number | null; p95: number | null }; // successful chat calls only
+  toolSuccessRate: number | null; // null when no tools ran
+  fallbackRate: number | null; // null when no vendor requests were made
+  feedback: {
+    positive: number;
+    negative: number;
+    positiveRate: number | null;
+  };
+}
+
+export interface ExperimentUsage {
+  experimentId: string;
+  agentId: string;
+  status: ExperimentStatus;
+  variants: ExperimentVariantUsage[];
+}
+
 export interface UsageQueryOptions {
   startDate?: Date;
   endDate?: Date;
@@ -110,6 +214,26 @@ export async function getUsageSummary(
     },
   });
 
+  // Cache lookups: every hit, and the provider call made after each miss
+  const cacheGroups = await prisma.providerCall.groupBy({
+    by: ['status'],
+    where: {
+      cacheChecked: true,
+      session: {
+        tenantId,
+        ...(options.agentId && { agentId: options.agentId }),
+      },
+      createdAt: {
+        gte: startDate,
+        lte: endDate,
+      },
+      ...(options.provider && { provider: options.provider }),
+    },
+    _count: true,
+  });
+  const cacheLookups = cacheGroups.reduce((sum, g) => sum + g._count, 0);
+  const cacheHits = cacheGroups.find((g) => g.status === 'CACHE_HIT')?._count ?? 0;
+
   return {
     period: {
       start: startDate,
@@ -123,6 +247,11 @@ export async function getUsageSummary(
       totalTokens: usageAgg._sum.totalTokens ?? 0,
       costCents: usageAgg._sum.costCents ?? 0,
     },
+    cache: {
+      lookups: cacheLookups,
+      hits: cacheHits,
+      hitRate: cacheLookups > 0 ? cacheHits / cacheLookups : 0,
+    },
   };
 }
 
@@ -352,30 +481,309 @@ export async function getTopAgentsByCost(
 }
 
 /**
- * Check if tenant has exceeded daily cost limit
+ * Where provider calls went and why: counts per routing policy and provider,
+ * plus the most recent routing decisions with their reasons
  */
-export async function checkDailyCostLimit(
+export async function getRoutingUsage(
   tenantId: string,
-  limitCents: number
-): Promise<{ allowed: boolean; currentCostCents: number }> {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-
-  const result = await prisma.usageEvent.aggregate({
-    where: {
+  options: UsageQueryOptions & { limit?: number } = {}
+): Promise<RoutingUsage> {
+  const { startDate, endDate } = getDateRange(options);
+  const where: Prisma.ProviderCallWhereInput = {
+    session: {
       tenantId,
-      createdAt: { gte: today },
+      ...(options.agentId && { agentId: options.agentId }),
     },
-    _sum: {
-      costCents: true,
+    createdAt: {
+      gte: startDate,
+      lte: endDate,
     },
+  };
+
+  const groups = await prisma.providerCall.groupBy({
+    by: ['routingPolicy', 'provider', 'isFallback', 'status'],
+    where,
+    _count: true,
   });
 
-  const currentCostCents = result._sum.costCents ?? 0;
+  const routes = new Map<string, RoutingUsage['routes'][number]>();
+  for (const group of groups) {
+    const key = `${group.routingPolicy}:${group.provider}`;
+    const route = routes.get(key) ?? {
+      routingPolicy: group.routingPolicy,
+      provider: group.provider,
+      calls: 0,
+      fallbackCalls: 0,
+      failedCalls: 0,
+    };
+    route.calls += group._count;
+    if (group.isFallback) {
+      route.fallbackCalls += group._count;
+    }
+    // Aborted hedge losers and cache hits aren't failures
+    if (!['SUCCESS', 'CANCELLED', 'CACHE_HIT'].includes(group.status)) {
+      route.failedCalls += group._count;
+    }
+    routes.set(key, route);
+  }
+
+  const recent = await prisma.providerCall.findMany({
+    where: { ...where, routingPolicy: { not: null } },
+    orderBy: { createdAt: 'desc' },
+    take: options.limit ?? 10,
+    include: { session: { select: { agent: { select: { id: true, name: true } } } } },
+  });
 
   return {
-    allowed: currentCostCents < limitCents,
-    currentCostCents,
+    period: {
+      start: startDate,
+      end: endDate,
+    },
+    routes: [...routes.values()].sort((a, b) => b.calls - a.calls),
+    recentDecisions: recent.map((call) => ({
+      providerCallId: call.id,
+      agentId: call.session.agent.id,
+      agentName: call.session.agent.name,
+      routingPolicy: call.routingPolicy!,
+      routingReason: call.routingReason,
+      provider: call.provider,
+      isFallback: call.isFallback,
+      status: call.status,
+      createdAt: call.createdAt,
+    })),
+  };
+}
+
+interface ProviderStatsRow {
+  provider: ProviderType;
+  requests: bigint;
+  successes: bigint;
+  timeouts: bigint;
+  rate_limited: bigint;
+  failures: bigint;
+  cancelled: bigint;
+  fallbacks: bigint;
+  p50: number | null;
+  p95: number | null;
+  p99: number | null;
+}
+
+/**
+ * Provider health and performance: status rates, fallback rate, retries and latency
+ * percentiles per provider, overall and per hourly or daily bucket
+ */
+export async function getProviderUsage(
+  tenantId: string,
+  options: UsageQueryOptions & { bucket?: 'hour' | 'day' } = {}
+): Promise<ProviderUsage> {
+  const { startDate, endDate } = getDateRange(options);
+  const bucket = options.bucket ?? 'day';
+
+  const where = Prisma.sql`
+    s."tenantId" = ${tenantId}
+    AND pc."createdAt" >= ${startDate}
+    AND pc."createdAt" <= ${endDate}
+    AND pc.status <> 'CACHE_HIT'
+    ${options.agentId ? Prisma.sql`AND s."agentId" = ${options.agentId}` : Prisma.empty}
+  `;
+  const aggregates = Prisma.sql`
+    pc.provider,
+    COUNT(*) AS requests,
+    COUNT(*) FILTER (WHERE pc.status = 'SUCCESS') AS successes,
+    COUNT(*) FILTER (WHERE pc.status = 'TIMEOUT') AS timeouts,
+    COUNT(*) FILTER (WHERE pc.status = 'RATE_LIMITED') AS rate_limited,
+    COUNT(*) FILTER (WHERE pc.status = 'FAILED') AS failures,
+    COUNT(*) FILTER (WHERE pc.status = 'CANCELLED') AS cancelled,
+    COUNT(*) FILTER (WHERE pc."isFallback") AS fallbacks,
+    PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY pc."latencyMs")
+      FILTER (WHERE pc.status = 'SUCCESS') AS p50,
+    PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY pc."latencyMs")
+      FILTER (WHERE pc.status = 'SUCCESS') AS p95,
+    PERCENTILE_CONT(0.99) WITHIN GROUP (ORDER BY pc."latencyMs")
+      FILTER (WHERE pc.status = 'SUCCESS') AS p99
+  `;
+
+  // Uses idx_provider_calls_analytics (provider, status, createdAt)
+  const totals = await prisma.$queryRaw<ProviderStatsRow[]>`
+    SELECT ${aggregates}
+    FROM provider_calls pc
+    JOIN sessions s ON s.id = pc."sessionId"
+    WHERE ${where}
+    GROUP BY pc.provider
+    ORDER BY requests DESC
+  `;
+
+  const retryRows = await prisma.$queryRaw<
+    Array<{ provider: ProviderType; attempts: number; requests: bigint }>
+  >`
+    SELECT pc.provider, pc."attemptNumber" AS attempts, COUNT(*) AS requests
+    FROM provider_calls pc
+    JOIN sessions s ON s.id = pc."sessionId"
+    WHERE ${where}
+    GROUP BY pc.provider, pc."attemptNumber"
+    ORDER BY pc."attemptNumber"
+  `;
+
+  const bucketRows = await prisma.$queryRaw<Array<ProviderStatsRow & { bucket_start: Date }>>`
+    SELECT DATE_TRUNC(${bucket}, pc."createdAt") AS bucket_start, ${aggregates}
+    FROM provider_calls pc
+    JOIN sessions s ON s.id = pc."sessionId"
+    WHERE ${where}
+    GROUP BY bucket_start, pc.provider
+    ORDER BY bucket_start, pc.provider
+  `;
+
+  return {
+    period: {
+      start: startDate,
+      end: endDate,
+    },
+    bucket,
+    providers: totals.map((row) => ({
+      provider: row.provider,
+      requests: Number(row.requests),
+      rates: toStatusRates(row),
+      fallbackRate: Number(row.requests) > 0 ? Number(row.fallbacks) / Number(row.requests) : 0,
+      retries: retryRows
+        .filter((r) => r.provider === row.provider)
+        .map((r) => ({ attempts: r.attempts, requests: Number(r.requests) })),
+      latencyMs: toLatency(row),
+    })),
+    buckets: bucketRows.map((row) => ({
+      start: row.bucket_start,
+      provider: row.provider,
+      requests: Number(row.requests),
+      rates: toStatusRates(row),
+      latencyMs: toLatency(row),
+    })),
+  };
+}
+
+function toStatusRates(row: ProviderStatsRow): ProviderStatusRates {
+  const requests = Number(row.requests);
+  const rate = (count: bigint) => (requests > 0 ? Number(count) / requests : 0);
+
+  return {
+    success: rate(row.successes),
+    timeout: rate(row.timeouts),
+    rateLimited: rate(row.rate_limited),
+    failed: rate(row.failures),
+    cancelled: rate(row.cancelled),
+  };
+}
+
+function toLatency(row: ProviderStatsRow): ProviderLatency {
+  const round = (value: number | null) => (value === null ? null : Math.round(value));
+  return { p50: round(row.p50), p95: round(row.p95), p99: round(row.p99) };
+}
+
+/**
+ * Get per-variant metrics of an experiment, from the sessions assigned to each variant
+ */
+export async function getExperimentUsage(
+  tenantId: string,
+  experimentId: string
+): Promise<ExperimentUsage> {
+  const experiment = await getExperiment(tenantId, experimentId);
+
+  const sessionRows = await prisma.$queryRaw<
+    Array<{ variant: string; sessions: bigint; cost_cents: bigint | null; total_tokens: bigint | null }>
+  >`
+    SELECT
+      s."experimentVariant" AS variant,
+      COUNT(DISTINCT s.id) AS sessions,
+      SUM(ue."costCents") AS cost_cents,
+      SUM(ue."totalTokens") AS total_tokens
+    FROM sessions s
+    LEFT JOIN usage_events ue ON ue."sessionId" = s.id
+    WHERE s."experimentId" = ${experimentId}
+    GROUP BY s."experimentVariant"
+  `;
+
+  const callRows = await prisma.$queryRaw<
+    Array<{ variant: string; requests: bigint; fallbacks: bigint; avg: number | null; p95: number | null }>
+  >`
+    SELECT
+      s."experimentVariant" AS variant,
+      COUNT(*) AS requests,
+      COUNT(*) FILTER (WHERE pc."isFallback") AS fallbacks,
+      AVG(pc."latencyMs") FILTER (WHERE pc.status = 'SUCCESS' AND pc.purpose = 'CHAT') AS avg,
+      PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY pc."latencyMs")
+        FILTER (WHERE pc.status = 'SUCCESS' AND pc.purpose = 'CHAT') AS p95
+    FROM provider_calls pc
+    JOIN sessions s ON s.id = pc."sessionId"
+    WHERE s."experimentId" = ${experimentId}
+      AND pc.status <> 'CACHE_HIT'
+    GROUP BY s."experimentVariant"
+  `;
+
+  const toolRows = await prisma.$queryRaw<
+    Array<{ variant: string; executions: bigint; successes: bigint }>
+  >`
+    SELECT
+      s."experimentVariant" AS variant,
+      COUNT(*) AS executions,
+      COUNT(*) FILTER (WHERE te.status = 'SUCCESS') AS successes
+    FROM tool_executions te
+    JOIN sessions s ON s.id = te."sessionId"
+    WHERE s."experimentId" = ${experimentId}
+    GROUP BY s."experimentVariant"
+  `;
+
+  const feedbackRows = await prisma.$queryRaw<
+    Array<{ variant: string; positive: bigint; negative: bigint }>
+  >`
+    SELECT
+      s."experimentVariant" AS variant,
+      COUNT(*) FILTER (WHERE m.feedback = 'POSITIVE') AS positive,
+      COUNT(*) FILTER (WHERE m.feedback = 'NEGATIVE') AS negative
+    FROM messages m
+    JOIN sessions s ON s.id = m."sessionId"
+    WHERE s."experimentId" = ${experimentId}
+      AND m.feedback IS NOT NULL
+    GROUP BY s."experimentVariant"
+  `;
+
+  const round = (value: number | null | undefined) =>
+    value === null || value === undefined ? null : Math.round(Number(value));
+
+  return {
+    experimentId: experiment.id,
+    agentId: experiment.agentId,
+    status: experiment.status,
+    variants: getVariants(experiment).map((variant) => {
+      const sessionRow = sessionRows.find((r) => r.variant === variant.name);
+      const callRow = callRows.find((r) => r.variant === variant.name);
+      const toolRow = toolRows.find((r) => r.variant === variant.name);
+      const feedbackRow = feedbackRows.find((r) => r.variant === variant.name);
+
+      const sessions = Number(sessionRow?.sessions ?? 0);
+      const costCents = Number(sessionRow?.cost_cents ?? 0);
+      const totalTokens = Number(sessionRow?.total_tokens ?? 0);
+      const requests = Number(callRow?.requests ?? 0);
+      const executions = Number(toolRow?.executions ?? 0);
+      const positive = Number(feedbackRow?.positive ?? 0);
+      const negative = Number(feedbackRow?.negative ?? 0);
+
+      return {
+        name: variant.name,
+        version: variant.version,
+        weight: variant.weight,
+        sessions,
+        costCents,
+        costPerSessionCents: sessions > 0 ? costCents / sessions : 0,
+        totalTokens,
+        tokensPerSession: sessions > 0 ? totalTokens / sessions : 0,
+        latencyMs: { avg: round(callRow?.avg), p95: round(callRow?.p95) },
+        toolSuccessRate: executions > 0 ? Number(toolRow!.successes) / executions : null,
+        fallbackRate: requests > 0 ? Number(callRow!.fallbacks) / requests : null,
+        feedback: {
+          positive,
+          negative,
+          positiveRate: positive + negative > 0 ? positive / (positive + negative) : null,
+        },
+      };
+    }),
   };
 }
 
@@ -0,0 +1,261 @@
+/**
+ * Budget service
+ * Tenant- and agent-level daily/monthly budgets:
+ * - Hard limits block new messages with 402 before any provider is called
+ * - Soft limit crossings are recorded once per period and surfaced as warnings
+ */
+
+import { Agent, BudgetAlert, BudgetPeriod } from '@prisma/client';
+import { prisma } from '../utils/db.js';
+import { NotFoundError, PaymentRequiredError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import {
+  BUDGET_PERIODS,
+  evaluateBudgetWindow,
+  getPeriodBounds,
+  hasBudgetLimits,
+  type BudgetLimits,
+  type BudgetWindowStatus,
+} from '../utils/budget.js';
+import type { UpdateBudgetInput } from '../schemas/index.js';
+
+export interface BudgetScopeStatus {
+  scope: 'TENANT' | 'AGENT';
+  agentId: string | null;
+  agentName: string | null;
+  limits: BudgetLimits;
+  windows: BudgetWindowStatus[];
+}
+
+export interface BudgetWarning {
+  scope: 'TENANT' | 'AGENT';
+  agentId: string | null;
+  period: BudgetPeriod;
+  limitCents: number;
+  spentCents: number;
+}
+
+const TENANT_SCOPE_KEY = 'tenant';
+
+/**
+ * Throw PaymentRequiredError if the tenant or agent has reached a hard limit
+ */
+export async function assertWithinBudget(tenantId: string, agentId: string): Promise<void> {
+  const statuses = await getScopeStatuses(tenantId, agentId);
+
+  for (const status of statuses) {
+    const exhausted = status.windows.find((w) => w.hardLimitReached);
+    if (exhausted) {
+      const scopeLabel = status.scope === 'TENANT' ? 'Tenant' : 'Agent';
+      logger.warn(
+        {
+          tenantId,
+          agentId,
+          scope: status.scope,
+          period: exhausted.period,
+          spentCents: exhausted.spentCents,
+          hardLimitCents: exhausted.hardLimitCents,
+        },
+        'Budget hard limit reached, rejecting message'
+      );
+      throw new PaymentRequiredError(
+        `${scopeLabel} ${exhausted.period.toLowerCase()} budget of ${exhausted.hardLimitCents} cents reached (resets ${exhausted.resetsAt.toISOString()})`
+      );
+    }
+  }
+}
+
+/**
+ * Record soft limit crossings after new usage was billed
+ * Returns only warnings that are new for the current period
+ */
+export async function checkSoftLimits(
+  tenantId: string,
+  agentId: string
+): Promise<BudgetWarning[]> {
+  const statuses = await getScopeStatuses(tenantId, agentId);
+  const warnings: BudgetWarning[] = [];
+
+  for (const status of statuses) {
+    for (const window of status.windows) {
+      if (!window.softLimitReached || window.softLimitCents === null) {
+        continue;
+      }
+
+      // The unique key makes this a once-per-period crossing, even under concurrency
+      const created = await prisma.budgetAlert.createMany({
+        data: {
+          tenantId,
+          agentId: status.agentId,
+          scopeKey: status.agentId ?? TENANT_SCOPE_KEY,
+          period: window.period,
+          periodStart: window.periodStart,
+          limitCents: window.softLimitCents,
+          spentCents: window.spentCents,
+        },
+        skipDuplicates: true,
+      });
+
+      if (created.count > 0) {
+        const warning: BudgetWarning = {
+          scope: status.scope,
+          agentId: status.agentId,
+          period: window.period,
+          limitCents: window.softLimitCents,
+          spentCents: window.spentCents,
+        };
+        logger.warn({ tenantId, ...warning }, 'Budget soft limit crossed');
+        warnings.push(warning);
+      }
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Budget status for the tenant and every agent with limits configured
+ */
+export async function getBudgetOverview(tenantId: string): Promise<{
+  tenant: BudgetScopeStatus;
+  agents: BudgetScopeStatus[];
+  alerts: BudgetAlert[];
+}> {
+  const now = new Date();
+  const tenant = await getTenantLimits(tenantId);
+  const agents = await prisma.agent.findMany({
+    where: {
+      tenantId,
+      OR: [
+        { dailySoftLimitCents: { not: null } },
+        { dailyHardLimitCents: { not: null } },
+        { monthlySoftLimitCents: { not: null } },
+        { monthlyHardLimitCents: { not: null } },
+      ],
+    },
+    orderBy: { name: 'asc' },
+  });
+
+  const { start: monthStart } = getPeriodBounds('MONTHLY', now);
+  const alerts = await prisma.budgetAlert.findMany({
+    where: { tenantId, periodStart: { gte: monthStart } },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return {
+    tenant: await evaluateScope(tenantId, null, null, tenant, now),
+    agents: await Promise.all(
+      agents.map((agent) => evaluateScope(tenantId, agent.id, agent.name, toLimits(agent), now))
+    ),
+    alerts,
+  };
+}
+
+/**
+ * Update the tenant-wide budget (omitted fields are unchanged, null removes a limit)
+ */
+export async function updateTenantBudget(
+  tenantId: string,
+  input: UpdateBudgetInput
+): Promise<BudgetLimits> {
+  const tenant = await prisma.tenant.update({
+    where: { id: tenantId },
+    data: input,
+  });
+
+  return toLimits(tenant);
+}
+
+/**
+ * Update an agent's budget (omitted fields are unchanged, null removes a limit)
+ */
+export async function updateAgentBudget(
+  tenantId: string,
+  agentId: string,
+  input: UpdateBudgetInput
+): Promise<BudgetLimits> {
+  const agent = await prisma.agent.findFirst({ where: { id: agentId, tenantId } });
+  if (!agent) {
+    throw new NotFoundError('Agent');
+  }
+
+  const updated = await prisma.agent.update({
+    where: { id: agentId },
+    data: input,
+  });
+
+  return toLimits(updated);
+}
+
+/**
+ * Extract budget limits from a tenant or agent row
+ */
+export function toLimits(row: BudgetLimits): BudgetLimits {
+  return {
+    dailySoftLimitCents: row.dailySoftLimitCents,
+    dailyHardLimitCents: row.dailyHardLimitCents,
+    monthlySoftLimitCents: row.monthlySoftLimitCents,
+    monthlyHardLimitCents: row.monthlyHardLimitCents,
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function getScopeStatuses(tenantId: string, agentId: string): Promise<BudgetScopeStatus[]> {
+  const now = new Date();
+  const [tenantLimits, agent] = await Promise.all([
+    getTenantLimits(tenantId),
+    prisma.agent.findFirst({ where: { id: agentId, tenantId } }),
+  ]);
+
+  const statuses: BudgetScopeStatus[] = [];
+  if (hasBudgetLimits(tenantLimits)) {
+    statuses.push(await evaluateScope(tenantId, null, null, tenantLimits, now));
+  }
+  if (agent && hasBudgetLimits(toLimits(agent))) {
+    statuses.push(await evaluateScope(tenantId, agent.id, agent.name, toLimits(agent), now));
+  }
+  return statuses;
+}
+
+async function getTenantLimits(tenantId: string): Promise<BudgetLimits> {
+  const tenant = await prisma.tenant.findUnique({ where: { id: tenantId } });
+  if (!tenant) {
+    throw new NotFoundError('Tenant');
+  }
+  return toLimits(tenant);
+}
+
+async function evaluateScope(
+  tenantId: string,
+  agentId: string | null,
+  agentName: Agent['name'] | null,
+  limits: BudgetLimits,
+  now: Date
+): Promise<BudgetScopeStatus> {
+  const windows = await Promise.all(
+    BUDGET_PERIODS.map(async (period) => {
+      const { start } = getPeriodBounds(period, now);
+      const result = await prisma.usageEvent.aggregate({
+        where: {
+          tenantId,
+          ...(agentId && { agentId }),
+          createdAt: { gte: start },
+        },
+        _sum: { costCents: true },
+      });
+
+      return evaluateBudgetWindow(period, limits, result._sum.costCents ?? 0, now);
+    })
+  );
+
+  return {
+    scope: agentId ? 'AGENT' : 'TENANT',
+    agentId,
+    agentName,
+    limits,
+    windows,
+  };
+}
@@ -0,0 +1,243 @@
+/**
+ * Context service
+ * Builds the conversation sent to the provider within the agent's token budget
+ *
+ * The system prompt and the newest messages are always sent. Older messages that no
+ * longer fit are folded into the session's rolling summary (a billed provider call),
+ * which is appended to the system prompt on every later request.
+ */
+
+import { Agent, Message } from '@prisma/client';
+import type pino from 'pino';
+import { prisma } from '../utils/db.js';
+import { config } from '../config/index.js';
+import {
+  chunkContextUnits,
+  estimateTokens,
+  estimateToolTokens,
+  planContextWindow,
+  type ContextMessage,
+} from '../utils/context-window.js';
+import type {
+  ConversationMessage,
+  ProviderRequest,
+  ProviderResponse,
+  ToolCall,
+  ToolDefinition,
+  ToolResult,
+} from '../providers/types.js';
+import { listPolicyProviders, type RoutingPolicy } from '../providers/routing.js';
+
+const SUMMARY_PROMPT =
+  'You maintain a running summary of a customer conversation for an AI agent that can no longer ' +
+  'see the older messages. Merge the summary so far with the new messages into one concise summary. ' +
+  'Keep names, identifiers, amounts, decisions, open questions and tool results the agent may need. ' +
+  'Reply with the summary only.';
+
+const SUMMARY_HEADING = 'Summary of the earlier conversation:';
+
+export interface ConversationContext {
+  systemPrompt: string;
+  messages: ConversationMessage[];
+}
+
+/**
+ * Provider call used to produce summaries; the caller records and bills it
+ */
+export type SummarizeFn = (request: ProviderRequest) => Promise<ProviderResponse>;
+
+/**
+ * Build the system prompt and message list for the next provider request
+ */
+export async function buildConversationContext(
+  sessionId: string,
+  agent: Agent,
+  tools: ToolDefinition[],
+  summarize: SummarizeFn,
+  log: pino.Logger
+): Promise<ConversationContext> {
+  const session = await prisma.session.findUniqueOrThrow({
+    where: { id: sessionId },
+    select: { contextSummary: true, contextSummaryThroughSeq: true },
+  });
+
+  const messages = await prisma.message.findMany({
+    where: { sessionId, sequenceNumber: { gt: session.contextSummaryThroughSeq } },
+    orderBy: { sequenceNumber: 'asc' },
+  });
+
+  const windowTokens = getContextWindowTokens(agent);
+  // Room for the reply, the instructions, tool definitions and the rolling summary
+  const budgetTokens =
+    windowTokens -
+    agent.maxTokens -
+    estimateTokens(agent.systemPrompt) -
+    estimateToolTokens(tools) -
+    config.session.summaryMaxTokens;
+
+  const plan = planContextWindow(messages.map(toContextMessage), budgetTokens);
+  let summary = session.contextSummary;
+
+  if (plan.dropped.length > 0) {
+    log.info(
+      {
+        windowTokens,
+        budgetTokens,
+        keptMessages: plan.kept.length,
+        droppedMessages: plan.dropped.length,
+      },
+      'Conversation exceeds context budget, folding older messages into summary'
+    );
+    summary = await foldIntoSummary(sessionId, summary, plan.dropped, windowTokens, summarize, log);
+  }
+
+  return {
+    systemPrompt: summary
+      ? `${agent.systemPrompt}\n\n${SUMMARY_HEADING}\n${summary}`
+      : agent.systemPrompt,
+    messages: plan.kept.map(({ sequenceNumber: _, ...message }) => message),
+  };
+}
+
+/**
+ * Context window for an agent: its own setting, or the smallest default among
+ * its providers (a request may be served by any of them)
+ */
+export function getContextWindowTokens(
+  agent: Pick<
+    Agent,
+    'contextWindowTokens' | 'primaryProvider' | 'fallbackProvider' | 'routingPolicy'
+  >
+): number {
+  if (agent.contextWindowTokens) {
+    return agent.contextWindowTokens;
+  }
+
+  const providers = agent.routingPolicy
+    ? listPolicyProviders(agent.routingPolicy as unknown as RoutingPolicy)
+    : agent.fallbackProvider
+      ? [agent.primaryProvider, agent.fallbackProvider]
+      : [agent.primaryProvider];
+  return Math.min(...providers.map((p) => config.providers[p].contextWindowTokens));
+}
+
+/**
+ * Fold dropped messages into the rolling summary, one chunk per provider call
+ * Progress is persisted after each chunk; a failed call leaves the remaining messages
+ * for the next request to fold (they are left out of this request either way)
+ */
+async function foldIntoSummary(
+  sessionId: string,
+  previousSummary: string | null,
+  dropped: ContextMessage[],
+  windowTokens: number,
+  summarize: SummarizeFn,
+  log: pino.Logger
+): Promise<string | null> {
+  const chunkBudget =
+    windowTokens -
+    estimateTokens(SUMMARY_PROMPT) -
+    2 * config.session.summaryMaxTokens; // the summary so far and the new one
+
+  let summary = previousSummary;
+
+  for (const chunk of chunkContextUnits(dropped, chunkBudget)) {
+    const throughSeq = chunk[chunk.length - 1].sequenceNumber;
+
+    try {
+      const response = await summarize(buildSummaryRequest(summary, chunk, chunkBudget));
+      const content = response.content.trim();
+      if (!content) {
+        throw new Error('Provider returned an empty summary');
+      }
+
+      summary = content;
+      await prisma.session.update({
+        where: { id: sessionId },
+        data: {
+          contextSummary: summary,
+          contextSummaryThroughSeq: throughSeq,
+          contextSummaryUpdatedAt: new Date(),
+        },
+      });
+
+      log.info({ throughSequenceNumber: throughSeq }, 'Conversation summary updated');
+    } catch (error) {
+      log.warn(
+        { error: error instanceof Error ? error.message : error, throughSequenceNumber: throughSeq },
+        'Failed to update conversation summary, older messages omitted from this request'
+      );
+      break;
+    }
+  }
+
+  return summary;
+}
+
+function buildSummaryRequest(
+  previousSummary: string | null,
+  messages: ContextMessage[],
+  budgetTokens: number
+): ProviderRequest {
+  // A single oversized tool result can exceed the budget on its own
+  const transcript = messages.map(formatForSummary).join('\n').slice(0, budgetTokens * 4);
+  const content = previousSummary
+    ? `Summary so far:\n${previousSummary}\n\nNew messages:\n${transcript}`
+    : `Messages:\n${transcript}`;
+
+  return {
+    systemPrompt: SUMMARY_PROMPT,
+    messages: [{ role: 'user', content }],
+    temperature: 0,
+    maxTokens: config.session.summaryMaxTokens,
+  };
+}
+
+function formatForSummary(message: ContextMessage): string {
+  switch (message.role) {
+    case 'user':
+      return `User: ${message.content}`;
+    case 'tool':
+      return `Tool result: ${JSON.stringify(message.toolResults?.[0] ?? message.content)}`;
+    case 'assistant': {
+      const calls = (message.toolCalls ?? [])
+        .map((tc) => `[called ${tc.name} ${JSON.stringify(tc.args)}]`)
+        .join(' ');
+      return `Assistant: ${[message.content, calls].filter(Boolean).join(' ')}`;
+    }
+    default:
+      return `${message.role}: ${message.content}`;
+  }
+}
+
+/**
+ * Convert a stored message to the provider's conversation format
+ */
+function toContextMessage(msg: Message): ContextMessage {
+  const contextMessage: ContextMessage = {
+    sequenceNumber: msg.sequenceNumber,
+    role: msg.role.toLowerCase() as ConversationMessage['role'],
+    content: msg.content,
+  };
+
+  // Parse tool calls for assistant messages
+  if (msg.role === 'ASSISTANT' && msg.toolCalls) {
+    contextMessage.toolCalls = JSON.parse(msg.toolCalls as string) as ToolCall[];
+  }
+
+  // Parse tool results for tool messages
+  if (msg.role === 'TOOL') {
+    const toolData = JSON.parse(msg.content) as ToolResult;
+    contextMessage.toolResults = [
+      {
+        id: toolData.id,
+        result: toolData.result,
+        error: toolData.error,
+        errorCode: toolData.errorCode,
+        errorDetails: toolData.errorDetails,
+      },
+    ];
+  }
+
+  return contextMessage;
+}
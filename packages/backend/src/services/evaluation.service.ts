@@ -0,0 +1,616 @@
+/**
+ * Evaluation service
+ * Offline regression tests of an agent before its prompt or providers change
+ *
+ * A suite holds scripted conversations (cases) with assertions on each turn. A run replays
+ * every case in a fresh demo session (unbilled) on one agent version, through sendMessage
+ * and so the same context building, provider orchestration and tool loop as live traffic.
+ * The report scores each assertion; runs of a suite on different versions can be compared.
+ */
+
+import { EvaluationRun, EvaluationSuite, Prisma, ProviderCall } from '@prisma/client';
+import { prisma } from '../utils/db.js';
+import { generateCorrelationId } from '../utils/crypto.js';
+import { canonicalJson } from '../utils/canonical-json.js';
+import { CancelledError, ConflictError, NotFoundError, ValidationError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { calculateCostWithRate } from '../config/pricing.js';
+import { parseStructuredOutput, formatSchemaIssues } from '../providers/structured-output.js';
+import { getAgentById } from './agent.service.js';
+import { getAgentVersion } from './agent-version.service.js';
+import { resolvePricing } from './pricing.service.js';
+import { createSession, endSession } from './session.service.js';
+import { sendMessage } from './message.service.js';
+import type {
+  CreateEvaluationSuiteInput,
+  EvaluationAssertion,
+  EvaluationCase,
+  RunEvaluationInput,
+  UpdateEvaluationSuiteInput,
+} from '../schemas/index.js';
+
+/**
+ * What a turn produced, as checked by its assertions
+ */
+export interface TurnOutcome {
+  answer: string;
+  latencyMs: number;
+  // What the turn would have cost outside demo mode
+  costCents: number;
+  toolCalls: Array<{ name: string; args: unknown }>;
+}
+
+export interface AssertionResult {
+  type: EvaluationAssertion['type'];
+  passed: boolean;
+  message?: string;
+}
+
+export interface TurnReport extends Partial<TurnOutcome> {
+  user: string;
+  error?: string;
+  assertions: AssertionResult[];
+}
+
+export interface CaseReport {
+  name: string;
+  passed: boolean;
+  turns: TurnReport[];
+}
+
+export interface EvaluationReport {
+  suite: { id: string; name: string };
+  agentVersion: number;
+  // Share of assertions passed, 0-1 (share of cases passed when the suite has no assertions)
+  score: number;
+  passedCases: number;
+  totalCases: number;
+  passedAssertions: number;
+  totalAssertions: number;
+  costCents: number;
+  latencyMs: { avg: number | null; max: number | null };
+  cases: CaseReport[];
+}
+
+export type CaseChange = 'fixed' | 'regressed' | 'unchanged' | 'added' | 'removed';
+
+// ============================================================================
+// Suites
+// ============================================================================
+
+export async function createEvaluationSuite(
+  tenantId: string,
+  agentId: string,
+  input: CreateEvaluationSuiteInput
+): Promise<EvaluationSuite> {
+  await getAgentById(tenantId, agentId);
+
+  try {
+    return await prisma.evaluationSuite.create({
+      data: {
+        tenantId,
+        agentId,
+        name: input.name,
+        description: input.description,
+        cases: input.cases as Prisma.InputJsonValue,
+      },
+    });
+  } catch (error) {
+    throw toSuiteConflict(error);
+  }
+}
+
+/**
+ * List an agent's suites by name
+ */
+export async function listEvaluationSuites(
+  tenantId: string,
+  agentId: string
+): Promise<EvaluationSuite[]> {
+  await getAgentById(tenantId, agentId);
+
+  return prisma.evaluationSuite.findMany({
+    where: { tenantId, agentId },
+    orderBy: { name: 'asc' },
+  });
+}
+
+/**
+ * Get suite by ID (tenant-scoped)
+ */
+export async function getEvaluationSuite(
+  tenantId: string,
+  suiteId: string
+): Promise<EvaluationSuite> {
+  const suite = await prisma.evaluationSuite.findFirst({
+    where: { id: suiteId, tenantId },
+  });
+
+  if (!suite) {
+    throw new NotFoundError('Evaluation suite');
+  }
+
+  return suite;
+}
+
+/**
+ * Update a suite; earlier runs keep the cases they ran in their report
+ */
+export async function updateEvaluationSuite(
+  tenantId: string,
+  suiteId: string,
+  input: UpdateEvaluationSuiteInput
+): Promise<EvaluationSuite> {
+  await getEvaluationSuite(tenantId, suiteId);
+
+  try {
+    return await prisma.evaluationSuite.update({
+      where: { id: suiteId },
+      data: {
+        name: input.name,
+        description: input.description,
+        cases: input.cases as Prisma.InputJsonValue | undefined,
+      },
+    });
+  } catch (error) {
+    throw toSuiteConflict(error);
+  }
+}
+
+/**
+ * Delete a suite and its runs
+ */
+export async function deleteEvaluationSuite(tenantId: string, suiteId: string): Promise<void> {
+  await getEvaluationSuite(tenantId, suiteId);
+
+  await prisma.evaluationSuite.delete({
+    where: { id: suiteId },
+  });
+}
+
+function toSuiteConflict(error: unknown): unknown {
+  if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+    return new ConflictError('Agent already has an evaluation suite with this name');
+  }
+  return error;
+}
+
+// ============================================================================
+// Runs
+// ============================================================================
+
+/**
+ * Start a run of a suite on an agent version (the published one by default)
+ * Runs right away, or queues a RUN_EVALUATION job with input.async
+ */
+export async function startEvaluationRun(
+  tenantId: string,
+  agentId: string,
+  input: RunEvaluationInput
+): Promise<EvaluationRun> {
+  const agent = await getAgentById(tenantId, agentId);
+  const suite = await getEvaluationSuite(tenantId, input.suiteId);
+  if (suite.agentId !== agent.id) {
+    throw new ValidationError('Evaluation suite belongs to another agent', [
+      { field: 'suiteId', message: 'Suite is not defined on this agent' },
+    ]);
+  }
+  if (input.agentVersion !== undefined) {
+    await getAgentVersion(tenantId, agent.id, input.agentVersion);
+  }
+
+  const run = await prisma.evaluationRun.create({
+    data: {
+      tenantId,
+      agentId,
+      suiteId: suite.id,
+      agentVersion: input.agentVersion ?? agent.publishedVersion,
+      totalCases: getCases(suite).length,
+    },
+  });
+
+  if (!input.async) {
+    return executeEvaluationRun(tenantId, run.id);
+  }
+
+  const job = await prisma.job.create({
+    data: {
+      tenantId,
+      type: 'RUN_EVALUATION',
+      input: { runId: run.id },
+    },
+  });
+
+  return prisma.evaluationRun.update({
+    where: { id: run.id },
+    data: { jobId: job.id },
+  });
+}
+
+/**
+ * Replay every case of a run's suite and store the scored report
+ * A case stops at its first failed turn; the run fails only if it can't proceed at all
+ */
+export async function executeEvaluationRun(
+  tenantId: string,
+  runId: string,
+  options: {
+    signal?: AbortSignal;
+    onProgress?: (completedCases: number, totalCases: number) => Promise<void>;
+  } = {}
+): Promise<EvaluationRun> {
+  const run = await getEvaluationRun(tenantId, runId);
+  const suite = await getEvaluationSuite(tenantId, run.suiteId);
+  const cases = getCases(suite);
+  const log = logger.child({ tenantId, evaluationRunId: run.id, suiteId: suite.id });
+
+  log.info({ agentVersion: run.agentVersion, cases: cases.length }, 'Running evaluation');
+
+  await prisma.evaluationRun.update({
+    where: { id: run.id },
+    data: { status: 'RUNNING', startedAt: new Date(), errorMessage: null },
+  });
+
+  try {
+    const caseReports: CaseReport[] = [];
+    for (const [index, evaluationCase] of cases.entries()) {
+      caseReports.push(await runCase(tenantId, run, evaluationCase, index, options.signal));
+      await options.onProgress?.(index + 1, cases.length);
+    }
+
+    const report = buildReport(suite, run.agentVersion, caseReports);
+    log.info(
+      { score: report.score, passedCases: report.passedCases, totalCases: report.totalCases },
+      'Evaluation completed'
+    );
+
+    return await prisma.evaluationRun.update({
+      where: { id: run.id },
+      data: {
+        status: 'COMPLETED',
+        score: report.score,
+        passedCases: report.passedCases,
+        totalCases: report.totalCases,
+        report: report as unknown as Prisma.InputJsonValue,
+        completedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    log.error({ error: errorMessage }, 'Evaluation failed');
+
+    await prisma.evaluationRun.update({
+      where: { id: run.id },
+      data: { status: 'FAILED', errorMessage, completedAt: new Date() },
+    });
+    throw error;
+  }
+}
+
+/**
+ * List an agent's runs, most recent first
+ */
+export async function listEvaluationRuns(
+  tenantId: string,
+  agentId: string,
+  suiteId?: string
+): Promise<EvaluationRun[]> {
+  await getAgentById(tenantId, agentId);
+
+  return prisma.evaluationRun.findMany({
+    where: { tenantId, agentId, ...(suiteId && { suiteId }) },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Get run by ID (tenant-scoped)
+ */
+export async function getEvaluationRun(tenantId: string, runId: string): Promise<EvaluationRun> {
+  const run = await prisma.evaluationRun.findFirst({
+    where: { id: runId, tenantId },
+  });
+
+  if (!run) {
+    throw new NotFoundError('Evaluation run');
+  }
+
+  return run;
+}
+
+/**
+ * Compare two completed runs of the same suite, typically on different agent versions
+ */
+export async function compareEvaluationRuns(
+  tenantId: string,
+  baseRunId: string,
+  runId: string
+) {
+  const base = await getEvaluationRun(tenantId, baseRunId);
+  const run = await getEvaluationRun(tenantId, runId);
+
+  if (base.suiteId !== run.suiteId) {
+    throw new ValidationError('Runs are of different evaluation suites');
+  }
+  if (base.status !== 'COMPLETED' || run.status !== 'COMPLETED') {
+    throw new ValidationError('Only completed runs can be compared');
+  }
+
+  const baseReport = base.report as unknown as EvaluationReport;
+  const runReport = run.report as unknown as EvaluationReport;
+
+  return {
+    suiteId: run.suiteId,
+    base: summarizeRun(base, baseReport),
+    run: summarizeRun(run, runReport),
+    scoreDelta: runReport.score - baseReport.score,
+    costCentsDelta: runReport.costCents - baseReport.costCents,
+    cases: compareCases(baseReport.cases, runReport.cases),
+  };
+}
+
+/**
+ * Pass/fail of each case in two reports, matched by name
+ */
+export function compareCases(
+  baseCases: CaseReport[],
+  runCases: CaseReport[]
+): Array<{ name: string; base: boolean | null; run: boolean | null; change: CaseChange }> {
+  const basePassed = new Map(baseCases.map((c) => [c.name, c.passed]));
+  const runPassed = new Map(runCases.map((c) => [c.name, c.passed]));
+  const names = [...new Set([...basePassed.keys(), ...runPassed.keys()])];
+
+  return names.map((name) => {
+    const before = basePassed.get(name) ?? null;
+    const after = runPassed.get(name) ?? null;
+    const change: CaseChange =
+      before === null
+        ? 'added'
+        : after === null
+          ? 'removed'
+          : before === after
+            ? 'unchanged'
+            : after
+              ? 'fixed'
+              : 'regressed';
+    return { name, base: before, run: after, change };
+  });
+}
+
+function summarizeRun(run: EvaluationRun, report: EvaluationReport) {
+  return {
+    id: run.id,
+    agentVersion: run.agentVersion,
+    score: report.score,
+    passedCases: report.passedCases,
+    totalCases: report.totalCases,
+    costCents: report.costCents,
+    completedAt: run.completedAt,
+  };
+}
+
+// ============================================================================
+// Replay and scoring
+// ============================================================================
+
+/**
+ * Replay one case in its own demo session, pinned to the run's agent version
+ */
+async function runCase(
+  tenantId: string,
+  run: EvaluationRun,
+  evaluationCase: EvaluationCase,
+  index: number,
+  signal: AbortSignal | undefined
+): Promise<CaseReport> {
+  const session = await createSession(tenantId, {
+    agentId: run.agentId,
+    customerId: `eval-${run.id}-${index}`,
+    channel: 'CHAT',
+    demoMode: true,
+    agentVersion: run.agentVersion,
+    metadata: { evaluationRunId: run.id, evaluationCase: evaluationCase.name },
+  });
+
+  const turns: TurnReport[] = [];
+  try {
+    for (const turn of evaluationCase.turns) {
+      // A failed turn leaves the conversation in an unknown state; the rest aren't run
+      if (turns.some((t) => t.error)) {
+        turns.push({
+          user: turn.user,
+          error: 'Not run: an earlier turn failed',
+          assertions: failAll(turn.assertions, 'Not run'),
+        });
+        continue;
+      }
+
+      const correlationId = generateCorrelationId();
+      const startedAt = Date.now();
+      let answer: string;
+      try {
+        answer = (await sendMessage(tenantId, session.id, { content: turn.user, correlationId, signal }))
+          .content;
+      } catch (error) {
+        if (error instanceof CancelledError) {
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        turns.push({
+          user: turn.user,
+          error: message,
+          assertions: failAll(turn.assertions, `Turn failed: ${message}`),
+        });
+        continue;
+      }
+
+      const outcome: TurnOutcome = {
+        answer,
+        latencyMs: Date.now() - startedAt,
+        ...(await getTurnActivity(tenantId, session.id, correlationId)),
+      };
+      turns.push({
+        user: turn.user,
+        ...outcome,
+        assertions: turn.assertions.map((assertion) => checkAssertion(assertion, outcome)),
+      });
+    }
+  } finally {
+    await endSession(tenantId, session.id);
+  }
+
+  return {
+    name: evaluationCase.name,
+    passed: turns.every((t) => !t.error && t.assertions.every((a) => a.passed)),
+    turns,
+  };
+}
+
+/**
+ * Tools a turn called and what its provider calls would have cost
+ */
+async function getTurnActivity(
+  tenantId: string,
+  sessionId: string,
+  correlationId: string
+): Promise<Pick<TurnOutcome, 'costCents' | 'toolCalls'>> {
+  const [providerCalls, toolExecutions] = await Promise.all([
+    // Answers rejected by the response schema are billed too
+    prisma.providerCall.findMany({
+      where: {
+        sessionId,
+        correlationId,
+        OR: [{ status: 'SUCCESS' }, { errorCode: 'PROVIDER_SCHEMA_ERROR' }],
+      },
+    }),
+    prisma.toolExecution.findMany({
+      where: { sessionId, correlationId },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+
+  return {
+    costCents: await estimateCostCents(tenantId, providerCalls),
+    toolCalls: toolExecutions.map((t) => ({ name: t.toolName, args: t.toolInput })),
+  };
+}
+
+/**
+ * Cost of provider calls at the tenant's pricing, as they'd be billed outside demo mode
+ */
+async function estimateCostCents(tenantId: string, providerCalls: ProviderCall[]): Promise<number> {
+  let costCents = 0;
+  for (const call of providerCalls) {
+    const pricing = await resolvePricing(tenantId, call.provider, call.model, call.createdAt);
+    costCents += calculateCostWithRate(pricing, call.tokensIn, call.tokensOut, pricing.markupPercent);
+  }
+  return costCents;
+}
+
+/**
+ * Check one assertion against what a turn produced
+ */
+export function checkAssertion(assertion: EvaluationAssertion, outcome: TurnOutcome): AssertionResult {
+  const result = (passed: boolean, message: string): AssertionResult =>
+    passed ? { type: assertion.type, passed } : { type: assertion.type, passed, message };
+
+  switch (assertion.type) {
+    case 'contains': {
+      const found = assertion.caseSensitive
+        ? outcome.answer.includes(assertion.value)
+        : outcome.answer.toLowerCase().includes(assertion.value.toLowerCase());
+      return result(found, `Answer does not contain "${assertion.value}"`);
+    }
+    case 'regex':
+      return result(
+        new RegExp(assertion.pattern, assertion.flags).test(outcome.answer),
+        `Answer does not match /${assertion.pattern}/${assertion.flags ?? ''}`
+      );
+    case 'tool_called': {
+      const calls = outcome.toolCalls.filter((c) => c.name === assertion.tool);
+      if (calls.length === 0) {
+        return result(false, `${assertion.tool} was not called`);
+      }
+      const expected = assertion.args;
+      return result(
+        !expected || calls.some((c) => hasArgs(c.args, expected)),
+        `${assertion.tool} was not called with ${JSON.stringify(expected)}`
+      );
+    }
+    case 'max_latency_ms':
+      return result(
+        outcome.latencyMs <= assertion.value,
+        `Took ${outcome.latencyMs}ms, over ${assertion.value}ms`
+      );
+    case 'max_cost_cents':
+      return result(
+        outcome.costCents <= assertion.value,
+        `Cost ${outcome.costCents} cents, over ${assertion.value}`
+      );
+    case 'json_schema': {
+      const parsed = parseStructuredOutput(outcome.answer, assertion.schema);
+      return parsed.valid
+        ? result(true, '')
+        : result(false, `Answer does not match the schema: ${formatSchemaIssues(parsed.issues)}`);
+    }
+  }
+}
+
+/**
+ * Whether the arguments of a tool call include the expected ones
+ */
+function hasArgs(args: unknown, expected: Record<string, unknown>): boolean {
+  if (typeof args !== 'object' || args === null) {
+    return false;
+  }
+  const actual = args as Record<string, unknown>;
+  return Object.entries(expected).every(
+    ([key, value]) => key in actual && canonicalJson(actual[key]) === canonicalJson(value)
+  );
+}
+
+function failAll(assertions: EvaluationAssertion[], message: string): AssertionResult[] {
+  return assertions.map((a) => ({ type: a.type, passed: false, message }));
+}
+
+/**
+ * Score the cases of a run
+ */
+export function buildReport(
+  suite: Pick<EvaluationSuite, 'id' | 'name'>,
+  agentVersion: number,
+  cases: CaseReport[]
+): EvaluationReport {
+  const assertions = cases.flatMap((c) => c.turns.flatMap((t) => t.assertions));
+  const passedAssertions = assertions.filter((a) => a.passed).length;
+  const passedCases = cases.filter((c) => c.passed).length;
+  const turns = cases.flatMap((c) => c.turns);
+  const latencies = turns.flatMap((t) => (t.latencyMs === undefined ? [] : [t.latencyMs]));
+
+  return {
+    suite: { id: suite.id, name: suite.name },
+    agentVersion,
+    score:
+      assertions.length > 0
+        ? passedAssertions / assertions.length
+        : cases.length > 0
+          ? passedCases / cases.length
+          : 0,
+    passedCases,
+    totalCases: cases.length,
+    passedAssertions,
+    totalAssertions: assertions.length,
+    costCents: turns.reduce((sum, t) => sum + (t.costCents ?? 0), 0),
+    latencyMs: {
+      avg: latencies.length > 0
+        ? Math.round(latencies.reduce((sum, l) => sum + l, 0) / latencies.length)
+        : null,
+      max: latencies.length > 0 ? Math.max(...latencies) : null,
+    },
+    cases,
+  };
+}
+
+function getCases(suite: Pick<EvaluationSuite, 'cases'>): EvaluationCase[] {
+  return suite.cases as unknown as EvaluationCase[];
+}
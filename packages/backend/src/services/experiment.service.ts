@@ -0,0 +1,150 @@
+/**
+ * Experiment service
+ * A/B tests of agent versions on live traffic
+ *
+ * While an experiment runs, each new session of its agent is assigned a variant by weight
+ * and pinned to that variant's agent version. Assignment hashes the customer ID, so a
+ * customer gets the same variant in every session. Concluding an experiment publishes the
+ * winning variant's version; sessions already assigned keep their version.
+ */
+
+import { createHash } from 'crypto';
+import { Experiment, Prisma } from '@prisma/client';
+import { prisma } from '../utils/db.js';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors.js';
+import { getAgentById, publishVersion } from './agent.service.js';
+import type { CreateExperimentInput, ExperimentVariant } from '../schemas/index.js';
+
+/**
+ * Start an experiment on an agent (one may run per agent at a time)
+ */
+export async function createExperiment(
+  tenantId: string,
+  agentId: string,
+  input: CreateExperimentInput
+): Promise<Experiment> {
+  await getAgentById(tenantId, agentId);
+
+  const versions = await prisma.agentVersion.findMany({
+    where: { agentId, version: { in: input.variants.map((v) => v.version) } },
+    select: { version: true },
+  });
+  const existing = new Set(versions.map((v) => v.version));
+  const missing = input.variants.filter((v) => !existing.has(v.version));
+  if (missing.length > 0) {
+    throw new ValidationError('Unknown agent versions', [
+      {
+        field: 'variants',
+        message: `Unknown versions: ${missing.map((v) => v.version).join(', ')}`,
+      },
+    ]);
+  }
+
+  try {
+    return await prisma.experiment.create({
+      data: {
+        tenantId,
+        agentId,
+        name: input.name,
+        description: input.description,
+        variants: input.variants as Prisma.InputJsonValue,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ConflictError('Agent already has a running experiment; conclude it first');
+    }
+    throw error;
+  }
+}
+
+/**
+ * List an agent's experiments, most recent first
+ */
+export async function listExperiments(tenantId: string, agentId: string): Promise<Experiment[]> {
+  await getAgentById(tenantId, agentId);
+
+  return prisma.experiment.findMany({
+    where: { tenantId, agentId },
+    orderBy: { startedAt: 'desc' },
+  });
+}
+
+/**
+ * Get experiment by ID (tenant-scoped)
+ */
+export async function getExperiment(tenantId: string, experimentId: string): Promise<Experiment> {
+  const experiment = await prisma.experiment.findFirst({
+    where: { id: experimentId, tenantId },
+  });
+
+  if (!experiment) {
+    throw new NotFoundError('Experiment');
+  }
+
+  return experiment;
+}
+
+/**
+ * The experiment new sessions of an agent are assigned to, if one is running
+ */
+export async function getRunningExperiment(
+  tenantId: string,
+  agentId: string
+): Promise<Experiment | null> {
+  return prisma.experiment.findFirst({
+    where: { tenantId, agentId, status: 'RUNNING' },
+  });
+}
+
+/**
+ * Variant of a customer: a weighted pick from a hash of the experiment and customer IDs
+ */
+export function assignVariant(
+  experiment: Pick<Experiment, 'id' | 'variants'>,
+  customerId: string
+): ExperimentVariant {
+  const variants = getVariants(experiment);
+  const totalWeight = variants.reduce((sum, v) => sum + v.weight, 0);
+
+  const hash = createHash('sha256').update(`${experiment.id}:${customerId}`).digest();
+  let point = hash.readUInt32BE(0) % totalWeight;
+
+  return variants.find((v) => (point -= v.weight) < 0) ?? variants[variants.length - 1];
+}
+
+/**
+ * Conclude an experiment by publishing the winning variant's agent version
+ */
+export async function concludeExperiment(
+  tenantId: string,
+  experimentId: string,
+  winningVariant: string
+): Promise<Experiment> {
+  const experiment = await getExperiment(tenantId, experimentId);
+  if (experiment.status !== 'RUNNING') {
+    throw new ConflictError('Experiment is already concluded');
+  }
+
+  const winner = getVariants(experiment).find((v) => v.name === winningVariant);
+  if (!winner) {
+    throw new ValidationError('Unknown variant', [
+      { field: 'winningVariant', message: `Experiment has no variant '${winningVariant}'` },
+    ]);
+  }
+
+  await publishVersion(tenantId, experiment.agentId, winner.version);
+
+  return prisma.experiment.update({
+    where: { id: experimentId },
+    data: {
+      status: 'CONCLUDED',
+      winningVariant: winner.name,
+      concludedAt: new Date(),
+    },
+  });
+}
+
+export function getVariants(experiment: Pick<Experiment, 'variants'>): ExperimentVariant[] {
+  return experiment.variants as unknown as ExperimentVariant[];
+}
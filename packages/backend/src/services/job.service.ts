@@ -6,8 +6,10 @@
 import { Job, JobStatus } from '@prisma/client';
 import { prisma } from '../utils/db.js';
 import { logger } from '../utils/logger.js';
+import { PaymentRequiredError } from '../utils/errors.js';
 import { config } from '../config/index.js';
 import { sendMessage } from './message.service.js';
+import { executeEvaluationRun } from './evaluation.service.js';
 import { hostname } from 'os';
 
 const workerId = `worker_${hostname()}_${process.pid}`;
@@ -15,6 +17,7 @@ const workerId = `worker_${hostname()}_${process.pid}`;
 interface JobInput {
   sessionId: string;
   content: string;
+  responseSchema?: Record<string, unknown>;
 }
 
 /**
@@ -112,8 +115,13 @@ export class JobWorker {
 
     log.info('Processing job');
 
+    // Abort the turn (provider calls and tools included) once the job runs too long
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), config.jobs.timeoutMs);
+
     try {
-      const result = await this.executeJob(job);
+      const result = await this.executeJob(job, controller.signal);
+      clearTimeout(timeout);
 
       await prisma.job.update({
         where: { id: job.id },
@@ -135,8 +143,16 @@ export class JobWorker {
         await this.sendCallback(job, result);
       }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      const shouldRetry = job.attempts < (job.maxAttempts || config.jobs.maxAttempts);
+      clearTimeout(timeout);
+      const errorMessage = controller.signal.aborted
+        ? `Job timed out after ${config.jobs.timeoutMs}ms`
+        : error instanceof Error
+          ? error.message
+          : String(error);
+      // Budget rejections won't succeed on retry within the same period
+      const shouldRetry =
+        !(error instanceof PaymentRequiredError) &&
+        job.attempts < (job.maxAttempts || config.jobs.maxAttempts);
 
       await prisma.job.update({
         where: { id: job.id },
@@ -164,10 +180,12 @@ export class JobWorker {
     }
   }
 
-  private async executeJob(job: Job): Promise<unknown> {
+  private async executeJob(job: Job, signal: AbortSignal): Promise<unknown> {
     switch (job.type) {
       case 'SEND_MESSAGE':
-        return this.executeSendMessage(job);
+        return this.executeSendMessage(job, signal);
+      case 'RUN_EVALUATION':
+        return this.executeRunEvaluation(job, signal);
       case 'VOICE_PROCESS':
         // TODO: Implement voice processing
         throw new Error('Voice processing not implemented');
@@ -176,7 +194,7 @@ export class JobWorker {
     }
   }
 
-  private async executeSendMessage(job: Job): Promise<unknown> {
+  private async executeSendMessage(job: Job, signal: AbortSignal): Promise<unknown> {
     const input = job.input as unknown as JobInput;
 
     // Update progress
@@ -187,13 +205,38 @@ export class JobWorker {
 
     const result = await sendMessage(job.tenantId, input.sessionId, {
       content: input.content,
+      responseSchema: input.responseSchema,
       idempotencyKey: job.idempotencyKey ?? undefined,
+      signal,
     });
 
     return {
       messageId: result.id,
       content: result.content,
+      structuredOutput: result.structuredOutput,
       metadata: result.metadata,
+      budgetWarnings: result.budgetWarnings,
+    };
+  }
+
+  private async executeRunEvaluation(job: Job, signal: AbortSignal): Promise<unknown> {
+    const input = job.input as unknown as { runId: string };
+
+    const run = await executeEvaluationRun(job.tenantId, input.runId, {
+      signal,
+      onProgress: async (completedCases, totalCases) => {
+        await prisma.job.update({
+          where: { id: job.id },
+          data: { progress: Math.floor((completedCases / totalCases) * 100) },
+        });
+      },
+    });
+
+    return {
+      runId: run.id,
+      score: run.score,
+      passedCases: run.passedCases,
+      totalCases: run.totalCases,
     };
   }
 
@@ -0,0 +1,273 @@
+/**
+ * Knowledge base service
+ * Per-tenant document collections searched by the KnowledgeBaseSearch tool
+ *
+ * Uploaded documents are reduced to plain text, split into passages (chunks) and indexed
+ * with their term frequencies; search ranks the chunks containing any query term by BM25
+ * (see utils/text-index). Nothing leaves the database: no embedding model is called.
+ */
+
+import { KnowledgeBase, KnowledgeDocument, Prisma, PrismaClient } from '@prisma/client';
+import { prisma } from '../utils/db.js';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { config } from '../config/index.js';
+import { chunkText, indexChunk, scoreBm25, toPlainText, tokenize } from '../utils/text-index.js';
+import type { AddKnowledgeDocumentInput, CreateKnowledgeBaseInput } from '../schemas/index.js';
+
+export interface KnowledgeSearchResult {
+  chunkId: string;
+  // Short marker the model cites the chunk by
+  ref: string;
+  knowledgeBaseId: string;
+  documentId: string;
+  documentTitle: string;
+  position: number;
+  content: string;
+  score: number;
+}
+
+export async function createKnowledgeBase(
+  tenantId: string,
+  input: CreateKnowledgeBaseInput
+): Promise<KnowledgeBase> {
+  try {
+    return await prisma.knowledgeBase.create({
+      data: { tenantId, name: input.name, description: input.description },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ConflictError(`Knowledge base '${input.name}' already exists`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * List the tenant's knowledge bases with their document counts
+ */
+export async function listKnowledgeBases(
+  tenantId: string
+): Promise<Array<KnowledgeBase & { _count: { documents: number } }>> {
+  return prisma.knowledgeBase.findMany({
+    where: { tenantId },
+    include: { _count: { select: { documents: true } } },
+    orderBy: { name: 'asc' },
+  });
+}
+
+/**
+ * Get knowledge base by ID (tenant-scoped)
+ */
+export async function getKnowledgeBase(
+  tenantId: string,
+  knowledgeBaseId: string
+): Promise<KnowledgeBase> {
+  const knowledgeBase = await prisma.knowledgeBase.findFirst({
+    where: { id: knowledgeBaseId, tenantId },
+  });
+
+  if (!knowledgeBase) {
+    throw new NotFoundError('Knowledge base');
+  }
+
+  return knowledgeBase;
+}
+
+/**
+ * Delete a knowledge base with its documents; agents still listing it just stop finding it
+ */
+export async function deleteKnowledgeBase(tenantId: string, knowledgeBaseId: string): Promise<void> {
+  await getKnowledgeBase(tenantId, knowledgeBaseId);
+
+  await prisma.knowledgeBase.delete({
+    where: { id: knowledgeBaseId },
+  });
+}
+
+/**
+ * Check that knowledge bases exist and belong to the tenant
+ */
+export async function assertKnowledgeBasesExist(
+  tenantId: string,
+  knowledgeBaseIds: string[]
+): Promise<void> {
+  if (knowledgeBaseIds.length === 0) {
+    return;
+  }
+
+  const found = await prisma.knowledgeBase.findMany({
+    where: { tenantId, id: { in: knowledgeBaseIds } },
+    select: { id: true },
+  });
+  const foundIds = new Set(found.map((kb) => kb.id));
+  const missing = knowledgeBaseIds.filter((id) => !foundIds.has(id));
+
+  if (missing.length > 0) {
+    throw new ValidationError('Unknown knowledge bases specified', [
+      { field: 'knowledgeBaseIds', message: `Unknown knowledge bases: ${missing.join(', ')}` },
+    ]);
+  }
+}
+
+/**
+ * Add a document: extract its text, chunk and index it
+ */
+export async function addDocument(
+  tenantId: string,
+  knowledgeBaseId: string,
+  input: AddKnowledgeDocumentInput
+): Promise<KnowledgeDocument> {
+  await getKnowledgeBase(tenantId, knowledgeBaseId);
+
+  const text = toPlainText(input.content, input.format);
+  if (Buffer.byteLength(text) > config.knowledgeBase.maxDocumentBytes) {
+    throw new ValidationError('Document is too large', [
+      { field: 'content', message: `Text exceeds ${config.knowledgeBase.maxDocumentBytes} bytes` },
+    ]);
+  }
+
+  const chunks = chunkText(
+    text,
+    config.knowledgeBase.chunkWords,
+    config.knowledgeBase.chunkOverlapWords
+  );
+  if (chunks.length === 0) {
+    throw new ValidationError('Document has no text', [
+      { field: 'content', message: 'No text left after extraction' },
+    ]);
+  }
+
+  const document = await prisma.$transaction(async (tx) => {
+    const created = await tx.knowledgeDocument.create({
+      data: {
+        knowledgeBaseId,
+        title: input.title,
+        format: input.format,
+        content: text,
+        chunkCount: chunks.length,
+      },
+    });
+
+    await tx.knowledgeChunk.createMany({
+      data: chunks.map((content, position) => {
+        const indexed = indexChunk(content);
+        return {
+          knowledgeBaseId,
+          documentId: created.id,
+          position,
+          content,
+          terms: indexed.terms,
+          termFrequencies: indexed.termFrequencies,
+          length: indexed.length,
+        };
+      }),
+    });
+
+    return created;
+  });
+
+  logger.info(
+    { tenantId, knowledgeBaseId, documentId: document.id, chunks: chunks.length },
+    'Knowledge document indexed'
+  );
+
+  return document;
+}
+
+/**
+ * List a knowledge base's documents, newest first (without their text)
+ */
+export async function listDocuments(
+  tenantId: string,
+  knowledgeBaseId: string
+): Promise<Array<Omit<KnowledgeDocument, 'content'>>> {
+  await getKnowledgeBase(tenantId, knowledgeBaseId);
+
+  return prisma.knowledgeDocument.findMany({
+    where: { knowledgeBaseId },
+    select: {
+      id: true,
+      knowledgeBaseId: true,
+      title: true,
+      format: true,
+      chunkCount: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+export async function deleteDocument(
+  tenantId: string,
+  knowledgeBaseId: string,
+  documentId: string
+): Promise<void> {
+  await getKnowledgeBase(tenantId, knowledgeBaseId);
+
+  const { count } = await prisma.knowledgeDocument.deleteMany({
+    where: { id: documentId, knowledgeBaseId },
+  });
+  if (count === 0) {
+    throw new NotFoundError('Document');
+  }
+}
+
+/**
+ * Best matching chunks across knowledge bases of a tenant, highest BM25 score first
+ * Knowledge bases of other tenants (or deleted ones) are silently left out; the
+ * KnowledgeBaseSearch tool passes its scoped data accessor as db
+ */
+export async function searchKnowledgeBases(
+  tenantId: string,
+  knowledgeBaseIds: string[],
+  query: string,
+  limit: number = config.knowledgeBase.defaultResults,
+  db: Pick<PrismaClient, 'knowledgeChunk'> = prisma
+): Promise<KnowledgeSearchResult[]> {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0 || knowledgeBaseIds.length === 0) {
+    return [];
+  }
+
+  const corpus = { knowledgeBaseId: { in: knowledgeBaseIds }, knowledgeBase: { tenantId } };
+
+  const [candidates, stats] = await Promise.all([
+    db.knowledgeChunk.findMany({
+      where: { ...corpus, terms: { hasSome: terms } },
+      include: { document: { select: { title: true } } },
+    }),
+    db.knowledgeChunk.aggregate({
+      where: corpus,
+      _count: true,
+      _avg: { length: true },
+    }),
+  ]);
+
+  const scores = scoreBm25(
+    terms,
+    candidates.map((c) => ({
+      termFrequencies: c.termFrequencies as Record<string, number>,
+      length: c.length,
+    })),
+    { chunkCount: stats._count, averageLength: stats._avg.length ?? 0 }
+  );
+
+  return candidates
+    .map((chunk, i) => ({
+      chunkId: chunk.id,
+      ref: toCitationRef(chunk.id),
+      knowledgeBaseId: chunk.knowledgeBaseId,
+      documentId: chunk.documentId,
+      documentTitle: chunk.document.title,
+      position: chunk.position,
+      content: chunk.content,
+      score: scores[i],
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, Math.min(limit, config.knowledgeBase.maxResults));
+}
+
+export function toCitationRef(chunkId: string): string {
+  return `kb-${chunkId.replace(/-/g, '').slice(0, 8)}`;
+}
@@ -7,31 +7,103 @@
  * - Usage event creation
  */
 
-import { Message, ProviderCall, ProviderCallStatus, MessageRole, Agent } from '@prisma/client';
+import {
+  Prisma,
+  Message,
+  ProviderCall,
+  ProviderCallPurpose,
+  ProviderCallStatus,
+  MessageRole,
+  Agent,
+  ProviderType,
+} from '@prisma/client';
 import type pino from 'pino';
 import { prisma } from '../utils/db.js';
-import { generateCorrelationId, uuidToLockKey } from '../utils/crypto.js';
-import { ConflictError, ValidationError, NotFoundError } from '../utils/errors.js';
+import { generateCorrelationId } from '../utils/crypto.js';
+import { canonicalJson } from '../utils/canonical-json.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import {
+  CancelledError,
+  ValidationError,
+  NotFoundError,
+  ForbiddenError,
+  ProviderSchemaError,
+} from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
-import { config } from '../config/index.js';
-import { calculateCost, getPricingSnapshot } from '../config/pricing.js';
-import { getSessionWithAgent, getNextSequenceNumber } from './session.service.js';
+import { calculateCostWithRate } from '../config/pricing.js';
+import { resolvePricing } from './pricing.service.js';
+import { getSessionById, getSessionWithAgent, getNextSequenceNumber } from './session.service.js';
+import { getTenantAdapters } from './provider-config.service.js';
+import { withSessionLock } from './session-lock.service.js';
+import { buildConversationContext, type ConversationContext } from './context.service.js';
+import { getRecentProviderStats } from './provider-stats.service.js';
+import {
+  getCachedResponse,
+  getResponseCacheKey,
+  isResponseCacheable,
+  storeCachedResponse,
+  type CachedResponse,
+} from './response-cache.service.js';
+import {
+  getProviderCaptureSettings,
+  toCapturedBodies,
+  type CapturedBodies,
+} from './provider-capture.service.js';
+import { assertWithinBudget, checkSoftLimits, type BudgetWarning } from './budget.service.js';
 import { executeWithResilience } from '../providers/orchestrator.js';
-import type { ConversationMessage, ProviderRequest, ToolDefinition, ToolCall } from '../providers/types.js';
+import { listPolicyProviders, type RoutingPolicy } from '../providers/routing.js';
+import type {
+  ProviderCallResult,
+  ProviderExchange,
+  ProviderRequest,
+  ToolCall,
+  ToolDefinition,
+  ToolResult,
+} from '../providers/types.js';
 import { toolRegistry } from '../tools/registry.js';
+import type { MessageFeedbackInput } from '../schemas/index.js';
+import type { ToolCitation, ToolContext } from '../tools/types.js';
+
+/**
+ * Incremental event emitted while a message is processed in streaming mode
+ */
+export type MessageStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'tool_call'; toolCall: ToolCall }
+  | ({ type: 'tool_result' } & ToolResult)
+  | ({ type: 'budget_warning' } & BudgetWarning);
 
 export interface SendMessageInput {
   content: string;
   idempotencyKey?: string;
   correlationId?: string;
+  // Streaming mode: receives text deltas and tool events as the turn progresses
+  onEvent?: (event: MessageStreamEvent) => void;
+  // Aborts the turn (client disconnected, job timed out); provider calls and tools stop too
+  signal?: AbortSignal;
+  // JSON Schema the answer must match; overrides the agent's responseSchema
+  responseSchema?: Record<string, unknown>;
+}
+
+// Turns in progress on this instance, by session
+interface ActiveTurn {
+  controller: AbortController;
+  // Settles once the turn has finished, however it ended
+  done: Promise<void>;
 }
 
+const activeTurns = new Map<string, ActiveTurn>();
+
 export interface MessageResponse {
   id: string;
   sessionId: string;
   role: MessageRole;
   content: string;
   toolCalls: unknown;
+  // The answer parsed as JSON when the turn had a response schema
+  structuredOutput: unknown;
+  // Knowledge base chunks retrieved during the turn, flagged when the answer cites them
+  citations: unknown;
   createdAt: Date;
   metadata: {
     provider: string;
@@ -40,7 +112,11 @@ export interface MessageResponse {
     latencyMs: number;
     correlationId: string;
     usedFallback: boolean;
+    cacheHit: boolean;
+    agentVersion: number | null;
   };
+  // Soft budget limits this turn crossed; each crossing is reported once per period
+  budgetWarnings: BudgetWarning[];
 }
 
 /**
@@ -48,13 +124,22 @@ export interface MessageResponse {
  * Implements the full message processing flow:
  * 1. Validate idempotency key
  * 2. Acquire session lock
- * 3. Load context
- * 4. Build provider request
- * 5. Store user message
- * 6. Call provider with retry/fallback
- * 7. Store assistant message
- * 8. Create usage event
- * 9. Release lock
+ * 3. Load context and enforce hard budget limits
+ * 4. Store user message
+ * 5. Build provider request within the context budget (folding older turns into the summary)
+ * 6. Call provider with retry/fallback (or replay a cached answer, see response-cache.service)
+ * 7. Store and bill each provider call (cache hits are recorded as CACHE_HIT, not billed)
+ * 8. Run tool calls and re-call the provider until plain content (max agent.maxToolIterations)
+ * 9. Store final assistant message
+ * 10. Check soft budget limits
+ * 11. Release lock
+ *
+ * With a response schema (input or agent), the final answer is re-asked until it matches
+ * (see executeWithResilience) and stored parsed as structuredOutput; otherwise the turn
+ * fails with ProviderSchemaError
+ *
+ * A cancelled turn (cancelMessage, input.signal) aborts its in-flight provider call or tools,
+ * records them as CANCELLED and fails with CancelledError; the user message stays stored
  */
 export async function sendMessage(
   tenantId: string,
@@ -63,8 +148,15 @@ export async function sendMessage(
 ): Promise<MessageResponse> {
   const correlationId = input.correlationId || generateCorrelationId();
   const log = logger.child({ correlationId, tenantId, sessionId });
-
-  log.info({ hasIdempotencyKey: !!input.idempotencyKey }, 'Processing message');
+  const onEvent = input.onEvent;
+  const onDelta = onEvent
+    ? (content: string) => onEvent({ type: 'delta', content })
+    : undefined;
+
+  log.info(
+    { hasIdempotencyKey: !!input.idempotencyKey, streaming: !!onEvent },
+    'Processing message'
+  );
 
   // Step 1: Check idempotency if key provided
   if (input.idempotencyKey) {
@@ -76,19 +168,23 @@ export async function sendMessage(
   }
 
   // Step 2: Acquire session lock
-  const lockKey = uuidToLockKey(sessionId);
-
-  return await withSessionLock(lockKey, async () => {
+  // The turn is also cancelled when it outlives its hold on the lock
+  return await withSessionLock(sessionId, (lockSignal) => withActiveTurn(sessionId, [input.signal, lockSignal], async (signal) => {
     // Step 3: Load session and agent context
     const session = await getSessionWithAgent(tenantId, sessionId);
     const agent = session.agent;
+    const routingPolicy = agent.routingPolicy as RoutingPolicy | null;
+    const responseSchema =
+      input.responseSchema ?? (agent.responseSchema as Record<string, unknown> | null) ?? undefined;
 
     log.info(
       {
         agentId: agent.id,
         agentName: agent.name,
+        agentVersion: agent.version,
         primaryProvider: agent.primaryProvider,
         fallbackProvider: agent.fallbackProvider,
+        routingPolicy: routingPolicy?.type,
         sessionStatus: session.status,
       },
       'Session and agent loaded'
@@ -98,21 +194,12 @@ export async function sendMessage(
       throw new ValidationError('Cannot send message to ended session');
     }
 
-    // Step 4: Load conversation history and build provider request
-    const history = await loadConversationHistory(sessionId);
-    log.debug({ historyLength: history.length }, 'Conversation history loaded');
-
-    const providerRequest = buildProviderRequest(agent, history, input.content);
-    log.debug(
-      {
-        systemPromptLength: providerRequest.systemPrompt.length,
-        messageCount: providerRequest.messages.length,
-        hasTools: !!providerRequest.tools?.length,
-      },
-      'Provider request built'
-    );
+    // Reject before any provider call if a hard budget limit is reached (demo sessions aren't billed)
+    if (!session.demoMode) {
+      await assertWithinBudget(tenantId, agent.id);
+    }
 
-    // Step 5: Store user message first
+    // Step 4: Store user message first
     const userSequence = await getNextSequenceNumber(sessionId);
     const userMessage = await prisma.message.create({
       data: {
@@ -121,160 +208,293 @@ export async function sendMessage(
         idempotencyKey: input.idempotencyKey,
         role: 'USER',
         content: input.content,
+        agentVersion: agent.version,
       },
     });
 
     log.info({ userMessageId: userMessage.id }, 'User message stored');
 
-    // Step 6: Call provider with retry/fallback
-    log.info('Calling AI provider');
-    let result = await executeWithResilience(providerRequest, {
-      primaryProvider: agent.primaryProvider,
-      fallbackProvider: agent.fallbackProvider,
-      correlationId,
-    });
-
-    // Step 7: Store provider call record
-    let providerCall = await prisma.providerCall.create({
-      data: {
-        sessionId,
+    const adapters = await getTenantAdapters(
+      tenantId,
+      routingPolicy
+        ? listPolicyProviders(routingPolicy)
+        : [agent.primaryProvider, agent.fallbackProvider]
+    );
+    const captureSettings = await getProviderCaptureSettings(tenantId);
+    const callProvider = async (
+      request: ProviderRequest,
+      purpose: ProviderCallPurpose = 'CHAT'
+    ) => {
+      // Each provider's last exchange is the one that produced its result
+      const exchanges = new Map<ProviderType | undefined, ProviderExchange>();
+      throwIfCancelled(signal);
+
+      // Only answers to the customer are cached
+      const cacheKey =
+        purpose === 'CHAT' && isResponseCacheable(agent)
+          ? getResponseCacheKey(agent, request)
+          : undefined;
+      if (cacheKey) {
+        const startedAt = Date.now();
+        const cached = await getCachedResponse(tenantId, agent.id, cacheKey);
+        if (cached) {
+          const providerCall = await recordCacheHit(
+            sessionId,
+            correlationId,
+            agent.version,
+            cached,
+            Date.now() - startedAt,
+            log
+          );
+          // Structured answers are never streamed
+          if (!request.responseSchema && cached.response.content) {
+            onDelta?.(cached.response.content);
+          }
+          return {
+            response: cached.response,
+            providerCall,
+            structuredOutput: cached.structuredOutput,
+          };
+        }
+      }
+      const scopedRequest: ProviderRequest = {
+        ...request,
+        scope: { tenantId, agentId: agent.id },
+        signal,
+      };
+      const capturingRequest: ProviderRequest = captureSettings.enabled
+        ? { ...scopedRequest, onExchange: (e) => { exchanges.set(e.provider, e); } }
+        : scopedRequest;
+      const capturedBodies = (r: ProviderCallResult) => {
+        const exchange = exchanges.get(r.provider);
+        return exchange && toCapturedBodies(exchange, captureSettings);
+      };
+
+      const result = await executeWithResilience(capturingRequest, {
+        primaryProvider: agent.primaryProvider,
+        fallbackProvider: agent.fallbackProvider,
         correlationId,
-        provider: result.provider,
-        isFallback: result.isFallback,
-        tokensIn: result.response?.tokensIn ?? 0,
-        tokensOut: result.response?.tokensOut ?? 0,
-        latencyMs: result.latencyMs,
-        status: result.success ? 'SUCCESS' : getProviderCallStatus(result.error?.code),
-        errorCode: result.error?.code,
-        errorMessage: result.error?.message,
-        attemptNumber: result.attemptNumber,
-      },
-    });
+        // Only replies are streamed to the client
+        onDelta: purpose === 'CHAT' ? onDelta : undefined,
+        adapters,
+        routingPolicy: routingPolicy ?? undefined,
+        hedging: agent.hedgingEnabled ? { afterMs: agent.hedgeAfterMs } : undefined,
+        getStats: getRecentProviderStats,
+      });
 
-    log.info(
+      // Step 7: Store provider call record and bill every answer as soon as it arrives,
+      // including answers rejected by the response schema (the losing request of a hedged
+      // call is recorded too, but never billed)
+      const record = async (r: ProviderCallResult, cacheChecked = false) => {
+        const call = await recordProviderCall(
+          sessionId,
+          correlationId,
+          agent.version,
+          r,
+          purpose,
+          capturedBodies(r),
+          log,
+          cacheChecked
+        );
+        if (r.hedgedCall) {
+          await recordProviderCall(
+            sessionId,
+            correlationId,
+            agent.version,
+            r.hedgedCall,
+            purpose,
+            capturedBodies(r.hedgedCall),
+            log
+          );
+        }
+        return call;
+      };
+      const bill = (r: ProviderCallResult, call: ProviderCall) =>
+        createUsageEvent(tenantId, agent.id, sessionId, session.demoMode, call, !!r.response);
+      for (const rejected of result.rejectedAnswers ?? []) {
+        await bill(rejected, await record(rejected));
+      }
+      const providerCall = await record(result, !!cacheKey);
+
+      if (result.error?.code === 'CANCELLED') {
+        log.info('Provider call cancelled');
+        throw new CancelledError('Message was cancelled');
+      }
+
+      if (result.error?.code === 'PROVIDER_SCHEMA_ERROR') {
+        await bill(result, providerCall);
+        log.error({ error: result.error }, 'Answer never matched the response schema');
+        throw new ProviderSchemaError(result.error.message);
+      }
+
+      if (!result.success || !result.response) {
+        log.error({ error: result.error }, 'Provider call failed');
+        throw new ValidationError(
+          result.error?.message || 'Failed to get response from AI provider'
+        );
+      }
+
+      await bill(result, providerCall);
+
+      // A provider may answer after the turn was cancelled: the answer is billed, but the
+      // turn stores no message from it, as its lock may already belong to the next turn
+      throwIfCancelled(signal);
+
+      // Tool calls are re-run against fresh data, so only final answers are cached
+      if (cacheKey && !result.response.toolCalls?.length) {
+        await storeCachedResponse(tenantId, agent, cacheKey, {
+          provider: result.provider,
+          response: result.response,
+          structuredOutput: result.structuredOutput,
+        });
+      }
+
+      return {
+        response: result.response,
+        providerCall,
+        structuredOutput: result.structuredOutput,
+      };
+    };
+
+    // Step 5: Build provider request; tool definitions come from the registry
+    // (built-in and tenant webhook tools)
+    const tools = await toolRegistry.getDefinitions(agent.enabledTools as string[], tenantId);
+    const summarize = async (request: ProviderRequest) =>
+      (await callProvider(request, 'SUMMARY')).response;
+
+    const context = await buildConversationContext(sessionId, agent, tools, summarize, log);
+    const providerRequest = buildProviderRequest(agent, context, tools, responseSchema);
+    log.debug(
       {
-        providerCallId: providerCall.id,
-        provider: providerCall.provider,
-        status: providerCall.status,
-        tokensIn: providerCall.tokensIn,
-        tokensOut: providerCall.tokensOut,
-        latencyMs: providerCall.latencyMs,
+        systemPromptLength: providerRequest.systemPrompt.length,
+        messageCount: providerRequest.messages.length,
+        hasTools: !!providerRequest.tools?.length,
       },
-      'Provider call record stored'
+      'Provider request built'
     );
 
-    if (!result.success || !result.response) {
-      log.error({ error: result.error }, 'Provider call failed');
-      throw new ValidationError(
-        result.error?.message || 'Failed to get response from AI provider'
-      );
-    }
-
-    // Step 8: Handle tool calls if present
-    let finalResponse = result.response;
-    let finalProviderCall = providerCall;
-    let initialProviderCall: typeof providerCall | null = null;
-
-    if (result.response.toolCalls && result.response.toolCalls.length > 0) {
-      log.info(
-        { toolCallCount: result.response.toolCalls.length },
-        'Processing tool calls'
-      );
+    // Step 6: Call provider with retry/fallback
+    log.info('Calling AI provider');
+    let {
+      response: finalResponse,
+      providerCall: finalProviderCall,
+      structuredOutput,
+    } = await callProvider(providerRequest);
+
+    // Step 8: Agent loop - execute tool calls and re-call the provider until
+    // the model answers with plain content or maxToolIterations is reached
+    const previousToolCalls = new Map<string, ToolResult>();
+    const citations: ToolCitation[] = [];
+    let iteration = 0;
+
+    while (finalResponse.toolCalls?.length) {
+      if (iteration >= agent.maxToolIterations) {
+        log.warn(
+          { maxToolIterations: agent.maxToolIterations },
+          'Tool iteration limit reached, leaving remaining tool calls unexecuted'
+        );
+        break;
+      }
+      iteration++;
 
-      // Save initial provider call for billing
-      initialProviderCall = providerCall;
+      const toolCalls = finalResponse.toolCalls;
+      log.info({ iteration, toolCallCount: toolCalls.length }, 'Processing tool calls');
 
-      // Store initial assistant message with tool calls
+      // Store the assistant message that requested the tools
       const assistantSequence = await getNextSequenceNumber(sessionId);
-      await prisma.message.create({
+      const toolCallMessage = await prisma.message.create({
         data: {
           sessionId,
           sequenceNumber: assistantSequence,
           role: 'ASSISTANT',
-          content: result.response.content || '',
-          toolCalls: JSON.stringify(result.response.toolCalls),
-          providerCallId: providerCall.id,
+          content: finalResponse.content || '',
+          toolCalls: JSON.stringify(toolCalls),
+          providerCallId: finalProviderCall.id,
+          agentVersion: agent.version,
         },
       });
 
-      // Execute all tool calls
-      const toolResults = await executeToolCalls(
-        result.response.toolCalls,
+      for (const toolCall of toolCalls) {
+        onEvent?.({ type: 'tool_call', toolCall });
+      }
+
+      // Identical calls (same tool, same arguments) from an earlier iteration are not re-run
+      const freshCalls = toolCalls.filter((tc) => !previousToolCalls.has(getToolCallKey(tc)));
+      const executed = await executeToolCalls(
+        freshCalls,
         agent,
         {
           tenantId,
           sessionId,
           correlationId,
+          messageId: toolCallMessage.id,
+          signal,
         },
+        citations,
         log
       );
+      throwIfCancelled(signal);
+      const executedById = new Map(executed.map((r) => [r.id, r]));
+
+      const toolResults = toolCalls.map((toolCall) => {
+        const key = getToolCallKey(toolCall);
+        const fresh = executedById.get(toolCall.id);
+        if (fresh) {
+          previousToolCalls.set(key, fresh);
+          return fresh;
+        }
+
+        log.warn({ toolCallId: toolCall.id, toolName: toolCall.name }, 'Duplicate tool call skipped');
+        return duplicateToolResult(toolCall, previousToolCalls.get(key));
+      });
 
       // Store tool result messages
       for (const toolResult of toolResults) {
+        onEvent?.({ type: 'tool_result', ...toolResult });
+
         const toolSequence = await getNextSequenceNumber(sessionId);
         await prisma.message.create({
           data: {
             sessionId,
             sequenceNumber: toolSequence,
             role: 'TOOL',
-            content: JSON.stringify({
-              id: toolResult.id,
-              result: toolResult.result,
-              error: toolResult.error,
-            }),
+            content: JSON.stringify(toolResult),
+            agentVersion: agent.version,
           },
         });
       }
 
-      // Load updated conversation history including tool results
-      const updatedHistory = await loadConversationHistory(sessionId);
-
-      // Build new provider request with tool results
-      const toolResultRequest = buildProviderRequest(agent, updatedHistory, '');
-
-      log.info('Calling provider with tool results');
-
-      // Call provider again with tool results
-      const finalResult = await executeWithResilience(toolResultRequest, {
-        primaryProvider: agent.primaryProvider,
-        fallbackProvider: agent.fallbackProvider,
-        correlationId,
-      });
-
-      // Store final provider call
-      finalProviderCall = await prisma.providerCall.create({
-        data: {
-          sessionId,
-          correlationId,
-          provider: finalResult.provider,
-          isFallback: finalResult.isFallback,
-          tokensIn: finalResult.response?.tokensIn ?? 0,
-          tokensOut: finalResult.response?.tokensOut ?? 0,
-          latencyMs: finalResult.latencyMs,
-          status: finalResult.success ? 'SUCCESS' : getProviderCallStatus(finalResult.error?.code),
-          errorCode: finalResult.error?.code,
-          errorMessage: finalResult.error?.message,
-          attemptNumber: finalResult.attemptNumber,
-        },
-      });
+      // The model is repeating itself (or is out of iterations): ask for a final
+      // answer with tools withheld so the loop always ends in plain content
+      const repeating = freshCalls.length === 0;
+      const lastIteration = iteration >= agent.maxToolIterations;
+      if (repeating) {
+        log.warn({ iteration }, 'Only duplicate tool calls, requesting final answer');
+      }
 
-      log.info(
-        {
-          providerCallId: finalProviderCall.id,
-          provider: finalProviderCall.provider,
-          status: finalProviderCall.status,
-        },
-        'Final provider call record stored'
+      // Rebuild the context including tool results
+      const nextTools = repeating || lastIteration ? [] : tools;
+      const updatedContext = await buildConversationContext(
+        sessionId,
+        agent,
+        nextTools,
+        summarize,
+        log
+      );
+      const toolResultRequest = buildProviderRequest(
+        agent,
+        updatedContext,
+        nextTools,
+        responseSchema
       );
 
-      if (!finalResult.success || !finalResult.response) {
-        log.error({ error: finalResult.error }, 'Final provider call failed');
-        throw new ValidationError(
-          finalResult.error?.message || 'Failed to get final response from AI provider'
-        );
-      }
+      log.info({ iteration }, 'Calling provider with tool results');
+      ({ response: finalResponse, providerCall: finalProviderCall, structuredOutput } =
+        await callProvider(toolResultRequest));
 
-      finalResponse = finalResult.response;
+      if (repeating) {
+        break;
+      }
     }
 
     // Step 9: Store final assistant message
@@ -286,219 +506,112 @@ export async function sendMessage(
         role: 'ASSISTANT',
         content: finalResponse.content,
         toolCalls: finalResponse.toolCalls ? JSON.stringify(finalResponse.toolCalls) : undefined,
+        structuredOutput: structuredOutput as Prisma.InputJsonValue | undefined,
+        citations: toMessageCitations(citations, finalResponse.content),
         providerCallId: finalProviderCall.id,
+        agentVersion: agent.version,
       },
       include: {
         providerCall: true,
       },
     });
 
-    log.info({ assistantMessageId: assistantMessage.id }, 'Assistant message stored');
-
-    // Step 10: Create usage events (only for successful calls, skip demo sessions)
-    // If tools were used, we need to bill for BOTH provider calls:
-    // 1. Initial call that returned tool calls
-    // 2. Final call with tool results
-    if (initialProviderCall) {
-      log.info('Creating usage event for initial provider call (with tool calls)');
-      await createUsageEvent(
-        tenantId,
-        agent.id,
-        sessionId,
-        session.demoMode,
-        initialProviderCall
-      );
-    }
-
-    // Always bill for the final provider call
-    log.info('Creating usage event for final provider call');
-    await createUsageEvent(
-      tenantId,
-      agent.id,
-      sessionId,
-      session.demoMode,
-      finalProviderCall
+    log.info(
+      { assistantMessageId: assistantMessage.id, toolIterations: iteration },
+      'Assistant message stored'
     );
 
+    // Step 10: Warn once per period when a soft budget limit is crossed
+    const budgetWarnings = session.demoMode ? [] : await checkSoftLimits(tenantId, agent.id);
+    for (const warning of budgetWarnings) {
+      onEvent?.({ type: 'budget_warning', ...warning });
+    }
+
     log.info('Message processing completed successfully');
 
-    return formatMessageResponse(assistantMessage);
-  }, log);
+    return formatMessageResponse(assistantMessage, budgetWarnings);
+  }), log);
 }
 
 /**
- * Acquire session lock to prevent concurrent message processing
- *
- * Current: In-memory locks (works for single server)
- * Future: PostgreSQL advisory locks (works for multiple servers)
- *
- * To enable multi-server support:
- * 1. Uncomment the PostgreSQL implementation below
- * 2. Comment out the in-memory implementation
- * 3. Test with concurrent requests across multiple servers
+ * Cancel the message being processed on a session
+ * Aborts its provider calls and tool executions and resolves once the turn has ended and
+ * released the session lock. Only turns running on this instance can be cancelled.
  */
+export async function cancelMessage(tenantId: string, sessionId: string): Promise<boolean> {
+  // Verify session belongs to tenant
+  await getSessionById(tenantId, sessionId);
 
-// ============================================================================
-// OPTION A: In-memory locks (CURRENT - Single Server)
-// ============================================================================
-
-const sessionLocks = new Map<string, { locked: boolean; timestamp: number }>();
-const LOCK_CLEANUP_INTERVAL = 30000;
-
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, lock] of sessionLocks.entries()) {
-    if (lock.locked && now - lock.timestamp > config.session.lockTimeoutMs) {
-      logger.warn({ sessionLockKey: key }, 'Cleaning up stale session lock');
-      sessionLocks.delete(key);
-    }
-  }
-}, LOCK_CLEANUP_INTERVAL);
-
-async function withSessionLock<T>(
-  lockKey: bigint,
-  fn: () => Promise<T>,
-  log: pino.Logger
-): Promise<T> {
-  const lockKeyStr = lockKey.toString();
-
-  const existing = sessionLocks.get(lockKeyStr);
-  if (existing?.locked) {
-    log.warn('Failed to acquire session lock');
-    throw new ConflictError('Session is currently processing another message. Please retry.');
-  }
-
-  sessionLocks.set(lockKeyStr, { locked: true, timestamp: Date.now() });
-  log.debug('Session lock acquired (in-memory)');
-
-  try {
-    return await fn();
-  } finally {
-    sessionLocks.delete(lockKeyStr);
-    log.debug('Session lock released');
+  const turn = activeTurns.get(sessionId);
+  if (!turn) {
+    return false;
   }
-}
 
-// ============================================================================
-// OPTION B: PostgreSQL Advisory Locks (MULTI-SERVER - Uncomment to use)
-// ============================================================================
-
-/*
-import crypto from 'crypto';
-
-function hashSessionIdToBigInt(sessionId: string): bigint {
-  const hash = crypto.createHash('sha256').update(sessionId).digest();
-  return hash.readBigInt64BE(0);
+  logger.info({ tenantId, sessionId }, 'Cancelling in-flight message');
+  turn.controller.abort();
+  await turn.done;
+  return true;
 }
 
-async function withSessionLock<T>(
-  lockKey: bigint,
-  fn: () => Promise<T>,
-  log: pino.Logger
-): Promise<T> {
-  // Use transaction-scoped advisory lock (auto-releases on commit)
-  return await prisma.$transaction(async (tx) => {
-    // Try to acquire lock (non-blocking, transaction-scoped)
-    const acquired = await tx.$queryRaw<[{ pg_try_advisory_xact_lock: boolean }]>`
-      SELECT pg_try_advisory_xact_lock(${lockKey})
-    `;
-
-    if (!acquired[0].pg_try_advisory_xact_lock) {
-      log.warn('Failed to acquire session lock');
-      throw new ConflictError('Session is currently processing another message. Please retry.');
-    }
-
-    log.debug('Session lock acquired (PostgreSQL transaction-scoped)');
-
-    // Execute function - lock auto-releases when transaction commits
-    return await fn();
-  }, {
-    timeout: config.session.lockTimeoutMs,
-    maxWait: 5000, // Wait up to 5s to get a connection from pool
-  });
-}
-*/
-
 /**
- * Load conversation history for context
+ * Run a turn that cancelMessage or any of the caller's signals can abort
  */
-async function loadConversationHistory(sessionId: string): Promise<ConversationMessage[]> {
-  const messages = await prisma.message.findMany({
-    where: { sessionId },
-    orderBy: { sequenceNumber: 'asc' },
-    take: config.session.maxHistoryMessages,
-  });
+async function withActiveTurn<T>(
+  sessionId: string,
+  callerSignals: Array<AbortSignal | undefined>,
+  fn: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  for (const callerSignal of callerSignals) {
+    callerSignal?.addEventListener('abort', abort, { once: true });
+    // The caller may have gone away while waiting for the lock
+    if (callerSignal?.aborted) {
+      controller.abort();
+    }
+  }
 
-  return messages.map((msg) => {
-    const baseMsg: ConversationMessage = {
-      role: msg.role.toLowerCase() as ConversationMessage['role'],
-      content: msg.content,
-    };
+  const done = (async () => {
+    throwIfCancelled(controller.signal);
+    return fn(controller.signal);
+  })();
+  const turn: ActiveTurn = { controller, done: done.then(() => undefined, () => undefined) };
+  activeTurns.set(sessionId, turn);
 
-    // Parse tool calls for assistant messages
-    if (msg.role === 'ASSISTANT' && msg.toolCalls) {
-      baseMsg.toolCalls = JSON.parse(msg.toolCalls as string) as ToolCall[];
+  try {
+    return await done;
+  } finally {
+    for (const callerSignal of callerSignals) {
+      callerSignal?.removeEventListener('abort', abort);
     }
-
-    // Parse tool results for tool messages
-    if (msg.role === 'TOOL') {
-      const toolData = JSON.parse(msg.content) as { id: string; result: unknown; error?: string };
-      baseMsg.toolResults = [
-        {
-          id: toolData.id,
-          result: toolData.result,
-          error: toolData.error,
-        },
-      ];
+    if (activeTurns.get(sessionId) === turn) {
+      activeTurns.delete(sessionId);
     }
+  }
+}
 
-    return baseMsg;
-  });
+function throwIfCancelled(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw new CancelledError('Message was cancelled');
+  }
 }
 
 /**
- * Build provider request from agent config and history
+ * Build provider request from agent config and the budgeted conversation context
  */
 function buildProviderRequest(
   agent: Agent,
-  history: ConversationMessage[],
-  newMessage: string
+  context: ConversationContext,
+  tools: ToolDefinition[],
+  responseSchema: Record<string, unknown> | undefined
 ): ProviderRequest {
-  // Get tool definitions if any tools are enabled
-  const enabledTools = agent.enabledTools as string[];
-  let tools: ToolDefinition[] | undefined;
-
-  if (enabledTools.length > 0) {
-    // For now, just InvoiceLookup - tool registry will be implemented later
-    tools = enabledTools.includes('InvoiceLookup')
-      ? [
-          {
-            name: 'InvoiceLookup',
-            description: 'Look up invoice or order details by order ID',
-            parameters: {
-              type: 'object',
-              properties: {
-                orderId: {
-                  type: 'string',
-                  description: 'The order ID to look up',
-                },
-              },
-              required: ['orderId'],
-            },
-          },
-        ]
-      : undefined;
-  }
-
   return {
-    systemPrompt: agent.systemPrompt,
+    systemPrompt: context.systemPrompt,
     temperature: agent.temperature,
     maxTokens: agent.maxTokens,
-    messages: [
-      ...history,
-      { role: 'user', content: newMessage },
-    ],
-    tools,
+    messages: context.messages,
+    tools: tools.length > 0 ? tools : undefined,
+    responseSchema,
   };
 }
 
@@ -539,7 +652,8 @@ async function findByIdempotencyKey(
 
 /**
  * Create usage event for billing
- * Only called for successful provider calls
+ * Bills provider calls that returned an answer, including answers rejected by the
+ * response schema
  *
  * Uses optimistic locking to prevent double-billing race conditions
  */
@@ -548,7 +662,8 @@ async function createUsageEvent(
   agentId: string,
   sessionId: string,
   demoMode: boolean,
-  providerCall: ProviderCall
+  providerCall: ProviderCall,
+  answered: boolean
 ): Promise<void> {
   // Skip billing for demo sessions
   if (demoMode) {
@@ -556,16 +671,25 @@ async function createUsageEvent(
     return;
   }
 
-  // Only bill successful calls
-  if (providerCall.status !== 'SUCCESS') {
-    logger.debug({ providerCallId: providerCall.id }, 'Skipping usage event for non-successful call');
+  // Only bill calls that returned an answer; answers rejected by the response schema
+  // were generated all the same
+  if (!answered) {
+    logger.debug({ providerCallId: providerCall.id }, 'Skipping usage event for call without an answer');
     return;
   }
 
-  const costCents = calculateCost(
+  // Price at the rate that applied when the call was made, not when it's billed
+  const pricing = await resolvePricing(
+    tenantId,
     providerCall.provider,
+    providerCall.model,
+    providerCall.createdAt
+  );
+  const costCents = calculateCostWithRate(
+    pricing,
     providerCall.tokensIn,
-    providerCall.tokensOut
+    providerCall.tokensOut,
+    pricing.markupPercent
   );
 
   logger.info(
@@ -578,6 +702,7 @@ async function createUsageEvent(
       tokensOut: providerCall.tokensOut,
       totalTokens: providerCall.tokensIn + providerCall.tokensOut,
       costCents,
+      pricingSource: pricing.source,
     },
     'Creating usage event'
   );
@@ -620,7 +745,7 @@ async function createUsageEvent(
           tokensOut: providerCall.tokensOut,
           totalTokens: providerCall.tokensIn + providerCall.tokensOut,
           costCents,
-          pricingSnapshot: getPricingSnapshot(providerCall.provider) as object,
+          pricingSnapshot: pricing as object,
         },
       });
 
@@ -642,6 +767,119 @@ async function createUsageEvent(
   }
 }
 
+/**
+ * Store the record of a provider call (successful or not)
+ */
+async function recordProviderCall(
+  sessionId: string,
+  correlationId: string,
+  agentVersion: number,
+  result: ProviderCallResult,
+  purpose: ProviderCallPurpose,
+  captured: CapturedBodies | undefined,
+  log: pino.Logger,
+  cacheChecked = false
+): Promise<ProviderCall> {
+  const providerCall = await prisma.providerCall.create({
+    data: {
+      sessionId,
+      correlationId,
+      provider: result.provider,
+      model: result.response?.model,
+      isFallback: result.isFallback,
+      purpose,
+      tokensIn: result.response?.tokensIn ?? 0,
+      tokensOut: result.response?.tokensOut ?? 0,
+      latencyMs: result.latencyMs,
+      status: result.success ? 'SUCCESS' : getProviderCallStatus(result.error?.code),
+      errorCode: result.error?.code,
+      errorMessage: result.error?.message,
+      attemptNumber: result.attemptNumber,
+      circuitState: result.circuitState,
+      shortCircuited: result.shortCircuited ?? false,
+      routingPolicy: result.routing?.policy,
+      routingReason: result.routing?.reason,
+      isHedge: result.isHedge ?? false,
+      cacheChecked,
+      agentVersion,
+      ...captured,
+    },
+  });
+
+  log.info(
+    {
+      providerCallId: providerCall.id,
+      provider: providerCall.provider,
+      purpose: providerCall.purpose,
+      status: providerCall.status,
+      tokensIn: providerCall.tokensIn,
+      tokensOut: providerCall.tokensOut,
+      latencyMs: providerCall.latencyMs,
+    },
+    'Provider call record stored'
+  );
+
+  return providerCall;
+}
+
+/**
+ * Store the record of an answer replayed from the response cache (no tokens are billed)
+ */
+async function recordCacheHit(
+  sessionId: string,
+  correlationId: string,
+  agentVersion: number,
+  cached: CachedResponse,
+  latencyMs: number,
+  log: pino.Logger
+): Promise<ProviderCall> {
+  const providerCall = await prisma.providerCall.create({
+    data: {
+      sessionId,
+      correlationId,
+      provider: cached.provider,
+      model: cached.response.model,
+      purpose: 'CHAT',
+      tokensIn: 0,
+      tokensOut: 0,
+      latencyMs,
+      status: 'CACHE_HIT',
+      cacheChecked: true,
+      agentVersion,
+    },
+  });
+
+  log.info(
+    { providerCallId: providerCall.id, provider: providerCall.provider },
+    'Answered from response cache'
+  );
+
+  return providerCall;
+}
+
+/**
+ * Identity of a tool call for duplicate detection: tool name plus canonical arguments
+ */
+function getToolCallKey(toolCall: ToolCall): string {
+  return `${toolCall.name}:${canonicalJson(toolCall.args)}`;
+}
+
+/**
+ * Result returned to the model for a repeated call instead of running the tool again
+ */
+function duplicateToolResult(toolCall: ToolCall, previous: ToolResult | undefined): ToolResult {
+  return {
+    id: toolCall.id,
+    result: null,
+    error: `Duplicate call: '${toolCall.name}' was already called with the same arguments`,
+    errorCode: 'DUPLICATE_TOOL_CALL',
+    errorDetails: {
+      previousResult: previous?.result ?? null,
+      ...(previous?.error !== undefined && { previousError: previous.error }),
+    },
+  };
+}
+
 /**
  * Get provider call status from error code
  */
@@ -651,6 +889,8 @@ function getProviderCallStatus(errorCode?: string): ProviderCallStatus {
       return 'TIMEOUT';
     case 'RATE_LIMITED':
       return 'RATE_LIMITED';
+    case 'CANCELLED':
+      return 'CANCELLED';
     default:
       return 'FAILED';
   }
@@ -660,7 +900,8 @@ function getProviderCallStatus(errorCode?: string): ProviderCallStatus {
  * Format message for API response
  */
 function formatMessageResponse(
-  message: Message & { providerCall: ProviderCall | null }
+  message: Message & { providerCall: ProviderCall | null },
+  budgetWarnings: BudgetWarning[] = []
 ): MessageResponse {
   const pc = message.providerCall;
 
@@ -670,6 +911,8 @@ function formatMessageResponse(
     role: message.role,
     content: message.content,
     toolCalls: message.toolCalls ? JSON.parse(message.toolCalls as string) : null,
+    structuredOutput: message.structuredOutput,
+    citations: message.citations,
     createdAt: message.createdAt,
     metadata: {
       provider: pc?.provider ?? 'UNKNOWN',
@@ -678,23 +921,28 @@ function formatMessageResponse(
       latencyMs: pc?.latencyMs ?? 0,
       correlationId: pc?.correlationId ?? '',
       usedFallback: pc?.isFallback ?? false,
+      cacheHit: pc?.status === 'CACHE_HIT',
+      agentVersion: message.agentVersion,
     },
+    budgetWarnings,
   };
 }
 
 /**
  * Execute tool calls
+ * Calls run concurrently (up to agent.maxParallelTools), each with its own timeout
+ * and abort signal from the registry; results keep the order of toolCalls
  */
 async function executeToolCalls(
   toolCalls: ToolCall[],
   agent: Agent,
-  context: { tenantId: string; sessionId: string; correlationId: string },
+  context: ToolContext,
+  citations: ToolCitation[],
   log: pino.Logger
-): Promise<Array<{ id: string; result: unknown; error?: string }>> {
+): Promise<ToolResult[]> {
   const enabledTools = agent.enabledTools as string[];
-  const results: Array<{ id: string; result: unknown; error?: string }> = [];
 
-  for (const toolCall of toolCalls) {
+  return mapWithConcurrency(toolCalls, agent.maxParallelTools, async (toolCall) => {
     log.info(
       { toolCallId: toolCall.id, toolName: toolCall.name },
       'Executing tool call'
@@ -708,12 +956,6 @@ async function executeToolCalls(
         enabledTools
       );
 
-      results.push({
-        id: toolCall.id,
-        result: toolResult.success ? toolResult.data : null,
-        error: toolResult.error,
-      });
-
       log.info(
         {
           toolCallId: toolCall.id,
@@ -721,6 +963,15 @@ async function executeToolCalls(
         },
         'Tool call executed'
       );
+      citations.push(...(toolResult.citations ?? []));
+
+      return {
+        id: toolCall.id,
+        result: toolResult.success ? toolResult.data : null,
+        error: toolResult.error,
+        errorCode: toolResult.errorCode,
+        errorDetails: toolResult.errorDetails,
+      };
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
       log.error(
@@ -728,15 +979,38 @@ async function executeToolCalls(
         'Tool call failed'
       );
 
-      results.push({
+      return {
         id: toolCall.id,
         result: null,
         error: errorMsg,
-      });
+        errorCode: getToolErrorCode(error),
+      };
     }
+  });
+}
+
+/**
+ * Chunks retrieved during a turn, once each, flagged when the answer cites their ref
+ */
+function toMessageCitations(
+  citations: ToolCitation[],
+  answer: string
+): Prisma.InputJsonValue | undefined {
+  if (citations.length === 0) {
+    return undefined;
   }
 
-  return results;
+  const unique = new Map(citations.map((c) => [c.chunkId, c]));
+  return [...unique.values()].map((c) => ({ ...c, cited: answer.includes(c.ref) }));
+}
+
+/**
+ * Map a registry rejection to the structured tool error code sent to the model
+ */
+function getToolErrorCode(error: unknown): string {
+  if (error instanceof NotFoundError) return 'TOOL_NOT_FOUND';
+  if (error instanceof ForbiddenError) return 'TOOL_NOT_ENABLED';
+  return 'EXECUTION_FAILED';
 }
 
 /**
@@ -760,3 +1034,37 @@ export async function getSessionMessages(
     orderBy: { sequenceNumber: 'asc' },
   });
 }
+
+/**
+ * Record explicit feedback on an assistant message (replaces earlier feedback)
+ */
+export async function recordMessageFeedback(
+  tenantId: string,
+  sessionId: string,
+  messageId: string,
+  input: MessageFeedbackInput
+): Promise<Message> {
+  // Verify session belongs to tenant
+  await getSessionById(tenantId, sessionId);
+
+  const message = await prisma.message.findFirst({
+    where: { id: messageId, sessionId },
+  });
+
+  if (!message) {
+    throw new NotFoundError('Message');
+  }
+
+  if (message.role !== 'ASSISTANT') {
+    throw new ValidationError('Feedback can only be given on assistant messages');
+  }
+
+  return prisma.message.update({
+    where: { id: messageId },
+    data: {
+      feedback: input.feedback,
+      feedbackComment: input.comment ?? null,
+      feedbackAt: new Date(),
+    },
+  });
+}
@@ -0,0 +1,381 @@
+/**
+ * Pricing service
+ * Database-backed pricing catalog:
+ * - Plans with effective-dated per-provider / per-model rates and a markup
+ * - Per-tenant plan assignment, markup override and rate overrides
+ * - Resolution of the rate that applied at the time of a provider call
+ *
+ * Rates are append-only. Adding a rate closes the one it replaces, so usage can be
+ * re-priced for any past instant and already-billed events keep their snapshot.
+ */
+
+import { PricingPlan, PricingRate, ProviderType, Prisma } from '@prisma/client';
+import { prisma } from '../utils/db.js';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors.js';
+import {
+  PRICING,
+  findEffectiveRate,
+  type PricingSnapshot,
+} from '../config/pricing.js';
+import type {
+  CreatePricingPlanInput,
+  UpdatePricingPlanInput,
+  CreatePricingRateInput,
+  UpdateTenantPricingInput,
+} from '../schemas/index.js';
+
+// Clock skew allowed when a rate is scheduled "now"
+const EFFECTIVE_FROM_TOLERANCE_MS = 60 * 1000;
+
+export type RateScope = { planId: string } | { tenantId: string };
+
+export interface TenantPricing {
+  tenantId: string;
+  plan: PricingPlan | null;
+  planIsDefault: boolean;
+  markupPercent: number;
+  markupOverridden: boolean;
+  overrides: PricingRate[];
+}
+
+/**
+ * Resolve the pricing that applied to a call
+ * Order: tenant override rate > tenant's plan (or the default plan) > built-in list price
+ * The markup (tenant override, else plan) is applied on top of whichever rate is used
+ */
+export async function resolvePricing(
+  tenantId: string,
+  provider: ProviderType,
+  model: string | null | undefined,
+  at: Date
+): Promise<PricingSnapshot> {
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { pricingPlanId: true, pricingMarkupPercent: true },
+  });
+
+  const plan = await getEffectivePlan(tenant?.pricingPlanId ?? null);
+  const markupPercent = tenant?.pricingMarkupPercent ?? plan?.markupPercent ?? 0;
+
+  const base = {
+    provider,
+    model: model ?? null,
+    markupPercent,
+    pricedAt: at.toISOString(),
+  };
+
+  const [overrides, planRates] = await Promise.all([
+    findRatesInEffect({ tenantId }, provider, at),
+    plan ? findRatesInEffect({ planId: plan.id }, provider, at) : Promise.resolve([]),
+  ]);
+
+  const override = findEffectiveRate(overrides, model, at);
+  if (override) {
+    return {
+      ...base,
+      ...toSnapshotRate(override),
+      source: 'TENANT_OVERRIDE',
+      planId: plan?.id ?? null,
+    };
+  }
+
+  const planRate = findEffectiveRate(planRates, model, at);
+  if (planRate) {
+    return {
+      ...base,
+      ...toSnapshotRate(planRate),
+      source: 'PLAN',
+      planId: plan!.id,
+    };
+  }
+
+  return {
+    ...base,
+    ...PRICING[provider],
+    source: 'DEFAULT',
+    planId: plan?.id ?? null,
+    rateId: null,
+    effectiveFrom: null,
+  };
+}
+
+// ============================================================================
+// Plans
+// ============================================================================
+
+/**
+ * List plans with their rates (newest first)
+ */
+export async function listPlans(): Promise<Array<PricingPlan & { rates: PricingRate[] }>> {
+  return prisma.pricingPlan.findMany({
+    include: { rates: { orderBy: [{ provider: 'asc' }, { effectiveFrom: 'desc' }] } },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Get a plan by ID with its rates
+ */
+export async function getPlan(planId: string): Promise<PricingPlan & { rates: PricingRate[] }> {
+  const plan = await prisma.pricingPlan.findUnique({
+    where: { id: planId },
+    include: { rates: { orderBy: [{ provider: 'asc' }, { effectiveFrom: 'desc' }] } },
+  });
+
+  if (!plan) {
+    throw new NotFoundError('Pricing plan');
+  }
+
+  return plan;
+}
+
+/**
+ * Create a plan; making it the default demotes the previous default
+ */
+export async function createPlan(input: CreatePricingPlanInput): Promise<PricingPlan> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      if (input.isDefault) {
+        await tx.pricingPlan.updateMany({ where: { isDefault: true }, data: { isDefault: false } });
+      }
+
+      return tx.pricingPlan.create({
+        data: {
+          name: input.name,
+          description: input.description,
+          markupPercent: input.markupPercent,
+          isDefault: input.isDefault,
+        },
+      });
+    });
+  } catch (error) {
+    throw mapUniqueViolation(error);
+  }
+}
+
+/**
+ * Update a plan's name, description, markup or default flag
+ */
+export async function updatePlan(
+  planId: string,
+  input: UpdatePricingPlanInput
+): Promise<PricingPlan> {
+  await getPlan(planId);
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      if (input.isDefault) {
+        await tx.pricingPlan.updateMany({
+          where: { isDefault: true, id: { not: planId } },
+          data: { isDefault: false },
+        });
+      }
+
+      return tx.pricingPlan.update({
+        where: { id: planId },
+        data: {
+          ...(input.name !== undefined && { name: input.name }),
+          ...(input.description !== undefined && { description: input.description }),
+          ...(input.markupPercent !== undefined && { markupPercent: input.markupPercent }),
+          ...(input.isDefault !== undefined && { isDefault: input.isDefault }),
+        },
+      });
+    });
+  } catch (error) {
+    throw mapUniqueViolation(error);
+  }
+}
+
+// ============================================================================
+// Rates
+// ============================================================================
+
+/**
+ * Add an effective-dated rate to a plan or as a tenant override
+ * The currently open rate for the same provider/model is closed at effectiveFrom
+ */
+export async function addRate(
+  scope: RateScope,
+  input: CreatePricingRateInput
+): Promise<PricingRate> {
+  const effectiveFrom = input.effectiveFrom ? new Date(input.effectiveFrom) : new Date();
+  const model = input.model ?? null;
+
+  // Past rates would silently re-price calls that may already be billed
+  if (effectiveFrom.getTime() < Date.now() - EFFECTIVE_FROM_TOLERANCE_MS) {
+    throw new ValidationError('Invalid rate', [
+      { field: 'effectiveFrom', message: 'effectiveFrom cannot be in the past' },
+    ]);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const sameSeries = { ...scope, provider: input.provider, model };
+
+    const scheduledLater = await tx.pricingRate.findFirst({
+      where: { ...sameSeries, effectiveFrom: { gte: effectiveFrom } },
+    });
+    if (scheduledLater) {
+      throw new ConflictError(
+        `A rate for ${input.provider}${model ? `/${model}` : ''} is already scheduled from ${scheduledLater.effectiveFrom.toISOString()}`
+      );
+    }
+
+    await tx.pricingRate.updateMany({
+      where: {
+        ...sameSeries,
+        OR: [{ effectiveTo: null }, { effectiveTo: { gt: effectiveFrom } }],
+      },
+      data: { effectiveTo: effectiveFrom },
+    });
+
+    return tx.pricingRate.create({
+      data: {
+        ...sameSeries,
+        inputPricePerKTokens: input.inputPricePerKTokens,
+        outputPricePerKTokens: input.outputPricePerKTokens,
+        effectiveFrom,
+      },
+    });
+  });
+}
+
+/**
+ * Delete a rate that hasn't taken effect yet and reopen the one it replaced
+ */
+export async function deleteScheduledRate(scope: RateScope, rateId: string): Promise<void> {
+  const rate = await prisma.pricingRate.findFirst({ where: { id: rateId, ...scope } });
+
+  if (!rate) {
+    throw new NotFoundError('Pricing rate');
+  }
+
+  if (rate.effectiveFrom <= new Date()) {
+    throw new ConflictError('Rate is already in effect; add a new rate to replace it');
+  }
+
+  await prisma.$transaction([
+    prisma.pricingRate.updateMany({
+      where: {
+        ...scope,
+        provider: rate.provider,
+        model: rate.model,
+        effectiveTo: rate.effectiveFrom,
+      },
+      data: { effectiveTo: rate.effectiveTo },
+    }),
+    prisma.pricingRate.delete({ where: { id: rate.id } }),
+  ]);
+}
+
+// ============================================================================
+// Tenant pricing
+// ============================================================================
+
+/**
+ * Get a tenant's plan, markup and current override rates
+ */
+export async function getTenantPricing(tenantId: string): Promise<TenantPricing> {
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { id: true, pricingPlanId: true, pricingMarkupPercent: true },
+  });
+
+  if (!tenant) {
+    throw new NotFoundError('Tenant');
+  }
+
+  const plan = await getEffectivePlan(tenant.pricingPlanId);
+  const now = new Date();
+  const overrides = await prisma.pricingRate.findMany({
+    where: { tenantId, OR: [{ effectiveTo: null }, { effectiveTo: { gt: now } }] },
+    orderBy: [{ provider: 'asc' }, { effectiveFrom: 'asc' }],
+  });
+
+  return {
+    tenantId,
+    plan,
+    planIsDefault: !tenant.pricingPlanId && !!plan,
+    markupPercent: tenant.pricingMarkupPercent ?? plan?.markupPercent ?? 0,
+    markupOverridden: tenant.pricingMarkupPercent !== null,
+    overrides,
+  };
+}
+
+/**
+ * Assign a plan and/or markup override to a tenant (null resets to the default)
+ */
+export async function updateTenantPricing(
+  tenantId: string,
+  input: UpdateTenantPricingInput
+): Promise<TenantPricing> {
+  const tenant = await prisma.tenant.findUnique({ where: { id: tenantId } });
+  if (!tenant) {
+    throw new NotFoundError('Tenant');
+  }
+
+  if (input.pricingPlanId) {
+    await getPlan(input.pricingPlanId);
+  }
+
+  await prisma.tenant.update({
+    where: { id: tenantId },
+    data: {
+      ...(input.pricingPlanId !== undefined && { pricingPlanId: input.pricingPlanId }),
+      ...(input.markupPercent !== undefined && { pricingMarkupPercent: input.markupPercent }),
+    },
+  });
+
+  return getTenantPricing(tenantId);
+}
+
+/**
+ * Ensure a tenant exists before adding overrides for it
+ */
+export async function assertTenantExists(tenantId: string): Promise<void> {
+  const count = await prisma.tenant.count({ where: { id: tenantId } });
+  if (count === 0) {
+    throw new NotFoundError('Tenant');
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function getEffectivePlan(pricingPlanId: string | null): Promise<PricingPlan | null> {
+  if (pricingPlanId) {
+    return prisma.pricingPlan.findUnique({ where: { id: pricingPlanId } });
+  }
+  return prisma.pricingPlan.findFirst({ where: { isDefault: true } });
+}
+
+async function findRatesInEffect(
+  scope: RateScope,
+  provider: ProviderType,
+  at: Date
+): Promise<PricingRate[]> {
+  return prisma.pricingRate.findMany({
+    where: {
+      ...scope,
+      provider,
+      effectiveFrom: { lte: at },
+      OR: [{ effectiveTo: null }, { effectiveTo: { gt: at } }],
+    },
+  });
+}
+
+function toSnapshotRate(rate: PricingRate) {
+  return {
+    inputPricePerKTokens: rate.inputPricePerKTokens,
+    outputPricePerKTokens: rate.outputPricePerKTokens,
+    rateId: rate.id,
+    effectiveFrom: rate.effectiveFrom.toISOString(),
+  };
+}
+
+function mapUniqueViolation(error: unknown): unknown {
+  if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+    return new ConflictError('A pricing plan with this name already exists');
+  }
+  return error;
+}
@@ -0,0 +1,70 @@
+/**
+ * Provider capture service
+ * Per-tenant, opt-in storage of the vendor-format request and raw response of
+ * each provider call, redacted by the tenant's field rules and capped in size
+ */
+
+import { Prisma, Tenant } from '@prisma/client';
+import { prisma } from '../utils/db.js';
+import { capJsonSize, redactFields } from '../utils/redact.js';
+import type { ProviderExchange } from '../providers/types.js';
+import type { UpdateProviderCaptureInput } from '../schemas/index.js';
+
+export interface ProviderCaptureSettings {
+  enabled: boolean;
+  redactions: string[];
+  maxBodyBytes: number;
+}
+
+export interface CapturedBodies {
+  requestBody: Prisma.InputJsonValue;
+  responseBody: Prisma.InputJsonValue | typeof Prisma.JsonNull;
+}
+
+export async function getProviderCaptureSettings(tenantId: string): Promise<ProviderCaptureSettings> {
+  const tenant = await prisma.tenant.findUniqueOrThrow({ where: { id: tenantId } });
+  return toSettings(tenant);
+}
+
+/**
+ * Update capture settings (omitted fields are unchanged)
+ */
+export async function updateProviderCaptureSettings(
+  tenantId: string,
+  input: UpdateProviderCaptureInput
+): Promise<ProviderCaptureSettings> {
+  const tenant = await prisma.tenant.update({
+    where: { id: tenantId },
+    data: {
+      ...(input.enabled !== undefined && { captureProviderBodies: input.enabled }),
+      ...(input.redactions !== undefined && { providerCaptureRedactions: input.redactions }),
+      ...(input.maxBodyBytes !== undefined && { providerCaptureMaxBytes: input.maxBodyBytes }),
+    },
+  });
+
+  return toSettings(tenant);
+}
+
+/**
+ * Redact and cap an exchange for storage on the ProviderCall record
+ */
+export function toCapturedBodies(
+  exchange: ProviderExchange,
+  settings: ProviderCaptureSettings
+): CapturedBodies {
+  const prepare = (body: unknown) =>
+    capJsonSize(redactFields(body, settings.redactions), settings.maxBodyBytes) as Prisma.InputJsonValue;
+
+  return {
+    requestBody: prepare(exchange.request),
+    responseBody: exchange.response === undefined ? Prisma.JsonNull : prepare(exchange.response),
+  };
+}
+
+function toSettings(tenant: Tenant): ProviderCaptureSettings {
+  return {
+    enabled: tenant.captureProviderBodies,
+    redactions: tenant.providerCaptureRedactions as string[],
+    maxBodyBytes: tenant.providerCaptureMaxBytes,
+  };
+}
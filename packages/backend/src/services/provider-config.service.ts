@@ -0,0 +1,146 @@
+/**
+ * Provider config service
+ * Per-tenant connection settings for HTTP-backed providers (OPENAI_COMPATIBLE)
+ * Credentials are encrypted at rest and only decrypted to build adapters
+ */
+
+import { ProviderConfig, ProviderType } from '@prisma/client';
+import { prisma } from '../utils/db.js';
+import { encryptSecret, decryptSecret } from '../utils/crypto.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { OpenAICompatibleAdapter } from '../providers/openai-compatible.adapter.js';
+import type { ProviderAdapter } from '../providers/types.js';
+import type { UpsertProviderConfigInput } from '../schemas/index.js';
+
+// Providers that need a tenant config before agents can use them
+export const CONFIGURABLE_PROVIDERS: ProviderType[] = ['OPENAI_COMPATIBLE'];
+
+/**
+ * Create or replace a tenant's config for a provider
+ * Omitting apiKey keeps the stored credential; null clears it
+ */
+export async function upsertProviderConfig(
+  tenantId: string,
+  provider: ProviderType,
+  input: UpsertProviderConfigInput
+): Promise<ProviderConfig> {
+  assertConfigurable(provider);
+
+  const encryptedApiKey =
+    input.apiKey === undefined ? undefined : input.apiKey === null ? null : encryptSecret(input.apiKey);
+
+  return prisma.providerConfig.upsert({
+    where: { tenantId_provider: { tenantId, provider } },
+    create: {
+      tenantId,
+      provider,
+      baseUrl: input.baseUrl,
+      model: input.model,
+      encryptedApiKey: encryptedApiKey ?? null,
+    },
+    update: {
+      baseUrl: input.baseUrl,
+      model: input.model,
+      ...(encryptedApiKey !== undefined && { encryptedApiKey }),
+    },
+  });
+}
+
+/**
+ * List a tenant's provider configs
+ */
+export async function listProviderConfigs(tenantId: string): Promise<ProviderConfig[]> {
+  return prisma.providerConfig.findMany({
+    where: { tenantId },
+    orderBy: { provider: 'asc' },
+  });
+}
+
+/**
+ * Delete a tenant's config for a provider
+ */
+export async function deleteProviderConfig(
+  tenantId: string,
+  provider: ProviderType
+): Promise<void> {
+  const result = await prisma.providerConfig.deleteMany({
+    where: { tenantId, provider },
+  });
+
+  if (result.count === 0) {
+    throw new NotFoundError('Provider config');
+  }
+}
+
+/**
+ * Ensure every configurable provider an agent references has a tenant config
+ * Keys are the request fields the providers came from, used in the error details
+ */
+export async function assertProvidersConfigured(
+  tenantId: string,
+  providers: Record<string, ProviderType | null | undefined>
+): Promise<void> {
+  const required = Object.entries(providers).filter(
+    (entry): entry is [string, ProviderType] =>
+      !!entry[1] && CONFIGURABLE_PROVIDERS.includes(entry[1])
+  );
+  if (required.length === 0) {
+    return;
+  }
+
+  const configured = await prisma.providerConfig.findMany({
+    where: { tenantId, provider: { in: required.map(([, provider]) => provider) } },
+    select: { provider: true },
+  });
+  const configuredSet = new Set(configured.map((c) => c.provider));
+  const missing = required.filter(([, provider]) => !configuredSet.has(provider));
+
+  if (missing.length > 0) {
+    throw new ValidationError(
+      'Provider not configured',
+      missing.map(([field, provider]) => ({
+        field,
+        message: `Configure ${provider} via PUT /provider-configs/${provider} first`,
+      }))
+    );
+  }
+}
+
+/**
+ * Build the tenant-configured adapters an agent needs
+ * Built-in providers are left to the orchestrator
+ */
+export async function getTenantAdapters(
+  tenantId: string,
+  providers: Array<ProviderType | null | undefined>
+): Promise<Partial<Record<ProviderType, ProviderAdapter>>> {
+  const required = providers.filter(
+    (p): p is ProviderType => !!p && CONFIGURABLE_PROVIDERS.includes(p)
+  );
+  if (required.length === 0) {
+    return {};
+  }
+
+  const configs = await prisma.providerConfig.findMany({
+    where: { tenantId, provider: { in: required } },
+  });
+
+  const adapters: Partial<Record<ProviderType, ProviderAdapter>> = {};
+  for (const providerConfig of configs) {
+    adapters[providerConfig.provider] = new OpenAICompatibleAdapter({
+      baseUrl: providerConfig.baseUrl,
+      model: providerConfig.model,
+      apiKey: providerConfig.encryptedApiKey
+        ? decryptSecret(providerConfig.encryptedApiKey)
+        : undefined,
+    });
+  }
+
+  return adapters;
+}
+
+function assertConfigurable(provider: ProviderType): void {
+  if (!CONFIGURABLE_PROVIDERS.includes(provider)) {
+    throw new ValidationError(`Provider ${provider} does not take a tenant config`);
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Provider stats service
+ * Rolling latency of recent successful provider calls, used by routing policies and hedging
+ *
+ * Stats cover all tenants (the built-in vendors are shared) and are cached for
+ * config.routing.statsCacheMs so routing doesn't query on every call.
+ */
+
+import { ProviderType } from '@prisma/client';
+import { prisma } from '../utils/db.js';
+import { config } from '../config/index.js';
+import type { ProviderStatsMap } from '../providers/routing.js';
+
+let cached: { loadedAt: number; stats: ProviderStatsMap } | null = null;
+
+export async function getRecentProviderStats(): Promise<ProviderStatsMap> {
+  if (cached && Date.now() - cached.loadedAt < config.routing.statsCacheMs) {
+    return cached.stats;
+  }
+
+  const since = new Date(Date.now() - config.routing.statsWindowMs);
+  const rows = await prisma.$queryRaw<
+    Array<{
+      provider: ProviderType;
+      sample_size: bigint;
+      p90_latency_ms: number | null;
+      p95_latency_ms: number | null;
+    }>
+  >`
+    SELECT
+      provider,
+      COUNT(*) AS sample_size,
+      PERCENTILE_CONT(0.9) WITHIN GROUP (ORDER BY "latencyMs") AS p90_latency_ms,
+      PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY "latencyMs") AS p95_latency_ms
+    FROM provider_calls
+    WHERE status = 'SUCCESS'
+      AND "createdAt" >= ${since}
+    GROUP BY provider
+  `;
+
+  const stats: ProviderStatsMap = {};
+  for (const row of rows) {
+    stats[row.provider] = {
+      sampleSize: Number(row.sample_size),
+      p90LatencyMs: row.p90_latency_ms === null ? null : Math.round(row.p90_latency_ms),
+      p95LatencyMs: row.p95_latency_ms === null ? null : Math.round(row.p95_latency_ms),
+    };
+  }
+
+  cached = { loadedAt: Date.now(), stats };
+  return stats;
+}
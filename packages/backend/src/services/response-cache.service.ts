@@ -0,0 +1,112 @@
+/**
+ * Response cache service
+ * Opt-in per agent: a final answer is replayed for an identical request instead of
+ * calling the provider again. Only agents sampling at or below
+ * config.responseCache.maxTemperature are cached, since their answers aren't meant to vary.
+ *
+ * Entries are scoped to the tenant and agent and keyed on a hash of the normalized
+ * request (system prompt, the most recent messages, tools, sampling and output settings)
+ * plus the agent version, so answers of one version are never replayed for another.
+ */
+
+import { createHash } from 'crypto';
+import { Agent, Prisma, ProviderType } from '@prisma/client';
+import { prisma } from '../utils/db.js';
+import { canonicalJson } from '../utils/canonical-json.js';
+import { config } from '../config/index.js';
+import type { ProviderRequest, ProviderResponse } from '../providers/types.js';
+import type { AgentAtVersion } from './agent-version.service.js';
+
+export interface CachedResponse {
+  provider: ProviderType;
+  response: ProviderResponse;
+  structuredOutput?: unknown;
+}
+
+export function isResponseCacheable(agent: Agent): boolean {
+  return agent.responseCacheEnabled && agent.temperature <= config.responseCache.maxTemperature;
+}
+
+/**
+ * Cache key of a request; tool call ids are left out since vendors generate new ones each call
+ */
+export function getResponseCacheKey(agent: AgentAtVersion, request: ProviderRequest): string {
+  const normalized = {
+    agentVersion: agent.version,
+    systemPrompt: normalizeText(request.systemPrompt),
+    messages: request.messages.slice(-config.responseCache.historyMessages).map((m) => ({
+      role: m.role,
+      content: normalizeText(m.content),
+      toolCalls: m.toolCalls?.map((tc) => ({ name: tc.name, args: tc.args })),
+      toolResults: m.toolResults?.map(({ id: _id, ...result }) => result),
+    })),
+    tools: request.tools ?? [],
+    temperature: request.temperature,
+    maxTokens: request.maxTokens,
+    responseSchema: request.responseSchema ?? null,
+  };
+
+  return createHash('sha256').update(canonicalJson(normalized)).digest('hex');
+}
+
+/**
+ * Cached answer for a key, or null on a miss (expired entries are dropped)
+ */
+export async function getCachedResponse(
+  tenantId: string,
+  agentId: string,
+  cacheKey: string
+): Promise<CachedResponse | null> {
+  const entry = await prisma.responseCacheEntry.findUnique({
+    where: { tenantId_agentId_cacheKey: { tenantId, agentId, cacheKey } },
+  });
+  if (!entry) {
+    return null;
+  }
+
+  if (entry.expiresAt <= new Date()) {
+    await prisma.responseCacheEntry.deleteMany({ where: { id: entry.id } });
+    return null;
+  }
+
+  await prisma.responseCacheEntry.update({
+    where: { id: entry.id },
+    data: { hitCount: { increment: 1 } },
+  });
+
+  return {
+    provider: entry.provider,
+    response: entry.response as unknown as ProviderResponse,
+    structuredOutput: entry.structuredOutput ?? undefined,
+  };
+}
+
+export async function storeCachedResponse(
+  tenantId: string,
+  agent: Agent,
+  cacheKey: string,
+  cached: CachedResponse
+): Promise<void> {
+  const data = {
+    provider: cached.provider,
+    response: cached.response as unknown as Prisma.InputJsonValue,
+    structuredOutput: (cached.structuredOutput ?? Prisma.JsonNull) as
+      | Prisma.InputJsonValue
+      | typeof Prisma.JsonNull,
+    hitCount: 0,
+    expiresAt: new Date(Date.now() + agent.responseCacheTtlSeconds * 1000),
+  };
+
+  await prisma.responseCacheEntry.upsert({
+    where: { tenantId_agentId_cacheKey: { tenantId, agentId: agent.id, cacheKey } },
+    create: { tenantId, agentId: agent.id, cacheKey, ...data },
+    update: data,
+  });
+}
+
+/**
+ * Trim and collapse whitespace and ignore case, so trivially different phrasings share an entry
+ */
+function normalizeText(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
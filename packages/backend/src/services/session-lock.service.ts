@@ -0,0 +1,212 @@
+/**
+ * Session lock service
+ * Serializes message processing per session so sequence numbers and history stay ordered
+ *
+ * Two implementations, selected by config.session.lockStrategy:
+ * - memory:   per-process queue (single server only)
+ * - postgres: PostgreSQL advisory lock keyed by uuidToLockKey (safe across replicas)
+ *
+ * Both wait up to config.session.lockWaitMs for the lock, then fail with LockTimeoutError (409).
+ * A holder may keep the lock for config.session.lockTimeoutMs: then its signal is aborted, and
+ * the lock is only force-released lockReleaseGraceMs later, once the cancelled turn has unwound
+ */
+
+import type pino from 'pino';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/db.js';
+import { uuidToLockKey } from '../utils/crypto.js';
+import { LockTimeoutError } from '../utils/errors.js';
+import { config } from '../config/index.js';
+
+// PostgreSQL SQLSTATE raised when lock_timeout expires
+const PG_LOCK_NOT_AVAILABLE = '55P03';
+
+/**
+ * Run fn while holding the session's lock
+ * fn's signal is aborted when the hold expires; fn must stop writing to the session then
+ */
+export async function withSessionLock<T>(
+  sessionId: string,
+  fn: (signal: AbortSignal) => Promise<T>,
+  log: pino.Logger
+): Promise<T> {
+  const lockKey = uuidToLockKey(sessionId);
+
+  if (config.session.lockStrategy === 'postgres') {
+    return withAdvisoryLock(lockKey, fn, log);
+  }
+  return withMemoryLock(lockKey, fn, log);
+}
+
+// ============================================================================
+// In-memory lock (single server)
+// ============================================================================
+
+// Tail of each session's wait queue; resolves once every earlier holder is done
+const sessionLockQueues = new Map<string, Promise<void>>();
+
+async function withMemoryLock<T>(
+  lockKey: bigint,
+  fn: (signal: AbortSignal) => Promise<T>,
+  log: pino.Logger
+): Promise<T> {
+  const key = lockKey.toString();
+  const previous = sessionLockQueues.get(key) ?? Promise.resolve();
+
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+
+  // The next waiter proceeds only after both the previous holder and this one are done,
+  // so giving up the wait early never lets it overtake a holder that is still running
+  const tail = previous.then(() => released);
+  sessionLockQueues.set(key, tail);
+
+  let waitTimer: NodeJS.Timeout | undefined;
+  const acquired = await Promise.race([
+    previous.then(() => true),
+    new Promise<false>((resolve) => {
+      waitTimer = setTimeout(() => resolve(false), config.session.lockWaitMs);
+    }),
+  ]);
+  clearTimeout(waitTimer);
+
+  if (!acquired) {
+    release();
+    cleanupQueue(key, tail);
+    log.warn({ lockWaitMs: config.session.lockWaitMs }, 'Timed out waiting for session lock');
+    throw lockTimeoutError();
+  }
+
+  log.debug('Session lock acquired (in-memory)');
+
+  const hold = expireHold(log);
+
+  // A holder that never settles must not block the session forever
+  const staleTimer = setTimeout(() => {
+    log.warn({ lockTimeoutMs: config.session.lockTimeoutMs }, 'Releasing stale session lock');
+    release();
+  }, config.session.lockTimeoutMs + config.session.lockReleaseGraceMs);
+
+  try {
+    return await fn(hold.signal);
+  } finally {
+    hold.clear();
+    clearTimeout(staleTimer);
+    release();
+    cleanupQueue(key, tail);
+    log.debug('Session lock released');
+  }
+}
+
+function cleanupQueue(key: string, tail: Promise<void>): void {
+  void tail.then(() => {
+    if (sessionLockQueues.get(key) === tail) {
+      sessionLockQueues.delete(key);
+    }
+  });
+}
+
+// ============================================================================
+// PostgreSQL advisory lock (multi-server)
+// ============================================================================
+
+/**
+ * Hold a transaction-scoped advisory lock while fn runs
+ *
+ * The lock lives in its own interactive transaction, so it occupies one pooled
+ * connection per in-flight message; fn's queries run on other connections.
+ * lock_timeout bounds the wait. fn is aborted when the hold expires, and the
+ * transaction timeout (the hold plus the grace period) bounds how long the lock can
+ * be held before PostgreSQL releases it by rolling back.
+ */
+async function withAdvisoryLock<T>(
+  lockKey: bigint,
+  fn: (signal: AbortSignal) => Promise<T>,
+  log: pino.Logger
+): Promise<T> {
+  const lockWaitMs = Math.max(1, Math.floor(config.session.lockWaitMs));
+  let acquired = false;
+  let outcome: { value: T } | { error: unknown } | undefined;
+
+  try {
+    return await prisma.$transaction(
+      async (tx) => {
+        // SET does not accept bind parameters; lockWaitMs is a validated integer
+        await tx.$executeRawUnsafe(`SET LOCAL lock_timeout = ${lockWaitMs}`);
+        await tx.$queryRaw`SELECT pg_advisory_xact_lock(${lockKey})`;
+        acquired = true;
+
+        log.debug('Session lock acquired (PostgreSQL advisory)');
+
+        // Lock is released when the transaction commits or rolls back
+        const hold = expireHold(log);
+        try {
+          const value = await fn(hold.signal);
+          outcome = { value };
+          return value;
+        } catch (error) {
+          outcome = { error };
+          throw error;
+        } finally {
+          hold.clear();
+        }
+      },
+      {
+        maxWait: lockWaitMs, // Waiting for a pooled connection counts toward the bound
+        timeout: config.session.lockTimeoutMs + config.session.lockReleaseGraceMs,
+      }
+    );
+  } catch (error) {
+    // Errors raised by fn itself pass through unchanged
+    if (outcome && 'error' in outcome) {
+      throw outcome.error;
+    }
+    // fn finished, but only after the transaction expired: its work is stored, so
+    // report it rather than the rollback of the (empty) lock transaction
+    if (outcome) {
+      log.warn({ error }, 'Session lock expired before the holder finished');
+      return outcome.value;
+    }
+    if (!acquired && isLockWaitTimeout(error)) {
+      log.warn({ lockWaitMs }, 'Timed out waiting for session lock');
+      throw lockTimeoutError();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Signal aborted once the holder has had the lock for lockTimeoutMs
+ */
+function expireHold(log: pino.Logger): { signal: AbortSignal; clear: () => void } {
+  const controller = new AbortController();
+  const timer = setTimeout(() => {
+    log.warn({ lockTimeoutMs: config.session.lockTimeoutMs }, 'Session lock hold expired; aborting holder');
+    controller.abort();
+  }, config.session.lockTimeoutMs);
+
+  return { signal: controller.signal, clear: () => clearTimeout(timer) };
+}
+
+function isLockWaitTimeout(error: unknown): boolean {
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    // P2010: raw query failed (carries the SQLSTATE)
+    // P2024 / P2028: no pooled connection or transaction slot within maxWait
+    const meta = error.meta as { code?: string } | undefined;
+    return (
+      (error.code === 'P2010' && meta?.code === PG_LOCK_NOT_AVAILABLE) ||
+      error.code === 'P2024' ||
+      (error.code === 'P2028' && error.message.includes('Unable to start a transaction'))
+    );
+  }
+  if (error instanceof Prisma.PrismaClientUnknownRequestError) {
+    return error.message.includes(PG_LOCK_NOT_AVAILABLE) || /lock timeout/i.test(error.message);
+  }
+  return false;
+}
+
+function lockTimeoutError(): LockTimeoutError {
+  return new LockTimeoutError('Session is currently processing another message. Please retry.');
+}
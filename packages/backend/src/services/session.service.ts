@@ -3,10 +3,16 @@
  * Handles session lifecycle and transcript retrieval
  */
 
-import { Session, Message, ChannelType, SessionStatus } from '@prisma/client';
+import { Session, Message, ChannelType, SessionStatus, ProviderCall } from '@prisma/client';
 import { prisma } from '../utils/db.js';
-import { NotFoundError } from '../utils/errors.js';
+import { ConflictError, NotFoundError } from '../utils/errors.js';
 import { getAgentById } from './agent.service.js';
+import {
+  getAgentVersion,
+  resolveAgentVersion,
+  type AgentAtVersion,
+} from './agent-version.service.js';
+import { assignVariant, getRunningExperiment } from './experiment.service.js';
 import { logger } from '../utils/logger.js';
 import type { CreateSessionInput } from '../schemas/index.js';
 
@@ -22,8 +28,10 @@ export interface SessionWithMessages extends Session {
 
 
 /**
- * Create a new session
- * Reuses existing ACTIVE session for same tenant + agent + customer
+ * Create a new session, pinned to an agent version: the requested one, else the variant's
+ * while an experiment runs on the agent (not for demo sessions), else the published one
+ * Reuses existing ACTIVE session for same tenant + agent + customer; a reused session
+ * keeps its version, except demo sessions, which are restarted on the requested one
  */
 export async function createSession(
   tenantId: string,
@@ -37,8 +45,18 @@ export async function createSession(
     'Creating session'
   );
 
-  // Verify agent exists and belongs to tenant
-  await getAgentById(tenantId, input.agentId);
+  // Verify agent (and version) exist and belong to tenant
+  const agent = await getAgentById(tenantId, input.agentId);
+  if (input.agentVersion !== undefined) {
+    await getAgentVersion(tenantId, agent.id, input.agentVersion);
+  }
+
+  const experiment =
+    input.agentVersion === undefined && !input.demoMode
+      ? await getRunningExperiment(tenantId, agent.id)
+      : null;
+  const variant = experiment && assignVariant(experiment, input.customerId);
+  const agentVersion = input.agentVersion ?? variant?.version ?? agent.publishedVersion;
 
   // 1. Reuse existing ACTIVE session if present
   // For demo sessions: reuse by agent only (customer ID is always demo-{tenantId})
@@ -57,11 +75,34 @@ export async function createSession(
   });
 
   if (existingSession) {
+    const existingVersion = existingSession.agentVersion ?? agent.publishedVersion;
+
+    // Customers stay on their version unless another one is asked for
+    if (
+      existingVersion === agentVersion ||
+      (!existingSession.demoMode && input.agentVersion === undefined)
+    ) {
+      log.info(
+        { sessionId: existingSession.id, demoMode: existingSession.demoMode },
+        'Reusing existing active session'
+      );
+      return existingSession;
+    }
+
+    if (!existingSession.demoMode) {
+      throw new ConflictError(
+        `Customer has an active session on agent version ${existingVersion}; end it first`
+      );
+    }
+
     log.info(
-      { sessionId: existingSession.id, demoMode: existingSession.demoMode },
-      'Reusing existing active session'
+      { sessionId: existingSession.id, agentVersion: existingVersion },
+      'Ending demo session on another agent version'
     );
-    return existingSession;
+    await prisma.session.update({
+      where: { id: existingSession.id },
+      data: { status: 'ENDED', endedAt: new Date() },
+    });
   }
 
   // 2. Create new session
@@ -74,11 +115,23 @@ export async function createSession(
         channel: input.channel as ChannelType,
         demoMode: input.demoMode || false,
         metadata: input.metadata as object | undefined,
+        agentVersion,
+        experimentId: experiment?.id,
+        experimentVariant: variant?.name,
         status: 'ACTIVE',
       },
     });
 
-    log.info({ sessionId: session.id, demoMode: session.demoMode }, 'New session created');
+    log.info(
+      {
+        sessionId: session.id,
+        demoMode: session.demoMode,
+        agentVersion,
+        experimentId: session.experimentId,
+        experimentVariant: session.experimentVariant,
+      },
+      'New session created'
+    );
     return session;
   } catch (err: any) {
     // Handle race condition (partial unique index)
@@ -155,6 +208,29 @@ export async function getSessionById(
   return session;
 }
 
+/**
+ * Get one provider call of a session (tenant-scoped), including captured bodies
+ */
+export async function getProviderCall(
+  tenantId: string,
+  sessionId: string,
+  callId: string
+): Promise<ProviderCall> {
+  const providerCall = await prisma.providerCall.findFirst({
+    where: {
+      id: callId,
+      sessionId,
+      session: { tenantId },
+    },
+  });
+
+  if (!providerCall) {
+    throw new NotFoundError('Provider call');
+  }
+
+  return providerCall;
+}
+
 /**
  * Get session with transcript and summary
  */
@@ -224,11 +300,12 @@ export async function endSession(
 
 /**
  * Get session with agent config for message processing
+ * The agent is configured as the version the session is pinned to
  */
 export async function getSessionWithAgent(
   tenantId: string,
   sessionId: string
-): Promise<Session & { agent: NonNullable<Awaited<ReturnType<typeof getAgentById>>> }> {
+): Promise<Session & { agent: AgentAtVersion }> {
   const session = await prisma.session.findFirst({
     where: {
       id: sessionId,
@@ -247,7 +324,10 @@ export async function getSessionWithAgent(
     throw new NotFoundError('Agent');
   }
 
-  return session as Session & { agent: NonNullable<typeof session.agent> };
+  return {
+    ...session,
+    agent: await resolveAgentVersion(session.agent, session.agentVersion),
+  };
 }
 
 /**
@@ -0,0 +1,194 @@
+/**
+ * Tenant tool service
+ * Tenant-defined tools executed as HMAC-signed webhooks
+ * Signing secrets are encrypted at rest and only decrypted to sign calls
+ */
+
+import { Prisma, TenantTool } from '@prisma/client';
+import { prisma } from '../utils/db.js';
+import { config } from '../config/index.js';
+import { encryptSecret } from '../utils/crypto.js';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors.js';
+import { toolRegistry } from '../tools/registry.js';
+import type { CreateTenantToolInput, UpdateTenantToolInput } from '../schemas/index.js';
+
+/**
+ * Register a webhook tool for a tenant
+ */
+export async function createTenantTool(
+  tenantId: string,
+  input: CreateTenantToolInput
+): Promise<TenantTool> {
+  assertNameAvailable(input.name);
+  assertEndpointAllowed(input.endpointUrl);
+
+  try {
+    return await prisma.tenantTool.create({
+      data: {
+        tenantId,
+        name: input.name,
+        description: input.description,
+        parameters: input.parameters as Prisma.InputJsonValue,
+        endpointUrl: input.endpointUrl,
+        encryptedSigningSecret: encryptSecret(input.signingSecret),
+        timeoutMs: input.timeoutMs,
+        maxPayloadBytes: input.maxPayloadBytes,
+        costCents: input.costCents,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ConflictError(`Tool '${input.name}' already exists`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * List a tenant's webhook tools
+ */
+export async function listTenantTools(tenantId: string): Promise<TenantTool[]> {
+  return prisma.tenantTool.findMany({
+    where: { tenantId },
+    orderBy: { name: 'asc' },
+  });
+}
+
+/**
+ * Get a webhook tool by ID
+ */
+export async function getTenantTool(tenantId: string, toolId: string): Promise<TenantTool> {
+  const tool = await prisma.tenantTool.findFirst({
+    where: { id: toolId, tenantId },
+  });
+
+  if (!tool) {
+    throw new NotFoundError('Tool');
+  }
+
+  return tool;
+}
+
+/**
+ * Update a webhook tool
+ * The name is fixed because agents reference tools by name
+ */
+export async function updateTenantTool(
+  tenantId: string,
+  toolId: string,
+  input: UpdateTenantToolInput
+): Promise<TenantTool> {
+  await getTenantTool(tenantId, toolId);
+
+  if (input.endpointUrl !== undefined) {
+    assertEndpointAllowed(input.endpointUrl);
+  }
+
+  return prisma.tenantTool.update({
+    where: { id: toolId },
+    data: {
+      ...(input.description !== undefined && { description: input.description }),
+      ...(input.parameters !== undefined && {
+        parameters: input.parameters as Prisma.InputJsonValue,
+      }),
+      ...(input.endpointUrl !== undefined && { endpointUrl: input.endpointUrl }),
+      ...(input.signingSecret !== undefined && {
+        encryptedSigningSecret: encryptSecret(input.signingSecret),
+      }),
+      ...(input.timeoutMs !== undefined && { timeoutMs: input.timeoutMs }),
+      ...(input.maxPayloadBytes !== undefined && { maxPayloadBytes: input.maxPayloadBytes }),
+      ...(input.costCents !== undefined && { costCents: input.costCents }),
+    },
+  });
+}
+
+/**
+ * Delete a webhook tool
+ * Fails while an agent still has the tool enabled, or a version that is live enables it:
+ * the published one, one pinned by an active session or one in a running experiment
+ */
+export async function deleteTenantTool(tenantId: string, toolId: string): Promise<void> {
+  const tool = await getTenantTool(tenantId, toolId);
+
+  const agents = await prisma.agent.findMany({
+    where: { tenantId, enabledTools: { array_contains: [tool.name] } },
+    select: { name: true },
+  });
+  if (agents.length > 0) {
+    throw new ConflictError(
+      `Tool '${tool.name}' is enabled for agents: ${agents.map((a) => a.name).join(', ')}`
+    );
+  }
+
+  const versions = await findLiveVersionsUsingTool(tenantId, tool.name);
+  if (versions.length > 0) {
+    throw new ConflictError(
+      `Tool '${tool.name}' is enabled in agent versions still in use: ${versions.join(', ')}`
+    );
+  }
+
+  await prisma.tenantTool.delete({ where: { id: toolId } });
+}
+
+/**
+ * Live agent versions that enable a tool, as "<agent name> v<version>"
+ */
+async function findLiveVersionsUsingTool(tenantId: string, toolName: string): Promise<string[]> {
+  const versions = await prisma.agentVersion.findMany({
+    where: {
+      agent: { tenantId },
+      config: { path: ['enabledTools'], array_contains: [toolName] },
+    },
+    select: { agentId: true, version: true, status: true, agent: { select: { name: true } } },
+    orderBy: [{ agentId: 'asc' }, { version: 'asc' }],
+  });
+  if (versions.length === 0) {
+    return [];
+  }
+
+  const agentIds = [...new Set(versions.map((v) => v.agentId))];
+  const [sessions, experiments] = await Promise.all([
+    prisma.session.findMany({
+      where: { tenantId, agentId: { in: agentIds }, status: 'ACTIVE', agentVersion: { not: null } },
+      select: { agentId: true, agentVersion: true },
+      distinct: ['agentId', 'agentVersion'],
+    }),
+    prisma.experiment.findMany({
+      where: { tenantId, agentId: { in: agentIds }, status: 'RUNNING' },
+      select: { agentId: true, variants: true },
+    }),
+  ]);
+
+  const inUse = new Set([
+    ...sessions.map((s) => `${s.agentId}:${s.agentVersion}`),
+    ...experiments.flatMap((e) =>
+      (e.variants as Array<{ version: number }>).map((variant) => `${e.agentId}:${variant.version}`)
+    ),
+  ]);
+
+  return versions
+    .filter((v) => v.status === 'PUBLISHED' || inUse.has(`${v.agentId}:${v.version}`))
+    .map((v) => `${v.agent.name} v${v.version}`);
+}
+
+function assertNameAvailable(name: string): void {
+  if (toolRegistry.isBuiltIn(name)) {
+    throw new ConflictError(`'${name}' is a built-in tool name`);
+  }
+}
+
+/**
+ * Endpoints must use HTTPS; plain HTTP to localhost is allowed outside production
+ */
+function assertEndpointAllowed(endpointUrl: string): void {
+  const url = new URL(endpointUrl);
+  const isLocal = ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+
+  if (url.protocol === 'https:' || (url.protocol === 'http:' && isLocal && !config.isProd)) {
+    return;
+  }
+
+  throw new ValidationError('Invalid endpoint', [
+    { field: 'endpointUrl', message: 'Tool endpoints must use https' },
+  ]);
+}
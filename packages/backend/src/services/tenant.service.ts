@@ -39,15 +39,11 @@ export async function createTenant(input: CreateTenantInput): Promise<TenantCrea
     },
   });
 
+  const { apiKeys, ...tenantRow } = tenant;
+
   return {
-    tenant: {
-      id: tenant.id,
-      name: tenant.name,
-      email: tenant.email,
-      createdAt: tenant.createdAt,
-      updatedAt: tenant.updatedAt,
-    },
-    apiKey: tenant.apiKeys[0],
+    tenant: tenantRow,
+    apiKey: apiKeys[0],
     plainApiKey,
   };
 }
@@ -0,0 +1,315 @@
+/**
+ * Tool capabilities
+ * Tools never use the shared prisma client or the global fetch; the registry hands each
+ * call the capabilities its permissions grant:
+ * - data: Prisma-shaped delegates whose queries are confined to the calling tenant
+ *   (session_only: to the calling session), read-only unless dataAccess is tenant_write
+ * - fetch: the real fetch with networkAccess, otherwise one that refuses every request
+ *
+ * A refused capability throws ToolPermissionError and is noted as a violation; the
+ * registry fails the call on any violation, even one the tool caught.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { prisma } from '../utils/db.js';
+import { ToolPermissionError } from '../utils/errors.js';
+import type { Tool, ToolContext, ToolPermissions } from './types.js';
+
+// Models tools can reach at all; credentials, billing and tool config stay out of reach
+export const TOOL_DATA_MODELS = [
+  'agent',
+  'agentVersion',
+  'session',
+  'message',
+  'knowledgeBase',
+  'knowledgeDocument',
+  'knowledgeChunk',
+] as const;
+
+export type ToolDataModel = (typeof TOOL_DATA_MODELS)[number];
+
+// Typed like the prisma client; operations outside the grant throw at runtime
+export type ToolDataAccess = Pick<PrismaClient, ToolDataModel>;
+
+export interface ToolCapabilities {
+  data: ToolDataAccess;
+  fetch: typeof fetch;
+  // Refused attempts of this call, in order
+  violations: ToolPermissionError[];
+}
+
+interface DataScope {
+  tenantId: string;
+  sessionId: string;
+}
+
+type ScopeFilter = (scope: DataScope) => Record<string, unknown>;
+
+// Filter confining each model to the tenant
+const TENANT_SCOPE: Record<ToolDataModel, ScopeFilter> = {
+  agent: ({ tenantId }) => ({ tenantId }),
+  agentVersion: ({ tenantId }) => ({ agent: { tenantId } }),
+  session: ({ tenantId }) => ({ tenantId }),
+  message: ({ tenantId }) => ({ session: { tenantId } }),
+  knowledgeBase: ({ tenantId }) => ({ tenantId }),
+  knowledgeDocument: ({ tenantId }) => ({ knowledgeBase: { tenantId } }),
+  knowledgeChunk: ({ tenantId }) => ({ knowledgeBase: { tenantId } }),
+};
+
+// Filter confining each model to the calling session
+const SESSION_SCOPE: Partial<Record<ToolDataModel, ScopeFilter>> = {
+  session: ({ tenantId, sessionId }) => ({ id: sessionId, tenantId }),
+  message: ({ tenantId, sessionId }) => ({ sessionId, session: { tenantId } }),
+};
+
+const READ_OPERATIONS = [
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+] as const;
+
+const WRITE_OPERATIONS = ['create', 'update', 'updateMany', 'delete', 'deleteMany'] as const;
+
+// Relation filter operators, nested under a relation field in a where clause
+const RELATION_FILTERS = new Set(['some', 'every', 'none', 'is', 'isNot']);
+const LOGICAL_FILTERS = new Set(['AND', 'OR', 'NOT']);
+
+interface RelationField {
+  target: string;
+  foreignKeys: string[];
+}
+
+// Relation fields of every model, keyed by delegate name
+const RELATIONS = new Map(
+  Prisma.dmmf.datamodel.models.map((model) => [
+    toDelegateName(model.name),
+    new Map<string, RelationField>(
+      model.fields
+        .filter((field) => field.kind === 'object')
+        .map((field) => [
+          field.name,
+          { target: toDelegateName(field.type), foreignKeys: [...(field.relationFromFields ?? [])] },
+        ])
+    ),
+  ])
+);
+
+/**
+ * Capabilities granted to one call of a tool
+ */
+export function createToolCapabilities(tool: Tool, context: ToolContext): ToolCapabilities {
+  const violations: ToolPermissionError[] = [];
+  const deny = (message: string): never => {
+    const error = new ToolPermissionError(`Tool '${tool.name}': ${message}`);
+    violations.push(error);
+    throw error;
+  };
+
+  return {
+    data: createToolDataAccess(tool.permissions.dataAccess, context, deny),
+    fetch: tool.permissions.networkAccess
+      ? (input, init) => fetch(input, init)
+      : async () => deny('network access is not permitted'),
+    violations,
+  };
+}
+
+/**
+ * Data accessor for a dataAccess level
+ * Every query is ANDed with the scope filter, and included or filtered relations must
+ * stay within models the level covers; writes may only set a row's own columns
+ */
+export function createToolDataAccess(
+  dataAccess: ToolPermissions['dataAccess'],
+  scope: DataScope,
+  deny: (message: string) => never
+): ToolDataAccess {
+  const filters: Partial<Record<ToolDataModel, ScopeFilter>> =
+    dataAccess === 'tenant_readonly' || dataAccess === 'tenant_write'
+      ? TENANT_SCOPE
+      : dataAccess === 'session_only'
+        ? SESSION_SCOPE
+        : {};
+  const covered = new Set(Object.keys(filters));
+
+  const delegates = TOOL_DATA_MODELS.map((model) => {
+    const delegate = prisma[model] as unknown as Record<string, (args: unknown) => Promise<unknown>>;
+    const filter = filters[model];
+
+    const operation = (name: string, write: boolean) => async (input: unknown = {}) => {
+      if (!filter) {
+        return deny(`data access '${dataAccess}' does not cover ${model}`);
+      }
+      if (write && dataAccess !== 'tenant_write') {
+        return deny(`data access '${dataAccess}' is read-only`);
+      }
+
+      const args = { ...(input as Record<string, unknown>) };
+      assertRelations(model, args.include, covered, deny);
+      assertRelations(model, args.select, covered, deny);
+      assertWhere(model, args.where, covered, deny);
+
+      if (name === 'create') {
+        assertOwnColumns(model, args.data, deny);
+        if (!isTenantOwned(model)) {
+          return deny(`${model} rows can only be created through their parent`);
+        }
+        args.data = { ...(args.data as object), tenantId: scope.tenantId };
+        return delegate.create(args);
+      }
+
+      if (write) {
+        assertOwnColumns(model, args.data, deny);
+      }
+      args.where = scopedWhere(args.where, filter(scope));
+      return delegate[name](args);
+    };
+
+    return [
+      model,
+      Object.fromEntries([
+        ...READ_OPERATIONS.map((name) => [name, operation(name, false)]),
+        ...WRITE_OPERATIONS.map((name) => [name, operation(name, true)]),
+      ]),
+    ];
+  });
+
+  return Object.fromEntries(delegates) as unknown as ToolDataAccess;
+}
+
+/**
+ * The context's data accessor; a tool called outside the registry has none
+ */
+export function getToolData(context: ToolContext): ToolDataAccess {
+  if (!context.data) {
+    throw new ToolPermissionError('No data access was granted to this tool call');
+  }
+  return context.data;
+}
+
+/**
+ * The context's fetch; a tool called outside the registry has none
+ */
+export function getToolFetch(context: ToolContext): typeof fetch {
+  if (!context.fetch) {
+    throw new ToolPermissionError('No network access was granted to this tool call');
+  }
+  return context.fetch;
+}
+
+/**
+ * AND the scope filter into a where clause (unique where clauses accept AND too)
+ */
+function scopedWhere(where: unknown, filter: Record<string, unknown>): Record<string, unknown> {
+  const clause = (where ?? {}) as Record<string, unknown>;
+  const and = clause.AND === undefined ? [] : Array.isArray(clause.AND) ? clause.AND : [clause.AND];
+  return { ...clause, AND: [...and, filter] };
+}
+
+/**
+ * Check that an include or select tree only follows relations into covered models
+ */
+function assertRelations(
+  model: string,
+  tree: unknown,
+  covered: Set<string>,
+  deny: (message: string) => never
+): void {
+  if (!isObject(tree)) {
+    return;
+  }
+
+  for (const [key, value] of Object.entries(tree)) {
+    if (key === '_count') {
+      if (isObject(value)) {
+        assertRelations(model, value.select, covered, deny);
+      }
+      continue;
+    }
+
+    const relation = RELATIONS.get(model)?.get(key);
+    if (!relation) {
+      continue;
+    }
+    if (!covered.has(relation.target)) {
+      deny(`relation ${model}.${key} is out of reach`);
+    }
+    if (isObject(value)) {
+      assertRelations(relation.target, value.include, covered, deny);
+      assertRelations(relation.target, value.select, covered, deny);
+      assertWhere(relation.target, value.where, covered, deny);
+    }
+  }
+}
+
+/**
+ * Check that a where clause only filters on relations into covered models
+ */
+function assertWhere(
+  model: string,
+  where: unknown,
+  covered: Set<string>,
+  deny: (message: string) => never
+): void {
+  if (Array.isArray(where)) {
+    where.forEach((clause) => assertWhere(model, clause, covered, deny));
+    return;
+  }
+  if (!isObject(where)) {
+    return;
+  }
+
+  for (const [key, value] of Object.entries(where)) {
+    if (LOGICAL_FILTERS.has(key)) {
+      assertWhere(model, value, covered, deny);
+      continue;
+    }
+
+    const relation = RELATIONS.get(model)?.get(key);
+    if (!relation) {
+      continue;
+    }
+    if (!covered.has(relation.target)) {
+      deny(`relation ${model}.${key} is out of reach`);
+    }
+    if (isObject(value)) {
+      for (const [operator, clause] of Object.entries(value)) {
+        assertWhere(relation.target, RELATION_FILTERS.has(operator) ? clause : { [operator]: clause }, covered, deny);
+      }
+    }
+  }
+}
+
+/**
+ * Writes may not touch relations or foreign keys, which could attach a row elsewhere
+ */
+function assertOwnColumns(model: string, data: unknown, deny: (message: string) => never): void {
+  if (!isObject(data)) {
+    return;
+  }
+
+  for (const [name, relation] of RELATIONS.get(model) ?? []) {
+    for (const field of [name, ...relation.foreignKeys]) {
+      if (field in data) {
+        deny(`writes to ${model}.${field} are not permitted`);
+      }
+    }
+  }
+}
+
+function isTenantOwned(model: ToolDataModel): boolean {
+  return RELATIONS.get(model)?.get('tenant')?.foreignKeys.includes('tenantId') ?? false;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toDelegateName(modelName: string): string {
+  return modelName.charAt(0).toLowerCase() + modelName.slice(1);
+}
@@ -4,4 +4,7 @@
 
 export * from './types.js';
 export { toolRegistry } from './registry.js';
+export { getToolData, getToolFetch, type ToolDataAccess } from './capabilities.js';
 export { InvoiceLookupTool } from './invoice-lookup.js';
+export { KnowledgeBaseSearchTool } from './knowledge-base-search.js';
+export { createWebhookTool } from './webhook-tool.js';
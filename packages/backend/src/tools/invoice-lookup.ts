@@ -3,6 +3,7 @@
  * Mock implementation for looking up order/invoice information
  */
 
+import { CancelledError } from '../utils/errors.js';
 import type { Tool, ToolContext, ToolResult } from './types.js';
 
 // Mock invoice database
@@ -111,8 +112,14 @@ export const InvoiceLookupTool: Tool = {
   ): Promise<ToolResult> {
     const input = args as { orderId?: string; invoiceNumber?: string };
 
-    // Simulate some processing time
-    await new Promise((resolve) => setTimeout(resolve, 50 + Math.random() * 100));
+    // Simulate some processing time; a cancelled lookup stops waiting
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, 50 + Math.random() * 100);
+      context.signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new CancelledError('Invoice lookup was cancelled'));
+      }, { once: true });
+    });
 
     let invoice;
 
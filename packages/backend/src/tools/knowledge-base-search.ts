@@ -0,0 +1,101 @@
+/**
+ * KnowledgeBaseSearch Tool
+ * Searches the knowledge bases enabled on the agent (agent.knowledgeBaseIds) and returns
+ * the best matching passages, each with a ref the answer cites it by
+ */
+
+import { resolveAgentVersion } from '../services/agent-version.service.js';
+import { searchKnowledgeBases } from '../services/knowledge-base.service.js';
+import { config } from '../config/index.js';
+import { NotFoundError } from '../utils/errors.js';
+import { getToolData } from './capabilities.js';
+import type { Tool, ToolContext, ToolResult } from './types.js';
+
+// Passage text included in the stored citation
+const EXCERPT_CHARS = 300;
+
+export const KnowledgeBaseSearchTool: Tool = {
+  name: 'KnowledgeBaseSearch',
+  description:
+    'Search the company knowledge base (policies, FAQs, product documentation) for passages relevant to a question. ' +
+    'Cite every passage you use in your answer with its ref in square brackets, e.g. [kb-1a2b3c4d].',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'Keywords or a question describing the information needed',
+        minLength: 1,
+        maxLength: 500,
+      },
+      limit: {
+        type: 'integer',
+        description: `Number of passages to return (default ${config.knowledgeBase.defaultResults})`,
+        minimum: 1,
+        maximum: config.knowledgeBase.maxResults,
+      },
+    },
+    required: ['query'],
+  },
+  permissions: {
+    dataAccess: 'tenant_readonly', // Reads the tenant's knowledge bases
+    networkAccess: false,
+    estimatedCostCents: 0,
+  },
+  limits: {
+    timeoutMs: 5000,
+    maxPayloadBytes: 32768, // 32KB
+  },
+
+  async execute(args: unknown, context: ToolContext): Promise<ToolResult> {
+    const input = args as { query: string; limit?: number };
+
+    const data = getToolData(context);
+
+    // The session's agent version decides which knowledge bases are searched
+    const session = await data.session.findFirst({
+      where: { id: context.sessionId },
+      include: { agent: true },
+    });
+    if (!session) {
+      throw new NotFoundError('Session');
+    }
+    const agent = await resolveAgentVersion(session.agent, session.agentVersion, data);
+    const knowledgeBaseIds = agent.knowledgeBaseIds as string[];
+    if (knowledgeBaseIds.length === 0) {
+      return {
+        success: false,
+        error: 'No knowledge bases are enabled for this agent',
+      };
+    }
+
+    const results = await searchKnowledgeBases(
+      context.tenantId,
+      knowledgeBaseIds,
+      input.query,
+      input.limit,
+      data
+    );
+
+    return {
+      success: true,
+      data: {
+        query: input.query,
+        results: results.map((r) => ({
+          ref: r.ref,
+          source: r.documentTitle,
+          content: r.content,
+        })),
+      },
+      citations: results.map((r) => ({
+        ref: r.ref,
+        chunkId: r.chunkId,
+        knowledgeBaseId: r.knowledgeBaseId,
+        documentId: r.documentId,
+        documentTitle: r.documentTitle,
+        position: r.position,
+        excerpt: r.content.slice(0, EXCERPT_CHARS),
+      })),
+    };
+  },
+};
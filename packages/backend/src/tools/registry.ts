@@ -1,13 +1,23 @@
 /**
  * Tool Registry
  * Manages available tools and their execution
+ * Built-in tools are registered in code; tenant-defined webhook tools are
+ * resolved per tenant from the database. Tools run with the data and network
+ * capabilities their permissions declare (see capabilities.ts)
  */
 
+import type { ToolExecutionStatus } from '@prisma/client';
+import type pino from 'pino';
 import { prisma } from '../utils/db.js';
-import { ForbiddenError, NotFoundError, TimeoutError } from '../utils/errors.js';
+import { CancelledError, ForbiddenError, NotFoundError, TimeoutError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
+import { decryptSecret } from '../utils/crypto.js';
+import { validateJsonSchema } from '../utils/json-schema.js';
 import type { Tool, ToolContext, ToolResult, ToolDefinition } from './types.js';
+import { createToolCapabilities } from './capabilities.js';
 import { InvoiceLookupTool } from './invoice-lookup.js';
+import { KnowledgeBaseSearchTool } from './knowledge-base-search.js';
+import { createWebhookTool } from './webhook-tool.js';
 
 class ToolRegistry {
   private tools: Map<string, Tool> = new Map();
@@ -15,6 +25,7 @@ class ToolRegistry {
   constructor() {
     // Register built-in tools
     this.register(InvoiceLookupTool);
+    this.register(KnowledgeBaseSearchTool);
   }
 
   /**
@@ -39,13 +50,39 @@ class ToolRegistry {
     return Array.from(this.tools.keys());
   }
 
+  /**
+   * Check whether a name belongs to a built-in tool
+   */
+  isBuiltIn(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * Resolve a tool for a tenant: built-in tools first, then the tenant's webhook tools
+   */
+  async resolve(name: string, tenantId: string): Promise<Tool | undefined> {
+    const builtIn = this.tools.get(name);
+    if (builtIn) {
+      return builtIn;
+    }
+
+    const [tool] = await this.loadTenantTools(tenantId, [name]);
+    return tool;
+  }
+
   /**
    * Get tool definitions for enabled tools
    */
-  getDefinitions(enabledTools: string[]): ToolDefinition[] {
+  async getDefinitions(enabledTools: string[], tenantId: string): Promise<ToolDefinition[]> {
+    const tenantTools = await this.loadTenantTools(
+      tenantId,
+      enabledTools.filter((name) => !this.tools.has(name))
+    );
+    const tenantToolsByName = new Map(tenantTools.map((tool) => [tool.name, tool]));
+
     return enabledTools
       .map((name) => {
-        const tool = this.tools.get(name);
+        const tool = this.tools.get(name) ?? tenantToolsByName.get(name);
         if (!tool) return null;
         return {
           name: tool.name,
@@ -71,10 +108,8 @@ class ToolRegistry {
       toolName,
     });
 
-    const startTime = Date.now();
-
     // Check if tool exists
-    const tool = this.tools.get(toolName);
+    const tool = await this.resolve(toolName, context.tenantId);
     if (!tool) {
       log.warn('Tool not found');
       throw new NotFoundError(`Tool '${toolName}'`);
@@ -86,84 +121,223 @@ class ToolRegistry {
       throw new ForbiddenError(`Tool '${toolName}' is not enabled for this agent`);
     }
 
+    const startTime = Date.now();
+
+    // Validate arguments against the tool's schema before running it
+    const issues = validateJsonSchema(tool.parameters, args);
+    if (issues.length > 0) {
+      log.warn({ args, issues }, 'Invalid tool arguments');
+
+      const result: ToolResult = {
+        success: false,
+        error: `Invalid arguments for tool '${toolName}'`,
+        errorCode: 'INVALID_ARGUMENTS',
+        errorDetails: { issues },
+      };
+      await this.recordExecution(tool, args, context, result, 'FAILED', Date.now() - startTime, log);
+      return result;
+    }
+
+    const requestBytes = Buffer.byteLength(JSON.stringify(args ?? null));
+    if (requestBytes > tool.limits.maxPayloadBytes) {
+      log.warn({ requestBytes }, 'Tool arguments exceed payload limit');
+
+      const result: ToolResult = {
+        success: false,
+        error: `Arguments exceed the ${tool.limits.maxPayloadBytes} byte limit for tool '${toolName}'`,
+        errorCode: 'PAYLOAD_TOO_LARGE',
+      };
+      await this.recordExecution(tool, args, context, result, 'FAILED', Date.now() - startTime, log);
+      return result;
+    }
+
     log.info({ args }, 'Executing tool');
 
     let result: ToolResult;
-    let status: 'SUCCESS' | 'FAILED' | 'TIMEOUT' = 'FAILED';
+    let status: ToolExecutionStatus = 'FAILED';
+
+    // The tool reaches data and the network only through what its permissions grant
+    const capabilities = createToolCapabilities(tool, context);
+
+    // Each call gets its own deadline and abort signal, linked to the caller's signal
+    const controller = new AbortController();
+    const abortFromCaller = () => controller.abort();
+    context.signal?.addEventListener('abort', abortFromCaller, { once: true });
+    let timer: NodeJS.Timeout | undefined;
 
     try {
-      // Execute with timeout
+      if (context.signal?.aborted) {
+        throw new CancelledError(`Tool '${toolName}' was cancelled`);
+      }
+
       result = await Promise.race([
-        tool.execute(args, context),
-        new Promise<never>((_, reject) =>
-          setTimeout(
-            () => reject(new TimeoutError(`Tool '${toolName}' timed out`)),
-            tool.limits.timeoutMs
-          )
-        ),
+        tool.execute(args, {
+          ...context,
+          signal: controller.signal,
+          data: capabilities.data,
+          fetch: capabilities.fetch,
+        }),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => {
+            reject(new TimeoutError(`Tool '${toolName}' timed out`));
+            controller.abort();
+          }, tool.limits.timeoutMs);
+          controller.signal.addEventListener('abort', () =>
+            reject(new CancelledError(`Tool '${toolName}' was cancelled`))
+          );
+        }),
       ]);
 
+      // Oversized results are dropped rather than passed on to the model
+      if (
+        result.success &&
+        Buffer.byteLength(JSON.stringify(result.data ?? null)) > tool.limits.maxPayloadBytes
+      ) {
+        result = {
+          success: false,
+          error: `Result exceeds the ${tool.limits.maxPayloadBytes} byte limit for tool '${toolName}'`,
+          errorCode: 'PAYLOAD_TOO_LARGE',
+        };
+      }
+
       status = result.success ? 'SUCCESS' : 'FAILED';
+      if (!result.success) {
+        result = { ...result, errorCode: result.errorCode ?? 'EXECUTION_FAILED' };
+      }
     } catch (error) {
       if (error instanceof TimeoutError) {
         status = 'TIMEOUT';
         result = {
           success: false,
           error: error.message,
+          errorCode: 'TIMEOUT',
+        };
+      } else if (error instanceof CancelledError) {
+        status = 'CANCELLED';
+        result = {
+          success: false,
+          error: error.message,
+          errorCode: 'CANCELLED',
         };
       } else {
         result = {
           success: false,
           error: error instanceof Error ? error.message : 'Unknown error',
+          errorCode: 'EXECUTION_FAILED',
         };
       }
+    } finally {
+      clearTimeout(timer);
+      context.signal?.removeEventListener('abort', abortFromCaller);
+    }
+
+    // A refused capability fails the call, even when the tool caught the error
+    if (capabilities.violations.length > 0) {
+      log.warn(
+        { violations: capabilities.violations.map((violation) => violation.message) },
+        'Tool used a capability it was not granted'
+      );
+      status = 'FAILED';
+      result = {
+        success: false,
+        error: capabilities.violations[0].message,
+        errorCode: 'PERMISSION_DENIED',
+      };
     }
 
     const latencyMs = Date.now() - startTime;
 
-    // Store execution record
+    await this.recordExecution(tool, args, context, result, status, latencyMs, log);
+
+    log.info(
+      {
+        success: result.success,
+        latencyMs,
+        status,
+      },
+      'Tool execution complete'
+    );
+
+    return result;
+  }
+
+  /**
+   * Store the execution record; failures are logged, never surfaced to the caller
+   */
+  private async recordExecution(
+    tool: Tool,
+    args: unknown,
+    context: ToolContext,
+    result: ToolResult,
+    status: ToolExecutionStatus,
+    latencyMs: number,
+    log: pino.Logger
+  ): Promise<void> {
     try {
       await prisma.toolExecution.create({
         data: {
           sessionId: context.sessionId,
-          messageId: '', // Will be updated by caller if needed
+          messageId: context.messageId,
           correlationId: context.correlationId,
-          toolName,
+          toolName: tool.name,
           toolInput: args as object,
           toolOutput: result.data as object ?? null,
           status,
           errorMessage: result.error,
           latencyMs,
-          costCents: tool.permissions.estimatedCostCents,
+          // Rejected arguments never reach the tool, so nothing is spent
+          costCents: result.errorCode === 'INVALID_ARGUMENTS' ? 0 : tool.permissions.estimatedCostCents,
         },
       });
     } catch (error) {
       // Log but don't fail the tool execution
       log.error({ error }, 'Failed to store tool execution record');
     }
-
-    log.info(
-      {
-        success: result.success,
-        latencyMs,
-        status,
-      },
-      'Tool execution complete'
-    );
-
-    return result;
   }
 
   /**
-   * Check if all tools are available
+   * Check if all tools are available to a tenant
    */
-  validateTools(toolNames: string[]): { valid: boolean; missing: string[] } {
-    const missing = toolNames.filter((name) => !this.tools.has(name));
+  async validateTools(
+    toolNames: string[],
+    tenantId: string
+  ): Promise<{ valid: boolean; missing: string[] }> {
+    const candidates = toolNames.filter((name) => !this.tools.has(name));
+    const tenantTools = await this.loadTenantTools(tenantId, candidates);
+    const tenantToolNames = new Set(tenantTools.map((tool) => tool.name));
+
+    const missing = candidates.filter((name) => !tenantToolNames.has(name));
     return {
       valid: missing.length === 0,
       missing,
     };
   }
+
+  /**
+   * Build webhook tools for the tenant's tool rows with the given names
+   */
+  private async loadTenantTools(tenantId: string, names: string[]): Promise<Tool[]> {
+    if (names.length === 0) {
+      return [];
+    }
+
+    const rows = await prisma.tenantTool.findMany({
+      where: { tenantId, name: { in: names } },
+    });
+
+    return rows.map((row) =>
+      createWebhookTool({
+        name: row.name,
+        description: row.description,
+        parameters: row.parameters as Record<string, unknown>,
+        endpointUrl: row.endpointUrl,
+        signingSecret: decryptSecret(row.encryptedSigningSecret),
+        timeoutMs: row.timeoutMs,
+        maxPayloadBytes: row.maxPayloadBytes,
+        costCents: row.costCents,
+      })
+    );
+  }
 }
 
 // Singleton instance
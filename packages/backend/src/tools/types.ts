@@ -2,6 +2,8 @@
  * Tool framework types
  */
 
+import type { ToolDataAccess } from './capabilities.js';
+
 export interface ToolDefinition {
   name: string;
   description: string;
@@ -12,12 +14,45 @@ export interface ToolContext {
   tenantId: string;
   sessionId: string;
   correlationId: string;
+  // Assistant message whose tool call is being executed
+  messageId: string;
+  // Aborted when the call times out or is cancelled; long-running tools should stop work
+  signal?: AbortSignal;
+  // Capabilities granted by the tool's permissions, set by the registry (see capabilities.ts)
+  data?: ToolDataAccess;
+  fetch?: typeof fetch;
+}
+
+export type ToolErrorCode =
+  | 'INVALID_ARGUMENTS'
+  | 'TOOL_NOT_FOUND'
+  | 'TOOL_NOT_ENABLED'
+  | 'TIMEOUT'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'CANCELLED'
+  | 'PERMISSION_DENIED'
+  | 'EXECUTION_FAILED';
+
+// A knowledge base chunk a tool result draws on; the model cites it by ref
+export interface ToolCitation {
+  ref: string;
+  chunkId: string;
+  knowledgeBaseId: string;
+  documentId: string;
+  documentTitle: string;
+  position: number;
+  excerpt: string;
 }
 
 export interface ToolResult {
   success: boolean;
   data?: unknown;
   error?: string;
+  // Set by the registry on failures; returned to the model with the error
+  errorCode?: ToolErrorCode;
+  errorDetails?: unknown;
+  // Sources of the result, stored with the answer (not sent to the model)
+  citations?: ToolCitation[];
 }
 
 export interface ToolPermissions {
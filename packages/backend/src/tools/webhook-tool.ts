@@ -0,0 +1,174 @@
+/**
+ * Webhook Tool
+ * Tenant-defined tool executed by POSTing the call to the tenant's HTTPS endpoint
+ *
+ * Request: { tool, args, context: { tenantId, sessionId, correlationId } }
+ * Headers: X-Tool-Timestamp (unix seconds) and
+ *          X-Tool-Signature: sha256=HMAC_SHA256(secret, "<timestamp>.<body>")
+ * Response: any 2xx JSON body is the tool result; non-2xx bodies may carry { error }
+ */
+
+import { signPayload } from '../utils/crypto.js';
+import { CancelledError, TimeoutError } from '../utils/errors.js';
+import { getToolFetch } from './capabilities.js';
+import type { Tool, ToolContext, ToolResult } from './types.js';
+
+export interface WebhookToolConfig {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  endpointUrl: string;
+  signingSecret: string;
+  timeoutMs: number;
+  maxPayloadBytes: number;
+  costCents: number;
+}
+
+export function createWebhookTool(toolConfig: WebhookToolConfig): Tool {
+  return {
+    name: toolConfig.name,
+    description: toolConfig.description,
+    parameters: toolConfig.parameters,
+    permissions: {
+      dataAccess: 'none', // The tenant's endpoint sees only the call arguments
+      networkAccess: true,
+      estimatedCostCents: toolConfig.costCents,
+    },
+    limits: {
+      timeoutMs: toolConfig.timeoutMs,
+      maxPayloadBytes: toolConfig.maxPayloadBytes,
+    },
+
+    async execute(args: unknown, context: ToolContext): Promise<ToolResult> {
+      const body = JSON.stringify({
+        tool: toolConfig.name,
+        args,
+        context: {
+          tenantId: context.tenantId,
+          sessionId: context.sessionId,
+          correlationId: context.correlationId,
+        },
+      });
+
+      if (Buffer.byteLength(body) > toolConfig.maxPayloadBytes) {
+        return {
+          success: false,
+          error: `Request payload exceeds ${toolConfig.maxPayloadBytes} bytes`,
+          errorCode: 'PAYLOAD_TOO_LARGE',
+        };
+      }
+
+      const toolFetch = getToolFetch(context);
+      const timestamp = Math.floor(Date.now() / 1000);
+      const signature = signPayload(toolConfig.signingSecret, timestamp, body);
+
+      // One deadline covers connecting, sending and reading the response body;
+      // the registry's signal (timeout or cancellation) aborts the request too
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), toolConfig.timeoutMs);
+      const abortFromContext = () => controller.abort();
+      context.signal?.addEventListener('abort', abortFromContext, { once: true });
+
+      try {
+        const response = await toolFetch(toolConfig.endpointUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Tool-Name': toolConfig.name,
+            'X-Tool-Timestamp': String(timestamp),
+            'X-Tool-Signature': `sha256=${signature}`,
+            'X-Correlation-ID': context.correlationId,
+          },
+          body,
+          signal: controller.signal,
+        });
+
+        const text = await readBodyWithLimit(response, toolConfig.maxPayloadBytes);
+        if (text === null) {
+          controller.abort();
+          return {
+            success: false,
+            error: `Response payload exceeds ${toolConfig.maxPayloadBytes} bytes`,
+            errorCode: 'PAYLOAD_TOO_LARGE',
+          };
+        }
+
+        const data = parseJson(text);
+
+        if (!response.ok) {
+          const message = (data as { error?: unknown } | undefined)?.error;
+          return {
+            success: false,
+            error: typeof message === 'string'
+              ? message
+              : `Tool endpoint returned HTTP ${response.status}`,
+          };
+        }
+
+        if (data === undefined) {
+          return { success: false, error: 'Tool endpoint returned invalid JSON' };
+        }
+
+        return { success: true, data };
+      } catch (error) {
+        if (context.signal?.aborted) {
+          throw new CancelledError(`Tool '${toolConfig.name}' was cancelled`);
+        }
+        if (controller.signal.aborted) {
+          throw new TimeoutError(`Tool '${toolConfig.name}' timed out after ${toolConfig.timeoutMs}ms`);
+        }
+        return {
+          success: false,
+          error: `Tool endpoint request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        };
+      } finally {
+        clearTimeout(timeout);
+        context.signal?.removeEventListener('abort', abortFromContext);
+      }
+    },
+  };
+}
+
+/**
+ * Read the response body, giving up as soon as it exceeds maxBytes
+ * Returns null when the limit was exceeded
+ */
+async function readBodyWithLimit(response: Response, maxBytes: number): Promise<string | null> {
+  const declaredLength = Number(response.headers.get('content-length'));
+  if (declaredLength > maxBytes) {
+    return null;
+  }
+
+  if (!response.body) {
+    return '';
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function parseJson(text: string): unknown {
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Budget calculations
+ * Periods are calendar UTC days and months
+ */
+
+import type { BudgetPeriod } from '@prisma/client';
+
+export interface BudgetLimits {
+  dailySoftLimitCents: number | null;
+  dailyHardLimitCents: number | null;
+  monthlySoftLimitCents: number | null;
+  monthlyHardLimitCents: number | null;
+}
+
+export interface BudgetWindowStatus {
+  period: BudgetPeriod;
+  periodStart: Date;
+  resetsAt: Date;
+  spentCents: number;
+  softLimitCents: number | null;
+  hardLimitCents: number | null;
+  // Headroom before the hard limit (or the soft limit when only that is set)
+  remainingCents: number | null;
+  softLimitReached: boolean;
+  hardLimitReached: boolean;
+}
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ['DAILY', 'MONTHLY'];
+
+/**
+ * Start (inclusive) and end (exclusive) of the period containing `now`
+ */
+export function getPeriodBounds(period: BudgetPeriod, now: Date): { start: Date; end: Date } {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+
+  if (period === 'DAILY') {
+    const start = new Date(Date.UTC(year, month, now.getUTCDate()));
+    return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+  }
+
+  return {
+    start: new Date(Date.UTC(year, month, 1)),
+    end: new Date(Date.UTC(year, month + 1, 1)),
+  };
+}
+
+/**
+ * Compare spend in a period against its limits
+ */
+export function evaluateBudgetWindow(
+  period: BudgetPeriod,
+  limits: BudgetLimits,
+  spentCents: number,
+  now: Date
+): BudgetWindowStatus {
+  const { start, end } = getPeriodBounds(period, now);
+  const softLimitCents =
+    period === 'DAILY' ? limits.dailySoftLimitCents : limits.monthlySoftLimitCents;
+  const hardLimitCents =
+    period === 'DAILY' ? limits.dailyHardLimitCents : limits.monthlyHardLimitCents;
+  const headroomLimit = hardLimitCents ?? softLimitCents;
+
+  return {
+    period,
+    periodStart: start,
+    resetsAt: end,
+    spentCents,
+    softLimitCents,
+    hardLimitCents,
+    remainingCents: headroomLimit === null ? null : Math.max(0, headroomLimit - spentCents),
+    softLimitReached: softLimitCents !== null && spentCents >= softLimitCents,
+    hardLimitReached: hardLimitCents !== null && spentCents >= hardLimitCents,
+  };
+}
+
+/**
+ * Whether any budget limit is configured
+ */
+export function hasBudgetLimits(limits: BudgetLimits): boolean {
+  return Object.values(limits).some((limit) => limit !== null);
+}
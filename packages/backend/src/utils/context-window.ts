@@ -0,0 +1,121 @@
+/**
+ * Context window planning
+ * Estimates token counts and picks which conversation messages fit a provider's window
+ *
+ * Estimates use ~4 characters per token plus a small per-message overhead; they only
+ * need to be close enough to keep requests under the window, not exact
+ */
+
+import type { ConversationMessage, ToolDefinition } from '../providers/types.js';
+
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Stored conversation message with its position in the session
+ */
+export interface ContextMessage extends ConversationMessage {
+  sequenceNumber: number;
+}
+
+export interface ContextWindowPlan {
+  // Newest messages that fit the budget, oldest first
+  kept: ContextMessage[];
+  // Older messages left out of the request, oldest first
+  dropped: ContextMessage[];
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(message: ConversationMessage): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content);
+  if (message.toolCalls?.length) {
+    tokens += estimateTokens(JSON.stringify(message.toolCalls));
+  }
+  if (message.toolResults?.length) {
+    tokens += estimateTokens(JSON.stringify(message.toolResults));
+  }
+  return tokens;
+}
+
+export function estimateToolTokens(tools: ToolDefinition[]): number {
+  return tools.length > 0 ? estimateTokens(JSON.stringify(tools)) : 0;
+}
+
+/**
+ * Split messages into units that must be sent or dropped together:
+ * an assistant message with tool calls plus the tool results that answer it,
+ * otherwise a single message
+ */
+export function groupContextUnits(messages: ContextMessage[]): ContextMessage[][] {
+  const units: ContextMessage[][] = [];
+
+  for (const message of messages) {
+    const current = units[units.length - 1];
+    const continuesToolCall =
+      message.role === 'tool' &&
+      current !== undefined &&
+      (current[0].toolCalls?.length ?? 0) > 0;
+
+    if (continuesToolCall) {
+      current.push(message);
+    } else {
+      units.push([message]);
+    }
+  }
+
+  return units;
+}
+
+/**
+ * Keep the newest units that fit budgetTokens; everything older is dropped
+ * The newest unit is always kept, even when it alone exceeds the budget
+ */
+export function planContextWindow(messages: ContextMessage[], budgetTokens: number): ContextWindowPlan {
+  const units = groupContextUnits(messages);
+  let used = 0;
+  let firstKept = units.length;
+
+  for (let i = units.length - 1; i >= 0; i--) {
+    const unitTokens = units[i].reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+    if (firstKept < units.length && used + unitTokens > budgetTokens) {
+      break;
+    }
+    used += unitTokens;
+    firstKept = i;
+  }
+
+  return {
+    kept: units.slice(firstKept).flat(),
+    dropped: units.slice(0, firstKept).flat(),
+  };
+}
+
+/**
+ * Split messages into consecutive chunks of at most budgetTokens, never splitting a unit
+ * A unit larger than the budget becomes a chunk of its own
+ */
+export function chunkContextUnits(messages: ContextMessage[], budgetTokens: number): ContextMessage[][] {
+  const chunks: ContextMessage[][] = [];
+  let chunk: ContextMessage[] = [];
+  let used = 0;
+
+  for (const unit of groupContextUnits(messages)) {
+    const unitTokens = unit.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+    if (chunk.length > 0 && used + unitTokens > budgetTokens) {
+      chunks.push(chunk);
+      chunk = [];
+      used = 0;
+    }
+    chunk.push(...unit);
+    used += unitTokens;
+  }
+
+  if (chunk.length > 0) {
+    chunks.push(chunk);
+  }
+
+  return chunks;
+}
@@ -1,8 +1,8 @@
 /**
- * Cryptographic utilities for API key generation and hashing
+ * Cryptographic utilities for API key generation, hashing, secret encryption and payload signing
  */
 
-import { randomBytes, createHash } from 'crypto';
+import { randomBytes, createHash, createHmac, createCipheriv, createDecipheriv } from 'crypto';
 import { config } from '../config/index.js';
 
 /**
@@ -52,3 +52,53 @@ export function uuidToLockKey(uuid: string): bigint {
   // Read first 8 bytes as a BigInt
   return hash.readBigInt64BE(0);
 }
+
+/**
+ * Encrypt a secret (e.g. a provider credential) for storage
+ * AES-256-GCM, format: <iv>.<authTag>.<ciphertext> (base64url)
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [iv, authTag, ciphertext].map((part) => part.toString('base64url')).join('.');
+}
+
+/**
+ * Decrypt a secret produced by encryptSecret
+ * Throws if the value was tampered with or encrypted with another key
+ */
+export function decryptSecret(encrypted: string): string {
+  const [iv, authTag, ciphertext] = encrypted
+    .split('.')
+    .map((part) => Buffer.from(part, 'base64url'));
+
+  if (!iv || !authTag || !ciphertext) {
+    throw new Error('Malformed encrypted secret');
+  }
+
+  const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Sign an outgoing webhook payload
+ * HMAC-SHA256 over "<timestamp>.<body>", hex encoded; the timestamp lets receivers reject replays
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Derive the 256-bit encryption key from the configured secret
+ */
+function getEncryptionKey(): Buffer {
+  if (!config.credentials.encryptionKey) {
+    throw new Error('CREDENTIALS_ENCRYPTION_KEY is not set');
+  }
+  return createHash('sha256').update(config.credentials.encryptionKey).digest();
+}
@@ -14,6 +14,7 @@ export type ErrorCode =
   | 'PROVIDER_ERROR'
   | 'PROVIDER_SCHEMA_ERROR'
   | 'TIMEOUT_ERROR'
+  | 'CANCELLED'
   | 'INTERNAL_ERROR';
 
 export interface ErrorDetail {
@@ -87,6 +88,16 @@ export class ForbiddenError extends AppError {
   }
 }
 
+/**
+ * 403 Forbidden - Tool used a capability its permissions don't grant
+ */
+export class ToolPermissionError extends ForbiddenError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolPermissionError';
+  }
+}
+
 /**
  * 404 Not Found - Resource doesn't exist
  */
@@ -107,6 +118,16 @@ export class ConflictError extends AppError {
   }
 }
 
+/**
+ * 409 Conflict - Session lock not acquired within the wait bound
+ */
+export class LockTimeoutError extends ConflictError {
+  constructor(message = 'Timed out waiting for session lock') {
+    super(message);
+    this.name = 'LockTimeoutError';
+  }
+}
+
 /**
  * 429 Too Many Requests - Rate limited
  */
@@ -164,6 +185,16 @@ export class TimeoutError extends AppError {
   }
 }
 
+/**
+ * 499 Client Closed Request - Work was cancelled before it finished
+ */
+export class CancelledError extends AppError {
+  constructor(message = 'Request cancelled') {
+    super('CANCELLED', message, 499);
+    this.name = 'CancelledError';
+  }
+}
+
 /**
  * 500 Internal Server Error - Unexpected error
  */
@@ -0,0 +1,186 @@
+/**
+ * Minimal JSON Schema validator
+ * Covers the subset used by tool parameter schemas:
+ * type, properties, required, additionalProperties, items, enum, const,
+ * string/number/array bounds, pattern, and oneOf/anyOf/allOf
+ */
+
+export interface JsonSchemaIssue {
+  path: string;
+  message: string;
+}
+
+type Schema = Record<string, unknown>;
+
+/**
+ * Validate a value against a JSON Schema, returning every issue found
+ * An empty array means the value is valid
+ */
+export function validateJsonSchema(schema: Schema, value: unknown): JsonSchemaIssue[] {
+  const issues: JsonSchemaIssue[] = [];
+  validateNode(schema, value, '', issues);
+  return issues;
+}
+
+function validateNode(schema: Schema, value: unknown, path: string, issues: JsonSchemaIssue[]): void {
+  const issue = (message: string) => issues.push({ path: path || '(root)', message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+    if (!types.some((type) => matchesType(type, value))) {
+      issue(`must be ${types.join(' or ')}`);
+      // Further keywords assume the right type
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+    issue(`must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => deepEqual(option, value))) {
+    issue(`must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      issue(`must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      issue(`must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern).test(value)) {
+      issue(`must match pattern ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      issue(`must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      issue(`must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      issue(`must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      issue(`must have at most ${schema.maxItems} items`);
+    }
+    if (isSchema(schema.items)) {
+      value.forEach((item, index) => validateNode(schema.items as Schema, item, `${path}[${index}]`, issues));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    validateObject(schema, value, path, issues);
+  }
+
+  validateCombinators(schema, value, path, issues);
+}
+
+function validateObject(
+  schema: Schema,
+  value: Record<string, unknown>,
+  path: string,
+  issues: JsonSchemaIssue[]
+): void {
+  const properties = isSchema(schema.properties) ? (schema.properties as Record<string, Schema>) : {};
+
+  if (Array.isArray(schema.required)) {
+    for (const key of schema.required as string[]) {
+      if (value[key] === undefined) {
+        issues.push({ path: joinPath(path, key), message: 'is required' });
+      }
+    }
+  }
+
+  for (const [key, propertyValue] of Object.entries(value)) {
+    const propertySchema = properties[key];
+    if (propertySchema) {
+      validateNode(propertySchema, propertyValue, joinPath(path, key), issues);
+    } else if (schema.additionalProperties === false) {
+      issues.push({ path: joinPath(path, key), message: 'is not an allowed property' });
+    } else if (isSchema(schema.additionalProperties)) {
+      validateNode(schema.additionalProperties as Schema, propertyValue, joinPath(path, key), issues);
+    }
+  }
+}
+
+function validateCombinators(schema: Schema, value: unknown, path: string, issues: JsonSchemaIssue[]): void {
+  if (Array.isArray(schema.allOf)) {
+    for (const subschema of schema.allOf as Schema[]) {
+      validateNode(subschema, value, path, issues);
+    }
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const matches = (schema.anyOf as Schema[]).filter((s) => validateJsonSchema(s, value).length === 0);
+    if (matches.length === 0) {
+      issues.push({ path: path || '(root)', message: 'must match at least one allowed shape' });
+    }
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const subschemas = schema.oneOf as Schema[];
+    const matches = subschemas.filter((s) => validateJsonSchema(s, value).length === 0);
+    if (matches.length !== 1) {
+      const alternatives = describeAlternatives(subschemas);
+      issues.push({
+        path: path || '(root)',
+        message: matches.length === 0
+          ? `must match exactly one of: ${alternatives}`
+          : `matches more than one of: ${alternatives}`,
+      });
+    }
+  }
+}
+
+/**
+ * Describe oneOf alternatives; `{ required: [...] }` branches are listed by field name
+ */
+function describeAlternatives(subschemas: Schema[]): string {
+  return subschemas
+    .map((s) => (Array.isArray(s.required) ? (s.required as string[]).join(' + ') : JSON.stringify(s)))
+    .join(', ');
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    default:
+      return true;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSchema(value: unknown): value is Schema {
+  return isPlainObject(value);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
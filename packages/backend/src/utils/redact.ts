@@ -0,0 +1,73 @@
+/**
+ * Field-level redaction and size capping for captured JSON bodies
+ *
+ * A redaction rule is a dotted path; array indices are path segments.
+ * `*` matches any single key or index, `**` matches any number of levels:
+ *   system_prompt          the top-level field
+ *   messages.*.content     content of every message
+ *   **.email               any field named email, at any depth
+ */
+
+export const REDACTED = '[REDACTED]';
+
+const RULE_PATTERN = /^(\*\*|\*|[A-Za-z0-9_-]+)(\.(\*\*|\*|[A-Za-z0-9_-]+))*$/;
+
+export function isValidRedactionRule(rule: string): boolean {
+  return RULE_PATTERN.test(rule);
+}
+
+/**
+ * Copy of value with every field matched by a rule replaced by REDACTED
+ */
+export function redactFields(value: unknown, rules: string[]): unknown {
+  const patterns = rules.map((rule) => rule.split('.'));
+  return redactNode(value, [], patterns);
+}
+
+function redactNode(value: unknown, path: string[], patterns: string[][]): unknown {
+  if (path.length > 0 && patterns.some((pattern) => matchesPath(pattern, 0, path, 0))) {
+    return REDACTED;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) => redactNode(item, [...path, String(index)], patterns));
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactNode(item, [...path, key], patterns)])
+    );
+  }
+
+  return value;
+}
+
+function matchesPath(pattern: string[], i: number, path: string[], j: number): boolean {
+  if (i === pattern.length) {
+    return j === path.length;
+  }
+  if (pattern[i] === '**') {
+    return matchesPath(pattern, i + 1, path, j) || (j < path.length && matchesPath(pattern, i, path, j + 1));
+  }
+  if (j === path.length) {
+    return false;
+  }
+  return (pattern[i] === '*' || pattern[i] === path[j]) && matchesPath(pattern, i + 1, path, j + 1);
+}
+
+/**
+ * Value unchanged if its JSON fits maxBytes, otherwise a truncated preview
+ */
+export function capJsonSize(value: unknown, maxBytes: number): unknown {
+  const json = JSON.stringify(value) ?? 'null';
+  const bytes = Buffer.byteLength(json);
+  if (bytes <= maxBytes) {
+    return value;
+  }
+
+  return {
+    truncated: true,
+    originalBytes: bytes,
+    preview: Buffer.from(json).subarray(0, maxBytes).toString('utf8'),
+  };
+}
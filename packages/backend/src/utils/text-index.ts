@@ -0,0 +1,219 @@
+/**
+ * Local lexical text index
+ * Plain-text extraction, chunking, tokenization and BM25 scoring for knowledge bases;
+ * everything runs in-process, with no embedding model or network call
+ */
+
+export type TextFormat = 'TEXT' | 'MARKDOWN' | 'HTML' | 'PDF_TEXT';
+
+export interface IndexedChunk {
+  termFrequencies: Record<string, number>;
+  length: number;
+}
+
+export interface CorpusStats {
+  chunkCount: number;
+  averageLength: number;
+}
+
+// Common English words that carry no meaning for retrieval
+const STOPWORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for',
+  'from', 'had', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my',
+  'no', 'not', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their', 'them', 'then', 'there',
+  'these', 'they', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who',
+  'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+// BM25 parameters: term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Plain text of a document, with paragraphs separated by blank lines
+ */
+export function toPlainText(content: string, format: TextFormat): string {
+  let text = content.replace(/\r\n?/g, '\n');
+
+  switch (format) {
+    case 'HTML':
+      text = text
+        .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/?(p|div|section|article|li|ul|ol|tr|table|h[1-6]|blockquote|pre)[^>]*>/gi, '\n\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => decodeEntity(code) ?? entity);
+      break;
+    case 'MARKDOWN':
+      text = text
+        .replace(/^```.*$/gm, '')
+        .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+        .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+        .replace(/^\s{0,3}>\s?/gm, '')
+        .replace(/(\*\*|\*|`)(\S[^\n]*?)\1/g, '$2')
+        .replace(/\b(__|_)(\S[^\n]*?)\1\b/g, '$2');
+      break;
+    case 'PDF_TEXT':
+      // Extracted PDF text breaks lines mid-paragraph and hyphenates words across lines
+      text = text
+        .replace(/\f/g, '\n\n')
+        .replace(/(\w)-\n(\w)/g, '$1$2')
+        .replace(/([^\n])\n(?!\n)/g, '$1 ');
+      break;
+    case 'TEXT':
+      break;
+  }
+
+  return text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/[ \t]+/g, ' ').replace(/ ?\n ?/g, '\n').trim())
+    .filter((paragraph) => paragraph.length > 0)
+    .join('\n\n');
+}
+
+function decodeEntity(code: string): string | undefined {
+  if (code.startsWith('#x') || code.startsWith('#X')) {
+    return fromCodePoint(parseInt(code.slice(2), 16));
+  }
+  if (code.startsWith('#')) {
+    return fromCodePoint(parseInt(code.slice(1), 10));
+  }
+  return HTML_ENTITIES[code.toLowerCase()];
+}
+
+// Out-of-range numeric entities are left as written
+function fromCodePoint(codePoint: number): string | undefined {
+  if (Number.isNaN(codePoint) || codePoint > 0x10ffff) {
+    return undefined;
+  }
+  return String.fromCodePoint(codePoint);
+}
+
+/**
+ * Split text into passages of about maxWords words
+ * Paragraphs are packed together up to the limit; a longer paragraph is cut into windows
+ * that overlap by overlapWords, so a sentence on a boundary is whole in one of them
+ */
+export function chunkText(text: string, maxWords: number, overlapWords: number): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentWords = 0;
+
+  const flush = () => {
+    if (current.length > 0) {
+      chunks.push(current.join('\n\n'));
+      current = [];
+      currentWords = 0;
+    }
+  };
+
+  for (const paragraph of text.split(/\n\n+/)) {
+    const words = paragraph.split(/\s+/).filter(Boolean);
+    if (words.length === 0) {
+      continue;
+    }
+
+    if (words.length > maxWords) {
+      flush();
+      const step = Math.max(1, maxWords - overlapWords);
+      for (let start = 0; start < words.length; start += step) {
+        chunks.push(words.slice(start, start + maxWords).join(' '));
+        if (start + maxWords >= words.length) {
+          break;
+        }
+      }
+      continue;
+    }
+
+    if (currentWords + words.length > maxWords) {
+      flush();
+    }
+    current.push(paragraph);
+    currentWords += words.length;
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Index terms of a text: lowercased words without accents or stopwords, plurals folded
+ */
+export function tokenize(text: string): string[] {
+  const words = text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu) ?? [];
+
+  return words.filter((word) => !STOPWORDS.has(word) && (word.length > 1 || /\d/.test(word))).map(stem);
+}
+
+/**
+ * Minimal stemming: fold common plural forms onto the singular
+ */
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (word.length > 3 && word.endsWith('s') && !/(ss|us|is)$/.test(word)) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * Term statistics of a chunk, as stored in the index
+ */
+export function indexChunk(content: string): IndexedChunk & { terms: string[] } {
+  const tokens = tokenize(content);
+  const termFrequencies: Record<string, number> = {};
+  for (const token of tokens) {
+    termFrequencies[token] = (termFrequencies[token] ?? 0) + 1;
+  }
+
+  return { terms: Object.keys(termFrequencies), termFrequencies, length: tokens.length };
+}
+
+/**
+ * BM25 score of each candidate chunk for the query terms
+ * Candidates must be every chunk of the corpus that contains at least one query term:
+ * document frequencies are counted from them
+ */
+export function scoreBm25(
+  queryTerms: string[],
+  candidates: IndexedChunk[],
+  stats: CorpusStats
+): number[] {
+  const terms = [...new Set(queryTerms)];
+  const averageLength = stats.averageLength || 1;
+
+  const idf = new Map(
+    terms.map((term) => {
+      const df = candidates.filter((c) => (c.termFrequencies[term] ?? 0) > 0).length;
+      return [term, Math.log(1 + (stats.chunkCount - df + 0.5) / (df + 0.5))];
+    })
+  );
+
+  return candidates.map((chunk) =>
+    terms.reduce((score, term) => {
+      const tf = chunk.termFrequencies[term] ?? 0;
+      if (tf === 0) {
+        return score;
+      }
+      const norm = tf + K1 * (1 - B + (B * chunk.length) / averageLength);
+      return score + idf.get(term)! * ((tf * (K1 + 1)) / norm);
+    }, 0)
+  );
+}
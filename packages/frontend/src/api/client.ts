@@ -72,26 +72,57 @@ export interface Tenant {
   createdAt: string;
 }
 
+export type ProviderType = 'VENDOR_A' | 'VENDOR_B' | 'OPENAI_COMPATIBLE';
+
+export type RoutingPolicyType = 'WEIGHTED' | 'LOWEST_LATENCY' | 'CHEAPEST' | 'FAILOVER';
+
+export interface RoutingPolicy {
+  type: RoutingPolicyType;
+  providers: Array<{ provider: ProviderType; weight?: number }>;
+}
+
 export interface Agent {
   id: string;
   tenantId: string;
   name: string;
   description?: string;
-  primaryProvider: 'VENDOR_A' | 'VENDOR_B';
-  fallbackProvider?: 'VENDOR_A' | 'VENDOR_B';
+  primaryProvider: ProviderType;
+  fallbackProvider?: ProviderType;
   systemPrompt: string;
   temperature: number;
   maxTokens: number;
+  // JSON Schema the final answer must match (structured output)
+  responseSchema: Record<string, unknown> | null;
   enabledTools: string[];
+  maxToolIterations: number;
+  maxParallelTools: number;
+  contextWindowTokens: number | null;
+  routingPolicy: RoutingPolicy | null;
+  hedgingEnabled: boolean;
+  hedgeAfterMs: number | null;
+  responseCacheEnabled: boolean;
+  responseCacheTtlSeconds: number;
   voiceEnabled: boolean;
+  // Version whose configuration the agent holds; new sessions start on it
+  publishedVersion: number;
   isActive: boolean;
   createdAt: string;
 }
 
+// Immutable snapshot of an agent's configuration
+export interface AgentVersion {
+  version: number;
+  status: 'DRAFT' | 'PUBLISHED' | 'ARCHIVED';
+  config: Record<string, unknown>;
+  createdAt: string;
+  publishedAt: string | null;
+}
+
 export interface Session {
   id: string;
   agentId: string;
   agentName?: string;
+  agentVersion?: number | null;
   customerId: string;
   channel: 'CHAT' | 'VOICE';
   status: 'ACTIVE' | 'ENDED' | 'ERROR';
@@ -106,14 +137,37 @@ export interface ToolCall {
   result?: unknown;
 }
 
+// Knowledge base chunk retrieved during a turn
+export interface Citation {
+  ref: string;
+  chunkId: string;
+  knowledgeBaseId: string;
+  documentId: string;
+  documentTitle: string;
+  position: number;
+  excerpt: string;
+  cited: boolean;
+}
+
 export interface Message {
   id: string;
+  sequenceNumber: number;
   role: 'USER' | 'ASSISTANT' | 'SYSTEM' | 'TOOL';
   content: string;
   toolCalls?: ToolCall[];
+  structuredOutput?: unknown;
+  citations?: Citation[] | null;
+  agentVersion?: number | null;
+  providerCallId?: string | null;
   createdAt: string;
 }
 
+export interface ContextSummary {
+  content: string;
+  throughSequenceNumber: number;
+  updatedAt: string;
+}
+
 export interface UsageSummary {
   period: { start: string; end: string };
   totals: {
@@ -125,6 +179,11 @@ export interface UsageSummary {
     costCents: number;
     costFormatted: string;
   };
+  cache: {
+    lookups: number;
+    hits: number;
+    hitRate: number;
+  };
 }
 
 // API Functions
@@ -160,13 +219,29 @@ export async function createAgent(data: Partial<Agent>): Promise<Agent> {
   });
 }
 
-export async function updateAgent(id: string, data: Partial<Agent>): Promise<Agent> {
+// Configuration changes are saved as a draft version (draftVersion), published separately
+export async function updateAgent(
+  id: string,
+  data: Partial<Agent>
+): Promise<Agent & { draftVersion: number | null }> {
   return request(`/agents/${id}`, {
     method: 'PUT',
     body: JSON.stringify(data),
   });
 }
 
+export async function listAgentVersions(agentId: string): Promise<{ versions: AgentVersion[] }> {
+  return request(`/agents/${agentId}/versions`);
+}
+
+// Publishing an earlier version rolls back to it
+export async function publishAgentVersion(agentId: string, version: number): Promise<Agent> {
+  return request(`/agents/${agentId}/versions/${version}/publish`, {
+    method: 'POST',
+    body: JSON.stringify({}),
+  });
+}
+
 export async function deleteAgent(id: string): Promise<void> {
   return request(`/agents/${id}`, {
     method: 'DELETE',
@@ -174,10 +249,10 @@ export async function deleteAgent(id: string): Promise<void> {
   });
 }
 
-export async function createDemoSession(agentId: string): Promise<Session> {
+export async function createDemoSession(agentId: string, agentVersion?: number): Promise<Session> {
   return request(`/agents/${agentId}/demo`, {
     method: 'POST',
-    body: JSON.stringify({}),
+    body: JSON.stringify({ agentVersion }),
   });
 }
 
@@ -197,11 +272,13 @@ export async function getSession(id: string): Promise<{
   id: string;
   agentId: string;
   agentName: string;
+  agentVersion: number | null;
   customerId: string;
   channel: string;
   status: string;
   demoMode?: boolean;
   messages: Message[];
+  contextSummary: ContextSummary | null;
   summary: {
     messageCount: number;
     totalTokens: number;
@@ -248,6 +325,110 @@ export async function sendMessage(
   });
 }
 
+/**
+ * Stop the message being processed on a session
+ * cancelled is false when no message was in flight
+ */
+export async function cancelMessage(
+  sessionId: string
+): Promise<{ sessionId: string; cancelled: boolean }> {
+  return request(`/sessions/${sessionId}/messages/cancel`, {
+    method: 'POST',
+    body: JSON.stringify({}),
+  });
+}
+
+export interface StreamHandlers {
+  onDelta?: (content: string) => void;
+  onToolCall?: (toolCall: { id: string; name: string; args: unknown }) => void;
+  onToolResult?: (result: { id: string; result: unknown; error?: string }) => void;
+}
+
+/**
+ * Send a message and receive the reply as Server-Sent Events
+ * Resolves with the final persisted message once the 'done' event arrives
+ */
+export async function streamMessage(
+  sessionId: string,
+  content: string,
+  handlers: StreamHandlers,
+  idempotencyKey?: string
+): Promise<Message & { metadata: unknown }> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    Accept: 'text/event-stream',
+  };
+  const apiKey = localStorage.getItem('apiKey');
+  if (apiKey) {
+    headers['X-API-Key'] = apiKey;
+  }
+  if (idempotencyKey) {
+    headers['X-Idempotency-Key'] = idempotencyKey;
+  }
+
+  const response = await fetch(`${API_BASE}/sessions/${sessionId}/messages`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ content }),
+  });
+
+  // Validation/auth errors are returned before the stream starts
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => null);
+    throw new ApiError(
+      response.status,
+      data?.error?.code || 'UNKNOWN_ERROR',
+      data?.error?.message || 'An error occurred',
+      data?.error?.details
+    );
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      const event = rawEvent.match(/^event: (.*)$/m)?.[1];
+      const data = JSON.parse(rawEvent.match(/^data: (.*)$/m)?.[1] ?? 'null');
+
+      switch (event) {
+        case 'delta':
+          handlers.onDelta?.(data.content);
+          break;
+        case 'tool_call':
+          handlers.onToolCall?.(data.toolCall);
+          break;
+        case 'tool_result':
+          handlers.onToolResult?.(data);
+          break;
+        case 'done':
+          return data;
+        case 'error':
+          throw new ApiError(
+            response.status,
+            data?.error?.code || 'UNKNOWN_ERROR',
+            data?.error?.message || 'An error occurred',
+            data?.error?.details
+          );
+      }
+    }
+  }
+
+  throw new ApiError(response.status, 'STREAM_INTERRUPTED', 'Connection closed before the reply finished');
+}
+
 // Usage
 export async function getUsageSummary(params?: {
   startDate?: string;
@@ -302,6 +483,84 @@ export async function getTopAgents(): Promise<{
   return request('/usage/top-agents');
 }
 
+export async function getUsageRouting(params?: {
+  startDate?: string;
+  endDate?: string;
+}): Promise<{
+  period: { start: string; end: string };
+  routes: Array<{
+    routingPolicy: RoutingPolicyType | null;
+    provider: ProviderType;
+    calls: number;
+    fallbackCalls: number;
+    failedCalls: number;
+  }>;
+  recentDecisions: Array<{
+    providerCallId: string;
+    agentId: string;
+    agentName: string;
+    routingPolicy: RoutingPolicyType;
+    routingReason: string | null;
+    provider: ProviderType;
+    isFallback: boolean;
+    status: string;
+    createdAt: string;
+  }>;
+}> {
+  const searchParams = new URLSearchParams();
+  if (params?.startDate) searchParams.set('startDate', params.startDate);
+  if (params?.endDate) searchParams.set('endDate', params.endDate);
+  const query = searchParams.toString();
+  return request(`/usage/routing${query ? `?${query}` : ''}`);
+}
+
+export interface ProviderStatusRates {
+  success: number;
+  timeout: number;
+  rateLimited: number;
+  failed: number;
+  cancelled: number;
+}
+
+export interface ProviderLatency {
+  p50: number | null;
+  p95: number | null;
+  p99: number | null;
+}
+
+export async function getUsageProviders(params?: {
+  startDate?: string;
+  endDate?: string;
+  agentId?: string;
+  bucket?: 'hour' | 'day';
+}): Promise<{
+  period: { start: string; end: string };
+  bucket: 'hour' | 'day';
+  providers: Array<{
+    provider: ProviderType;
+    requests: number;
+    rates: ProviderStatusRates;
+    fallbackRate: number;
+    retries: Array<{ attempts: number; requests: number }>;
+    latencyMs: ProviderLatency;
+  }>;
+  buckets: Array<{
+    start: string;
+    provider: ProviderType;
+    requests: number;
+    rates: ProviderStatusRates;
+    latencyMs: ProviderLatency;
+  }>;
+}> {
+  const searchParams = new URLSearchParams();
+  if (params?.startDate) searchParams.set('startDate', params.startDate);
+  if (params?.endDate) searchParams.set('endDate', params.endDate);
+  if (params?.agentId) searchParams.set('agentId', params.agentId);
+  if (params?.bucket) searchParams.set('bucket', params.bucket);
+  const query = searchParams.toString();
+  return request(`/usage/providers${query ? `?${query}` : ''}`);
+}
+
 // Tools
 export async function listTools(): Promise<{
   tools: Array<{
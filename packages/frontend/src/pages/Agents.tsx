@@ -5,7 +5,7 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
-import { Bot, Plus, Settings, Trash2, MessageSquare } from 'lucide-react';
+import { Bot, Plus, Settings, Trash2, MessageSquare, History } from 'lucide-react';
 import * as api from '../api/client';
 import { useAuth } from '../hooks/useAuth';
 
@@ -16,6 +16,7 @@ export default function Agents() {
 
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [editingAgent, setEditingAgent] = useState<any | null>(null);
+  const [historyAgent, setHistoryAgent] = useState<api.Agent | null>(null);
   const [deleteError, setDeleteError] = useState<string | null>(null);
 
   const { data, isLoading } = useQuery({
@@ -35,7 +36,7 @@ export default function Agents() {
   });
 
   const demoSessionMutation = useMutation({
-    mutationFn: api.createDemoSession,
+    mutationFn: (agentId: string) => api.createDemoSession(agentId),
     onSuccess: (session) => {
       navigate(`/sessions/${session.id}`);
     },
@@ -146,6 +147,8 @@ export default function Agents() {
 
               <div className="mt-4 pt-4 border-t border-gray-100 flex items-center justify-between">
                 <div className="text-xs text-gray-500">
+                  <span>v{agent.publishedVersion}</span>
+                  <span className="mx-2">·</span>
                   <span>Temp: {agent.temperature}</span>
                   <span className="mx-2">·</span>
                   <span>Max: {agent.maxTokens} tokens</span>
@@ -162,6 +165,14 @@ export default function Agents() {
                     Try Chat
                   </button>
 
+                  <button
+                    onClick={() => setHistoryAgent(agent)}
+                    className="p-1 text-gray-400 hover:text-gray-600"
+                    title="Version history"
+                  >
+                    <History className="w-4 h-4" />
+                  </button>
+
                   {isAdmin && (
                     <>
                       <button
@@ -215,6 +226,10 @@ export default function Agents() {
           }}
         />
       )}
+
+      {historyAgent && (
+        <AgentVersionsModal agent={historyAgent} onClose={() => setHistoryAgent(null)} />
+      )}
     </div>
   );
 }
@@ -235,43 +250,70 @@ function CreateAgentModal({
   const [formData, setFormData] = useState({
     name: agent?.name || '',
     description: agent?.description || '',
-    primaryProvider: (agent?.primaryProvider || 'VENDOR_A') as
-      | 'VENDOR_A'
-      | 'VENDOR_B',
-    fallbackProvider: (agent?.fallbackProvider || '') as
-      | ''
-      | 'VENDOR_A'
-      | 'VENDOR_B',
+    primaryProvider: (agent?.primaryProvider || 'VENDOR_A') as api.ProviderType,
+    fallbackProvider: (agent?.fallbackProvider || '') as '' | api.ProviderType,
     systemPrompt:
       agent?.systemPrompt || 'You are a helpful AI assistant.',
     temperature: agent?.temperature ?? 0.7,
     maxTokens: agent?.maxTokens ?? 1024,
     enabledTools: agent?.enabledTools || [],
+    maxToolIterations: agent?.maxToolIterations ?? 5,
+    contextWindowTokens: (agent?.contextWindowTokens ?? null) as number | null,
+    hedgingEnabled: agent?.hedgingEnabled || false,
+    hedgeAfterMs: (agent?.hedgeAfterMs ?? null) as number | null,
+    responseCacheEnabled: agent?.responseCacheEnabled || false,
+    responseCacheTtlSeconds: agent?.responseCacheTtlSeconds ?? 3600,
+    responseSchema: agent?.responseSchema ? JSON.stringify(agent.responseSchema, null, 2) : '',
     voiceEnabled: agent?.voiceEnabled || false,
   });
+  const [schemaError, setSchemaError] = useState<string | null>(null);
 
+  // Edits are saved as a draft version, published right away unless saved as a draft only
   const mutation = useMutation({
-    mutationFn: (data: typeof formData) =>
-      agent
-        ? api.updateAgent(agent.id, {
-            ...data,
-            fallbackProvider:
-              data.fallbackProvider === '' ? null : data.fallbackProvider,
-          })
-        : api.createAgent({
-            ...data,
-            fallbackProvider:
-              data.fallbackProvider === '' ? null : data.fallbackProvider,
-          }),
+    mutationFn: async ({ data, publish }: { data: typeof formData; publish: boolean }) => {
+      if (!agent) {
+        return api.createAgent({
+          ...data,
+          fallbackProvider:
+            data.fallbackProvider === '' ? null : data.fallbackProvider,
+          responseSchema: data.responseSchema.trim() ? JSON.parse(data.responseSchema) : null,
+        });
+      }
+
+      const updated = await api.updateAgent(agent.id, {
+        ...data,
+        fallbackProvider:
+          data.fallbackProvider === '' ? null : data.fallbackProvider,
+        responseSchema: data.responseSchema.trim() ? JSON.parse(data.responseSchema) : null,
+      });
+      if (publish && updated.draftVersion) {
+        return api.publishAgentVersion(agent.id, updated.draftVersion);
+      }
+      return updated;
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['agents'] });
+      queryClient.invalidateQueries({ queryKey: ['agentVersions'] });
       onClose();
     },
   });
 
+  const save = (publish: boolean) => {
+    if (formData.responseSchema.trim()) {
+      try {
+        JSON.parse(formData.responseSchema);
+      } catch {
+        setSchemaError('Response schema must be valid JSON');
+        return;
+      }
+    }
+    setSchemaError(null);
+    mutation.mutate({ data: formData, publish });
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    mutation.mutate(formData);
+    save(true);
   };
 
   return (
@@ -327,6 +369,7 @@ function CreateAgentModal({
               >
                 <option value="VENDOR_A">Vendor A</option>
                 <option value="VENDOR_B">Vendor B</option>
+                <option value="OPENAI_COMPATIBLE">OpenAI-compatible</option>
               </select>
             </div>
 
@@ -345,6 +388,7 @@ function CreateAgentModal({
                 <option value="">None</option>
                 <option value="VENDOR_A">Vendor A</option>
                 <option value="VENDOR_B">Vendor B</option>
+                <option value="OPENAI_COMPATIBLE">OpenAI-compatible</option>
               </select>
             </div>
           </div>
@@ -401,6 +445,40 @@ function CreateAgentModal({
                 max="4096"
               />
             </div>
+
+            <div>
+              <label className="label">Max Tool Iterations</label>
+              <input
+                type="number"
+                value={formData.maxToolIterations}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    maxToolIterations: parseInt(e.target.value),
+                  })
+                }
+                className="input"
+                min="1"
+                max="20"
+              />
+            </div>
+
+            <div>
+              <label className="label">Context Window (tokens)</label>
+              <input
+                type="number"
+                value={formData.contextWindowTokens ?? ''}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    contextWindowTokens: e.target.value ? parseInt(e.target.value) : null,
+                  })
+                }
+                className="input"
+                placeholder="Provider default"
+                min="2048"
+              />
+            </div>
           </div>
 
           <div className="flex items-center space-x-4">
@@ -437,6 +515,91 @@ function CreateAgentModal({
             </label>
           </div>
 
+          <div className="grid grid-cols-2 gap-4 items-end">
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={formData.hedgingEnabled}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    hedgingEnabled: e.target.checked,
+                  })
+                }
+                className="mr-2"
+              />
+              Hedge Slow Requests
+            </label>
+
+            <div>
+              <label className="label">Hedge After (ms)</label>
+              <input
+                type="number"
+                value={formData.hedgeAfterMs ?? ''}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    hedgeAfterMs: e.target.value ? parseInt(e.target.value) : null,
+                  })
+                }
+                className="input"
+                placeholder="Recent p90"
+                min="50"
+                disabled={!formData.hedgingEnabled}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 items-end">
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={formData.responseCacheEnabled}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    responseCacheEnabled: e.target.checked,
+                  })
+                }
+                className="mr-2"
+              />
+              Cache Responses
+            </label>
+
+            <div>
+              <label className="label">Cache TTL (s)</label>
+              <input
+                type="number"
+                value={formData.responseCacheTtlSeconds}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    responseCacheTtlSeconds: parseInt(e.target.value) || 3600,
+                  })
+                }
+                className="input"
+                min="10"
+                disabled={!formData.responseCacheEnabled}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="label">Response JSON Schema (optional)</label>
+            <textarea
+              value={formData.responseSchema}
+              onChange={(e) =>
+                setFormData({
+                  ...formData,
+                  responseSchema: e.target.value,
+                })
+              }
+              className="input h-24 font-mono text-xs"
+              placeholder='{ "type": "object", "properties": { ... } }'
+            />
+            {schemaError && <p className="mt-1 text-sm text-red-600">{schemaError}</p>}
+          </div>
+
           {mutation.error && (
             <div className="p-3 text-sm text-red-600 bg-red-50 rounded-lg">
               {(mutation.error as any).message ||
@@ -452,6 +615,16 @@ function CreateAgentModal({
             >
               Cancel
             </button>
+            {agent && (
+              <button
+                type="button"
+                onClick={() => save(false)}
+                disabled={mutation.isPending}
+                className="btn-secondary"
+              >
+                Save as Draft
+              </button>
+            )}
             <button
               type="submit"
               disabled={mutation.isPending}
@@ -462,7 +635,7 @@ function CreateAgentModal({
                   ? 'Saving...'
                   : 'Creating...'
                 : agent
-                ? 'Save Changes'
+                ? 'Save & Publish'
                 : 'Create Agent'}
             </button>
           </div>
@@ -471,3 +644,227 @@ function CreateAgentModal({
     </div>
   );
 }
+
+/* ------------------------------------------------------------------ */
+/* Version History Modal                                               */
+/* ------------------------------------------------------------------ */
+
+const VERSION_STATUS_STYLES: Record<api.AgentVersion['status'], string> = {
+  DRAFT: 'bg-yellow-100 text-yellow-700',
+  PUBLISHED: 'bg-green-100 text-green-700',
+  ARCHIVED: 'bg-gray-100 text-gray-600',
+};
+
+function AgentVersionsModal({ agent, onClose }: { agent: api.Agent; onClose: () => void }) {
+  const { isAdmin } = useAuth();
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['agentVersions', agent.id],
+    queryFn: () => api.listAgentVersions(agent.id),
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: (version: number) => api.publishAgentVersion(agent.id, version),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['agents'] });
+      queryClient.invalidateQueries({ queryKey: ['agentVersions', agent.id] });
+    },
+  });
+
+  const demoSessionMutation = useMutation({
+    mutationFn: (version: number) => api.createDemoSession(agent.id, version),
+    onSuccess: (session) => {
+      navigate(`/sessions/${session.id}`);
+    },
+  });
+
+  // Versions are listed newest first; each is compared with the one before it
+  const versions = data?.versions ?? [];
+  const selectedIndex = Math.max(
+    versions.findIndex((v) => v.version === selectedVersion),
+    0
+  );
+  const selected = versions[selectedIndex];
+  const previous = versions[selectedIndex + 1];
+  const published = versions.find((v) => v.status === 'PUBLISHED');
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900">{agent.name}: Version History</h2>
+          <button onClick={onClose} className="btn-secondary">
+            Close
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="p-6 text-sm text-gray-500">Loading versions...</div>
+        ) : (
+          <div className="flex flex-1 min-h-0">
+            <ul className="w-56 border-r border-gray-200 overflow-y-auto">
+              {versions.map((v) => (
+                <li key={v.version}>
+                  <button
+                    onClick={() => setSelectedVersion(v.version)}
+                    className={`w-full text-left px-4 py-3 border-b border-gray-100 hover:bg-gray-50 ${
+                      v.version === selected?.version ? 'bg-blue-50' : ''
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-gray-900">v{v.version}</span>
+                      <span
+                        className={`px-2 py-0.5 text-xs rounded-full ${VERSION_STATUS_STYLES[v.status]}`}
+                      >
+                        {v.status.toLowerCase()}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-500">{new Date(v.createdAt).toLocaleString()}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {selected && (
+              <div className="flex-1 p-6 overflow-y-auto space-y-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h3 className="font-medium text-gray-900">
+                      v{selected.version}
+                      {previous ? ` compared with v${previous.version}` : ' (initial version)'}
+                    </h3>
+                    {selected.publishedAt && (
+                      <p className="text-xs text-gray-500">
+                        Last published {new Date(selected.publishedAt).toLocaleString()}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => demoSessionMutation.mutate(selected.version)}
+                      disabled={demoSessionMutation.isPending}
+                      className="btn-secondary"
+                      title="Try this version in a demo chat (no billing)"
+                    >
+                      <MessageSquare className="w-4 h-4 mr-1" />
+                      Try
+                    </button>
+                    {isAdmin && selected.status !== 'PUBLISHED' && (
+                      <button
+                        onClick={() => publishMutation.mutate(selected.version)}
+                        disabled={publishMutation.isPending}
+                        className="btn-primary"
+                      >
+                        {published && selected.version < published.version ? 'Roll Back' : 'Publish'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {publishMutation.error && (
+                  <div className="p-3 text-sm text-red-600 bg-red-50 rounded-lg">
+                    {(publishMutation.error as any).message || 'Failed to publish version'}
+                  </div>
+                )}
+
+                <VersionDiff before={previous?.config} after={selected.config} />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function VersionDiff({
+  before,
+  after,
+}: {
+  before?: Record<string, unknown>;
+  after: Record<string, unknown>;
+}) {
+  const changed = Object.keys(after).filter(
+    (field) => !before || formatConfigValue(before[field]) !== formatConfigValue(after[field])
+  );
+
+  if (changed.length === 0) {
+    return <p className="text-sm text-gray-500">No configuration changes</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {changed.map((field) => (
+        <div key={field}>
+          <p className="text-sm font-medium text-gray-700 mb-1">{field}</p>
+          <pre className="p-2 bg-gray-50 rounded-lg text-xs whitespace-pre-wrap break-words">
+            {diffLines(
+              before ? formatConfigValue(before[field]) : '',
+              formatConfigValue(after[field])
+            ).map((line, i) => (
+              <div
+                key={i}
+                className={
+                  line.type === 'added'
+                    ? 'bg-green-50 text-green-800'
+                    : line.type === 'removed'
+                    ? 'bg-red-50 text-red-800'
+                    : 'text-gray-600'
+                }
+              >
+                {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                {line.text}
+              </div>
+            ))}
+          </pre>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function formatConfigValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+/**
+ * Line diff of two texts (longest common subsequence)
+ */
+function diffLines(
+  before: string,
+  after: string
+): Array<{ type: 'same' | 'added' | 'removed'; text: string }> {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  // lcs[i][j]: length of the longest common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: Array<{ type: 'same' | 'added' | 'removed'; text: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+
+  return lines;
+}
@@ -8,11 +8,14 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import {
   ArrowLeft,
   Send,
+  Square,
   User,
   Bot,
   Loader2,
   StopCircle,
   Wrench,
+  ScrollText,
+  BookOpen,
 } from 'lucide-react';
 import * as api from '../api/client';
 import { useAuth } from '../hooks/useAuth';
@@ -26,6 +29,8 @@ export default function Chat() {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [input, setInput] = useState('');
   const [showVoice, setShowVoice] = useState(false);
+  const [streamingText, setStreamingText] = useState('');
+  const [streamingTools, setStreamingTools] = useState<string[]>([]);
 
   const { data: session, isLoading } = useQuery({
     queryKey: ['session', sessionId],
@@ -36,13 +41,31 @@ export default function Chat() {
   });
 
   const sendMutation = useMutation({
-    mutationFn: (content: string) =>
-      api.sendMessage(sessionId!, content, `msg_${Date.now()}`),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['session', sessionId] });
+    mutationFn: (content: string) => {
+      setStreamingText('');
+      setStreamingTools([]);
+      return api.streamMessage(
+        sessionId!,
+        content,
+        {
+          onDelta: (delta) => setStreamingText((text) => text + delta),
+          onToolCall: (toolCall) => setStreamingTools((tools) => [...tools, toolCall.name]),
+        },
+        `msg_${Date.now()}`
+      );
+    },
+    onSettled: async () => {
+      // Keep the streamed bubble until the persisted transcript replaces it
+      await queryClient.invalidateQueries({ queryKey: ['session', sessionId] });
+      setStreamingText('');
+      setStreamingTools([]);
     },
   });
 
+  const cancelMutation = useMutation({
+    mutationFn: () => api.cancelMessage(sessionId!),
+  });
+
   const endMutation = useMutation({
     mutationFn: () => api.endSession(sessionId!),
     onSuccess: () => {
@@ -53,7 +76,7 @@ export default function Chat() {
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [session?.messages]);
+  }, [session?.messages, streamingText]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -116,6 +139,11 @@ export default function Chat() {
           <div>
             <h1 className="text-xl font-semibold text-gray-900">
               {session.agentName}
+              {session.agentVersion && (
+                <span className="ml-2 text-sm font-normal text-gray-500">
+                  v{session.agentVersion}
+                </span>
+              )}
             </h1>
             <p className="text-sm text-gray-500">
               Customer: {session.customerId} · {session.channel}
@@ -153,7 +181,12 @@ export default function Chat() {
       {/* Messages */}
       <div className="flex-1 overflow-y-auto py-4 space-y-4">
         {session.messages.map((message) => (
-          <MessageBubble key={message.id} message={message} />
+          <div key={message.id} className="space-y-4">
+            <MessageBubble message={message} />
+            {session.contextSummary?.throughSequenceNumber === message.sequenceNumber && (
+              <ContextSummaryNotice summary={session.contextSummary} />
+            )}
+          </div>
         ))}
 
         {sendMutation.isPending && (
@@ -161,8 +194,18 @@ export default function Chat() {
             <div className="w-8 h-8 bg-gray-100 rounded-full flex items-center justify-center">
               <Bot className="w-5 h-5 text-gray-400" />
             </div>
-            <div className="bg-gray-100 rounded-lg p-3">
-              <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+            <div className="max-w-[70%] bg-gray-100 text-gray-900 rounded-lg p-3">
+              {streamingTools.length > 0 && (
+                <p className="text-xs text-purple-700 mb-1">
+                  <Wrench className="inline w-3 h-3 mr-1" />
+                  {streamingTools.join(', ')}
+                </p>
+              )}
+              {streamingText ? (
+                <p className="whitespace-pre-wrap">{streamingText}</p>
+              ) : (
+                <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+              )}
             </div>
           </div>
         )}
@@ -221,13 +264,25 @@ export default function Chat() {
                   className="input flex-1"
                   disabled={sendMutation.isPending}
                 />
-                <button
-                  type="submit"
-                  disabled={!input.trim() || sendMutation.isPending}
-                  className="btn-primary"
-                >
-                  <Send className="w-4 h-4" />
-                </button>
+                {sendMutation.isPending && isAdmin ? (
+                  <button
+                    type="button"
+                    onClick={() => cancelMutation.mutate()}
+                    disabled={cancelMutation.isPending}
+                    className="btn-secondary"
+                    title="Stop"
+                  >
+                    <Square className="w-4 h-4" />
+                  </button>
+                ) : (
+                  <button
+                    type="submit"
+                    disabled={!input.trim() || sendMutation.isPending}
+                    className="btn-primary"
+                  >
+                    <Send className="w-4 h-4" />
+                  </button>
+                )}
               </div>
               {sendMutation.error && (
                 <p className="mt-2 text-sm text-red-600">
@@ -259,6 +314,18 @@ export default function Chat() {
   );
 }
 
+function ContextSummaryNotice({ summary }: { summary: api.ContextSummary }) {
+  return (
+    <div className="border border-dashed border-amber-300 bg-amber-50 rounded-lg p-3 text-sm text-amber-900">
+      <p className="flex items-center text-xs font-medium mb-1">
+        <ScrollText className="w-4 h-4 mr-1" />
+        Messages above are summarized for the AI provider
+      </p>
+      <p className="whitespace-pre-wrap">{summary.content}</p>
+    </div>
+  );
+}
+
 function MessageBubble({ message }: { message: api.Message }) {
   const isUser = message.role === 'USER';
   const isTool = message.role === 'TOOL';
@@ -309,6 +376,24 @@ function MessageBubble({ message }: { message: api.Message }) {
               ))}
             </div>
           )}
+
+          {message.citations?.some((c) => c.cited) && (
+            <div className="mt-2 pt-2 border-t border-gray-200/50">
+              <p className="flex items-center text-xs opacity-75 mb-1">
+                <BookOpen className="w-3 h-3 mr-1" />
+                Sources:
+              </p>
+              {message.citations
+                .filter((c) => c.cited)
+                .map((c) => (
+                  <div key={c.chunkId} className="text-xs mt-1" title={c.excerpt}>
+                    <span className="font-mono text-gray-500">[{c.ref}]</span>{' '}
+                    <span className="font-medium">{c.documentTitle}</span>
+                    <span className="text-gray-500"> · passage {c.position + 1}</span>
+                  </div>
+                ))}
+            </div>
+          )}
         </div>
         <p className="text-xs text-gray-400 mt-1">
           {new Date(message.createdAt).toLocaleTimeString()}
@@ -10,6 +10,8 @@ import {
   MessageSquare,
   TrendingUp,
   Calendar,
+  Shuffle,
+  Activity,
 } from 'lucide-react';
 import {
   BarChart,
@@ -22,11 +24,17 @@ import {
   PieChart,
   Pie,
   Cell,
+  LineChart,
+  Line,
+  Legend,
 } from 'recharts';
 import * as api from '../api/client';
 
 const COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444'];
 
+const formatRate = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+const formatLatency = (ms: number | null) => (ms === null ? '-' : `${ms.toLocaleString()}ms`);
+
 // Default to last 30 days
 const getDefaultDateRange = () => {
   const end = new Date();
@@ -43,6 +51,8 @@ export default function Usage() {
   const [groupBy, setGroupBy] = useState<'provider' | 'agent' | 'day'>('day');
   const [dateRange, setDateRange] = useState(getDefaultDateRange());
   const [tempDateRange, setTempDateRange] = useState(dateRange);
+  const [reliabilityBucket, setReliabilityBucket] = useState<'hour' | 'day'>('day');
+  const [reliabilityAgentId, setReliabilityAgentId] = useState('');
 
   const { data: summary, isLoading: summaryLoading } = useQuery({
     queryKey: ['usage', dateRange],
@@ -78,6 +88,41 @@ export default function Usage() {
     queryFn: () => api.getTopAgents(),
   });
 
+  const { data: routing } = useQuery({
+    queryKey: ['usageRouting', dateRange],
+    queryFn: () => {
+      const startDate = new Date(dateRange.startDate);
+      const endDate = new Date(dateRange.endDate);
+      endDate.setHours(23, 59, 59, 999); // Include entire end day
+
+      return api.getUsageRouting({
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+      });
+    },
+  });
+
+  const { data: agents } = useQuery({
+    queryKey: ['agents'],
+    queryFn: api.listAgents,
+  });
+
+  const { data: providerUsage } = useQuery({
+    queryKey: ['usageProviders', dateRange, reliabilityBucket, reliabilityAgentId],
+    queryFn: () => {
+      const startDate = new Date(dateRange.startDate);
+      const endDate = new Date(dateRange.endDate);
+      endDate.setHours(23, 59, 59, 999); // Include entire end day
+
+      return api.getUsageProviders({
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+        agentId: reliabilityAgentId || undefined,
+        bucket: reliabilityBucket,
+      });
+    },
+  });
+
   const handleApplyDateRange = () => {
     setDateRange(tempDateRange);
   };
@@ -123,6 +168,23 @@ export default function Usage() {
       sessions: b.sessions,
     })) ?? [];
 
+  // One row per bucket with each provider's success rate (%) as a column
+  const reliabilityProviders = providerUsage?.providers.map((p) => p.provider) ?? [];
+  const reliabilityData = Object.values(
+    (providerUsage?.buckets ?? []).reduce<Record<string, Record<string, string | number>>>(
+      (rows, b) => {
+        const date = new Date(b.start);
+        const name =
+          reliabilityBucket === 'hour'
+            ? date.toLocaleString([], { month: 'numeric', day: 'numeric', hour: '2-digit' })
+            : date.toLocaleDateString();
+        rows[b.start] = { ...(rows[b.start] ?? { name }), [b.provider]: b.rates.success * 100 };
+        return rows;
+      },
+      {}
+    )
+  );
+
   const pieData =
     groupBy === 'provider'
       ? breakdown?.breakdown.map((b) => ({
@@ -345,7 +407,7 @@ export default function Usage() {
       {/* Token Breakdown */}
       <div className="card">
         <h2 className="text-lg font-semibold text-gray-900 mb-4">Token Usage</h2>
-        <div className="grid grid-cols-2 gap-8">
+        <div className="grid grid-cols-3 gap-8">
           <div>
             <p className="text-sm text-gray-500">Input Tokens</p>
             <p className="text-3xl font-bold text-gray-900">
@@ -358,6 +420,15 @@ export default function Usage() {
               {summary?.totals.tokensOut.toLocaleString() ?? 0}
             </p>
           </div>
+          <div>
+            <p className="text-sm text-gray-500">Cache Hit Rate</p>
+            <p className="text-3xl font-bold text-gray-900">
+              {((summary?.cache.hitRate ?? 0) * 100).toFixed(1)}%
+            </p>
+            <p className="text-xs text-gray-500">
+              {summary?.cache.hits ?? 0} of {summary?.cache.lookups ?? 0} cacheable answers
+            </p>
+          </div>
         </div>
 
         {summary && summary.totals.totalTokens > 0 && (
@@ -390,6 +461,173 @@ export default function Usage() {
         )}
       </div>
 
+      {/* Routing Decisions */}
+      {routing && routing.routes.length > 0 && (
+        <div className="card">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+            <Shuffle className="w-5 h-5 text-gray-500" />
+            Routing Decisions
+          </h2>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2">Policy</th>
+                  <th className="py-2">Provider</th>
+                  <th className="py-2 text-right">Calls</th>
+                  <th className="py-2 text-right">Fallback</th>
+                  <th className="py-2 text-right">Failed</th>
+                </tr>
+              </thead>
+              <tbody>
+                {routing.routes.map((route) => (
+                  <tr
+                    key={`${route.routingPolicy}-${route.provider}`}
+                    className="border-b last:border-0"
+                  >
+                    <td className="py-2 text-gray-700">
+                      {route.routingPolicy ?? 'Primary / fallback'}
+                    </td>
+                    <td className="py-2 text-gray-900">{route.provider}</td>
+                    <td className="py-2 text-right">{route.calls.toLocaleString()}</td>
+                    <td className="py-2 text-right">{route.fallbackCalls.toLocaleString()}</td>
+                    <td className="py-2 text-right">{route.failedCalls.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Recent decisions</p>
+              {routing.recentDecisions.length > 0 ? (
+                <div className="space-y-2">
+                  {routing.recentDecisions.map((decision) => (
+                    <div key={decision.providerCallId} className="p-2 bg-gray-50 rounded-lg text-sm">
+                      <div className="flex justify-between">
+                        <span className="font-medium text-gray-900">
+                          {decision.agentName} → {decision.provider}
+                          {decision.isFallback && (
+                            <span className="ml-2 text-xs text-orange-600">fallback</span>
+                          )}
+                        </span>
+                        <span className="text-xs text-gray-500">
+                          {new Date(decision.createdAt).toLocaleString()}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-600">
+                        {decision.routingPolicy}: {decision.routingReason}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">No agents with a routing policy</p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Provider Reliability */}
+      <div className="card">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+            <Activity className="w-5 h-5 text-gray-500" />
+            Provider Reliability
+          </h2>
+          <div className="flex gap-2">
+            <select
+              value={reliabilityAgentId}
+              onChange={(e) => setReliabilityAgentId(e.target.value)}
+              className="input w-auto"
+            >
+              <option value="">All Agents</option>
+              {agents?.agents.map((agent) => (
+                <option key={agent.id} value={agent.id}>
+                  {agent.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={reliabilityBucket}
+              onChange={(e) => setReliabilityBucket(e.target.value as 'hour' | 'day')}
+              className="input w-auto"
+            >
+              <option value="day">Daily</option>
+              <option value="hour">Hourly</option>
+            </select>
+          </div>
+        </div>
+        {providerUsage && providerUsage.providers.length > 0 ? (
+          <div className="space-y-6">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2">Provider</th>
+                    <th className="py-2 text-right">Requests</th>
+                    <th className="py-2 text-right">Success</th>
+                    <th className="py-2 text-right">Timeout</th>
+                    <th className="py-2 text-right">Rate Limited</th>
+                    <th className="py-2 text-right">Failed</th>
+                    <th className="py-2 text-right">Fallback</th>
+                    <th className="py-2 text-right">Retries</th>
+                    <th className="py-2 text-right">p50</th>
+                    <th className="py-2 text-right">p95</th>
+                    <th className="py-2 text-right">p99</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {providerUsage.providers.map((p) => (
+                    <tr key={p.provider} className="border-b last:border-0">
+                      <td className="py-2 text-gray-900">{p.provider}</td>
+                      <td className="py-2 text-right">{p.requests.toLocaleString()}</td>
+                      <td className="py-2 text-right">{formatRate(p.rates.success)}</td>
+                      <td className="py-2 text-right">{formatRate(p.rates.timeout)}</td>
+                      <td className="py-2 text-right">{formatRate(p.rates.rateLimited)}</td>
+                      <td className="py-2 text-right">{formatRate(p.rates.failed)}</td>
+                      <td className="py-2 text-right">{formatRate(p.fallbackRate)}</td>
+                      <td className="py-2 text-right text-xs text-gray-600">
+                        {p.retries
+                          .map((r) => `#${r.attempts}: ${r.requests.toLocaleString()}`)
+                          .join(' · ')}
+                      </td>
+                      <td className="py-2 text-right">{formatLatency(p.latencyMs.p50)}</td>
+                      <td className="py-2 text-right">{formatLatency(p.latencyMs.p95)}</td>
+                      <td className="py-2 text-right">{formatLatency(p.latencyMs.p99)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Success rate</p>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={reliabilityData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+                    <YAxis domain={[0, 100]} tickFormatter={(value) => `${value}%`} />
+                    <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+                    <Legend />
+                    {reliabilityProviders.map((provider, index) => (
+                      <Line
+                        key={provider}
+                        type="monotone"
+                        dataKey={provider}
+                        stroke={COLORS[index % COLORS.length]}
+                        dot={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No provider calls in this period</p>
+        )}
+      </div>
+
       {/* Period Info */}
       {summary && (
         <div className="text-sm text-gray-500 text-center">
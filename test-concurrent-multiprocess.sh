@@ -0,0 +1,103 @@
+#!/bin/bash
+#
+# Multi-process session locking test
+# Starts two API processes against the same database with PostgreSQL advisory locks,
+# sends concurrent messages for one session to both, and fails if any sequence number repeats.
+#
+# Usage: ADMIN_KEY=... AGENT_ID=... ./test-concurrent-multiprocess.sh
+# Requires DATABASE_URL (or packages/backend/.env) and a seeded database.
+
+ADMIN_KEY="${ADMIN_KEY:-vb_live_0MnndbBHRzGaKDPxPLNuiGs5qNoUbeMk}"
+AGENT_ID="${AGENT_ID:-45430cb3-9d34-4f23-8334-55fb394f73f4}"
+PORTS=(3101 3102)
+MESSAGES=10
+
+cd "$(dirname "$0")/packages/backend" || exit 1
+
+PIDS=()
+cleanup() {
+  for pid in "${PIDS[@]}"; do
+    kill "$pid" 2>/dev/null
+  done
+  wait 2>/dev/null
+}
+trap cleanup EXIT
+
+echo "=== Starting ${#PORTS[@]} API processes (SESSION_LOCK_STRATEGY=postgres) ==="
+for port in "${PORTS[@]}"; do
+  PORT=$port SESSION_LOCK_STRATEGY=postgres SESSION_LOCK_WAIT_MS=30000 LOG_LEVEL=warn \
+    npx --no-install tsx src/index.ts > "/tmp/multiprocess-$port.log" 2>&1 &
+  PIDS+=($!)
+done
+
+for port in "${PORTS[@]}"; do
+  for _ in $(seq 1 60); do
+    curl -sf "http://localhost:$port/health" > /dev/null && break
+    sleep 1
+  done
+  if ! curl -sf "http://localhost:$port/health" > /dev/null; then
+    echo "Server on port $port did not start; see /tmp/multiprocess-$port.log"
+    exit 1
+  fi
+  echo "Server on port $port is up"
+done
+
+echo ""
+echo "=== Creating new session ==="
+SESSION_RESPONSE=$(curl -s -X POST "http://localhost:${PORTS[0]}/api/v1/sessions" \
+  -H "X-API-Key: $ADMIN_KEY" \
+  -H "Content-Type: application/json" \
+  -d '{"agentId":"'"$AGENT_ID"'","customerId":"test-multiprocess-'"$(date +%s)"'","channel":"CHAT"}')
+
+SESSION_ID=$(echo "$SESSION_RESPONSE" | grep -o '"id":"[^"]*"' | head -1 | cut -d'"' -f4)
+if [ -z "$SESSION_ID" ]; then
+  echo "Failed to create session: $SESSION_RESPONSE"
+  exit 1
+fi
+echo "Session ID: $SESSION_ID"
+
+echo ""
+echo "=== Sending $MESSAGES concurrent messages across both processes ==="
+REQUEST_PIDS=()
+for i in $(seq 1 $MESSAGES); do
+  port=${PORTS[$((i % ${#PORTS[@]}))]}
+  (curl -s -o "/tmp/multiprocess-response-$i.json" -w "%{http_code}" \
+    -X POST "http://localhost:$port/api/v1/sessions/$SESSION_ID/messages" \
+    -H "X-API-Key: $ADMIN_KEY" \
+    -H "Content-Type: application/json" \
+    -H "X-Idempotency-Key: multiprocess-test-$i-$(date +%s%N)" \
+    -d '{"content":"Test message '"$i"'"}' > "/tmp/multiprocess-status-$i.txt") &
+  REQUEST_PIDS+=($!)
+done
+wait "${REQUEST_PIDS[@]}"
+echo "All requests completed"
+
+SUCCEEDED=0
+for i in $(seq 1 $MESSAGES); do
+  status=$(cat "/tmp/multiprocess-status-$i.txt")
+  echo "Message $i: HTTP $status"
+  [ "$status" = "200" ] && SUCCEEDED=$((SUCCEEDED + 1))
+done
+
+echo ""
+echo "=== Checking transcript sequence numbers ==="
+SEQUENCES=$(curl -s "http://localhost:${PORTS[1]}/api/v1/sessions/$SESSION_ID" \
+  -H "X-API-Key: $ADMIN_KEY" | grep -o '"sequenceNumber":[0-9]*' | cut -d: -f2)
+
+TOTAL=$(echo "$SEQUENCES" | grep -c .)
+DUPLICATES=$(echo "$SEQUENCES" | sort -n | uniq -d)
+
+echo "Messages accepted: $SUCCEEDED/$MESSAGES"
+echo "Transcript messages: $TOTAL"
+echo "Sequence numbers: $(echo $SEQUENCES)"
+
+if [ -n "$DUPLICATES" ]; then
+  echo "FAIL: duplicate sequence numbers: $(echo $DUPLICATES)"
+  exit 1
+fi
+if [ "$SUCCEEDED" -eq 0 ] || [ "$TOTAL" -eq 0 ]; then
+  echo "FAIL: no message was accepted"
+  exit 1
+fi
+
+echo "PASS: no duplicate sequence numbers"